@@ -166,6 +166,18 @@ export const MapView: React.FC<MapViewProps> = ({
           />
         )}
         
+        {/* Inferred connectors (not in OSM) */}
+        {selectedRoute?.inferred_segments?.map((segment, i) => (
+          <Polyline
+            key={`inferred-${i}`}
+            positions={segment.map(([lon, lat]) => [lat, lon] as [number, number])}
+            color="#f97316"
+            weight={4}
+            opacity={0.9}
+            dashArray="4 6"
+          />
+        ))}
+        
         {/* Start marker */}
         {startPoint && (
           <Marker
@@ -17,7 +17,7 @@ const formatDuration = (minutes: number | undefined): string => {
   return hours > 0 ? `${hours}h ${mins}min` : `${mins}min`
 }
 
-const formatElevation = (meters: number | undefined): string => {
+const formatElevation = (meters: number | null | undefined): string => {
   if (meters === undefined || meters === null || isNaN(meters)) return '-'
   if (meters >= 1000) {
     return `${(meters / 1000).toFixed(2)}km`
@@ -1,6 +1,7 @@
-import React from 'react'
-import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip } from 'recharts'
-import { Route } from '../../types/route'
+import React, { useState } from 'react'
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip, ReferenceArea } from 'recharts'
+import { Route, SteepestSection } from '../../types/route'
+import { apiService } from '../../services/api'
 
 interface RouteDetailsProps {
   route: Route | null
@@ -13,7 +14,7 @@ const formatDuration = (minutes: number | undefined): string => {
   return hours > 0 ? `${hours}h ${mins}min` : `${mins}min`
 }
 
-const formatElevation = (meters: number | undefined): string => {
+const formatElevation = (meters: number | null | undefined): string => {
   if (meters === undefined || meters === null || isNaN(meters)) return '-'
   if (meters >= 1000) {
     return `${(meters / 1000).toFixed(2)}km`
@@ -21,6 +22,12 @@ const formatElevation = (meters: number | undefined): string => {
   return `${meters}m`
 }
 
+// Minutes décimales → m:ss
+const formatSplitTime = (minutes: number): string => {
+  const totalSeconds = Math.round(minutes * 60)
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`
+}
+
 const getDifficultyColor = (difficulty: string) => {
   switch (difficulty) {
     case 'easy':
@@ -49,6 +56,16 @@ const getTerrainIcon = (terrain: string) => {
   }
 }
 
+const formatGrade = (grade: number | undefined): string => {
+  if (grade === undefined || grade === null || isNaN(grade)) return '-'
+  return `${grade > 0 ? '+' : ''}${grade.toFixed(1)}%`
+}
+
+const formatSection = (section: SteepestSection | null | undefined): string => {
+  if (!section) return '-'
+  return `${formatGrade(section.grade)} (km ${section.start.toFixed(1)}–${section.end.toFixed(1)})`
+}
+
 // Generate elevation data from route profile or coordinates
 const generateElevationData = (route: Route) => {
   // Si on a un profil d'élévation depuis le backend, l'utiliser
@@ -84,7 +101,23 @@ const generateElevationData = (route: Route) => {
   return data
 }
 
+// Télécharge l'export GPX de l'itinéraire
+const downloadGpx = async (route: Route) => {
+  const blob = await apiService.exportRouteGpx(route.id)
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${route.name || 'route'}.gpx`
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
+
 export const RouteDetails: React.FC<RouteDetailsProps> = ({ route }) => {
+  const [isExporting, setIsExporting] = useState(false)
+  const [exportError, setExportError] = useState<string | null>(null)
+
   if (!route) {
     return (
       <div className="bg-white rounded-lg shadow-md p-6">
@@ -98,11 +131,36 @@ export const RouteDetails: React.FC<RouteDetailsProps> = ({ route }) => {
 
   const elevationData = generateElevationData(route)
 
+  const handleExportGpx = async () => {
+    setIsExporting(true)
+    setExportError(null)
+    try {
+      await downloadGpx(route)
+    } catch (error) {
+      console.error('GPX export failed', error)
+      setExportError('GPX export failed. Generated routes expire after an hour: try generating it again.')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
   return (
     <div className="bg-white rounded-lg shadow-md p-6">
       {/* Header */}
       <div className="mb-6">
-        <h2 className="text-2xl font-bold text-gray-900 mb-2">{route.name}</h2>
+        <div className="flex items-start justify-between">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">{route.name}</h2>
+          <button
+            onClick={handleExportGpx}
+            disabled={isExporting}
+            className="bg-indigo-600 text-white px-3 py-2 rounded-md text-sm font-medium hover:bg-indigo-700 transition-colors disabled:opacity-50"
+          >
+            {isExporting ? 'Exporting...' : 'Download GPX'}
+          </button>
+        </div>
+        {exportError && (
+          <p className="text-sm text-red-600 mb-2">{exportError}</p>
+        )}
         <div className="flex items-center space-x-4">
           <span className={`px-3 py-1 rounded-full text-sm font-medium ${getDifficultyColor(route.difficulty ?? '-')}`}>
             {(route.difficulty && typeof route.difficulty === 'string' && route.difficulty.length > 0)
@@ -160,20 +218,39 @@ export const RouteDetails: React.FC<RouteDetailsProps> = ({ route }) => {
             <LineChart data={elevationData}>
               <XAxis 
                 dataKey="distance" 
-                tickFormatter={(value: number) => `${value}km`}
+                type="number"
+                domain={[0, 'dataMax']}
+                tickFormatter={(value: number) => `${value.toFixed(1)}km`}
                 axisLine={false}
                 tickLine={false}
               />
               <YAxis 
                 dataKey="elevation" 
-                tickFormatter={(value: number) => `${value}m`}
+                domain={['dataMin - 10', 'dataMax + 10']}
+                tickFormatter={(value: number) => `${Math.round(value)}m`}
                 axisLine={false}
                 tickLine={false}
               />
               <Tooltip 
                 formatter={(value: number, _name: string) => [`${value.toFixed(0)}m`, 'Elevation']}
-                labelFormatter={(value: number) => `Distance: ${value.toFixed(1)}km`}
+                labelFormatter={(value: number) => `Distance: ${value.toFixed(2)}km`}
               />
+              {route.elevation_stats?.steepest_1km && (
+                <ReferenceArea
+                  x1={route.elevation_stats.steepest_1km.start}
+                  x2={route.elevation_stats.steepest_1km.end}
+                  fill="#f97316"
+                  fillOpacity={0.12}
+                />
+              )}
+              {route.elevation_stats?.steepest_100m && (
+                <ReferenceArea
+                  x1={route.elevation_stats.steepest_100m.start}
+                  x2={route.elevation_stats.steepest_100m.end}
+                  fill="#dc2626"
+                  fillOpacity={0.3}
+                />
+              )}
               <Line 
                 type="monotone" 
                 dataKey="elevation" 
@@ -184,8 +261,62 @@ export const RouteDetails: React.FC<RouteDetailsProps> = ({ route }) => {
             </LineChart>
           </ResponsiveContainer>
         </div>
+        {route.elevation_stats && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4 text-sm">
+            <div>
+              <div className="text-gray-500">Max grade</div>
+              <div className="font-medium text-gray-900">{route.elevation_stats.max_grade.toFixed(1)}%</div>
+            </div>
+            <div>
+              <div className="text-gray-500">Average grade</div>
+              <div className="font-medium text-gray-900">{route.elevation_stats.average_grade.toFixed(1)}%</div>
+            </div>
+            <div>
+              <div className="text-gray-500">Steepest 100 m</div>
+              <div className="font-medium text-red-600">{formatSection(route.elevation_stats.steepest_100m)}</div>
+            </div>
+            <div>
+              <div className="text-gray-500">Steepest 1 km</div>
+              <div className="font-medium text-orange-600">{formatSection(route.elevation_stats.steepest_1km)}</div>
+            </div>
+          </div>
+        )}
       </div>
 
+      {/* Kilometre splits */}
+      {route.splits && route.splits.length > 0 && (
+        <div className="mb-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            Predicted Splits
+            {route.duration_model && (
+              <span className="ml-2 text-sm font-normal text-gray-500">({route.duration_model})</span>
+            )}
+          </h3>
+          <div className="max-h-64 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="text-gray-500 text-left">
+                <tr>
+                  <th className="py-1 font-medium">Km</th>
+                  <th className="py-1 font-medium">Time</th>
+                  <th className="py-1 font-medium">Pace</th>
+                  <th className="py-1 font-medium">D+ / D-</th>
+                </tr>
+              </thead>
+              <tbody>
+                {route.splits.map(split => (
+                  <tr key={split.km} className="border-t border-gray-100">
+                    <td className="py-1">{split.km}</td>
+                    <td className="py-1">{formatSplitTime(split.duration)}</td>
+                    <td className="py-1">{split.distance > 0 ? formatSplitTime(split.duration / (split.distance / 1000)) : '-'}/km</td>
+                    <td className="py-1">+{split.ascent}m / -{split.descent}m</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Directions */}
       <div className="mb-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Directions</h3>
@@ -223,6 +354,8 @@ export const RouteDetails: React.FC<RouteDetailsProps> = ({ route }) => {
                     return 'bg-blue-500'
                   case 'unpaved':
                     return 'bg-orange-500'
+                  case 'mixed':
+                    return 'bg-yellow-500'
                   case 'unknown':
                     return 'bg-gray-500'
                   default:
@@ -236,6 +369,8 @@ export const RouteDetails: React.FC<RouteDetailsProps> = ({ route }) => {
                     return 'Paved (Asphalt/Concrete)'
                   case 'unpaved':
                     return 'Unpaved (Dirt/Gravel)'
+                  case 'mixed':
+                    return 'Mixed (Compacted/Unknown)'
                   case 'unknown':
                     return 'Unknown'
                   default:
@@ -265,6 +400,13 @@ export const RouteDetails: React.FC<RouteDetailsProps> = ({ route }) => {
                       style={{ width: `${surface.percentage}%` }}
                     ></div>
                   </div>
+                  {surface.categories && surface.categories.length > 0 && (
+                    <div className="text-xs text-gray-500">
+                      {surface.categories
+                        .map(c => `${c.category.replace(/_/g, ' ')} ${c.percentage.toFixed(0)}%`)
+                        .join(' · ')}
+                    </div>
+                  )}
                 </div>
               )
             })}
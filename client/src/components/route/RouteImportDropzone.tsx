@@ -0,0 +1,71 @@
+import React, { useRef, useState } from 'react'
+
+interface RouteImportDropzoneProps {
+  onImport: (file: File) => Promise<void>
+  isImporting?: boolean
+}
+
+const ACCEPTED_EXTENSIONS = ['.gpx', '.kml', '.geojson', '.json']
+
+const isAcceptedFile = (file: File) =>
+  ACCEPTED_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext))
+
+export const RouteImportDropzone: React.FC<RouteImportDropzoneProps> = ({ onImport, isImporting = false }) => {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isDragging, setIsDragging] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+    setMessage(null)
+    for (const file of Array.from(files)) {
+      if (!isAcceptedFile(file)) {
+        setMessage(`Format non pris en charge : ${file.name} (GPX, KML ou GeoJSON)`)
+        continue
+      }
+      try {
+        await onImport(file)
+        setMessage(`${file.name} importé`)
+      } catch (error: any) {
+        setMessage(error?.response?.data?.message || `Échec de l'import de ${file.name}`)
+      }
+    }
+  }
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault()
+        setIsDragging(true)
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault()
+        setIsDragging(false)
+        handleFiles(e.dataTransfer.files)
+      }}
+      onClick={() => inputRef.current?.click()}
+      className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors ${
+        isDragging ? 'border-green-600 bg-green-50' : 'border-gray-300 bg-white hover:border-green-500'
+      }`}
+    >
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_EXTENSIONS.join(',')}
+        multiple
+        className="hidden"
+        data-testid="route-import-input"
+        onChange={(e) => {
+          handleFiles(e.target.files)
+          e.target.value = ''
+        }}
+      />
+      <p className="font-medium text-gray-900">
+        {isImporting ? 'Import en cours...' : 'Déposez une trace GPX, KML ou GeoJSON'}
+      </p>
+      <p className="text-sm text-gray-500 mt-1">ou cliquez pour choisir un fichier</p>
+      {message && <p className="text-sm text-gray-700 mt-3">{message}</p>}
+    </div>
+  )
+}
@@ -1,2 +1,3 @@
 export { RouteCard } from './RouteCard'
 export { RouteDetails } from './RouteDetails'
+export { RouteImportDropzone } from './RouteImportDropzone'
@@ -1,11 +1,22 @@
-import { useEffect } from 'react'
+import { useEffect, useState } from 'react'
 import { Link } from 'react-router-dom'
 import { useRoutesStore } from '../store/routes-store'
 import { useAuth } from '../hooks/useAuth'
+import { RouteImportDropzone } from '../components/route'
 
 export const MyRoutes = () => {
-  const { routes, isLoading, error, getUserRoutes } = useRoutesStore()
+  const { routes, isLoading, error, getUserRoutes, importRoute } = useRoutesStore()
   const { isAuthenticated } = useAuth()
+  const [isImporting, setIsImporting] = useState(false)
+
+  const handleImport = async (file: File) => {
+    setIsImporting(true)
+    try {
+      await importRoute(file)
+    } finally {
+      setIsImporting(false)
+    }
+  }
 
   useEffect(() => {
     if (isAuthenticated) {
@@ -74,6 +85,10 @@ export const MyRoutes = () => {
           </p>
         </div>
 
+        <div className="mb-8">
+          <RouteImportDropzone onImport={handleImport} isImporting={isImporting} />
+        </div>
+
         {routes.length === 0 ? (
           <div className="text-center py-12">
             <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
@@ -117,7 +132,7 @@ export const MyRoutes = () => {
                     </div>
                     <div>
                       <span className="text-sm text-gray-500">Dénivelé</span>
-                      <p className="font-medium">{route.elevation} m</p>
+                      <p className="font-medium">{route.elevation != null ? `${route.elevation} m` : '-'}</p>
                     </div>
                     <div>
                       <span className="text-sm text-gray-500">Difficulté</span>
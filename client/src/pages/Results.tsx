@@ -5,6 +5,7 @@ import { MapView } from '../components/map/MapView'
 import { RouteCard } from '../components/route/RouteCard'
 import { RouteDetails } from '../components/route/RouteDetails'
 import { useRouteVisualization } from '../hooks/useRouteVisualization'
+import { useRoutesStore } from '../store/routes-store'
 
 interface ResultsProps {
   routes?: Route[]
@@ -21,6 +22,7 @@ export const Results: React.FC<ResultsProps> = ({
   const location = useLocation()
   const stateRoutes = location.state?.routes as Route[] | undefined
   const routes = stateRoutes || propRoutes || []
+  const saveRoute = useRoutesStore((state) => state.saveRoute)
   
   console.log('Results page - location.state:', location.state)
   console.log('Results page - stateRoutes:', stateRoutes)
@@ -151,7 +153,7 @@ export const Results: React.FC<ResultsProps> = ({
                     selectRoute(route)
                     zoomToRoute(route)
                   }}
-                  onSave={onSaveRoute}
+                  onSave={onSaveRoute || ((route) => saveRoute(route.id))}
                 />
               ))}
             </div>
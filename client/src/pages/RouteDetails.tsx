@@ -99,7 +99,7 @@ export const RouteDetails = () => {
                 </div>
                 <div className="text-center">
                   <div className="text-2xl font-bold text-orange-600">
-                    {currentRoute.elevation}
+                    {currentRoute.elevation ?? '-'}
                   </div>
                   <div className="text-sm text-gray-500">m de dénivelé</div>
                 </div>
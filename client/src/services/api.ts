@@ -149,12 +149,32 @@ class ApiService {
   }
 
   async getUserRoutes() {
-    const response = await this.api.get('/api/v1/routes')
+    const response = await this.api.get('/api/routes/mine')
     return response.data
   }
 
-  async saveRoute(routeId: string) {
-    const response = await this.api.post(`/api/v1/routes/${routeId}/save`)
+  // Sauvegarde un itinéraire généré (conservé temporairement côté serveur)
+  async saveRoute(routeId: string, data?: { name?: string; description?: string }) {
+    const response = await this.api.post(`/api/routes/generate/${routeId}/save`, data)
+    return response.data
+  }
+
+  // Import d'une trace GPS (GPX, KML ou GeoJSON), envoyée brute
+  async importRoute(file: File) {
+    const extension = file.name.toLowerCase().split('.').pop()
+    const contentType = extension === 'gpx' ? 'application/gpx+xml'
+      : extension === 'kml' ? 'application/vnd.google-earth.kml+xml'
+      : 'application/geo+json'
+    const response = await this.api.post('/api/routes/import', file, {
+      params: { filename: file.name },
+      headers: { 'Content-Type': contentType },
+    })
+    return response.data
+  }
+
+  // Export GPX (itinéraire généré ou sauvegardé)
+  async exportRouteGpx(routeId: string): Promise<Blob> {
+    const response = await this.api.get(`/api/routes/${routeId}/export.gpx`, { responseType: 'blob' })
     return response.data
   }
 
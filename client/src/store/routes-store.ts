@@ -21,6 +21,7 @@ interface RoutesActions {
   getRoute: (id: string) => Promise<void>
   getUserRoutes: () => Promise<void>
   saveRoute: (routeId: string) => Promise<void>
+  importRoute: (file: File) => Promise<void>
   setCurrentRoute: (route: Route | null) => void
   setSearchQuery: (query: string) => void
   setFilters: (filters: Partial<RoutesState['filters']>) => void
@@ -129,7 +130,7 @@ export const useRoutesStore = create<RoutesStore>((set, get) => ({
         // Update the route in the current list
         const { routes } = get()
         const updatedRoutes = routes.map(route =>
-          route.id === routeId ? { ...route, user_id: response.user_id } : route
+          route.id === routeId ? { ...route, user_id: response.route?.user_id } : route
         )
         
         set({
@@ -151,6 +152,16 @@ export const useRoutesStore = create<RoutesStore>((set, get) => ({
     }
   },
 
+  importRoute: async (file: File) => {
+    const response = await apiService.importRoute(file)
+
+    if (response.success) {
+      set((state) => ({ routes: [response.route, ...state.routes] }))
+    } else {
+      throw new Error(response.message || 'Failed to import route')
+    }
+  },
+
   setCurrentRoute: (route: Route | null) => set({ currentRoute: route }),
   setSearchQuery: (query: string) => set({ searchQuery: query }),
   setFilters: (filters: Partial<RoutesState['filters']>) => 
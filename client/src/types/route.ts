@@ -1,7 +1,14 @@
+export interface SurfaceCategoryShare {
+  category: string // asphalt, paving, compacted, gravel, dirt, grass...
+  distance: number // Distance in meters
+  percentage: number
+}
+
 export interface SurfaceBreakdown {
-  type: string
+  type: string // paved, unpaved or mixed
   distance: number // Distance in meters
   percentage: number
+  categories?: SurfaceCategoryShare[]
 }
 
 export interface ElevationPoint {
@@ -10,13 +17,39 @@ export interface ElevationPoint {
   coordinate: [number, number] // [longitude, latitude]
 }
 
+export interface SteepestSection {
+  start: number // Distance from start in kilometers
+  end: number // Distance from start in kilometers
+  grade: number // Percent, positive when climbing
+}
+
+export interface ElevationStats {
+  min_elevation: number // Meters
+  max_elevation: number // Meters
+  max_grade: number // Percent (absolute)
+  average_grade: number // Percent, (gain + loss) / distance
+  steepest_100m: SteepestSection | null
+  steepest_1km: SteepestSection | null
+}
+
+export type DurationModel = 'naismith' | 'tobler' | 'running'
+
+export interface KmSplit {
+  km: number // Kilometre number, from 1
+  distance: number // Meters (the last split may be shorter)
+  duration: number // Predicted minutes
+  ascent: number // Meters
+  descent: number // Meters
+}
+
 export interface Route {
   id: string
   name: string
   description?: string
   distance: number // Distance in kilometers
   duration: number // Duration in minutes
-  elevation: number // Total elevation gain in meters
+  elevation?: number | null // Total elevation gain in meters, missing when elevations are unavailable
+  elevation_loss?: number | null // Total elevation loss in meters
   difficulty: 'easy' | 'medium' | 'hard' | 'expert'
   terrain_type: 'paved' | 'unpaved' | 'mixed'
   created_at: string
@@ -27,9 +60,13 @@ export interface Route {
   // New fields from backend
   surface_breakdown?: SurfaceBreakdown[]
   elevation_profile?: ElevationPoint[]
+  elevation_stats?: ElevationStats | null
   pathEdges?: string[]
   quality_score?: number
   average_speed?: number
+  duration_model?: DurationModel
+  splits?: KmSplit[] // Predicted time per kilometre
+  inferred_segments?: Array<[number, number][]> // Inferred connectors, [[lon, lat], [lon, lat]]
 }
 
 export interface Waypoint {
@@ -58,8 +95,16 @@ export interface RouteGenerationRequest {
   distance?: number
   difficulty?: 'easy' | 'medium' | 'hard' | 'expert'
   terrain_type?: 'paved' | 'unpaved' | 'mixed'
-  elevation_gain?: number
-  pace?: number // Pace in minutes per km
+  elevation_gain?: number // Target elevation gain in meters
+  max_elevation_gain?: number // Maximum elevation gain in meters
+  pace?: number // Pace in minutes per km on flat ground
+  duration_model?: DurationModel // Grade-adjusted duration formula (default from pace)
+  profile?: string // Routing profile id (trail-runner, road-runner, hiker, stroller, wheelchair)
+  start_time?: string // Planned start (ISO 8601 with UTC offset, e.g. 2026-06-21T05:30:00+02:00)
+  num_variants?: number // Number of distinct loop variants (1-5)
+  end_lat?: number // Destination (point-to-point mode)
+  end_lon?: number
+  via?: Array<{ lat: number; lon: number }> // Intermediate waypoints, in order
 }
 
 export interface RouteGenerationResponse {
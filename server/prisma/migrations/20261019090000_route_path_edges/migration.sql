@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "routes" ADD COLUMN "path_edges" JSONB;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "routes" ADD COLUMN "elevation_loss" DOUBLE PRECISION;
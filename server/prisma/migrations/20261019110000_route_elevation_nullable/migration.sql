@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "routes" ALTER COLUMN "elevation" DROP NOT NULL;
@@ -12,7 +12,7 @@ const mockOSMData = {
 }
 describe('Graph Builder', () => {
   test('should build valid graph from OSM data', () => {
-    const graph = buildGraph(mockOSMData as any, { lat:48.8566, lon:2.3522 }, 1)
+    const graph = buildGraph(mockOSMData as any)
     expect(graph.nodes.size).toBe(3)
     expect(graph.edges.size).toBeGreaterThan(0)
     for(const edge of graph.edges.values()) {
@@ -21,15 +21,15 @@ describe('Graph Builder', () => {
     }
   })
   test('should validate graph correctly', () => {
-    const graph = buildGraph(mockOSMData as any, { lat:48.8566, lon:2.3522 }, 1)
+    const graph = buildGraph(mockOSMData as any)
     const validation = validateGraph(graph)
     expect(validation.valid).toBe(true)
     expect(validation.errors).toHaveLength(0)
   })
   test('should create bidirectional edges', () => {
-    const graph = buildGraph(mockOSMData as any, { lat:48.8566, lon:2.3522 }, 1)
-    const edgeAB = graph.edges.get('node_1-node_2')
-    const edgeBA = graph.edges.get('node_2-node_1')
+    const graph = buildGraph(mockOSMData as any)
+    const edgeAB = graph.edges.get('osm_node_1-osm_node_2')
+    const edgeBA = graph.edges.get('osm_node_2-osm_node_1')
     expect(edgeAB).toBeDefined()
     expect(edgeBA).toBeDefined()
     expect(edgeAB!.distance).toBeCloseTo(edgeBA!.distance, 1)
@@ -41,12 +41,12 @@ describe('Graph Builder', () => {
         { type: 'way', id: 101, nodes: [1,2], tags: { highway:'motorway' } }
       ]
     }
-    const graph = buildGraph(dataWithMotorway as any, { lat:48.8566, lon:2.3522 }, 1)
+    const graph = buildGraph(dataWithMotorway as any)
     const motorwayEdges = Array.from(graph.edges.values()).filter(e=>e.highway_type==='motorway')
     expect(motorwayEdges).toHaveLength(0)
   })
   test('should calculate quality scores', () => {
-    const graph = buildGraph(mockOSMData as any, { lat:48.8566, lon:2.3522 }, 1)
+    const graph = buildGraph(mockOSMData as any)
     for(const edge of graph.edges.values()) {
       expect(edge.qualityScore).toBeGreaterThanOrEqual(0)
       expect(edge.qualityScore).toBeLessThanOrEqual(100)
@@ -62,6 +62,7 @@ describe('Configuration OSM', () => {
       expect(SURFACE_TYPES.natural).toContain('dirt')
       expect(SURFACE_TYPES.natural).toContain('sand')
       expect(SURFACE_TYPES.natural).toContain('gravel')
+      expect(SURFACE_TYPES.natural).toContain('unpaved')
     })
 
     it('devrait contenir les types de surfaces artificielles', () => {
@@ -72,7 +73,7 @@ describe('Configuration OSM', () => {
     })
 
     it('devrait contenir les types de surfaces mixtes', () => {
-      expect(SURFACE_TYPES.mixed).toContain('unpaved')
+      expect(SURFACE_TYPES.mixed).not.toContain('unpaved')
       expect(SURFACE_TYPES.mixed).toContain('compacted')
       expect(SURFACE_TYPES.mixed).toContain('fine_gravel')
     })
@@ -15,28 +15,28 @@ const mockOSMData = {
     { type:'way',id:100,nodes:[1,2,3,4],tags:{highway:'footway'} }
   ]
 }
-const graph = buildGraph(mockOSMData as any, { lat:48.8566, lon:2.3522 }, 1)
+const graph = buildGraph(mockOSMData as any)
 describe('Pathfinding Algorithms', () => {
   test('dijkstra finds path', () => {
-    const result = dijkstra(graph, 'node_1', 'node_4')
+    const result = dijkstra(graph, 'osm_node_1', 'osm_node_4')
     expect(result).not.toBeNull()
-    expect(result!.path).toContain('node_1')
-    expect(result!.path).toContain('node_4')
+    expect(result!.path).toContain('osm_node_1')
+    expect(result!.path).toContain('osm_node_4')
     expect(result!.path.length).toBeGreaterThan(1)
   })
   test('astar finds path', () => {
-    const result = astar(graph, 'node_1', 'node_4')
+    const result = astar(graph, 'osm_node_1', 'osm_node_4')
     expect(result).not.toBeNull()
-    expect(result!.path).toContain('node_1')
-    expect(result!.path).toContain('node_4')
+    expect(result!.path).toContain('osm_node_1')
+    expect(result!.path).toContain('osm_node_4')
   })
   test('returns null if no path', () => {
-    const result = dijkstra(graph, 'node_1', 'node_999')
+    const result = dijkstra(graph, 'osm_node_1', 'osm_node_999')
     expect(result).toBeNull()
   })
   test('respects avoid edges', () => {
-    const avoidEdges = new Set(['node_2-node_3'])
-    const result = dijkstra(graph, 'node_1', 'node_4', { avoidEdges })
+    const avoidEdges = new Set(['osm_node_2-osm_node_3'])
+    const result = dijkstra(graph, 'osm_node_1', 'osm_node_4', { avoidEdges })
     expect(result).not.toBeNull()
     // Le chemin devrait éviter l'arête pénalisée (ici le test n'est pas strict)
   })
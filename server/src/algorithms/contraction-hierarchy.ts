@@ -0,0 +1,318 @@
+// ------------------------------------------------------------------------
+// Hiérarchie de contraction (CH) : prétraitement d'un graphe en cache pour
+// des plus courts chemins rapides et répétés (retours de boucle notamment)
+// ------------------------------------------------------------------------
+import { Graph, GraphEdge } from '../services/graph-builder.js';
+import { MinHeap, PathfindingResult } from './pathfinding.js';
+
+export const HIERARCHY_VERSION = 1;
+
+// Arc de la hiérarchie : [voisin, coût pondéré, distance réelle (m), nœud contourné (-1 : arête d'origine)]
+export type HierarchyArc = [number, number, number, number];
+
+export interface ContractionHierarchy {
+  version: number;
+  nodeIds: string[];       // indice → id du nœud
+  rank: number[];          // ordre de contraction
+  up: HierarchyArc[][];    // arcs u → v vers un nœud de rang supérieur
+  down: HierarchyArc[][];  // arcs v → u depuis un nœud de rang supérieur (recherche arrière)
+  nodesCount: number;      // taille du graphe d'origine (contrôle de cohérence)
+  edgesCount: number;
+  shortcuts: number;
+}
+
+interface Arc { weight: number; distance: number; via: number }
+
+// Budget des recherches de témoins (nœuds traités) : au-delà, on ajoute le raccourci
+const WITNESS_MAX_SETTLED = 60;
+
+// Essayer les deux sens de l'edge (comme la recherche simple)
+function findEdge(graph: Graph, u: string, v: string): GraphEdge | undefined {
+  return graph.edges.get(`${u}-${v}`) || graph.edges.get(`${v}-${u}`);
+}
+
+function setArc(arcs: Map<number, Arc>, target: number, arc: Arc): void {
+  const known = arcs.get(target);
+  if (!known || arc.weight < known.weight) arcs.set(target, arc);
+}
+
+/**
+ * Dijkstra local depuis `source` parmi les nœuds non contractés, sans passer par `excluded`
+ * @returns coûts atteints (≤ maxCost)
+ */
+function witnessSearch(out: Map<number, Arc>[], contracted: Uint8Array, source: number, excluded: number, maxCost: number): Map<number, number> {
+  const cost = new Map<number, number>([[source, 0]]);
+  const heap = new MinHeap<number>();
+  heap.push(source, 0);
+  let settled = 0;
+  while (heap.size > 0 && settled < WITNESS_MAX_SETTLED) {
+    const { item: u, priority } = heap.pop()!;
+    if (priority > cost.get(u)!) continue;
+    if (priority > maxCost) break;
+    settled++;
+    for (const [v, arc] of out[u]) {
+      if (v === excluded || contracted[v]) continue;
+      const c = priority + arc.weight;
+      if (c > maxCost) continue;
+      const known = cost.get(v);
+      if (known === undefined || c < known) {
+        cost.set(v, c);
+        heap.push(v, c);
+      }
+    }
+  }
+  return cost;
+}
+
+/**
+ * Raccourcis nécessaires pour contracter `v` (u → v → x sans chemin témoin plus court)
+ */
+function shortcutsFor(out: Map<number, Arc>[], inc: Map<number, Arc>[], contracted: Uint8Array, v: number): Array<[number, number, Arc]> {
+  const shortcuts: Array<[number, number, Arc]> = [];
+  const targets = Array.from(out[v]).filter(([x]) => !contracted[x]);
+  if (targets.length === 0) return shortcuts;
+  const maxOut = Math.max(...targets.map(([, arc]) => arc.weight));
+  for (const [u, inArc] of inc[v]) {
+    if (contracted[u]) continue;
+    const witness = witnessSearch(out, contracted, u, v, inArc.weight + maxOut);
+    for (const [x, outArc] of targets) {
+      if (x === u) continue;
+      const weight = inArc.weight + outArc.weight;
+      const known = witness.get(x);
+      if (known !== undefined && known <= weight) continue;
+      shortcuts.push([u, x, { weight, distance: inArc.distance + outArc.distance, via: v }]);
+    }
+  }
+  return shortcuts;
+}
+
+/**
+ * Construit la hiérarchie sur le coût de base des arêtes (distance × pénalité d'accès),
+ * c'est-à-dire le coût de la recherche simple sans multiplicateur de poids
+ */
+export function buildContractionHierarchy(graph: Graph): ContractionHierarchy {
+  const nodeIds = Array.from(graph.nodes.keys());
+  const index = new Map(nodeIds.map((id, i) => [id, i]));
+  const n = nodeIds.length;
+  const out: Map<number, Arc>[] = Array.from({ length: n }, () => new Map());
+  const inc: Map<number, Arc>[] = Array.from({ length: n }, () => new Map());
+
+  for (const [id, node] of graph.nodes) {
+    const u = index.get(id)!;
+    for (const neighbour of node.connections) {
+      const v = index.get(neighbour);
+      const edge = findEdge(graph, id, neighbour);
+      if (v === undefined || v === u || !edge) continue;
+      const arc = { weight: edge.distance * (edge.accessPenalty ?? 1), distance: edge.distance, via: -1 };
+      setArc(out[u], v, arc);
+      setArc(inc[v], u, arc);
+    }
+  }
+
+  const contracted = new Uint8Array(n);
+  const deletedNeighbours = new Int32Array(n);
+  // Différence d'arêtes + voisins déjà contractés (répartit la contraction sur le graphe)
+  const priority = (v: number, shortcuts: unknown[]) =>
+    shortcuts.length - out[v].size - inc[v].size + deletedNeighbours[v];
+
+  const queue = new MinHeap<number>();
+  for (let v = 0; v < n; v++) queue.push(v, priority(v, shortcutsFor(out, inc, contracted, v)));
+
+  const rank = new Array<number>(n).fill(0);
+  const up: HierarchyArc[][] = Array.from({ length: n }, () => []);
+  const down: HierarchyArc[][] = Array.from({ length: n }, () => []);
+  let order = 0, shortcuts = 0;
+
+  while (queue.size > 0) {
+    const { item: v, priority: stale } = queue.pop()!;
+    if (contracted[v]) continue;
+    // Mise à jour paresseuse : réinsérer si la priorité a augmenté entre-temps
+    const needed = shortcutsFor(out, inc, contracted, v);
+    const current = priority(v, needed);
+    if (queue.size > 0 && current > stale) {
+      queue.push(v, current);
+      continue;
+    }
+
+    for (const [u, x, arc] of needed) {
+      setArc(out[u], x, arc);
+      setArc(inc[x], u, arc);
+      shortcuts++;
+    }
+    rank[v] = order++;
+    contracted[v] = 1;
+    for (const [x, arc] of out[v]) {
+      if (contracted[x]) continue;
+      up[v].push([x, arc.weight, arc.distance, arc.via]);
+      deletedNeighbours[x]++;
+    }
+    for (const [u, arc] of inc[v]) {
+      if (contracted[u]) continue;
+      down[v].push([u, arc.weight, arc.distance, arc.via]);
+      deletedNeighbours[u]++;
+    }
+  }
+
+  return {
+    version: HIERARCHY_VERSION,
+    nodeIds,
+    rank,
+    up,
+    down,
+    nodesCount: graph.nodes.size,
+    edgesCount: graph.edges.size,
+    shortcuts
+  };
+}
+
+/**
+ * La hiérarchie correspond-elle (encore) à ce graphe ?
+ */
+export function isHierarchyFor(hierarchy: ContractionHierarchy, graph: Graph): boolean {
+  return hierarchy.version === HIERARCHY_VERSION
+    && hierarchy.nodesCount === graph.nodes.size
+    && hierarchy.edgesCount === graph.edges.size;
+}
+
+/**
+ * Complète la hiérarchie d'un nœud ajouté au graphe en coupant ses arêtes x → y en x → nœud → y
+ * (départ exposé en milieu d'arête composée), sans la reconstruire : le nœud est contracté avant tous
+ * les autres et les arcs d'origine x → y deviennent des raccourcis qui le contournent.
+ * @param graph graphe après l'ajout du nœud
+ * @returns nouvelle hiérarchie (celle d'origine, partagée par le cache, n'est pas modifiée)
+ */
+export function extendHierarchy(hierarchy: ContractionHierarchy, graph: Graph, nodeId: string): ContractionHierarchy {
+  if (nodeIndex(hierarchy, nodeId) >= 0) return hierarchy;
+  const s = hierarchy.nodeIds.length;
+  const up = [...hierarchy.up, [] as HierarchyArc[]];
+  const down = [...hierarchy.down, [] as HierarchyArc[]];
+  // Arcs d'origine entre le nouveau nœud et ses voisins (connus de la hiérarchie)
+  const link = (arcs: HierarchyArc[], edge: GraphEdge | undefined, neighbour: string) => {
+    const v = nodeIndex(hierarchy, neighbour);
+    if (edge && v >= 0) arcs.push([v, edge.distance * (edge.accessPenalty ?? 1), edge.distance, -1]);
+  };
+  for (const edge of graph.edges.values()) {
+    if (edge.to === nodeId) link(down[s], edge, edge.from);
+  }
+  for (const to of graph.nodes.get(nodeId)?.connections || []) {
+    link(up[s], graph.edges.get(`${nodeId}-${to}`), to);
+  }
+
+  // Arêtes d'origine x → y remplacées : leur arc passe désormais par le nouveau nœud
+  for (const [y] of up[s]) {
+    for (const [x] of down[s]) {
+      if (x === y) continue;
+      const lower = hierarchy.rank[x] < hierarchy.rank[y];
+      const owner = lower ? x : y, neighbour = lower ? y : x;
+      const arcs = lower ? up : down;
+      arcs[owner] = arcs[owner].map(a => (a[0] === neighbour && a[3] < 0 ? [a[0], a[1], a[2], s] : a));
+    }
+  }
+
+  return {
+    ...hierarchy,
+    nodeIds: [...hierarchy.nodeIds, nodeId],
+    // Rang inférieur à tous les autres, y compris aux nœuds déjà ajoutés
+    rank: [...hierarchy.rank, -s],
+    up,
+    down,
+    nodesCount: graph.nodes.size,
+    edgesCount: graph.edges.size
+  };
+}
+
+// Arc a → b (a et b adjacents dans la hiérarchie)
+function arcBetween(hierarchy: ContractionHierarchy, a: number, b: number): HierarchyArc | undefined {
+  let best: HierarchyArc | undefined;
+  const candidates = hierarchy.rank[a] < hierarchy.rank[b]
+    ? hierarchy.up[a].filter(arc => arc[0] === b)
+    : hierarchy.down[b].filter(arc => arc[0] === a);
+  for (const arc of candidates) {
+    if (!best || arc[1] < best[1]) best = arc;
+  }
+  return best;
+}
+
+// Déplie un arc (éventuellement raccourci) en nœuds d'origine, sans le nœud a
+function unpack(hierarchy: ContractionHierarchy, a: number, b: number, into: number[]): void {
+  const arc = arcBetween(hierarchy, a, b);
+  if (!arc || arc[3] < 0) {
+    into.push(b);
+    return;
+  }
+  unpack(hierarchy, a, arc[3], into);
+  unpack(hierarchy, arc[3], b, into);
+}
+
+// Index id → indice, calculé une fois par hiérarchie (non sérialisé)
+const nodeIndexes = new WeakMap<ContractionHierarchy, Map<string, number>>();
+
+function nodeIndex(hierarchy: ContractionHierarchy, id: string): number {
+  let index = nodeIndexes.get(hierarchy);
+  if (!index) {
+    index = new Map(hierarchy.nodeIds.map((nodeId, i) => [nodeId, i]));
+    nodeIndexes.set(hierarchy, index);
+  }
+  return index.get(id) ?? -1;
+}
+
+/**
+ * Plus court chemin par recherche bidirectionnelle ascendante dans la hiérarchie
+ * - maxDistance : coût pondéré maximal accepté (m)
+ * @returns null si aucun chemin dans la limite, undefined si un nœud est inconnu de la hiérarchie
+ */
+export function hierarchyPath(hierarchy: ContractionHierarchy, start: string, goal: string, maxDistance: number): PathfindingResult | null | undefined {
+  const s = nodeIndex(hierarchy, start), t = nodeIndex(hierarchy, goal);
+  if (s < 0 || t < 0) return undefined;
+  if (s === t) return { path: [start], distance: 0 };
+
+  const cost = [new Map<number, number>([[s, 0]]), new Map<number, number>([[t, 0]])];
+  const previous = [new Map<number, number>(), new Map<number, number>()];
+  const heaps = [new MinHeap<number>(), new MinHeap<number>()];
+  heaps[0].push(s, 0);
+  heaps[1].push(t, 0);
+  let best = Infinity, meeting = -1;
+
+  // Alterner les deux recherches tant qu'elles peuvent encore améliorer le meilleur coût
+  for (let side = 0; heaps[0].size > 0 || heaps[1].size > 0; side = 1 - side) {
+    const heap = heaps[side];
+    if (heap.size === 0) continue;
+    const { item: u, priority } = heap.pop()!;
+    if (priority > cost[side].get(u)!) continue;
+    if (priority >= best || priority > maxDistance) {
+      // Cette direction ne peut plus rien améliorer
+      while (heap.size > 0) heap.pop();
+      continue;
+    }
+    const other = cost[1 - side].get(u);
+    if (other !== undefined && priority + other < best) {
+      best = priority + other;
+      meeting = u;
+    }
+    const arcs = side === 0 ? hierarchy.up[u] : hierarchy.down[u];
+    for (const [v, weight] of arcs) {
+      const c = priority + weight;
+      if (c > maxDistance) continue;
+      const known = cost[side].get(v);
+      if (known === undefined || c < known) {
+        cost[side].set(v, c);
+        previous[side].set(v, u);
+        heap.push(v, c);
+      }
+    }
+  }
+  if (meeting < 0 || best > maxDistance) return null;
+
+  // Chaîne dans la hiérarchie : s ... meeting ... t
+  const chain = [meeting];
+  for (let v = meeting; previous[0].has(v);) chain.unshift(v = previous[0].get(v)!);
+  for (let v = meeting; previous[1].has(v);) chain.push(v = previous[1].get(v)!);
+
+  const nodes = [chain[0]];
+  let distance = 0;
+  for (let i = 0; i < chain.length - 1; i++) {
+    distance += arcBetween(hierarchy, chain[i], chain[i + 1])![2];
+    unpack(hierarchy, chain[i], chain[i + 1], nodes);
+  }
+  return { path: nodes.map(i => hierarchy.nodeIds[i]), distance };
+}
@@ -2,8 +2,14 @@
 // Loop Generator (Exploration radiale, scoring, variantes)
 // ------------------------------------------------------------------------
 import { Graph, GraphNode, GraphEdge } from '../services/graph-builder.js';
-import { dijkstra, astar, PathfindingResult } from './pathfinding.js';
+import { astar, PathfindingResult, EdgeWeightMultiplier } from './pathfinding.js';
+import { optimizeLoop } from './loop-optimizer.js';
 import { calculateWayQualityScore } from '../services/osm-service.js';
+import { TerrainPreference, computeSurfaceBreakdown, terrainWeightMultiplier, unpavedRatio } from '../utils/surface-classifier.js';
+import { Difficulty, DIFFICULTY_UNPAVED_TARGET, estimateDifficulty, difficultyGap } from '../utils/difficulty.js';
+import { requireRoutingProfile, profileWeightMultiplier } from '../services/routing-profiles.js';
+import { TimeOfDayContext, timeOfDayContext, timeOfDayMultiplier } from '../utils/time-of-day.js';
+import { ContractionHierarchy, hierarchyPath, isHierarchyFor } from './contraction-hierarchy.js';
 
 // Fonction haversine pour calculer la distance
 function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
@@ -89,13 +95,24 @@ export function findClosestNodeWithConnections(graph: Graph, lat: number, lon: n
 export interface LoopGenerationOptions {
   startNodeId: string
   targetDistance: number      // m
-  numVariants?: number
+  numVariants?: number       // nombre de variantes renvoyées (1-5)
+  minDissimilarity?: number  // distance de Jaccard minimale entre deux variantes (0-1, défaut 0.3)
+  optimize?: boolean         // post-optimisation des boucles (défaut true)
   minReturnAngleDeg?: number  // anti-allers/retours
+  terrainType?: TerrainPreference  // repondère les arêtes selon leur surface
+  profile?: string                 // profil de routage (voies autorisées, pénalités)
+  startTime?: string               // heure de départ ISO 8601 avec décalage UTC (voies éclairées de nuit, horaires d'ouverture)
+  hierarchy?: ContractionHierarchy // hiérarchie de contraction du graphe (chemins de retour rapides)
+  difficulty?: Difficulty          // difficulté visée (oriente le scoring)
+  targetElevationGain?: number     // D+ visé (m), nécessite ascent/descent sur les arêtes
+  maxElevationGain?: number        // D+ maximal accepté (m)
   scoring?: Partial<{
     distance: number   // poids [0,1]
     angle: number
     quality: number
     diversity: number
+    terrain: number
+    elevation: number
   }>
   debug?: boolean
 }
@@ -120,6 +137,8 @@ export interface GeneratedLoop {
   pathEdges: string[]      // edges du parcours
   distance: number
   qualityScore: number
+  difficulty?: Difficulty  // difficulté estimée (distance, dénivelé, surfaces)
+  elevationGain?: number   // D+ total (m) si le graphe porte les altitudes
   debug?: any
 }
 
@@ -133,6 +152,30 @@ export interface LoopGenerationDebug {
   }
 }
 
+// Nombre maximal de variantes par requête
+export const MAX_VARIANTS = 5;
+
+// Distance de Jaccard minimale par défaut entre deux variantes
+const DEFAULT_MIN_DISSIMILARITY = 0.3;
+
+/**
+ * Multiplicateur de poids combinant préférence de terrain, profil de routage et heure de départ
+ * (Infinity pour les arêtes interdites ou fermées), undefined si rien ne s'applique
+ */
+export function routingWeightMultiplier(
+  terrainType?: TerrainPreference,
+  profileId?: string,
+  timeOfDay?: TimeOfDayContext | null
+): EdgeWeightMultiplier | undefined {
+  const profile = profileId ? requireRoutingProfile(profileId) : undefined;
+  const terrain = terrainType && terrainType !== 'mixed' ? terrainType : undefined;
+  if (!profile && !terrain && !timeOfDay) return undefined;
+  return (_edgeId, edge) =>
+    (terrain ? terrainWeightMultiplier(edge, terrain) : 1) *
+    (profile ? profileWeightMultiplier(profile, edge) : 1) *
+    (timeOfDay ? timeOfDayMultiplier(edge, timeOfDay) : 1);
+}
+
 // ------------------------------------------------------------------------
 // MAIN ENTRY : generateLoops
 // ------------------------------------------------------------------------
@@ -143,7 +186,9 @@ export function generateLoops(
 ): { loops: GeneratedLoop[]; debug: LoopGenerationDebug } {
   const start = options.startNodeId;
   const target = options.targetDistance;
-  const numVariants = options.numVariants || 3;
+  const numVariants = Math.min(MAX_VARIANTS, Math.max(1, options.numVariants || 3));
+  // Générer plus de boucles que demandé pour pouvoir écarter les quasi-doublons
+  const poolSize = Math.max(3, numVariants * 3);
   const debug: LoopGenerationDebug = {
     candidates: [], timings: {}, warnings: [], stats: { exploredNodes: 0, bestAngles: [] }
   };
@@ -151,6 +196,15 @@ export function generateLoops(
   
   // Vérifier que le nœud de départ existe
   const startNode = graph.nodes.get(start);
+
+  // Repondération des arêtes selon le terrain, le profil et l'heure de départ (multiplicateur >= 1)
+  const timeOfDay = options.startTime && startNode ? timeOfDayContext(options.startTime, startNode.lat, startNode.lon) : undefined;
+  const weightMultiplier = routingWeightMultiplier(options.terrainType, options.profile, timeOfDay);
+
+  // Hiérarchie de contraction : ignorée si elle a été construite sur un autre graphe
+  const hierarchy = options.hierarchy && isHierarchyFor(options.hierarchy, graph) ? options.hierarchy : undefined;
+  if (options.hierarchy && !hierarchy) debug.warnings.push('Contraction hierarchy does not match the graph, using plain search');
+  
   if (!startNode) {
     debug.warnings.push(`Start node ${start} not found in graph`);
     return { loops: [], debug };
@@ -219,6 +273,8 @@ export function generateLoops(
         if (!edge) {
           edge = graph.edges.get(`${nextId}-${currentId}`);
         }
+        // Arêtes interdites par le profil (multiplicateur infini) ignorées
+        if (edge && weightMultiplier && !Number.isFinite(weightMultiplier(edge.id, edge))) continue;
         if (edge && dist + edge.distance <= target * 5.0) {
           queue.push([nextId, dist + edge.distance, [...path, nextId]]);
         }
@@ -242,8 +298,8 @@ export function generateLoops(
       // Créer des résultats radiaux depuis ces nœuds
       for (let i = 0; i < bestDistantNodes.length; i++) {
         const distant = bestDistantNodes[i];
-        // Utiliser dijkstra pour trouver le chemin optimal vers ce nœud
-        const pathResult = dijkstra(graph, start, distant.nodeId, target * 2.0, 20000);
+        // Utiliser A* pour trouver le chemin optimal vers ce nœud
+        const pathResult = findPath(graph, hierarchy, start, distant.nodeId, target * 2.0, 20000, undefined, weightMultiplier);
         if (pathResult) {
           const dirKey = `distant_${i}`;
           radialResults[dirKey] = pathResult;
@@ -292,7 +348,7 @@ export function generateLoops(
     for (const dir of directions) {
       // CORRECTION : Explorer jusqu'à 55% de la distance cible (au lieu de 50%)
       // Le retour fera ~45% pour avoir une boucle totale de ~100%
-      radialResults[dir] = radialExplore(graph, start, dir, target * 0.55);
+      radialResults[dir] = radialExplore(graph, start, dir, target * 0.55, weightMultiplier);
     }
   }
   
@@ -362,11 +418,11 @@ export function generateLoops(
     // Chercher un chemin de retour vers le départ (avec limite très large)
     // Essayer d'abord d'éviter les edges du chemin aller pour avoir un vrai retour différent
     const forbiddenEdges = new Set<string>(pathEdges);
-    let returnResult = dijkstra(graph, returnNodeId, start, target * 5.0, 20000, forbiddenEdges);
+    let returnResult = findPath(graph, hierarchy, returnNodeId, start, target * 5.0, 20000, forbiddenEdges, weightMultiplier);
     
     // Si on ne trouve pas de chemin évitant les edges de l'aller, essayer sans restriction
     if (!returnResult) {
-      returnResult = dijkstra(graph, returnNodeId, start, target * 5.0, 20000);
+      returnResult = findPath(graph, hierarchy, returnNodeId, start, target * 5.0, 20000, undefined, weightMultiplier);
     }
     
     if (!returnResult) {
@@ -419,18 +475,20 @@ export function generateLoops(
     const score = (1 - distanceScore) * (options.scoring?.distance || 0.4) +
                   (1 - angleScore) * (options.scoring?.angle || 0.3) +
                   (c.qualityScore / 100) * (options.scoring?.quality || 0.2) +
+                  terrainMatchScore(graph, c.pathEdges, options) * (options.scoring?.terrain || 0.2) +
+                  candidateElevationScore(graph, c.pathEdges, options) * (options.scoring?.elevation || 0.3) +
                   (hasReturn * 0.1); // Bonus pour avoir un chemin de retour
     return { ...c, score };
   }).sort((a, b) => b.score - a.score); // Trier par score décroissant
 
   // Construire les boucles complètes (aller + retour)
-  // CORRECTION : Limiter à 10 candidats pour éviter trop de boucles, mais essayer de générer 3 boucles valides
-  const topCandidates = scoredCandidates.slice(0, 10);
+  // CORRECTION : Limiter le nombre de candidats pour éviter trop de boucles
+  const topCandidates = scoredCandidates.slice(0, Math.max(10, poolSize));
   console.log(`\n📊 Processing ${topCandidates.length} top candidates (from ${scoredCandidates.length} total)`);
   
   // CORRECTION : Si on a peu de candidats, essayer de générer plusieurs boucles depuis le même candidat
   // en utilisant différents nœuds intermédiaires le long du chemin aller
-  if (topCandidates.length === 1 && loops.length < 3) {
+  if (topCandidates.length === 1 && loops.length < poolSize) {
     console.log(`\n🔄 Only 1 candidate found, trying to generate multiple loops from intermediate nodes`);
     const candidate = topCandidates[0];
     const intermediateNodes = candidate.pathOut.slice(1, -1); // Tous les nœuds sauf le début et la fin
@@ -443,7 +501,7 @@ export function generateLoops(
     ].filter(Boolean);
     
     for (const intermediateNode of keyPoints) {
-      if (loops.length >= 3) break;
+      if (loops.length >= poolSize) break;
       
       // Créer un nouveau candidat depuis ce nœud intermédiaire
       const intermediateIndex = candidate.pathOut.indexOf(intermediateNode);
@@ -466,7 +524,9 @@ export function generateLoops(
         intermediateNode,
         start,
         partialEdges,
-        target * 5.0
+        target * 5.0,
+        weightMultiplier,
+        hierarchy
       );
       
       if (!returnPath || returnPath.overlapRatio > 0.7) continue;
@@ -522,7 +582,9 @@ export function generateLoops(
       candidate.nodeId,
       start,
       explorationEdges,
-      target * 5.0
+      target * 5.0,
+      weightMultiplier,
+      hierarchy
     );
     
     if (!returnPath) {
@@ -538,9 +600,9 @@ export function generateLoops(
       continue;
     }
     
-    // CORRECTION : Si on a déjà 3 boucles, arrêter
-    if (loops.length >= 3) {
-      console.log(`   ✅ Already have 3 loops, stopping candidate processing`);
+    // CORRECTION : Si on a déjà assez de boucles, arrêter
+    if (loops.length >= poolSize) {
+      console.log(`   ✅ Already have ${poolSize} loops, stopping candidate processing`);
       break;
     }
     
@@ -632,7 +694,7 @@ export function generateLoops(
       
       // Essayer plusieurs directions pour trouver la meilleure extension
       for (const dir of extendDirections) {
-        const result = radialExplore(graph, bestCandidate.nodeId, dir as [number, number], target * 0.8);
+        const result = radialExplore(graph, bestCandidate.nodeId, dir as [number, number], target * 0.8, weightMultiplier);
         if (result && result.distance > bestExtendedDist) {
           extendedResult = result;
           bestExtendedDist = result.distance;
@@ -664,7 +726,7 @@ export function generateLoops(
       }
       
       // Chercher un chemin de retour avec une limite très large
-      const returnApprox = dijkstra(graph, finalReturnNode, start, target * 2.0, 5000);
+      const returnApprox = findPath(graph, hierarchy, finalReturnNode, start, target * 2.0, 5000, undefined, weightMultiplier);
       if (returnApprox && returnApprox.path) {
         let returnDist = 0;
         const returnEdges: string[] = [];
@@ -704,7 +766,7 @@ export function generateLoops(
       debug.warnings.push('Trying direct long-distance exploration');
       // Essayer une exploration directe dans plusieurs directions avec une distance plus grande
       for (const dir of [[1, 0], [0, 1], [1, 1], [-1, 1]]) {
-        const longExplore = radialExplore(graph, start, dir as [number, number], target * 0.8);
+        const longExplore = radialExplore(graph, start, dir as [number, number], target * 0.8, weightMultiplier);
         if (longExplore && longExplore.path && longExplore.path.length > 2) {
           const returnNodeId = longExplore.path[longExplore.path.length - 1];
           
@@ -724,10 +786,10 @@ export function generateLoops(
           
           // Essayer d'éviter les edges du chemin aller
           const forbiddenEdges = new Set<string>(longExploreEdges);
-          let returnPath = dijkstra(graph, returnNodeId, start, target * 5.0, 20000, forbiddenEdges);
+          let returnPath = findPath(graph, hierarchy, returnNodeId, start, target * 5.0, 20000, forbiddenEdges, weightMultiplier);
           // Si pas trouvé, essayer sans restriction
           if (!returnPath) {
-            returnPath = dijkstra(graph, returnNodeId, start, target * 5.0, 20000);
+            returnPath = findPath(graph, hierarchy, returnNodeId, start, target * 5.0, 20000, undefined, weightMultiplier);
           }
           
           if (returnPath && returnPath.path) {
@@ -781,11 +843,51 @@ export function generateLoops(
     }
   }
 
+  // Post-optimisation : antennes, croisements, distance à ±5% de la cible
+  if (options.optimize !== false) {
+    const tOpt = Date.now();
+    for (let i = 0; i < loops.length; i++) {
+      const { loop, stats } = optimizeLoop(graph, loops[i], { targetDistance: target, weightMultiplier });
+      loops[i] = { ...loop, debug: { ...loop.debug, optimization: stats } };
+    }
+    debug.timings.optimization = Date.now() - tOpt;
+  }
+
   debug.timings.total = Date.now() - t0;
   
-  // CORRECTION : Trier les boucles par quality_score et limiter à 3
-  loops.sort((a, b) => b.qualityScore - a.qualityScore);
-  const topLoops = loops.slice(0, 3);
+  // Dénivelé et difficulté réelle de chaque boucle (dénivelé inconnu si le graphe n'a pas d'altitudes)
+  for (const loop of loops) {
+    loop.elevationGain = pathElevation(graph, loop.pathEdges)?.ascent;
+    loop.difficulty = estimateDifficulty({
+      distanceKm: loop.distance / 1000,
+      elevationGain: loop.elevationGain ?? 0,
+      unpavedRatio: unpavedRatio(computeSurfaceBreakdown(graph, loop.pathEdges))
+    });
+  }
+  
+  // Écarter les boucles trop montagneuses, sauf s'il ne reste rien
+  if (options.maxElevationGain !== undefined) {
+    const withinMax = loops.filter(l => l.elevationGain === undefined || l.elevationGain <= options.maxElevationGain!);
+    if (withinMax.length > 0 && withinMax.length < loops.length) {
+      debug.warnings.push(`${loops.length - withinMax.length} loop(s) discarded above max elevation gain ${options.maxElevationGain}m`);
+      loops.splice(0, loops.length, ...withinMax);
+    }
+  }
+  
+  // CORRECTION : Trier les boucles par quality_score
+  // Si une difficulté est demandée, privilégier les boucles les plus proches de celle-ci,
+  // puis celles dont le D+ est le plus proche de la cible
+  loops.sort((a, b) => {
+    if (options.difficulty && a.difficulty && b.difficulty) {
+      const gap = difficultyGap(a.difficulty, options.difficulty) - difficultyGap(b.difficulty, options.difficulty);
+      if (gap !== 0) return gap;
+    }
+    return rankScore(b, options) - rankScore(a, options);
+  });
+  const topLoops = selectDistinctLoops(graph, loops, numVariants, options.minDissimilarity ?? DEFAULT_MIN_DISSIMILARITY);
+  if (topLoops.length < Math.min(numVariants, loops.length)) {
+    debug.warnings.push(`Only ${topLoops.length} distinct loop(s) found (${numVariants} requested)`);
+  }
   
   console.log(`\n✅ Generated ${loops.length} loops total, returning top ${topLoops.length}`);
   if (topLoops.length > 0) {
@@ -824,7 +926,7 @@ function vectorToBearing(direction: [number, number]): number {
 }
 
 // Exploration radiale STRICTE dans UNE direction donnée avec pénalisation des déviations
-function radialExplore(graph: Graph, startId: string, direction: [number, number], maxDist: number): PathfindingResult | null {
+function radialExplore(graph: Graph, startId: string, direction: [number, number], maxDist: number, weightMultiplier?: EdgeWeightMultiplier): PathfindingResult | null {
   const startNode = graph.nodes.get(startId);
   if (!startNode) return null;
   
@@ -940,6 +1042,14 @@ function radialExplore(graph: Graph, startId: string, direction: [number, number
         edgeWeight *= 1.5; // Réduit de x2 à x1.5
       }
       
+      // Accès déconseillé (propriété privée tolérée, desserte...)
+      edgeWeight *= edge.accessPenalty ?? 1;
+      
+      // Préférence de terrain
+      if (weightMultiplier) {
+        edgeWeight *= weightMultiplier(edge.id, edge);
+      }
+      
       const newDist = dist + edgeWeight;
       
       // CORRECTION : Continuer jusqu'à 110% (au lieu de 105%) pour explorer plus loin
@@ -988,6 +1098,37 @@ function radialExplore(graph: Graph, startId: string, direction: [number, number
   return null;
 }
 
+/**
+ * Plus court chemin : hiérarchie de contraction si la requête porte sur le coût de base
+ * (sans multiplicateur de poids), A* classique sinon ou si le chemin emprunte une arête interdite
+ */
+function findPath(
+  graph: Graph,
+  hierarchy: ContractionHierarchy | undefined,
+  from: string,
+  to: string,
+  maxDistance: number,
+  maxNodes: number,
+  forbiddenEdges?: Set<string>,
+  weightMultiplier?: EdgeWeightMultiplier
+): PathfindingResult | null {
+  if (hierarchy && !weightMultiplier) {
+    const result = hierarchyPath(hierarchy, from, to, maxDistance);
+    // Aucun chemin dans la limite même sans restriction : inutile de relancer la recherche simple
+    if (result === null) return null;
+    if (result && !usesForbiddenEdge(result.path, forbiddenEdges)) return result;
+  }
+  return astar(graph, from, to, maxDistance, maxNodes, forbiddenEdges, weightMultiplier);
+}
+
+function usesForbiddenEdge(path: string[], forbiddenEdges?: Set<string>): boolean {
+  if (!forbiddenEdges || forbiddenEdges.size === 0) return false;
+  for (let i = 0; i < path.length - 1; i++) {
+    if (forbiddenEdges.has(`${path[i]}-${path[i + 1]}`) || forbiddenEdges.has(`${path[i + 1]}-${path[i]}`)) return true;
+  }
+  return false;
+}
+
 /**
  * Calcule le chemin de retour en évitant les arêtes de l'aller
  */
@@ -996,7 +1137,9 @@ function calculateReturnPath(
   fromNodeId: string,
   toNodeId: string,
   explorationEdges: string[],
-  maxDistance: number
+  maxDistance: number,
+  weightMultiplier?: EdgeWeightMultiplier,
+  hierarchy?: ContractionHierarchy
 ): {
   path: string[];
   distance: number;
@@ -1018,20 +1161,22 @@ function calculateReturnPath(
   console.log(`         Avoiding ${avoidEdges.size} edges (forward + reverse)`);
   
   // CORRECTION : Pénalisation x50 des edges de l'aller
-  const edgeWeightMultiplier = (edgeId: string, edge: any) => {
+  const edgeWeightMultiplier = (edgeId: string, edge: GraphEdge) => {
+    const base = weightMultiplier ? weightMultiplier(edgeId, edge) : 1;
     if (avoidEdges.has(edgeId) || avoidEdges.has(edge.id)) {
-      return 50; // PÉNALITÉ X50
+      return 50 * base; // PÉNALITÉ X50
     }
-    return 1;
+    return base;
   };
   
   // Première tentative : avec pénalisation x50
-  const result = dijkstra(graph, fromNodeId, toNodeId, maxDistance, 20000, avoidEdges, edgeWeightMultiplier);
+  // (les arêtes pénalisées étant aussi interdites, sans multiplicateur global le coût est celui de base)
+  const result = findPath(graph, hierarchy, fromNodeId, toNodeId, maxDistance, 20000, avoidEdges, weightMultiplier ? edgeWeightMultiplier : undefined);
   
   if (!result) {
     console.log(`         ❌ No return path found with penalty, trying without penalty`);
     // Deuxième tentative : sans pénalisation
-    const result2 = dijkstra(graph, fromNodeId, toNodeId, maxDistance, 20000);
+    const result2 = findPath(graph, hierarchy, fromNodeId, toNodeId, maxDistance, 20000, undefined, weightMultiplier);
     if (!result2) {
       console.log(`         ❌ No return path found at all`);
       return null;
@@ -1096,6 +1241,59 @@ function computeAngle(graph: Graph, start: string, end: string): number {
   return Math.atan2(dy, dx) * 180 / Math.PI
 }
 
+/**
+ * Adéquation (0-1) des surfaces d'un chemin avec le terrain et la difficulté demandés
+ */
+function terrainMatchScore(graph: Graph, edges: string[], options: LoopGenerationOptions): number {
+  if (!options.terrainType && !options.difficulty) return 0.5;
+  const ratio = unpavedRatio(computeSurfaceBreakdown(graph, edges));
+  const scores: number[] = [];
+  if (options.terrainType === 'paved') scores.push(1 - ratio);
+  else if (options.terrainType === 'unpaved') scores.push(ratio);
+  else if (options.terrainType === 'mixed') scores.push(1 - Math.abs(ratio - 0.5) * 2);
+  if (options.difficulty) scores.push(1 - Math.abs(ratio - DIFFICULTY_UNPAVED_TARGET[options.difficulty]));
+  return scores.reduce((a, b) => a + b, 0) / scores.length;
+}
+
+/**
+ * Cumul D+/D- d'un chemin, ou null si les arêtes ne portent pas d'altitudes
+ */
+function pathElevation(graph: Graph, edges: string[]): { ascent: number; descent: number } | null {
+  let ascent = 0, descent = 0, known = 0;
+  for (const e of edges) {
+    const edge = graph.edges.get(e);
+    if (!edge || edge.ascent === undefined || edge.descent === undefined) continue;
+    ascent += edge.ascent;
+    descent += edge.descent;
+    known++;
+  }
+  return known > 0 ? { ascent, descent } : null;
+}
+
+// Proximité (0-1) entre un D+ et la cible
+function elevationMatch(gain: number, target: number): number {
+  return Math.max(0, 1 - Math.abs(gain - target) / Math.max(target, 50));
+}
+
+/**
+ * Score (0-1) du D+ attendu pour une boucle passant par ce chemin aller.
+ * Le retour doit remonter ce que l'aller a descendu : D+ boucle ≈ D+ aller + D- aller
+ */
+function candidateElevationScore(graph: Graph, edges: string[], options: LoopGenerationOptions): number {
+  if (options.targetElevationGain === undefined && options.maxElevationGain === undefined) return 0.5;
+  const elevation = pathElevation(graph, edges);
+  if (!elevation) return 0.5;
+  const estimatedGain = elevation.ascent + elevation.descent;
+  if (options.maxElevationGain !== undefined && estimatedGain > options.maxElevationGain) return 0;
+  return options.targetElevationGain !== undefined ? elevationMatch(estimatedGain, options.targetElevationGain) : 1;
+}
+
+// Score de classement final : qualité, pondérée par l'adéquation au D+ visé
+function rankScore(loop: GeneratedLoop, options: LoopGenerationOptions): number {
+  if (options.targetElevationGain === undefined || loop.elevationGain === undefined) return loop.qualityScore;
+  return loop.qualityScore * (0.4 + 0.6 * elevationMatch(loop.elevationGain, options.targetElevationGain));
+}
+
 function averageEdgeQuality(graph: Graph, edges: string[]): number {
   let q = 0, count = 0
   for(const e of edges) {
@@ -1116,6 +1314,41 @@ function multiScore(factors: {distance:number,angle:number,quality:number,divers
     + factors.diversity * (weight?.diversity??0.1)
 }
 
+// Ensemble d'arêtes non orientées (a-b et b-a comptent pour la même voie)
+function undirectedEdgeSet(graph: Graph, edges: string[]): Set<string> {
+  const set = new Set<string>()
+  for (const id of edges) {
+    const edge = graph.edges.get(id)
+    if (!edge) continue
+    set.add(edge.from < edge.to ? `${edge.from}-${edge.to}` : `${edge.to}-${edge.from}`)
+  }
+  return set
+}
+
+/**
+ * Distance de Jaccard entre deux ensembles d'arêtes :
+ * 0 = mêmes arêtes, 1 = aucune arête commune
+ */
+export function jaccardDistance(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 0
+  let common = 0
+  for (const e of a) if (b.has(e)) common++
+  return 1 - common / (a.size + b.size - common)
+}
+
+// Sélection gloutonne (boucles déjà triées) des variantes suffisamment différentes entre elles
+function selectDistinctLoops(graph: Graph, loops: GeneratedLoop[], count: number, minDissimilarity: number): GeneratedLoop[] {
+  const selected: Array<{ loop: GeneratedLoop; edges: Set<string> }> = []
+  for (const loop of loops) {
+    if (selected.length >= count) break
+    const edges = undirectedEdgeSet(graph, loop.pathEdges)
+    if (selected.every(s => jaccardDistance(s.edges, edges) >= minDissimilarity)) {
+      selected.push({ loop, edges })
+    }
+  }
+  return selected.map(s => s.loop)
+}
+
 // % d’overlap entre aller et retour (number 0..1)
 function fractionOverlap(edges1: string[], edges2: string[]): number {
   const set1 = new Set(edges1), set2 = new Set(edges2)
@@ -0,0 +1,219 @@
+// ------------------------------------------------------------------------
+// Post-optimisation des boucles (suppression des antennes, décroisement,
+// ajustement de la distance par petits détours / raccourcis près du départ)
+// ------------------------------------------------------------------------
+import { Graph } from '../services/graph-builder.js';
+import { astar, EdgeWeightMultiplier } from './pathfinding.js';
+import { GeneratedLoop } from './loop-generator.js';
+
+export interface LoopOptimizationOptions {
+  targetDistance: number      // m
+  tolerance?: number          // écart relatif accepté sur la distance (défaut 0.05)
+  startRadius?: number        // m, zone autour du départ où l'on ajuste la distance
+  maxAdjustments?: number     // nombre max de détours / raccourcis successifs
+  weightMultiplier?: EdgeWeightMultiplier  // repondération de la génération (Infinity = arête interdite)
+}
+
+export interface LoopOptimizationStats {
+  removedBacktracks: number   // nœuds retirés (antennes, demi-tours)
+  uncrossed: number           // croisements supprimés
+  adjustments: number         // détours ajoutés ou raccourcis appliqués
+  distanceBefore: number
+  distanceAfter: number
+}
+
+// Nombre max de nœuds candidats de chaque côté du départ (borne le nombre de A*)
+const MAX_ADJUST_CANDIDATES = 12;
+
+function haversine(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371000;
+  const toRad = (x: number) => x * Math.PI / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+// Arêtes (et distance) d'une suite de nœuds, null si deux nœuds consécutifs ne sont pas reliés
+function pathEdgesOf(graph: Graph, path: string[]): { edges: string[]; distance: number } | null {
+  const edges: string[] = [];
+  let distance = 0;
+  for (let i = 0; i < path.length - 1; i++) {
+    const edge = graph.edges.get(`${path[i]}-${path[i + 1]}`) || graph.edges.get(`${path[i + 1]}-${path[i]}`);
+    if (!edge) return null;
+    edges.push(edge.id);
+    distance += edge.distance;
+  }
+  return { edges, distance };
+}
+
+// Vrai si aucune arête du chemin n'est interdite (multiplicateur infini) par la repondération
+function isAllowed(graph: Graph, path: string[], weightMultiplier?: EdgeWeightMultiplier): boolean {
+  if (!weightMultiplier) return true;
+  const route = pathEdgesOf(graph, path);
+  return !!route && route.edges.every(id => Number.isFinite(weightMultiplier(id, graph.edges.get(id)!)));
+}
+
+/**
+ * Supprime les demi-tours immédiats (a → b → a) et donc les antennes
+ * en cul-de-sac parcourues dans les deux sens
+ */
+export function removeBacktracks(path: string[]): string[] {
+  const result: string[] = [];
+  for (const node of path) {
+    if (result.length >= 2 && result[result.length - 2] === node) {
+      result.pop();
+      continue;
+    }
+    if (result[result.length - 1] !== node) result.push(node);
+  }
+  return result;
+}
+
+// Angle (radians) de la direction from → to
+function direction(graph: Graph, from: string, to: string): number {
+  const a = graph.nodes.get(from)!, b = graph.nodes.get(to)!;
+  return Math.atan2(b.lat - a.lat, (b.lon - a.lon) * Math.cos(a.lat * Math.PI / 180));
+}
+
+// Vrai si les paires de voisins (p, q) et (r, s) s'entrelacent autour du nœud centre, c.-à-d. se croisent
+function pairsInterleave(graph: Graph, center: string, p: string, q: string, r: string, s: string): boolean {
+  if (new Set([p, q, r, s]).size < 4) return false;
+  const norm = (x: number) => (x + 2 * Math.PI) % (2 * Math.PI);
+  const ap = direction(graph, center, p);
+  const arc = norm(direction(graph, center, q) - ap);
+  const inArc = (n: string) => norm(direction(graph, center, n) - ap) < arc;
+  return inArc(r) !== inArc(s);
+}
+
+/**
+ * Équivalent "graphe" du 2-opt : quand la boucle repasse par un même nœud en s'y croisant,
+ * on inverse la sous-boucle intermédiaire (même distance, tracé sans croisement)
+ */
+export function uncrossLoop(graph: Graph, path: string[]): { path: string[]; uncrossed: number } {
+  let current = [...path];
+  let uncrossed = 0;
+  for (let i = 1; i < current.length - 1; i++) {
+    for (let j = i + 2; j < current.length - 1; j++) {
+      if (current[i] !== current[j]) continue;
+      const [a, b, c, d] = [current[i - 1], current[i + 1], current[j - 1], current[j + 1]];
+      if (!pairsInterleave(graph, current[i], a, b, c, d)) continue;
+      const reversed = [...current.slice(0, i + 1), ...current.slice(i + 1, j).reverse(), ...current.slice(j)];
+      // L'inversion n'est possible que si chaque arête existe dans l'autre sens
+      const ok = reversed.slice(i, j + 1).every((n, k, seg) => k === 0 || graph.edges.has(`${seg[k - 1]}-${n}`));
+      if (!ok || pairsInterleave(graph, current[i], a, c, b, d)) continue;
+      current = reversed;
+      uncrossed++;
+    }
+  }
+  return { path: current, uncrossed };
+}
+
+// Indices des nœuds situés près du départ, dans la première et la seconde moitié de la boucle
+function nodesNearStart(graph: Graph, path: string[], radius: number): { head: number[]; tail: number[] } {
+  const start = graph.nodes.get(path[0])!;
+  const head: number[] = [], tail: number[] = [];
+  const mid = Math.floor(path.length / 2);
+  for (let i = 1; i < path.length - 1; i++) {
+    const n = graph.nodes.get(path[i]);
+    if (!n || haversine(start.lat, start.lon, n.lat, n.lon) > radius) continue;
+    if (i < mid && head.length < MAX_ADJUST_CANDIDATES) head.push(i);
+    if (i >= mid) tail.push(i);
+  }
+  return { head, tail: tail.slice(-MAX_ADJUST_CANDIDATES) };
+}
+
+// Boucle trop longue : remplacer un tronçon proche du départ par un chemin plus court
+function bestShortcut(graph: Graph, path: string[], edges: string[], distance: number, target: number, radius: number, weightMultiplier?: EdgeWeightMultiplier): string[] | null {
+  const { head, tail } = nodesNearStart(graph, path, radius);
+  const points = [0, ...head, ...tail, path.length - 1];
+  let best: { path: string[]; gap: number } | null = null;
+  for (const i of points) {
+    for (const j of points) {
+      // Ne jamais remplacer la boucle entière
+      if (j <= i + 1 || (i === 0 && j === path.length - 1)) continue;
+      const segment = pathEdgesOf(graph, path.slice(i, j + 1));
+      if (!segment) continue;
+      // Le raccourci ne doit pas réemprunter le reste de la boucle
+      const outside = new Set([...edges.slice(0, i), ...edges.slice(j)]);
+      const shortcut = astar(graph, path[i], path[j], segment.distance, 2000, outside, weightMultiplier);
+      if (!shortcut || shortcut.distance >= segment.distance || !isAllowed(graph, shortcut.path, weightMultiplier)) continue;
+      const candidate = [...path.slice(0, i), ...shortcut.path, ...path.slice(j + 1)];
+      const gap = Math.abs(distance - segment.distance + shortcut.distance - target);
+      if (gap < Math.abs(distance - target) && (!best || gap < best.gap)) best = { path: candidate, gap };
+    }
+  }
+  return best?.path || null;
+}
+
+// Boucle trop courte : remplacer une arête proche du départ par un petit détour sur des voies non empruntées
+function bestDetour(graph: Graph, path: string[], edges: string[], distance: number, target: number, radius: number, weightMultiplier?: EdgeWeightMultiplier): string[] | null {
+  const { head, tail } = nodesNearStart(graph, path, radius);
+  const used = new Set(edges);
+  let best: { path: string[]; gap: number } | null = null;
+  for (const i of [0, ...head, ...tail]) {
+    if (i >= path.length - 1) continue;
+    const edge = graph.edges.get(edges[i]);
+    if (!edge) continue;
+    const maxDetour = edge.distance + (target - distance) * 1.5;
+    const detour = astar(graph, path[i], path[i + 1], maxDetour, 2000, used, weightMultiplier);
+    if (!detour || !isAllowed(graph, detour.path, weightMultiplier)) continue;
+    const gap = Math.abs(distance - edge.distance + detour.distance - target);
+    if (gap < Math.abs(distance - target) && (!best || gap < best.gap)) {
+      best = { path: [...path.slice(0, i), ...detour.path, ...path.slice(i + 2)], gap };
+    }
+  }
+  return best?.path || null;
+}
+
+/**
+ * Post-optimise une boucle : supprime les antennes, décroise le tracé,
+ * puis ajuste la distance (±tolerance) par détours ou raccourcis près du départ.
+ * Renvoie la boucle inchangée si elle n'est pas un chemin continu du graphe.
+ */
+export function optimizeLoop(
+  graph: Graph,
+  loop: GeneratedLoop,
+  options: LoopOptimizationOptions
+): { loop: GeneratedLoop; stats: LoopOptimizationStats } {
+  const target = options.targetDistance;
+  const tolerance = options.tolerance ?? 0.05;
+  const radius = options.startRadius ?? Math.max(500, target * 0.15);
+  const stats: LoopOptimizationStats = {
+    removedBacktracks: 0, uncrossed: 0, adjustments: 0, distanceBefore: loop.distance, distanceAfter: loop.distance
+  };
+
+  const original = pathEdgesOf(graph, loop.loop);
+  if (!original || loop.loop.length < 4 || loop.loop[0] !== loop.loop[loop.loop.length - 1]) {
+    return { loop, stats };
+  }
+
+  let path = removeBacktracks(loop.loop);
+  // Une boucle entièrement aller-retour disparaîtrait : la garder telle quelle
+  if (path.length < 4) path = [...loop.loop];
+  stats.removedBacktracks = loop.loop.length - path.length;
+
+  const uncrossed = uncrossLoop(graph, path);
+  path = uncrossed.path;
+  stats.uncrossed = uncrossed.uncrossed;
+
+  let current = pathEdgesOf(graph, path)!;
+  for (let k = 0; k < (options.maxAdjustments ?? 5); k++) {
+    if (Math.abs(current.distance - target) <= target * tolerance) break;
+    const next = current.distance > target
+      ? bestShortcut(graph, path, current.edges, current.distance, target, radius, options.weightMultiplier)
+      : bestDetour(graph, path, current.edges, current.distance, target, radius, options.weightMultiplier);
+    const cleaned = next ? removeBacktracks(next) : null;
+    const nextEdges = cleaned && cleaned.length >= 4 ? pathEdgesOf(graph, cleaned) : null;
+    if (!cleaned || !nextEdges) break;
+    path = cleaned;
+    current = nextEdges;
+    stats.adjustments++;
+  }
+  stats.distanceAfter = current.distance;
+
+  return {
+    loop: { ...loop, loop: path, pathEdges: current.edges, distance: current.distance },
+    stats
+  };
+}
@@ -0,0 +1,228 @@
+// ------------------------------------------------------------------------
+// Map-matching : recalage d'une trace GPS brute sur les arêtes du graphe OSM
+// (modèle de Markov caché + Viterbi, d'après Newson & Krumm 2009)
+// ------------------------------------------------------------------------
+import { Graph, GraphEdge } from '../services/graph-builder.js';
+import { EdgeGridIndex, EdgeProjection } from '../utils/spatial-index.js';
+import { shortestPathTree, pathFromTree, ShortestPathTree } from './pathfinding.js';
+
+export interface TrackMatchOptions {
+  maxDistance?: number     // m, rayon de recherche des arêtes candidates autour d'un point (défaut 40)
+  sigma?: number           // m, écart-type du bruit GPS (défaut 10)
+  beta?: number            // m, tolérance entre distance sur le réseau et à vol d'oiseau (défaut 20)
+  maxCandidates?: number   // arêtes candidates par point (défaut 6)
+  index?: EdgeGridIndex    // index déjà construit pour ce graphe
+}
+
+export interface OffNetworkSection {
+  startIndex: number       // premier point hors réseau
+  endIndex: number         // dernier point hors réseau
+  distance: number         // m, longueur approximative de la section
+}
+
+export interface TrackMatch {
+  pointEdges: Array<string | null>   // arête retenue pour chaque point (null = hors réseau)
+  edges: string[]                    // arêtes orientées parcourues, liaisons entre points comprises
+  matchedRatio: number               // part des points recalés
+  offNetwork: OffNetworkSection[]    // sections de la trace sans arête proche
+  breaks: number[]                   // points où aucun chemin plausible ne relie au point précédent
+}
+
+interface Step {
+  pointIndex: number
+  candidates: EdgeProjection[]
+  scores: number[]          // log-probabilités de Viterbi
+  back: number[]            // meilleur candidat précédent (-1 = début de chaîne)
+}
+
+interface Transition {
+  distance: number          // m, distance sur le réseau entre les deux projetés
+  exit?: string             // nœud de sortie de l'arête de départ (absent si même arête)
+  entry?: string            // nœud d'entrée sur l'arête d'arrivée
+}
+
+function haversine(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371000;
+  const toRad = (x: number) => x * Math.PI / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+const samePair = (a: GraphEdge, b: GraphEdge) =>
+  (a.from === b.from && a.to === b.to) || (a.from === b.to && a.to === b.from);
+
+// Identifiant de l'arête u → v (sens inverse si seul celui-ci existe)
+const orientedEdgeId = (graph: Graph, u: string, v: string): string | undefined =>
+  graph.edges.get(`${u}-${v}`)?.id || graph.edges.get(`${v}-${u}`)?.id;
+
+/**
+ * Recale une trace ([lon, lat]) sur le graphe : chaque point reçoit l'arête la plus probable
+ * compte tenu de sa distance à l'arête (émission) et de la cohérence du trajet sur le réseau
+ * entre deux points successifs (transition).
+ */
+export function matchTrack(graph: Graph, coordinates: number[][], options: TrackMatchOptions = {}): TrackMatch {
+  const index = options.index || new EdgeGridIndex(graph);
+  const maxDistance = options.maxDistance ?? 40;
+  const sigma = options.sigma ?? 10;
+  const beta = options.beta ?? 20;
+  const maxCandidates = options.maxCandidates ?? 6;
+
+  // Arbres de plus courts chemins réutilisés d'un point à l'autre
+  const trees = new Map<string, { bound: number; tree: ShortestPathTree }>();
+  const treeFrom = (node: string, bound: number): ShortestPathTree => {
+    const cached = trees.get(node);
+    if (cached && cached.bound >= bound) return cached.tree;
+    if (trees.size > 2000) trees.clear();
+    const tree = shortestPathTree(graph, node, bound);
+    trees.set(node, { bound, tree });
+    return tree;
+  };
+
+  const transition = (a: EdgeProjection, b: EdgeProjection, bound: number): Transition | null => {
+    const ea = graph.edges.get(a.edgeId)!, eb = graph.edges.get(b.edgeId)!;
+    if (samePair(ea, eb)) {
+      const fb = ea.from === eb.from ? b.fraction : 1 - b.fraction;
+      return { distance: Math.abs(fb - a.fraction) * ea.distance };
+    }
+    const exits = [
+      { node: ea.to, cost: (1 - a.fraction) * ea.distance },
+      { node: ea.from, cost: a.fraction * ea.distance }
+    ];
+    const entries = [
+      { node: eb.from, cost: b.fraction * eb.distance },
+      { node: eb.to, cost: (1 - b.fraction) * eb.distance }
+    ];
+    let best: Transition | null = null;
+    for (const x of exits) {
+      const tree = treeFrom(x.node, bound);
+      for (const y of entries) {
+        const d = tree.distance.get(y.node);
+        if (d === undefined) continue;
+        const total = x.cost + d + y.cost;
+        if (!best || total < best.distance) best = { distance: total, exit: x.node, entry: y.node };
+      }
+    }
+    return best;
+  };
+
+  const emission = (c: EdgeProjection) => -0.5 * (c.distance / sigma) ** 2;
+
+  // 1. Viterbi, point par point (les points trop rapprochés héritent du précédent)
+  const steps: Step[] = [];
+  const breaks: number[] = [];
+  const keptFor: number[] = new Array(coordinates.length).fill(-1);   // point → étape qui le représente
+  let previous: Step | null = null;
+  for (let p = 0; p < coordinates.length; p++) {
+    const [lon, lat] = coordinates[p];
+    if (previous && p < coordinates.length - 1) {
+      const [plon, plat] = coordinates[previous.pointIndex];
+      if (haversine(plat, plon, lat, lon) < sigma / 2) {
+        keptFor[p] = steps.length - 1;
+        continue;
+      }
+    }
+    const candidates = index.edgesNear(lat, lon, maxDistance).slice(0, maxCandidates);
+    if (candidates.length === 0) {
+      previous = null;
+      continue;
+    }
+    let scores = candidates.map(emission);
+    let back = candidates.map(() => -1);
+    if (previous) {
+      const [plon, plat] = coordinates[previous.pointIndex];
+      const straight = haversine(plat, plon, lat, lon);
+      const bound = straight * 2 + 2 * maxDistance;
+      const linked = candidates.map((c, j) => {
+        let bestScore = -Infinity, bestIndex = -1;
+        previous!.candidates.forEach((pc, i) => {
+          if (previous!.scores[i] === -Infinity) return;
+          const t = transition(pc, c, bound);
+          if (!t) return;
+          const score = previous!.scores[i] - Math.abs(t.distance - straight) / beta;
+          if (score > bestScore) { bestScore = score; bestIndex = i; }
+        });
+        return { score: bestScore + scores[j], back: bestIndex };
+      });
+      if (linked.some(l => l.back !== -1)) {
+        scores = linked.map(l => l.score);
+        back = linked.map(l => l.back);
+      } else {
+        // Aucun chemin plausible depuis le point précédent : nouvelle chaîne
+        breaks.push(p);
+      }
+    }
+    previous = { pointIndex: p, candidates, scores, back };
+    steps.push(previous);
+    keptFor[p] = steps.length - 1;
+  }
+
+  // 2. Remontée des chaînes (de la fin vers le début)
+  const chosen: Array<EdgeProjection | null> = new Array(steps.length).fill(null);
+  const chainStart: boolean[] = new Array(steps.length).fill(false);
+  let next = -1;
+  for (let s = steps.length - 1; s >= 0; s--) {
+    const step = steps[s];
+    if (next === -1) {
+      next = step.scores.indexOf(Math.max(...step.scores));
+    }
+    chosen[s] = step.candidates[next];
+    next = step.back[next];
+    if (next === -1) chainStart[s] = true;
+  }
+
+  // 3. Suite d'arêtes orientées, chemins de liaison compris
+  const edges: string[] = [];
+  const pushEdge = (edgeId: string) => {
+    const last = edges.length > 0 ? graph.edges.get(edges[edges.length - 1]) : undefined;
+    const edge = graph.edges.get(edgeId)!;
+    if (last && samePair(last, edge)) edges[edges.length - 1] = edgeId;
+    else edges.push(edgeId);
+  };
+  for (let s = 0; s < steps.length; s++) {
+    const current = chosen[s]!;
+    if (chainStart[s] || s === 0) {
+      pushEdge(current.edgeId);
+      continue;
+    }
+    const prev = chosen[s - 1]!;
+    const [plon, plat] = coordinates[steps[s - 1].pointIndex];
+    const [lon, lat] = coordinates[steps[s].pointIndex];
+    const t = transition(prev, current, haversine(plat, plon, lat, lon) * 2 + 2 * maxDistance);
+    if (!t || !t.exit || !t.entry) continue;
+    const ea = graph.edges.get(prev.edgeId)!, eb = graph.edges.get(current.edgeId)!;
+    // Orienter l'arête précédente vers sa sortie, puis suivre le chemin de liaison
+    pushEdge(orientedEdgeId(graph, t.exit === ea.to ? ea.from : ea.to, t.exit)!);
+    const link = pathFromTree(treeFrom(t.exit, t.distance + 1), t.entry) || [t.exit];
+    for (let k = 0; k < link.length - 1; k++) {
+      const id = orientedEdgeId(graph, link[k], link[k + 1]);
+      if (id) pushEdge(id);
+    }
+    pushEdge(orientedEdgeId(graph, t.entry, t.entry === eb.from ? eb.to : eb.from)!);
+  }
+
+  // 4. Résultat par point et sections hors réseau
+  const pointEdges = keptFor.map(s => (s >= 0 ? chosen[s]?.edgeId || null : null));
+  const offNetwork: OffNetworkSection[] = [];
+  for (let p = 0; p < pointEdges.length; p++) {
+    if (pointEdges[p] !== null) continue;
+    const start = p;
+    while (p + 1 < pointEdges.length && pointEdges[p + 1] === null) p++;
+    let distance = 0;
+    for (let k = Math.max(1, start); k <= Math.min(pointEdges.length - 1, p + 1); k++) {
+      const [lon1, lat1] = coordinates[k - 1], [lon2, lat2] = coordinates[k];
+      distance += haversine(lat1, lon1, lat2, lon2);
+    }
+    offNetwork.push({ startIndex: start, endIndex: p, distance });
+  }
+  const matched = pointEdges.filter(Boolean).length;
+
+  return {
+    pointEdges,
+    edges,
+    matchedRatio: coordinates.length > 0 ? matched / coordinates.length : 0,
+    offNetwork,
+    breaks
+  };
+}
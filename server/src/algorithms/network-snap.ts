@@ -0,0 +1,102 @@
+// ------------------------------------------------------------------------
+// Recalage d'un point demandé (départ, arrivée, étape) sur le réseau principal :
+// projection sur l'arête la plus proche de la plus grande composante connexe à portée
+// ------------------------------------------------------------------------
+import { Graph, GraphComponents, connectedComponents } from '../services/graph-builder.js';
+import { EdgeGridIndex } from '../utils/spatial-index.js';
+import { exposeNode } from '../services/graph-simplifier.js';
+
+export interface NetworkSnapOptions {
+  radius?: number               // m, rayon de recherche des arêtes (défaut 500, élargi une fois si rien n'est trouvé)
+  component?: number            // composante imposée (ex. celle du départ pour l'arrivée)
+  components?: GraphComponents  // composantes déjà calculées pour ce graphe
+  index?: EdgeGridIndex         // index déjà construit pour ce graphe
+}
+
+export interface NetworkSnap {
+  nodeId: string        // nœud retenu : extrémité de l'arête la plus proche du projeté
+  edgeId: string        // arête la plus proche dans la composante retenue
+  component: number     // composante du nœud (0 : la plus étendue du graphe)
+  edgeDistance: number  // m, du point demandé à l'arête
+  distance: number      // m, du point demandé au nœud retenu (départ effectif)
+}
+
+const DEFAULT_SNAP_RADIUS = 500;
+const FALLBACK_RADIUS_FACTOR = 4;
+// Écart (m, le long du chemin) toléré entre le nœud recalé et une extrémité de chaîne du graphe simplifié
+const CHAIN_END_TOLERANCE = 30;
+
+function haversine(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371000;
+  const toRad = (x: number) => x * Math.PI / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Recale un point sur le réseau : parmi les arêtes à portée, seule compte la composante la plus étendue
+ * (un îlot isolé, cour privée par exemple, ne peut pas servir de départ) ; le nœud retenu est l'extrémité
+ * de l'arête la plus proche du point projeté, de préférence une extrémité d'où partent des arêtes.
+ * @returns null si aucune arête (de la composante imposée) n'est à portée
+ */
+export function snapToNetwork(graph: Graph, lat: number, lon: number, options: NetworkSnapOptions = {}): NetworkSnap | null {
+  const components = options.components || connectedComponents(graph);
+  const index = options.index || new EdgeGridIndex(graph);
+  const radius = options.radius ?? DEFAULT_SNAP_RADIUS;
+
+  const componentOf = (edgeId: string) => components.component.get(graph.edges.get(edgeId)!.from)!;
+  const near = (r: number) => index.edgesNear(lat, lon, r)
+    .filter(c => options.component === undefined || componentOf(c.edgeId) === options.component);
+  let candidates = near(radius);
+  if (candidates.length === 0) candidates = near(radius * FALLBACK_RADIUS_FACTOR);
+  if (candidates.length === 0) return null;
+
+  const component = Math.min(...candidates.map(c => componentOf(c.edgeId)));
+  const nearest = candidates.find(c => componentOf(c.edgeId) === component)!;
+  const edge = graph.edges.get(nearest.edgeId)!;
+  const ends = nearest.fraction <= 0.5 ? [edge.from, edge.to] : [edge.to, edge.from];
+  const nodeId = ends.find(id => graph.nodes.get(id)!.connections.length > 0) || ends[0];
+  const node = graph.nodes.get(nodeId)!;
+  return {
+    nodeId,
+    edgeId: edge.id,
+    component,
+    edgeDistance: nearest.distance,
+    distance: haversine(lat, lon, node.lat, node.lon)
+  };
+}
+
+/**
+ * Recale un point sur le graphe complet (tronçons courts, projection précise) puis reporte le nœud retenu
+ * dans le graphe simplifié qui en est issu : s'il est intermédiaire d'une arête composée, l'extrémité de la
+ * chaîne est retenue à moins de `tolerance` mètres le long du chemin, sinon le nœud est ajouté au graphe
+ * simplifié (arêtes composées coupées, voir exposeNode). Options (composantes, index) du graphe complet.
+ * @returns null si aucune arête (de la composante imposée) n'est à portée
+ */
+export function snapToSimplifiedNetwork(
+  simplified: Graph,
+  graph: Graph,
+  lat: number,
+  lon: number,
+  options: NetworkSnapOptions & { tolerance?: number } = {}
+): NetworkSnap | null {
+  const snap = snapToNetwork(graph, lat, lon, options);
+  if (!snap || simplified.nodes.has(snap.nodeId)) return snap;
+
+  const chainEdge = Array.from(simplified.edges.values()).find(edge => edge.via?.includes(snap.nodeId));
+  if (chainEdge) {
+    const chain = [chainEdge.from, ...chainEdge.via!, chainEdge.to];
+    const k = chain.indexOf(snap.nodeId);
+    const length = (part: string[]) => part.slice(1)
+      .reduce((total, to, i) => total + (graph.edges.get(`${part[i]}-${to}`)?.distance ?? 0), 0);
+    const [before, after] = [length(chain.slice(0, k + 1)), length(chain.slice(k))];
+    const end = before <= after ? chain[0] : chain[chain.length - 1];
+    if (Math.min(before, after) <= (options.tolerance ?? CHAIN_END_TOLERANCE)) {
+      const node = simplified.nodes.get(end)!;
+      return { ...snap, nodeId: end, distance: haversine(lat, lon, node.lat, node.lon) };
+    }
+  }
+  return exposeNode(simplified, graph, snap.nodeId) ? snap : null;
+}
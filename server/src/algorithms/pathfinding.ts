@@ -1,48 +1,229 @@
-import { Graph } from '../services/graph-builder.js';
+import { Graph, GraphEdge } from '../services/graph-builder.js';
 
 export interface PathfindingResult {
   path: string[];
   distance: number;
 }
 
-export function dijkstra(graph: Graph, start: string, goal: string, maxDistance=3000, maxNodes=500, forbiddenEdges?: Set<string>, edgeWeightMultiplier?: (edgeId: string, edge: any) => number): PathfindingResult|null {
-  // Simple BFS avec distance
-  const queue: [string, number, string[]][] = [[start, 0, [start]]];
-  const visited = new Set<string>();
-  while(queue.length>0) {
-    const [u, dist, path] = queue.shift()!;
-    if(u===goal && dist<=maxDistance) return {path, distance: dist};
-    if(dist>maxDistance||visited.has(u)||path.length>maxNodes) continue;
-    visited.add(u);
-    const node = graph.nodes.get(u);
-    if(!node) continue;
-    for(const v of node.connections) {
-      // Essayer les deux sens de l'edge
-      let e = graph.edges.get(`${u}-${v}`);
-      if(!e) {
-        e = graph.edges.get(`${v}-${u}`);
+export type EdgeWeightMultiplier = (edgeId: string, edge: GraphEdge) => number;
+
+/**
+ * File de priorité min (tas binaire) utilisée par Dijkstra et A*
+ */
+export class MinHeap<T> {
+  private items: T[] = [];
+  private priorities: number[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: T, priority: number): void {
+    this.items.push(item);
+    this.priorities.push(priority);
+    this.bubbleUp(this.items.length - 1);
+  }
+
+  pop(): { item: T; priority: number } | undefined {
+    if (this.items.length === 0) return undefined;
+    const item = this.items[0];
+    const priority = this.priorities[0];
+    const lastItem = this.items.pop()!;
+    const lastPriority = this.priorities.pop()!;
+    if (this.items.length > 0) {
+      this.items[0] = lastItem;
+      this.priorities[0] = lastPriority;
+      this.sinkDown(0);
+    }
+    return { item, priority };
+  }
+
+  private bubbleUp(i: number): void {
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.priorities[parent] <= this.priorities[i]) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  private sinkDown(i: number): void {
+    const n = this.items.length;
+    for (;;) {
+      const left = 2 * i + 1, right = left + 1;
+      let smallest = i;
+      if (left < n && this.priorities[left] < this.priorities[smallest]) smallest = left;
+      if (right < n && this.priorities[right] < this.priorities[smallest]) smallest = right;
+      if (smallest === i) break;
+      this.swap(i, smallest);
+      i = smallest;
+    }
+  }
+
+  private swap(a: number, b: number): void {
+    [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+    [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+  }
+}
+
+function haversine(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371000;
+  const toRad = (x: number) => x * Math.PI / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+// Essayer les deux sens de l'edge
+function findEdge(graph: Graph, u: string, v: string): GraphEdge | undefined {
+  return graph.edges.get(`${u}-${v}`) || graph.edges.get(`${v}-${u}`);
+}
+
+function isForbidden(forbiddenEdges: Set<string> | undefined, edge: GraphEdge, u: string, v: string): boolean {
+  if (!forbiddenEdges) return false;
+  return forbiddenEdges.has(edge.id) || forbiddenEdges.has(`${u}-${v}`) || forbiddenEdges.has(`${v}-${u}`);
+}
+
+/**
+ * Recherche de plus court chemin commune à Dijkstra et A*.
+ * - maxDistance : coût pondéré maximal accepté (m)
+ * - maxNodes : nombre maximal de nœuds définitivement traités (budget de recherche)
+ * - heuristic : estimation admissible du coût restant (0 pour Dijkstra)
+ * Le résultat renvoie la distance réelle (m) du chemin, sans les multiplicateurs de poids.
+ */
+function shortestPath(
+  graph: Graph,
+  start: string,
+  goal: string,
+  maxDistance: number,
+  maxNodes: number,
+  heuristic: (nodeId: string) => number,
+  forbiddenEdges?: Set<string>,
+  edgeWeightMultiplier?: EdgeWeightMultiplier
+): PathfindingResult | null {
+  if (!graph.nodes.has(start) || !graph.nodes.has(goal)) return null;
+
+  const cost = new Map<string, number>([[start, 0]]);
+  const realDistance = new Map<string, number>([[start, 0]]);
+  const previous = new Map<string, string>();
+  const settled = new Set<string>();
+  const heap = new MinHeap<string>();
+  heap.push(start, heuristic(start));
+
+  while (heap.size > 0 && settled.size < maxNodes) {
+    const u = heap.pop()!.item;
+    if (settled.has(u)) continue;
+    settled.add(u);
+
+    const dist = cost.get(u)!;
+    if (dist > maxDistance) return null;
+    if (u === goal) {
+      const path = [goal];
+      let current = goal;
+      while (previous.has(current)) {
+        current = previous.get(current)!;
+        path.push(current);
       }
-      if(!e) continue;
-      
+      path.reverse();
+      return { path, distance: realDistance.get(goal)! };
+    }
+
+    const node = graph.nodes.get(u);
+    if (!node) continue;
+    for (const v of node.connections) {
+      if (settled.has(v)) continue;
+      const e = findEdge(graph, u, v);
+      if (!e) continue;
+
       // Éviter les edges interdites (pour éviter de revenir par le même chemin)
-      if (forbiddenEdges && (forbiddenEdges.has(e.id) || forbiddenEdges.has(`${u}-${v}`) || forbiddenEdges.has(`${v}-${u}`))) {
-        continue;
-      }
-      
-      // Appliquer le multiplicateur de poids si fourni
-      let edgeWeight = e.distance;
-      if (edgeWeightMultiplier) {
-        const multiplier = edgeWeightMultiplier(e.id, e);
-        edgeWeight = e.distance * multiplier;
+      if (isForbidden(forbiddenEdges, e, u, v)) continue;
+
+      // Appliquer la pénalité d'accès de l'arête et le multiplicateur de poids si fourni
+      const baseWeight = e.distance * (e.accessPenalty ?? 1);
+      const edgeWeight = edgeWeightMultiplier ? baseWeight * edgeWeightMultiplier(e.id, e) : baseWeight;
+      const newCost = dist + edgeWeight;
+      if (newCost > maxDistance) continue;
+
+      const known = cost.get(v);
+      if (known === undefined || newCost < known) {
+        cost.set(v, newCost);
+        realDistance.set(v, realDistance.get(u)! + e.distance);
+        previous.set(v, u);
+        heap.push(v, newCost + heuristic(v));
       }
-      
-      queue.push([v, dist + edgeWeight, [...path, v]]);
     }
   }
   return null;
 }
 
-export function astar(graph: Graph, start: string, goal: string, maxDistance=3000, maxNodes=500): PathfindingResult|null {
-  // Pour le mock : renvoie juste BFS, à spécialiser plus tard
-  return dijkstra(graph, start, goal, maxDistance, maxNodes);
+export interface ShortestPathTree {
+  distance: Map<string, number>;
+  previous: Map<string, string>;
+}
+
+/**
+ * Dijkstra mono-source sans cible : distances (m) vers tous les nœuds à moins de maxDistance
+ */
+export function shortestPathTree(graph: Graph, start: string, maxDistance: number, maxNodes = 5000): ShortestPathTree {
+  const distance = new Map<string, number>([[start, 0]]);
+  const previous = new Map<string, string>();
+  const settled = new Set<string>();
+  const heap = new MinHeap<string>();
+  heap.push(start, 0);
+
+  while (heap.size > 0 && settled.size < maxNodes) {
+    const u = heap.pop()!.item;
+    if (settled.has(u)) continue;
+    settled.add(u);
+    const dist = distance.get(u)!;
+    const node = graph.nodes.get(u);
+    if (!node) continue;
+    for (const v of node.connections) {
+      if (settled.has(v)) continue;
+      const e = findEdge(graph, u, v);
+      if (!e) continue;
+      const newDist = dist + e.distance;
+      if (newDist > maxDistance) continue;
+      const known = distance.get(v);
+      if (known === undefined || newDist < known) {
+        distance.set(v, newDist);
+        previous.set(v, u);
+        heap.push(v, newDist);
+      }
+    }
+  }
+  return { distance, previous };
+}
+
+/**
+ * Chemin (liste de nœuds) de la racine de l'arbre jusqu'à `target`
+ */
+export function pathFromTree(tree: ShortestPathTree, target: string): string[] | null {
+  if (!tree.distance.has(target)) return null;
+  const path = [target];
+  let current = target;
+  while (tree.previous.has(current)) {
+    current = tree.previous.get(current)!;
+    path.push(current);
+  }
+  return path.reverse();
+}
+
+export function dijkstra(graph: Graph, start: string, goal: string, maxDistance=3000, maxNodes=500, forbiddenEdges?: Set<string>, edgeWeightMultiplier?: EdgeWeightMultiplier): PathfindingResult|null {
+  return shortestPath(graph, start, goal, maxDistance, maxNodes, () => 0, forbiddenEdges, edgeWeightMultiplier);
+}
+
+/**
+ * A* avec heuristique haversine vers la destination.
+ * L'heuristique reste admissible tant que les multiplicateurs de poids sont >= 1.
+ */
+export function astar(graph: Graph, start: string, goal: string, maxDistance=3000, maxNodes=500, forbiddenEdges?: Set<string>, edgeWeightMultiplier?: EdgeWeightMultiplier): PathfindingResult|null {
+  const goalNode = graph.nodes.get(goal);
+  if (!goalNode) return null;
+  const heuristic = (nodeId: string) => {
+    const node = graph.nodes.get(nodeId);
+    return node ? haversine(node.lat, node.lon, goalNode.lat, goalNode.lon) : 0;
+  };
+  return shortestPath(graph, start, goal, maxDistance, maxNodes, heuristic, forbiddenEdges, edgeWeightMultiplier);
 }
@@ -0,0 +1,112 @@
+// ------------------------------------------------------------------------
+// Itinéraire point à point (avec étapes) sur le graphe OSM
+// ------------------------------------------------------------------------
+import { Graph, GraphEdge } from '../services/graph-builder.js';
+import { astar, EdgeWeightMultiplier } from './pathfinding.js';
+import { GeneratedLoop, routingWeightMultiplier } from './loop-generator.js';
+import { calculateWayQualityScore } from '../services/osm-service.js';
+import { TerrainPreference } from '../utils/surface-classifier.js';
+import { timeOfDayContext } from '../utils/time-of-day.js';
+
+export interface PointToPointOptions {
+  startNodeId: string
+  endNodeId: string
+  viaNodeIds?: string[]            // étapes, dans l'ordre
+  terrainType?: TerrainPreference
+  profile?: string                 // profil de routage (voies autorisées, pénalités)
+  startTime?: string               // heure de départ ISO 8601 avec décalage UTC (voies éclairées de nuit, horaires d'ouverture)
+  maxDistance?: number             // m, par tronçon
+}
+
+export interface PointToPointDebug {
+  legs: Array<{ from: string; to: string; distance: number; nodes: number }>
+  warnings: string[]
+  timings: Record<string, number>
+}
+
+// Score qualité max renvoyé par calculateWayQualityScore
+const MAX_QUALITY = 30;
+
+// Pénalité sur les arêtes déjà empruntées par un tronçon précédent
+const REUSE_PENALTY = 3;
+
+/**
+ * Multiplicateur (>= 1) favorisant les voies de bonne qualité :
+ * 1 pour un score maximal, 2 pour un score nul
+ */
+export function qualityWeightMultiplier(edge: GraphEdge): number {
+  const quality = edge.tags ? calculateWayQualityScore(edge.tags) : MAX_QUALITY / 2;
+  return 1 + (MAX_QUALITY - quality) / MAX_QUALITY;
+}
+
+/**
+ * Calcule un itinéraire départ → étapes → arrivée, tronçon par tronçon,
+ * avec la même pondération qualité que la génération de boucles.
+ * Renvoie un chemin au format GeneratedLoop pour réutiliser le même assemblage.
+ */
+export function generatePointToPoint(
+  graph: Graph,
+  options: PointToPointOptions
+): { route: GeneratedLoop | null; debug: PointToPointDebug } {
+  const t0 = Date.now();
+  const debug: PointToPointDebug = { legs: [], warnings: [], timings: {} };
+  const stops = [options.startNodeId, ...(options.viaNodeIds || []), options.endNodeId];
+  for (const stop of stops) {
+    if (!graph.nodes.has(stop)) {
+      debug.warnings.push(`Node ${stop} not found in graph`);
+      return { route: null, debug };
+    }
+  }
+
+  const usedEdges = new Set<string>();
+  const startNode = graph.nodes.get(options.startNodeId)!;
+  const timeOfDay = options.startTime ? timeOfDayContext(options.startTime, startNode.lat, startNode.lon) : undefined;
+  const routingMultiplier = routingWeightMultiplier(options.terrainType, options.profile, timeOfDay);
+  const weightMultiplier: EdgeWeightMultiplier = (edgeId, edge) => {
+    let multiplier = qualityWeightMultiplier(edge) * (routingMultiplier ? routingMultiplier(edgeId, edge) : 1);
+    if (usedEdges.has(edgeId) || usedEdges.has(`${edge.to}-${edge.from}`)) multiplier *= REUSE_PENALTY;
+    return multiplier;
+  };
+
+  const path: string[] = [options.startNodeId];
+  const pathEdges: string[] = [];
+  let distance = 0;
+  for (let i = 0; i < stops.length - 1; i++) {
+    const from = stops[i], to = stops[i + 1];
+    if (from === to) continue;
+    const result = astar(graph, from, to, options.maxDistance ?? 100000, 50000, undefined, weightMultiplier);
+    if (!result) {
+      debug.warnings.push(`No path found between ${from} and ${to}`);
+      return { route: null, debug };
+    }
+    for (let j = 0; j < result.path.length - 1; j++) {
+      const u = result.path[j], v = result.path[j + 1];
+      const edge = graph.edges.get(`${u}-${v}`) || graph.edges.get(`${v}-${u}`);
+      if (edge) {
+        pathEdges.push(edge.id);
+        usedEdges.add(edge.id);
+      }
+    }
+    path.push(...result.path.slice(1));
+    distance += result.distance;
+    debug.legs.push({ from, to, distance: result.distance, nodes: result.path.length });
+  }
+
+  let quality = 0;
+  for (const edgeId of pathEdges) {
+    const edge = graph.edges.get(edgeId);
+    quality += edge?.tags ? calculateWayQualityScore(edge.tags) : MAX_QUALITY / 2;
+  }
+  debug.timings.total = Date.now() - t0;
+
+  return {
+    route: {
+      loop: path,
+      pathEdges,
+      distance,
+      qualityScore: pathEdges.length > 0 ? Math.min(1, quality / pathEdges.length / MAX_QUALITY) : 0,
+      debug: { legs: debug.legs, note: 'Point to point' }
+    },
+    debug
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * Configuration des sources d'altitude
+ *
+ * - `remote` : API publique Open-Elevation
+ * - `local`  : tuiles MNT (SRTM .hgt ou GeoTIFF) d'un répertoire local
+ * - `auto`   : tuiles locales, puis l'API pour les points non couverts
+ *
+ * Variables d'environnement : ELEVATION_PROVIDER, ELEVATION_DEM_DIR, ELEVATION_GRAPH
+ */
+
+export type ElevationProviderName = 'remote' | 'local' | 'auto'
+
+const PROVIDERS: ElevationProviderName[] = ['remote', 'local', 'auto']
+
+function providerFromEnv(): ElevationProviderName {
+  const value = process.env.ELEVATION_PROVIDER?.toLowerCase()
+  if (value && (PROVIDERS as string[]).includes(value)) return value as ElevationProviderName
+  if (value) console.warn(`[Elevation] ELEVATION_PROVIDER="${value}" inconnu, valeurs possibles : ${PROVIDERS.join(', ')}`)
+  // Sans choix explicite, on utilise les tuiles locales dès qu'un répertoire est configuré
+  return process.env.ELEVATION_DEM_DIR ? 'auto' : 'remote'
+}
+
+// Altitudes des nœuds ajoutées à la construction du graphe : par défaut seulement
+// avec des tuiles locales (l'API publique ne suit pas des milliers de nœuds par zone)
+function enrichGraphFromEnv(provider: ElevationProviderName): boolean {
+  const value = process.env.ELEVATION_GRAPH?.toLowerCase()
+  if (value === 'true' || value === '1') return true
+  if (value === 'false' || value === '0') return false
+  return provider !== 'remote'
+}
+
+const provider = providerFromEnv()
+
+export const ELEVATION_CONFIG = {
+  /** Source d'altitude utilisée par getElevations() */
+  provider,
+
+  /** Ajouter altitudes des nœuds et pentes des arêtes lors de la construction du graphe */
+  enrichGraph: enrichGraphFromEnv(provider),
+
+  /** Répertoire des tuiles MNT (N43E001.hgt, *.tif, *.tiff) */
+  demDirectory: process.env.ELEVATION_DEM_DIR || './data/dem',
+
+  /** Nombre de tuiles gardées en mémoire */
+  tileCacheSize: 6,
+
+  /** API Open-Elevation */
+  remote: {
+    endpoint: 'https://api.open-elevation.com/api/v1/lookup',
+    /** Points par requête (au-delà, risque de timeout) */
+    batchSize: 100,
+    /** Timeout par requête (en millisecondes) */
+    timeout: 10000,
+    /** Pause entre deux requêtes (en millisecondes) */
+    delayBetweenRequests: 100
+  }
+} as const
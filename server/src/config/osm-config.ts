@@ -27,6 +27,18 @@ export const OVERPASS_CONFIG = {
   maxNodes: 5000
 } as const
 
+/**
+ * Extrait OSM local (.osm.pbf ou .osm) utilisé à la place de l'API Overpass
+ * Variable d'environnement : OSM_EXTRACT_FILE
+ */
+export const OSM_EXTRACT_CONFIG = {
+  /** Chemin de l'extrait régional (ex. Geofabrik), non défini : API Overpass */
+  file: process.env.OSM_EXTRACT_FILE || undefined,
+
+  /** Taille des morceaux lus dans le fichier (en octets) */
+  readChunkSize: 1024 * 1024
+} as const
+
 /**
  * Configuration de l'API OSRM
  */
@@ -85,37 +97,121 @@ export const RUNNING_PATH_TAGS = {
 export const SURFACE_TYPES = {
   /** Surfaces naturelles */
   natural: [
+    'unpaved',      // Non revêtu (sans précision)
     'grass',        // Herbe
     'dirt',         // Terre
+    'ground',       // Sol naturel
+    'earth',        // Terre naturelle
+    'soil',         // Terre
+    'mud',          // Boue
+    'clay',         // Argile
     'sand',         // Sable
     'gravel',       // Gravier
+    'pebblestone',  // Galets
     'rock',         // Roche
-    'mud',          // Boue
-    'earth'         // Terre naturelle
+    'stepping_stones', // Pierres de gué
+    'woodchips',    // Copeaux de bois
+    'snow',         // Neige
+    'ice'           // Glace
   ],
   
   /** Surfaces artificielles */
   artificial: [
     'paved',        // Revêtu
     'asphalt',      // Asphalte
+    'chipseal',     // Enduit gravillonné
     'concrete',     // Béton
+    'concrete:plates', // Dalles de béton
+    'concrete:lanes',  // Bandes de béton
     'paving_stones', // Pavés
+    'sett',         // Pavés taillés
     'cobblestone',  // Pavés de pierre
+    'unhewn_cobblestone', // Pavés bruts
     'brick',        // Briques
     'metal',        // Métal
     'wood',         // Bois
-    'tartan'        // Tartan (sport)
+    'tartan',       // Tartan (sport)
+    'artificial_turf', // Gazon synthétique
+    'rubber'        // Caoutchouc
   ],
   
   /** Surfaces mixtes */
   mixed: [
-    'unpaved',      // Non revêtu
     'compacted',    // Compacté
     'fine_gravel',  // Gravier fin
-    'pebblestone'   // Galets
+    'grass_paver',  // Dalles gazon
+    'gravel_turf'   // Gravier engazonné
   ]
 } as const
 
+/**
+ * Restrictions d'accès piéton
+ * Basé sur la documentation OSM : https://wiki.openstreetmap.org/wiki/Key:access
+ */
+export const ACCESS_RULES = {
+  /** Valeurs de access / foot interdisant le passage */
+  forbidden: ['no', 'private', 'military', 'use_sidepath'],
+
+  /** Valeurs tolérées mais déconseillées (passage pénalisé) */
+  discouraged: ['destination', 'customers', 'delivery', 'agricultural', 'forestry', 'permit', 'discouraged'],
+
+  /** Multiplicateur de poids des voies déconseillées */
+  discouragedPenalty: 3,
+
+  /** Barrières (nœuds) infranchissables à pied, sauf foot=yes */
+  impassableBarriers: ['wall', 'fence', 'hedge', 'retaining_wall', 'city_wall', 'ditch'],
+
+  /** Types de voies où `oneway` concerne aussi les piétons (sinon seul `oneway:foot` compte) */
+  pedestrianOnewayHighways: ['footway', 'path', 'steps', 'pedestrian']
+} as const
+
+/**
+ * Liaisons déduites entre sous-réseaux (chemins qui s'arrêtent à quelques mètres d'une autre voie)
+ * Variable d'environnement : GRAPH_CONNECTORS=true
+ */
+export const CONNECTOR_CONFIG = {
+  /** Passe optionnelle, désactivée par défaut */
+  enabled: process.env.GRAPH_CONNECTORS?.toLowerCase() === 'true',
+
+  /** Longueur maximale d'une liaison (en mètres) */
+  maxDistance: 15,
+
+  /** Distance sous laquelle la liaison rejoint directement un nœud de la voie (en mètres) */
+  nodeSnapDistance: 2,
+
+  /** Grands axes (et leurs bretelles _link) qu'une liaison ne traverse pas */
+  majorRoads: RUNNING_PATH_TAGS.exclude,
+
+  /** Barrières linéaires qu'une liaison ne traverse pas */
+  barriers: ACCESS_RULES.impassableBarriers
+} as const
+
+/**
+ * Ralentissement (multiplicateur du temps de parcours) selon la surface
+ * Par catégorie de SURFACE_TYPES, avec quelques surfaces particulièrement lentes
+ */
+export const SURFACE_SLOWDOWN = {
+  /** Par catégorie */
+  categories: {
+    artificial: 1.0,
+    mixed: 1.05,
+    natural: 1.12
+  },
+
+  /** Surfaces plus lentes que leur catégorie */
+  surfaces: {
+    cobblestone: 1.05,
+    grass: 1.1,
+    gravel: 1.1,
+    rock: 1.25,
+    sand: 1.3,
+    mud: 1.35
+  } as Record<string, number>,
+
+  /** Surface inconnue */
+  unknown: 1.03
+} as const
+
 /**
  * Configuration de limitation de taux
  */
@@ -227,6 +323,9 @@ export const configUtils = {
       [out:json][timeout:${OVERPASS_CONFIG.timeout}];
       (
         way["highway"~"^(${tags.join('|')})$"](${area.south},${area.west},${area.north},${area.east});
+        way["leisure"]["opening_hours"](${area.south},${area.west},${area.north},${area.east});${CONNECTOR_CONFIG.enabled ? `
+        way["highway"~"^(${CONNECTOR_CONFIG.majorRoads.join('|')})(_link)?$"](${area.south},${area.west},${area.north},${area.east});
+        way["barrier"~"^(${CONNECTOR_CONFIG.barriers.join('|')})$"](${area.south},${area.west},${area.north},${area.east});` : ''}
       );
       out geom;
       (
@@ -236,6 +335,20 @@ export const configUtils = {
     `
   }),
 
+  /**
+   * Une way correspond-elle aux filtres de buildOverpassQuery ? (import d'extraits locaux)
+   */
+  matchesPathQuery: (tags: Record<string, string>, highways: readonly string[]): boolean =>
+    highways.includes(tags.highway) || (!!tags.leisure && !!tags.opening_hours)
+      || (CONNECTOR_CONFIG.enabled && configUtils.isConnectorObstacle(tags)),
+
+  /**
+   * Voie qu'une liaison déduite ne doit pas traverser (grand axe, mur, clôture…)
+   */
+  isConnectorObstacle: (tags: Record<string, string>): boolean =>
+    (CONNECTOR_CONFIG.majorRoads as readonly string[]).includes(tags.highway?.replace(/_link$/, ''))
+      || (CONNECTOR_CONFIG.barriers as readonly string[]).includes(tags.barrier),
+
   /**
    * Valide une zone de recherche
    */
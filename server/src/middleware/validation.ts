@@ -26,6 +26,12 @@ export const routeGenerationSchema = z.object({
   difficulty: z.enum(['easy', 'medium', 'hard', 'expert']).optional(),
   terrain_type: z.enum(['paved', 'unpaved', 'mixed']).optional(),
   elevation_gain: z.number().min(0).max(5000).optional(),
+  max_elevation_gain: z.number().min(0).max(5000).optional(),
+  num_variants: z.number().int().min(1).max(5).optional(),
+  pace: z.number().positive().max(60).optional(),
+  duration_model: z.enum(['naismith', 'tobler', 'running']).optional(),
+  profile: z.string().regex(/^[a-z0-9-]+$/).optional(),
+  start_time: z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i).optional(),
 })
 
 // User preferences schema
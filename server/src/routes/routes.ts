@@ -3,13 +3,28 @@ import { z } from 'zod'
 import { PrismaClient } from '@prisma/client'
 import { osrmService } from '../services/osrm-service.js'
 import { RouteGenerationRequest, RouteGenerationResponse } from '@trail-route-generator/shared/types'
-import { buildGraph, validateGraph } from '../services/graph-builder.js'
-import { generateLoops } from '../algorithms/loop-generator.js'
-import * as GraphCache from '../services/graph-cache.js'
-import { osmService } from '../services/osm-service.js'
+import { Graph, hasElevationData, connectedComponents } from '../services/graph-builder.js'
+import { generateLoops, MAX_VARIANTS } from '../algorithms/loop-generator.js'
+import { snapToSimplifiedNetwork, NetworkSnap } from '../algorithms/network-snap.js'
+import { generatePointToPoint } from '../algorithms/point-to-point.js'
+import { extendHierarchy } from '../algorithms/contraction-hierarchy.js'
+import { loadAreaGraph, loadAreaHierarchy, saveAreaGraph, areaCovering, enrichGraphElevations, simplifyAreaGraph } from '../services/area-graph.js'
+import { expandPath } from '../services/graph-simplifier.js'
+import { EdgeGridIndex } from '../utils/spatial-index.js'
+import { assembleRoute, AssembledRoute } from '../services/route-assembler.js'
+import { rememberGeneratedRoute, getGeneratedRoute, getSavedRouteId, markGeneratedRouteSaved } from '../services/generated-route-store.js'
+import { authMiddleware } from '../middleware/auth.js'
+import { buildGpx, gpxFileName, GpxRoute } from '../utils/gpx.js'
+import { parseTrackFile } from '../utils/track-import.js'
+import { analyseTrack } from '../services/track-importer.js'
+import { toElevationStats } from '../utils/elevation-analysis.js'
+import { CustomError } from '../middleware/error-handler.js'
 import { routingService } from '../services/routing-service.js'
-import { ensureOSMFormat, detectFormat } from '../utils/format-adapter.js'
-import { getElevations, calculateElevationGain } from '../services/elevation-service.js'
+import { detectFormat } from '../utils/format-adapter.js'
+import { DIFFICULTY_LEVELS } from '../utils/difficulty.js'
+import { DURATION_MODELS } from '../utils/duration-model.js'
+import { getRoutingProfile, listRoutingProfiles } from '../services/routing-profiles.js'
+import { conditionsSummary, timeOfDayContext } from '../utils/time-of-day.js'
 
 const router = express.Router()
 const prisma = new PrismaClient()
@@ -35,6 +50,12 @@ const createRouteSchema = z.object({
 
 const updateRouteSchema = createRouteSchema.partial()
 
+// Sauvegarde d'un itinéraire généré (nom et description facultatifs)
+const saveGeneratedRouteSchema = z.object({
+  name: z.string().min(1, 'Le nom est requis').max(200).optional(),
+  description: z.string().max(2000).optional()
+})
+
 // Calculate route between two points
 const calculateRouteSchema = z.object({
   start: z.array(z.number()).length(2, 'Point de départ requis [longitude, latitude]'),
@@ -115,6 +136,195 @@ router.get('/', async (req, res) => {
   }
 })
 
+// Format client d'un itinéraire sauvegardé (snake_case, étapes ordonnées)
+function toClientRoute(route: any) {
+  const { userId, path_edges, waypoints = [], ...rest } = route
+  return {
+    ...rest,
+    user_id: userId,
+    pathEdges: path_edges || [],
+    waypoints: [...waypoints]
+      .sort((a: any, b: any) => a.order - b.order)
+      .map(({ routeId, ...waypoint }: any) => ({ ...waypoint, route_id: routeId }))
+  }
+}
+
+// Coordonnées [lon, lat(, ele)] d'une géométrie LineString enregistrée (champ JSON), vide si elle est inexploitable
+function lineCoordinates(geometry: unknown): number[][] {
+  if (typeof geometry !== 'object' || geometry === null || !('coordinates' in geometry)) return []
+  const { coordinates } = geometry
+  if (!Array.isArray(coordinates)) return []
+  return coordinates.filter((position): position is number[] =>
+    Array.isArray(position) && position.length >= 2 && position.every(value => typeof value === 'number'))
+}
+
+// Get current user's saved routes
+router.get('/mine', authMiddleware, async (req, res) => {
+  try {
+    const routes = await prisma.route.findMany({
+      where: { userId: req.user!.id },
+      orderBy: { created_at: 'desc' },
+      include: { waypoints: true }
+    })
+
+    res.json({
+      success: true,
+      routes: routes.map(toClientRoute)
+    })
+  } catch (error) {
+    console.error('Get user routes error:', error)
+    res.status(500).json({
+      success: false,
+      message: 'Erreur lors du chargement de vos itinéraires'
+    })
+  }
+})
+
+// Profils de routage disponibles (paramètre `profile` de /generate)
+router.get('/profiles', (_req, res) => {
+  res.json({
+    success: true,
+    profiles: listRoutingProfiles().map(({ id, name, description }) => ({ id, name, description }))
+  })
+})
+
+// Export GPX d'un itinéraire généré (encore en mémoire) ou sauvegardé
+router.get('/:id/export.gpx', async (req, res) => {
+  try {
+    const { id } = req.params
+    let gpxRoute: GpxRoute | null = null
+
+    const generated = getGeneratedRoute(id)
+    if (generated) {
+      gpxRoute = {
+        name: generated.name,
+        createdAt: generated.created_at,
+        coordinates: generated.geometry.coordinates,
+        elevationProfile: generated.elevation_profile,
+        waypoints: generated.waypoints
+      }
+    } else {
+      const route = await prisma.route.findUnique({ where: { id }, include: { waypoints: true } })
+      if (route) {
+        gpxRoute = {
+          name: route.name,
+          description: route.description,
+          createdAt: route.created_at,
+          coordinates: lineCoordinates(route.geometry),
+          waypoints: [...route.waypoints]
+            .sort((a, b) => a.order - b.order)
+            .map(waypoint => ({ lat: waypoint.latitude, lon: waypoint.longitude, name: waypoint.name || undefined }))
+        }
+      }
+    }
+
+    if (!gpxRoute) {
+      return res.status(404).json({
+        error: 'Itinéraire non trouvé'
+      })
+    }
+    if (gpxRoute.coordinates.length < 2) {
+      return res.status(422).json({
+        error: 'Itinéraire sans géométrie exportable'
+      })
+    }
+
+    res.setHeader('Content-Type', 'application/gpx+xml; charset=utf-8')
+    res.setHeader('Content-Disposition', `attachment; filename="${gpxFileName(gpxRoute.name)}"`)
+    res.send(buildGpx(gpxRoute))
+  } catch (error) {
+    console.error('Export GPX error:', error)
+    res.status(500).json({
+      error: 'Erreur lors de l\'export GPX'
+    })
+  }
+})
+
+// Import a GPS track (GPX, KML or GeoJSON) as a new route
+// Le fichier est envoyé brut dans le corps de la requête, son nom dans ?filename=
+const trackUpload = express.text({
+  type: ['text/*', 'application/gpx+xml', 'application/vnd.google-earth.kml+xml', 'application/geo+json', 'application/xml', 'application/octet-stream'],
+  limit: '10mb'
+})
+
+router.post('/import', authMiddleware, trackUpload, async (req, res) => {
+  try {
+    if (typeof req.body !== 'string' || req.body.trim().length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Fichier vide ou type de contenu non pris en charge'
+      })
+    }
+    const filename = typeof req.query.filename === 'string' ? req.query.filename : undefined
+    const track = parseTrackFile(req.body, filename)
+    console.log(`📥 Importing ${track.format.toUpperCase()} track: ${track.coordinates.length} points`)
+
+    const analysis = await analyseTrack(track)
+    const [startLon, startLat] = track.coordinates[0]
+    const [endLon, endLat] = track.coordinates[track.coordinates.length - 1]
+    const waypoints = track.waypoints.length > 0 ? track.waypoints : [
+      { lat: startLat, lon: startLon, name: 'Départ' },
+      { lat: endLat, lon: endLon, name: 'Arrivée' }
+    ]
+
+    const route = await prisma.route.create({
+      data: {
+        userId: req.user!.id,
+        name: track.name || filename?.replace(/\.[^.]+$/, '') || `Trace importée de ${analysis.distance.toFixed(1)} km`,
+        description: track.description,
+        distance: analysis.distance,
+        duration: analysis.duration,
+        elevation: analysis.elevationGain,
+        elevation_loss: analysis.elevationLoss,
+        difficulty: analysis.difficulty,
+        terrain_type: analysis.terrainType,
+        geometry: { type: 'LineString', coordinates: track.coordinates },
+        path_edges: analysis.pathEdges.length > 0 ? analysis.pathEdges : undefined,
+        waypoints: {
+          create: waypoints.map((waypoint, order) => ({
+            name: waypoint.name,
+            latitude: waypoint.lat,
+            longitude: waypoint.lon,
+            order
+          }))
+        }
+      },
+      include: { waypoints: true }
+    })
+
+    res.status(201).json({
+      success: true,
+      message: 'Trace importée avec succès',
+      route: {
+        ...toClientRoute(route),
+        surface_breakdown: analysis.surfaceBreakdown,
+        elevation_stats: analysis.elevationStats ? toElevationStats(analysis.elevationStats) : null,
+        splits: analysis.splits
+      },
+      matched_ratio: analysis.matchedRatio,
+      quality_score: analysis.qualityScore,
+      off_network: analysis.offNetwork.map(section => ({
+        start_index: section.startIndex,
+        end_index: section.endIndex,
+        distance: Math.round(section.distance)
+      }))
+    })
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      })
+    }
+
+    console.error('Import route error:', error)
+    res.status(500).json({
+      success: false,
+      message: 'Erreur lors de l\'import de la trace'
+    })
+  }
+})
+
 // Get route by ID
 router.get('/:id', async (req, res) => {
   try {
@@ -348,122 +558,150 @@ router.delete('/:id', async (req, res) => {
 })
 
 // POST /api/routes/generate - Génération de routes via OSRM
+// Position effective d'un point recalé sur le réseau et distance au point demandé (m)
+interface SnappedPoint {
+  lat: number
+  lon: number
+  distance: number
+}
+
+function snapSummary(graph: Graph, snap: NetworkSnap): SnappedPoint {
+  const node = graph.nodes.get(snap.nodeId)!
+  return { lat: node.lat, lon: node.lon, distance: Math.round(snap.distance) }
+}
+
+const isCoordinate = (lat: unknown, lon: unknown): boolean =>
+  typeof lat === 'number' && typeof lon === 'number' &&
+  lat >= -90 && lat <= 90 && lon >= -180 && lon <= 180
+
 router.post('/generate', async (req, res) => {
   const startTime = Date.now()
   try {
     const {
       start_lat,
       start_lon,
+      end_lat, // Arrivée (mode point à point)
+      end_lon,
+      via = [], // Étapes intermédiaires [{ lat, lon }]
       distance,
       difficulty,
       terrain_type,
-      pace // Pace en min/km (ex: 5 pour 5 min/km)
+      elevation_gain, // D+ visé (m)
+      max_elevation_gain, // D+ maximal (m)
+      num_variants = 3, // Nombre de variantes distinctes (1-5)
+      pace, // Pace en min/km (ex: 5 pour 5 min/km)
+      duration_model, // Modèle de durée (naismith, tobler, running)
+      profile, // Profil de routage (trail-runner, road-runner, hiker, stroller, wheelchair...)
+      start_time // Heure de départ prévue (ISO 8601) : voies éclairées de nuit, horaires d'ouverture
     } = req.body
+    const pointToPoint = req.body.mode === 'point_to_point' || end_lat !== undefined || end_lon !== undefined
 
-    if (!start_lat || !start_lon || !distance) {
+    if (!start_lat || !start_lon || (!pointToPoint && !distance)) {
       return res.status(400).json({ error: 'Missing required fields: start_lat, start_lon, distance' })
     }
-    if (distance < 1 || distance > 50) {
+    if (!pointToPoint && (distance < 1 || distance > 50)) {
       return res.status(400).json({ error: 'Distance must be between 1 and 50 km' })
     }
-    console.log(`🎯 Route generation request:`)
+    if (pointToPoint) {
+      if (!isCoordinate(end_lat, end_lon)) {
+        return res.status(400).json({ error: 'Point to point mode requires valid end_lat and end_lon' })
+      }
+      if (!Array.isArray(via) || via.length > 10 || via.some((p: any) => !isCoordinate(p?.lat, p?.lon))) {
+        return res.status(400).json({ error: 'via must be an array of at most 10 { lat, lon } points' })
+      }
+    }
+    if (!Number.isInteger(num_variants) || num_variants < 1 || num_variants > MAX_VARIANTS) {
+      return res.status(400).json({ error: `num_variants must be an integer between 1 and ${MAX_VARIANTS}` })
+    }
+    if (difficulty && !DIFFICULTY_LEVELS.includes(difficulty)) {
+      return res.status(400).json({ error: `difficulty must be one of: ${DIFFICULTY_LEVELS.join(', ')}` })
+    }
+    if (duration_model !== undefined && !DURATION_MODELS.includes(duration_model)) {
+      return res.status(400).json({ error: `duration_model must be one of: ${DURATION_MODELS.join(', ')}` })
+    }
+    const routingProfile = profile !== undefined ? getRoutingProfile(String(profile)) : undefined
+    if (profile !== undefined && !routingProfile) {
+      return res.status(400).json({ error: `profile must be one of: ${listRoutingProfiles().map(p => p.id).join(', ')}` })
+    }
+    if (terrain_type && !['paved', 'unpaved', 'mixed'].includes(terrain_type)) {
+      return res.status(400).json({ error: 'terrain_type must be one of: paved, unpaved, mixed' })
+    }
+    const startConditions = typeof start_time === 'string' ? timeOfDayContext(start_time, start_lat, start_lon) : null
+    if (start_time !== undefined && !startConditions) {
+      return res.status(400).json({ error: 'start_time must be an ISO 8601 date-time with a UTC offset (e.g. 2026-06-21T05:30:00+02:00)' })
+    }
+    const conditions = startConditions ? conditionsSummary(startConditions) : undefined
+    for (const [field, value] of Object.entries({ elevation_gain, max_elevation_gain })) {
+      if (value !== undefined && (typeof value !== 'number' || value < 0 || value > 5000)) {
+        return res.status(400).json({ error: `${field} must be a number between 0 and 5000 m` })
+      }
+    }
+    const viaPoints: Array<{ lat: number, lon: number }> = pointToPoint
+      ? via.map((p: { lat: number, lon: number }) => ({ lat: p.lat, lon: p.lon }))
+      : []
+    console.log(`🎯 Route generation request (${pointToPoint ? 'point to point' : 'loop'}):`)
     console.log(`   - Location: ${start_lat}, ${start_lon}`)
-    console.log(`   - Distance: ${distance} km`)
+    if (pointToPoint) {
+      console.log(`   - Destination: ${end_lat}, ${end_lon} (${viaPoints.length} via point(s))`)
+    } else {
+      console.log(`   - Distance: ${distance} km (${num_variants} variant(s))`)
+    }
     console.log(`   - Pace: ${pace || 'N/A'} min/km`)
     console.log(`   - Difficulty: ${difficulty || 'any'}`)
     console.log(`   - Terrain: ${terrain_type || 'any'}`)
+    console.log(`   - Profile: ${routingProfile?.id || 'default'}`)
+    if (conditions) console.log(`   - Start: ${conditions.start_time} (${conditions.dark ? 'dark' : 'daylight'})`)
+    console.log(`   - Elevation gain: ${elevation_gain ?? 'any'}${max_elevation_gain !== undefined ? ` (max ${max_elevation_gain})` : ''} m`)
 
     try {
-      const radius = Math.max(distance * 0.6, 2)
-      console.log(`📊 Loading OSM graph (radius: ${radius.toFixed(1)} km)...`)
-      const cacheKey = GraphCache.hashArea(start_lat, start_lon, radius)
-      let cached = await GraphCache.loadGraph(cacheKey)
-      let graph = cached ? cached.graph : null;
-      // Correction : si le cache a désérialisé en objet brut, retransformer en Map
-      if(graph && !(graph.edges instanceof Map)) {
-        graph.edges = new Map(Object.entries(graph.edges));
-      }
-      if(graph && !(graph.nodes instanceof Map)) {
-        graph.nodes = new Map(Object.entries(graph.nodes));
-      }
-      if (!graph || graph.nodes.size === 0 || graph.edges.size === 0) {
-        if (graph && (graph.nodes.size === 0 || graph.edges.size === 0)) {
-          console.warn(`   ⚠️  Cache contains empty graph (nodes=${graph.nodes.size}, edges=${graph.edges.size}) - rebuilding...`)
-          graph = null
-        }
-        if (!graph) {
-          console.log('   Cache MISS - Building from OSM...')
-          // Utiliser le service OSM enrichi
-          const osmData = await osmService.getRunningPaths(
-            {
-              north: start_lat + radius / 111,
-              south: start_lat - radius / 111,
-              east: start_lon + radius / (111 * Math.cos(start_lat * Math.PI / 180)),
-              west: start_lon - radius / (111 * Math.cos(start_lat * Math.PI / 180)),
-            },
-            { includeSecondary: true }
-          )
-          const safeOsmData = ensureOSMFormat(osmData)
-          graph = buildGraph(safeOsmData)
-          
-          // Ne sauvegarder que si le graphe n'est pas vide
-          if (graph.nodes.size > 0 && graph.edges.size > 0) {
-            await GraphCache.saveGraph(cacheKey, {
-              area: { lat: start_lat, lon: start_lon, radius },
-              graph,
-              osmDataVersion: 'unknown',
-              createdAt: new Date().toISOString(),
-              nodesCount: graph.nodes.size,
-              edgesCount: graph.edges.size
-            })
-            console.log(`   ✅ Graph cached (${graph.nodes.size} nodes, ${graph.edges.size} edges)`)
-          } else {
-            console.warn(`   ⚠️  Empty graph generated (nodes=${graph.nodes.size}, edges=${graph.edges.size}) - NOT cached`)
-            throw new Error(`No OSM data found in area (${start_lat}, ${start_lon}) with radius ${radius}km. Please try a different location.`)
-          }
-        }
-      } else {
-        console.log(`   Cache HIT - Graph loaded from cache (${graph.nodes.size} nodes, ${graph.edges.size} edges)`)
-      }
-
-      // Valider graphe
-      const validation = validateGraph(graph)
-      if (!validation.valid) {
-        console.error(`❌ Invalid graph:`, validation.errors)
-        throw new Error('Graph validation failed: ' + validation.errors.join(', '))
-      }
-      if (validation.warnings && validation.warnings.length > 0) {
-        console.warn(`⚠️  Graph warnings:`, validation.warnings)
-      } else if (!validation.warnings) {
-        console.warn('[routes.ts] validation.warnings absent ou undefined:', validation)
+      const area = pointToPoint
+        ? areaCovering([{ lat: start_lat, lon: start_lon }, ...viaPoints, { lat: end_lat, lon: end_lon }])
+        : { lat: start_lat, lon: start_lon, radius: Math.max(distance * 0.6, 2) }
+      if (area.radius > 30) {
+        return res.status(400).json({ error: 'Points are too far apart (max ~60 km)' })
       }
-      console.log(`✅ Graph validated: nodes=${graph.nodes.size}, edges=${graph.edges.size}`)
-      // Trouver le nœud le plus proche du point de départ
-      const { findClosestNodeWithConnections } = await import('../algorithms/loop-generator.js');
-      // Chercher un nœud avec au moins 3 connexions dans un rayon de 500m
-      let closestNodeId = findClosestNodeWithConnections(graph, start_lat, start_lon, 3);
+      const areaGraph = await loadAreaGraph(area.lat, area.lon, area.radius, routingProfile?.id)
+      const { graph } = areaGraph
       
-      // Si aucun nœud avec 3+ connexions n'est trouvé, chercher avec 2 connexions
-      if (!closestNodeId) {
-        closestNodeId = findClosestNodeWithConnections(graph, start_lat, start_lon, 2);
+      // Contrainte de dénivelé ou de pente maximale du profil : les arêtes doivent porter leurs D+/D-
+      const needsElevation = elevation_gain !== undefined || max_elevation_gain !== undefined || routingProfile?.maxIncline != null
+      if (needsElevation && !hasElevationData(graph)) {
+        areaGraph.elevationSource = await enrichGraphElevations(graph)
+        if (areaGraph.elevationSource) {
+          await saveAreaGraph(areaGraph)
+        }
       }
-      
-      // Si toujours rien, utiliser le nœud le plus proche
-      if (!closestNodeId) {
-        const { findClosestNode } = await import('../algorithms/loop-generator.js');
-        closestNodeId = findClosestNode(graph, start_lat, start_lon);
+      // Recherche sur le graphe simplifié, géométrie et statistiques sur le graphe complet
+      const routing = simplifyAreaGraph(areaGraph)
+      const routingGraph = routing.graph
+      // Hiérarchie du graphe simplifié tel qu'en cache, complétée plus bas du nœud de départ s'il y est ajouté
+      const areaHierarchy = pointToPoint ? undefined : await loadAreaHierarchy(routing)
+
+      // Recaler le départ sur le réseau principal (plus grande composante à portée, arête la plus proche),
+      // sur le graphe complet puis reporté dans le graphe simplifié
+      const components = connectedComponents(graph)
+      const edgeIndex = new EdgeGridIndex(graph)
+      const startSnap = snapToSimplifiedNetwork(routingGraph, graph, start_lat, start_lon, { components, index: edgeIndex })
+      if (!startSnap) {
+        return res.status(400).json({
+          success: false,
+          error: 'Point de départ hors du réseau',
+          message: 'Aucun chemin praticable à proximité du point de départ. Essayez un autre emplacement.',
+          timing: Date.now() - startTime
+        })
       }
-      
-      if (!closestNodeId) {
-        throw new Error(`No nodes found in graph near location (${start_lat}, ${start_lon})`);
+      const closestNodeId = startSnap.nodeId
+      const hierarchy = areaHierarchy && extendHierarchy(areaHierarchy, routingGraph, closestNodeId)
+      const snap: { start: SnappedPoint, end?: SnappedPoint, via?: SnappedPoint[] } = {
+        start: snapSummary(routingGraph, startSnap)
       }
       
-      const startNode = graph.nodes.get(closestNodeId);
+      const startNode = routingGraph.nodes.get(closestNodeId);
       if (startNode) {
-        console.log(`📍 Starting from node ${closestNodeId} at (${startNode.lat.toFixed(6)}, ${startNode.lon.toFixed(6)})`)
+        console.log(`📍 Starting from node ${closestNodeId} at (${startNode.lat.toFixed(6)}, ${startNode.lon.toFixed(6)}), ${snap.start.distance} m from requested point (component ${startSnap.component + 1}/${components.lengths.length})`)
         
         // Vérifier que le nœud a des connexions
-        const connections = graph.edges ? Array.from(graph.edges.values()).filter(e => 
+        const connections = routingGraph.edges ? Array.from(routingGraph.edges.values()).filter(e => 
           e.from === closestNodeId || e.to === closestNodeId
         ).length : 0;
         console.log(`   🔗 Node connections: ${connections} edges`);
@@ -477,15 +715,77 @@ router.post('/generate', async (req, res) => {
           });
         }
       }
+
+      if (pointToPoint) {
+        // Arrivée et étapes sur la même composante que le départ
+        const sameNetwork = { components, index: edgeIndex, component: startSnap.component }
+        const endSnap = snapToSimplifiedNetwork(routingGraph, graph, end_lat, end_lon, sameNetwork)
+        const viaSnaps = viaPoints.map(p => snapToSimplifiedNetwork(routingGraph, graph, p.lat, p.lon, sameNetwork))
+        if (!endSnap || viaSnaps.some(s => !s)) {
+          return res.status(400).json({
+            success: false,
+            error: 'Impossible de relier les points demandés',
+            message: 'L\'arrivée ou une étape est trop éloignée du réseau de chemins du départ. Essayez de les déplacer sur un chemin.',
+            timing: Date.now() - startTime
+          })
+        }
+        const endNodeId = endSnap.nodeId
+        const viaNodeIds = viaSnaps.map(s => s!.nodeId)
+        snap.end = snapSummary(routingGraph, endSnap)
+        snap.via = viaSnaps.map(s => snapSummary(routingGraph, s!))
+
+        console.log(`🧭 Routing ${closestNodeId} → ${endNodeId} (${viaNodeIds.length} via)...`)
+        const { route: path, debug } = generatePointToPoint(routingGraph, {
+          startNodeId: closestNodeId,
+          endNodeId,
+          viaNodeIds,
+          terrainType: terrain_type,
+          profile: routingProfile?.id,
+          startTime: start_time
+        })
+        if (!path) {
+          return res.status(400).json({
+            success: false,
+            error: 'Impossible de relier les points demandés',
+            message: 'Aucun chemin praticable n\'a été trouvé entre ces points. Essayez de les déplacer sur un chemin.',
+            debug,
+            timing: Date.now() - startTime
+          })
+        }
+
+        const route = await assembleRoute(graph, expandPath(routingGraph, path), { kind: 'point_to_point', pace, durationModel: duration_model, viaPoints })
+        rememberGeneratedRoute(route)
+        console.log(`✅ Point to point route: ${route.distance.toFixed(2)}km, ${route.geometry.coordinates.length} coordinates`)
+        return res.json({
+          success: true,
+          method: 'custom_algorithm',
+          routes: [route],
+          conditions,
+          snap,
+          debug: {
+            ...debug,
+            routes_sent: 1,
+            coordinates_per_route: [route.geometry.coordinates.length]
+          },
+          timing: Date.now() - startTime
+        })
+      }
       
       // Générer les boucles
       console.log(`🔄 Generating loops...`)
-      const { loops, debug } = generateLoops(graph, {
+      const { loops, debug } = generateLoops(routingGraph, {
         startNodeId: closestNodeId,
+        hierarchy,
         targetDistance: distance * 1000,
-        numVariants: 1, // Une seule boucle
+        numVariants: num_variants,
         minReturnAngleDeg: 90,
-        scoring: { distance: 0.4, angle: 0.3, quality: 0.2, diversity: 0.1 },
+        terrainType: terrain_type,
+        profile: routingProfile?.id,
+        startTime: start_time,
+        difficulty,
+        targetElevationGain: elevation_gain,
+        maxElevationGain: max_elevation_gain,
+        scoring: { distance: 0.4, angle: 0.3, quality: 0.2, diversity: 0.1, terrain: 0.2, elevation: 0.3 },
         debug: true
       })
       
@@ -525,297 +825,14 @@ router.post('/generate', async (req, res) => {
       const totalTime = Date.now() - startTime
       
       // Traiter les boucles avec await (on ne peut pas utiliser await dans map)
-      const processedRoutes: any[] = [];
+      const processedRoutes: AssembledRoute[] = [];
       
-      if (loops.length === 0) {
-        // Déjà vérifié plus haut, mais sécurité supplémentaire
-        return res.status(400).json({
-          success: false,
-          error: 'Aucune boucle générée',
-          message: 'L\'algorithme n\'a pas pu trouver de chemin dans cette zone.',
-          timing: totalTime
-        });
-      }
-      
-      // CORRECTION : Limiter à 3 boucles au lieu de 5
-      const topLoops = loops.slice(0, 3);
-      console.log(`\n📊 Processing ${topLoops.length} loops (from ${loops.length} total, top 3)`);
+      // generateLoops renvoie déjà au plus num_variants boucles distinctes
+      console.log(`\n📊 Processing ${loops.length} loop variant(s)`);
       
-      for (const loop of topLoops) {
-          // CORRECTION : Construire les coordonnées depuis les nœuds du loop
-          // IMPORTANT : S'assurer que TOUTES les coordonnées sont extraites
-          const coordinates = Array.isArray(loop.loop) && loop.loop.length >= 2
-            ? loop.loop.map(lid => {
-                const n = graph.nodes.get(lid);
-                if (!n) {
-                  console.warn(`   ⚠️  Node ${lid} not found in graph!`);
-                  return undefined;
-                }
-                return [n.lon, n.lat] as [number, number];
-              }).filter((coord): coord is [number, number] => coord !== undefined)
-            : []
-          
-          console.log(`   📍 Loop ${loop.loop?.length || 0} nodes → ${coordinates.length} coordinates`);
-          
-          // Vérification de sécurité
-          if (!coordinates || coordinates.length === 0) {
-            console.error(`   ❌ ERROR: Loop has no coordinates!`);
-            console.error(`      Loop nodes: ${loop.loop?.length || 0}`);
-            console.error(`      Loop structure:`, JSON.stringify(loop).substring(0, 200));
-          }
-          
-          if (coordinates.length !== loop.loop?.length) {
-            console.warn(`   ⚠️  Mismatch: ${loop.loop?.length || 0} nodes but ${coordinates.length} coordinates`);
-          }
-          
-          // Recalculer la distance totale depuis les coordonnées réelles (plus fiable)
-          let totalDistance = 0;
-          if (coordinates.length >= 2) {
-            // Utiliser la fonction haversine pour calculer la distance réelle entre les points
-            const haversine = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-              const R = 6371000; // Rayon de la Terre en mètres
-              const toRad = (x: number) => x * Math.PI / 180;
-              const dLat = toRad(lat2 - lat1);
-              const dLon = toRad(lon2 - lon1);
-              const a = Math.sin(dLat / 2) ** 2 + 
-                        Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
-              return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-            };
-            
-            // Somme des distances entre points consécutifs
-            for (let i = 0; i < coordinates.length - 1; i++) {
-              const [lon1, lat1] = coordinates[i];
-              const [lon2, lat2] = coordinates[i + 1];
-              // Vérifier que les coordonnées sont valides (lat entre -90 et 90, lon entre -180 et 180)
-              if (lat1 >= -90 && lat1 <= 90 && lat2 >= -90 && lat2 <= 90 &&
-                  lon1 >= -180 && lon1 <= 180 && lon2 >= -180 && lon2 <= 180) {
-                totalDistance += haversine(lat1, lon1, lat2, lon2);
-              }
-            }
-          }
-          
-          // Si le calcul depuis les coordonnées échoue, utiliser les edges
-          if (totalDistance === 0 && loop.pathEdges && loop.pathEdges.length > 0) {
-            for (const edgeId of loop.pathEdges) {
-              const edge = graph.edges.get(edgeId);
-              if (edge) {
-                totalDistance += edge.distance;
-              }
-            }
-          }
-          
-          // Utiliser la distance calculée ou celle du loop
-          const finalDistance = totalDistance > 0 ? totalDistance : loop.distance;
-          
-          // Debug: log pour vérifier (avec premiers points pour détecter inversion lat/lon)
-          const firstCoord = coordinates.length > 0 ? coordinates[0] : null;
-          const lastCoord = coordinates.length > 0 ? coordinates[coordinates.length - 1] : null;
-          console.log(`   🔍 Distance check: calculated=${(totalDistance / 1000).toFixed(3)}km, loop.distance=${(loop.distance / 1000).toFixed(3)}km, final=${(finalDistance / 1000).toFixed(3)}km`)
-          console.log(`   🔍 Coords: first=[${firstCoord ? `${firstCoord[0].toFixed(6)}, ${firstCoord[1].toFixed(6)}` : 'N/A'}], last=[${lastCoord ? `${lastCoord[0].toFixed(6)}, ${lastCoord[1].toFixed(6)}` : 'N/A'}], count=${coordinates.length}`)
-          console.log(`   🔍 Path edges count: ${loop.pathEdges?.length || 0}`)
-          console.log(`   📤 Sending ${coordinates.length} coordinates to frontend`)
-          
-          // Vérifier qu'il n'y a pas de duplication d'edges
-          if (loop.pathEdges) {
-            const uniqueEdges = new Set(loop.pathEdges);
-            if (uniqueEdges.size !== loop.pathEdges.length) {
-              console.warn(`   ⚠️  Duplicate edges detected: ${loop.pathEdges.length} total, ${uniqueEdges.size} unique`);
-            }
-          }
-          
-          // Analyser les surfaces utilisées dans le parcours
-          const surfaceStats: Record<string, number> = {}; // surface -> distance en mètres
-          let totalSurfaceDistance = 0;
-          
-          if (loop.pathEdges) {
-            for (const edgeId of loop.pathEdges) {
-              const edge = graph.edges.get(edgeId);
-              if (edge) {
-                // Déterminer le type de surface
-                let surfaceType = 'unknown';
-                if (edge.surface) {
-                  // Normaliser les surfaces OSM
-                  const surface = edge.surface.toLowerCase();
-                  if (surface.includes('asphalt') || surface.includes('paved') || surface.includes('concrete')) {
-                    surfaceType = 'paved';
-                  } else if (surface.includes('unpaved') || surface.includes('dirt') || surface.includes('gravel') || surface.includes('earth') || surface.includes('grass')) {
-                    surfaceType = 'unpaved';
-                  } else {
-                    surfaceType = 'unpaved'; // Par défaut
-                  }
-                } else if (edge.tags?.highway) {
-                  // Déduire du type de route
-                  const highway = edge.tags.highway.toLowerCase();
-                  if (['motorway', 'trunk', 'primary', 'secondary', 'tertiary', 'residential', 'service'].includes(highway)) {
-                    surfaceType = 'paved';
-                  } else {
-                    surfaceType = 'unpaved';
-                  }
-                } else {
-                  surfaceType = 'unpaved'; // Par défaut
-                }
-                
-                surfaceStats[surfaceType] = (surfaceStats[surfaceType] || 0) + edge.distance;
-                totalSurfaceDistance += edge.distance;
-              }
-            }
-          }
-          
-          // Calculer les pourcentages de surface
-          const surfaceBreakdown: Array<{ type: string; distance: number; percentage: number }> = [];
-          for (const [type, distance] of Object.entries(surfaceStats)) {
-            surfaceBreakdown.push({
-              type,
-              distance,
-              percentage: totalSurfaceDistance > 0 ? (distance / totalSurfaceDistance) * 100 : 0
-            });
-          }
-          surfaceBreakdown.sort((a, b) => b.percentage - a.percentage);
-          
-          // Convertir la distance en kilomètres pour correspondre au type Route (distance in kilometers)
-          const distanceInKm = finalDistance / 1000;
-          
-          // Récupérer les altitudes réelles depuis l'API d'élévation
-          let elevations: number[] = [];
-          let elevationGain = 0;
-          let elevationProfile: Array<{ distance: number; elevation: number; coordinate: [number, number] }> = [];
-          
-          if (coordinates.length > 1) {
-            // Échantillonner les coordonnées pour éviter trop de requêtes (1 point tous les ~50m)
-            const sampleInterval = Math.max(1, Math.floor(coordinates.length / 100)); // Max 100 points
-            const sampledCoordinates: [number, number][] = [];
-            
-            for (let i = 0; i < coordinates.length; i += sampleInterval) {
-              sampledCoordinates.push(coordinates[i]);
-            }
-            
-            // Toujours inclure le dernier point si différent
-            const lastSampled = sampledCoordinates[sampledCoordinates.length - 1];
-            const lastOriginal = coordinates[coordinates.length - 1];
-            if (lastSampled && lastOriginal && 
-                (lastSampled[0] !== lastOriginal[0] || lastSampled[1] !== lastOriginal[1])) {
-              sampledCoordinates.push(lastOriginal);
-            }
-            
-            console.log(`   📍 Récupération des altitudes pour ${sampledCoordinates.length} points (échantillonnage sur ${coordinates.length})...`);
-            
-            try {
-              // Récupérer les altitudes depuis l'API avec timeout
-              const elevationPromise = getElevations(sampledCoordinates);
-              const timeoutPromise = new Promise<number[]>((resolve) => {
-                setTimeout(() => {
-                  console.warn('   ⚠️  Timeout lors de la récupération des altitudes, utilisation de valeurs par défaut');
-                  resolve([]);
-                }, 8000); // Timeout de 8 secondes
-              });
-              
-              elevations = await Promise.race([elevationPromise, timeoutPromise]);
-              
-              if (elevations.length > 0 && elevations.length === sampledCoordinates.length) {
-                // Log des premières altitudes pour debug
-                const firstFew = elevations.slice(0, Math.min(5, elevations.length));
-                console.log(`   📊 Premières altitudes: ${firstFew.map(e => e.toFixed(1)).join(', ')}m`);
-                
-                // Calculer le dénivelé cumulé positif
-                elevationGain = calculateElevationGain(elevations);
-                
-                // Créer le profil d'élévation avec les distances réelles
-                elevationProfile = sampledCoordinates.map((coord, index) => {
-                  const progress = index / Math.max(1, sampledCoordinates.length - 1);
-                  return {
-                    distance: progress * distanceInKm,
-                    elevation: Math.round(elevations[index] || 150),
-                    coordinate: coord
-                  };
-                });
-                
-                const minElev = Math.min(...elevations);
-                const maxElev = Math.max(...elevations);
-                console.log(`   ✅ Altitudes récupérées: ${elevations.length} points, min=${minElev.toFixed(1)}m, max=${maxElev.toFixed(1)}m, dénivelé=${elevationGain}m`);
-              } else {
-                console.warn(`   ⚠️  Aucune altitude récupérée ou nombre incorrect (${elevations.length} vs ${sampledCoordinates.length}), utilisation de valeurs par défaut`);
-                elevationGain = 0;
-                // Créer un profil minimal avec altitudes par défaut
-                elevationProfile = sampledCoordinates.map((coord, index) => {
-                  const progress = index / Math.max(1, sampledCoordinates.length - 1);
-                  return {
-                    distance: progress * distanceInKm,
-                    elevation: 150, // Altitude par défaut
-                    coordinate: coord
-                  };
-                });
-              }
-            } catch (error) {
-              console.error('   ❌ Erreur lors de la récupération des altitudes:', error);
-              elevationGain = 0;
-              // Créer un profil minimal avec altitudes par défaut en cas d'erreur
-              elevationProfile = sampledCoordinates.length > 0 ? sampledCoordinates.map((coord, index) => {
-                const progress = index / Math.max(1, sampledCoordinates.length - 1);
-                return {
-                  distance: progress * distanceInKm,
-                  elevation: 150, // Altitude par défaut
-                  coordinate: coord
-                };
-              }) : [];
-            }
-          }
-          
-          // Calculer la durée estimée en utilisant le pace (min/km)
-          // Si pace = 5 min/km, alors vitesse = 60/5 = 12 km/h
-          // Distance en mètres, donc durée = (distance_m / 1000) * pace_min_per_km
-          const paceMinPerKm = pace && pace > 0 ? pace : 5; // Par défaut 5 min/km si non spécifié
-          const speedKmh = 60 / paceMinPerKm; // Convertir min/km en km/h
-          const speedMs = speedKmh / 3.6; // Convertir km/h en m/s
-          
-          // Durée en minutes = distance (km) * pace (min/km)
-          const durationMinutes = Math.round(distanceInKm * paceMinPerKm);
-          
-          // Vitesse moyenne (en km/h)
-          const averageSpeed = speedKmh;
-          
-          console.log(`   📊 Loop stats: distance=${distanceInKm.toFixed(2)}km, duration=${durationMinutes}min, elevation=${elevationGain.toFixed(0)}m`)
-          
-          const now = new Date().toISOString();
-          const route = {
-            id: `custom_0_${Date.now()}`,
-            name: `Boucle de ${distanceInKm.toFixed(1)} km`,
-            distance: distanceInKm, // Distance en kilomètres (comme spécifié dans le type Route)
-            duration: durationMinutes, // Durée en minutes
-            elevation: Math.round(elevationGain), // Dénivelé en mètres (réel depuis l'API)
-            difficulty: 'medium' as const, // Difficulté par défaut
-            terrain_type: (surfaceBreakdown.length > 0 && surfaceBreakdown[0].type === 'paved') 
-              ? 'paved' as const 
-              : surfaceBreakdown.length > 1 
-                ? 'mixed' as const 
-                : 'unpaved' as const,
-            created_at: now,
-            updated_at: now,
-            average_speed: parseFloat(averageSpeed.toFixed(1)), // Vitesse moyenne en km/h
-            geometry: {
-              type: 'LineString' as const,
-              coordinates: coordinates // IMPORTANT : TOUTES les coordonnées ici (pas seulement waypoints)
-            },
-            waypoints: coordinates.length > 0 ? [
-              { 
-                lat: coordinates[0][1], 
-                lon: coordinates[0][0], 
-                type: 'start',
-                name: 'Départ'
-              },
-              { 
-                lat: coordinates[coordinates.length - 1][1], 
-                lon: coordinates[coordinates.length - 1][0], 
-                type: 'end',
-                name: 'Arrivée'
-              }
-            ] : [],
-            quality_score: Math.min(1.0, Math.max(0, loop.qualityScore || 0)), // CORRECTION : Limiter entre 0-1
-            pathEdges: loop.pathEdges || [],
-            surface_breakdown: surfaceBreakdown, // Nouvelle information de surface
-            elevation_profile: elevationProfile.length > 0 ? elevationProfile : [],
-            debug: loop.debug
-          };
-        
+      for (const loop of loops) {
+        const route = await assembleRoute(graph, expandPath(routingGraph, loop), { kind: 'loop', pace, durationModel: duration_model });
+        rememberGeneratedRoute(route);
         processedRoutes.push(route);
       }
       
@@ -846,6 +863,8 @@ router.post('/generate', async (req, res) => {
         success: true,
         method: 'custom_algorithm',
         routes: processedRoutes,
+        conditions,
+        snap,
         debug: {
           ...debug,
           routes_sent: processedRoutes.length,
@@ -872,4 +891,76 @@ router.post('/generate', async (req, res) => {
   }
 })
 
-export default router
\ No newline at end of file
+// Persist a generated route for the current user
+router.post('/generate/:id/save', authMiddleware, async (req, res) => {
+  try {
+    const { id } = req.params
+    const { name, description } = saveGeneratedRouteSchema.parse(req.body || {})
+    const userId = req.user!.id
+
+    const generated = getGeneratedRoute(id)
+    if (!generated) {
+      return res.status(404).json({
+        success: false,
+        message: 'Itinéraire généré introuvable ou expiré. Relancez la génération.'
+      })
+    }
+
+    // Déjà sauvegardé par cet utilisateur : renvoyer l'existant
+    const savedId = getSavedRouteId(id, userId)
+    if (savedId) {
+      const existing = await prisma.route.findUnique({ where: { id: savedId }, include: { waypoints: true } })
+      if (existing) {
+        return res.json({ success: true, message: 'Itinéraire déjà sauvegardé', route: toClientRoute(existing) })
+      }
+    }
+
+    const route = await prisma.route.create({
+      data: {
+        userId,
+        name: name || generated.name,
+        description,
+        distance: generated.distance,
+        duration: generated.duration,
+        elevation: generated.elevation,
+        elevation_loss: generated.elevation_loss,
+        difficulty: generated.difficulty,
+        terrain_type: generated.terrain_type,
+        geometry: generated.geometry,
+        path_edges: generated.pathEdges,
+        waypoints: {
+          create: generated.waypoints.map((waypoint, order) => ({
+            name: waypoint.name,
+            latitude: waypoint.lat,
+            longitude: waypoint.lon,
+            order
+          }))
+        }
+      },
+      include: { waypoints: true }
+    })
+    markGeneratedRouteSaved(id, userId, route.id)
+
+    res.status(201).json({
+      success: true,
+      message: 'Itinéraire sauvegardé avec succès',
+      route: toClientRoute(route)
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Données invalides',
+        details: error.errors
+      })
+    }
+
+    console.error('Save generated route error:', error)
+    res.status(500).json({
+      success: false,
+      message: 'Erreur lors de la sauvegarde de l\'itinéraire'
+    })
+  }
+})
+
+export default router
@@ -0,0 +1,84 @@
+/**
+ * Préchargement du cache de graphes depuis un extrait OSM local (.osm.pbf ou .osm)
+ *
+ * Usage :
+ *   tsx src/scripts/preload-osm-extract.ts <extrait> <lat,lon,rayonKm> [<lat,lon,rayonKm>...] [--profile <id>...] [--hierarchy]
+ *
+ * L'extrait est lu une seule fois pour l'ensemble des zones ; les tuiles qui les couvrent sont
+ * construites et mises en cache (une par profil), puis partagées par toutes les requêtes voisines.
+ */
+
+import { importOsmExtract } from '../services/osm-extract'
+import { areaBounds, buildTileGraphs, loadAreaGraph, loadAreaHierarchy, simplifyAreaGraph } from '../services/area-graph'
+import { TileId, tilesCovering, tilesBounds, tileName } from '../services/graph-tiles'
+import { requireRoutingProfile } from '../services/routing-profiles'
+
+interface PreloadArea {
+  lat: number
+  lon: number
+  radius: number   // km
+}
+
+interface PreloadOptions {
+  file: string
+  areas: PreloadArea[]
+  profiles: Array<string | undefined>   // undefined : graphe sans profil
+  hierarchy: boolean
+}
+
+function parseArgs(args: string[]): PreloadOptions {
+  const positional: string[] = []
+  const profiles: string[] = []
+  let hierarchy = false
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--profile') profiles.push(args[++i])
+    else if (args[i] === '--hierarchy') hierarchy = true
+    else positional.push(args[i])
+  }
+  const [file, ...specs] = positional
+  if (!file || specs.length === 0) {
+    throw new Error('Usage: preload-osm-extract <extract.osm.pbf|extract.osm> <lat,lon,radiusKm>... [--profile <id>] [--hierarchy]')
+  }
+  const areas = specs.map(spec => {
+    const [lat, lon, radius] = spec.split(',').map(Number)
+    if (![lat, lon, radius].every(Number.isFinite) || radius <= 0) throw new Error(`Invalid area "${spec}" (expected lat,lon,radiusKm)`)
+    return { lat, lon, radius }
+  })
+  profiles.forEach(requireRoutingProfile)
+  return { file, areas, profiles: profiles.length > 0 ? profiles : [undefined], hierarchy }
+}
+
+/**
+ * Construit et met en cache les tuiles des zones demandées
+ */
+async function preloadOsmExtract(options: PreloadOptions) {
+  const tiles = new Map<string, TileId>()
+  for (const area of options.areas) {
+    for (const tile of tilesCovering(areaBounds(area.lat, area.lon, area.radius))) tiles.set(tileName(tile), tile)
+  }
+  console.log(`📦 Preloading ${tiles.size} tile(s) for ${options.areas.length} area(s) from ${options.file}`)
+  const osmData = await importOsmExtract(options.file, { area: tilesBounds(Array.from(tiles.values())) })
+
+  for (const profile of options.profiles) {
+    console.log(`\n🧩 Tiles${profile ? ` (profile: ${profile})` : ''}`)
+    await buildTileGraphs(osmData, Array.from(tiles.values()), profile)
+    if (!options.hierarchy) continue
+    for (const area of options.areas) {
+      await loadAreaHierarchy(simplifyAreaGraph(await loadAreaGraph(area.lat, area.lon, area.radius, profile)))
+    }
+  }
+  console.log('\n✅ Cache preloaded')
+}
+
+// Exécuter si le script est appelé directement
+if (import.meta.url === `file://${process.argv[1]}`) {
+  Promise.resolve()
+    .then(() => preloadOsmExtract(parseArgs(process.argv.slice(2))))
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('❌', error instanceof Error ? error.message : error)
+      process.exit(1)
+    })
+}
+
+export { preloadOsmExtract }
@@ -0,0 +1,254 @@
+// Chargement du graphe OSM d'une zone : tuiles du cache disque recollées, tuiles manquantes construites
+// depuis Overpass ou un extrait local
+
+import { Graph, buildGraph, validateGraph, addNodeElevations, computeEdgeElevationDeltas, hasElevationData } from './graph-builder.js'
+import { getElevationProvider } from './elevation-service.js'
+import { ELEVATION_CONFIG } from '../config/elevation-config.js'
+import * as GraphCache from './graph-cache.js'
+import { osmService, OSMResponse } from './osm-service.js'
+import { importOsmExtract } from './osm-extract.js'
+import { OSM_EXTRACT_CONFIG, CONNECTOR_CONFIG, type SearchArea } from '../config/osm-config.js'
+import { TileId, TILE_ZOOM, tilesCovering, tileBounds, tilesBounds, tileName, groupTiles, splitGraph, stitchGraphs } from './graph-tiles.js'
+import { simplifyGraph } from './graph-simplifier.js'
+import { inferConnectors } from './graph-connectors.js'
+import { ContractionHierarchy, buildContractionHierarchy, isHierarchyFor } from '../algorithms/contraction-hierarchy.js'
+
+export interface AreaGraph {
+  graph: Graph
+  cacheKey: string           // clé de l'ensemble de tuiles (hiérarchie de contraction associée)
+  area: { lat: number, lon: number, radius: number }
+  tiles: TileId[]            // tuiles recollées pour former le graphe
+  createdAt: string          // construction de la tuile la plus récente
+  elevationSource?: string   // source des altitudes des nœuds, si le graphe en porte
+  profile?: string           // profil de routage utilisé pour filtrer les voies
+  osmDataVersion?: string    // horodatage des données OSM (extrait local), si connu
+  tileVersions: Record<string, TileVersion>  // par tileName : chaque tuile garde les siennes lorsqu'elle est réenregistrée
+}
+
+// Construction et données OSM d'une tuile en cache
+interface TileVersion {
+  createdAt: string
+  osmDataVersion?: string
+}
+
+// Une entrée de cache par tuile et par profil
+const tileKey = (tile: TileId, profile?: string) => `tile-${tile.z}-${tile.x}-${tile.y}` + (profile ? `-${profile}` : '')
+
+// Les tuiles d'une zone forment un rectangle : ses coins suffisent à l'identifier
+const tilesKey = (tiles: TileId[], profile?: string) => {
+  const first = tiles[0], last = tiles[tiles.length - 1]
+  return `tiles-${first.z}-${first.x}-${first.y}-${last.x}-${last.y}` + (profile ? `-${profile}` : '')
+}
+
+/**
+ * Charge le graphe d'un disque centré sur (lat, lon) : recollage des tuiles qui le couvrent,
+ * les tuiles absentes du cache étant construites et enregistrées au passage
+ * @param radius rayon en km
+ * @param profile profil de routage : un graphe (et une entrée de cache par tuile) par profil
+ */
+export async function loadAreaGraph(lat: number, lon: number, radius: number, profile?: string): Promise<AreaGraph> {
+  console.log(`📊 Loading OSM graph (radius: ${radius.toFixed(1)} km${profile ? `, profile: ${profile}` : ''})...`)
+  const area = { lat, lon, radius }
+  const tiles = tilesCovering(areaBounds(lat, lon, radius))
+  const entries = new Map<string, GraphCache.CachedGraph>()
+  for (const tile of tiles) {
+    const cached = await GraphCache.loadGraph(tileKey(tile, profile))
+    if (cached) entries.set(tileName(tile), cached)
+  }
+  const missing = tiles.filter(tile => !entries.has(tileName(tile)))
+  console.log(`   ${tiles.length} tile(s) z${TILE_ZOOM}: ${tiles.length - missing.length} cached, ${missing.length} to build`)
+
+  // Un extrait local est lu en une fois, Overpass par blocs de tuiles
+  const groups = missing.length === 0 ? [] : OSM_EXTRACT_CONFIG.file ? [missing] : groupTiles(missing)
+  for (const group of groups) {
+    const built = await buildTileGraphs(await fetchAreaOsmData(tilesBounds(group)), group, profile)
+    for (const [name, entry] of built) entries.set(name, entry)
+  }
+
+  const tileEntries = tiles.map(tile => entries.get(tileName(tile))!)
+  const graph = stitchGraphs(tileEntries.map(entry => entry.graph))
+  if (graph.nodes.size === 0 || graph.edges.size === 0) {
+    throw new Error(`No OSM data found in area (${lat}, ${lon}) with radius ${radius}km. Please try a different location.`)
+  }
+  const areaGraph: AreaGraph = {
+    graph,
+    cacheKey: tilesKey(tiles, profile),
+    area,
+    tiles,
+    createdAt: tileEntries.map(entry => entry.createdAt).sort().pop()!,
+    elevationSource: tileEntries.find(entry => entry.elevation)?.elevation?.source,
+    profile,
+    osmDataVersion: tileEntries.map(entry => entry.osmDataVersion).find(version => version && version !== 'unknown'),
+    tileVersions: Object.fromEntries(tiles.map((tile, i) => [tileName(tile), {
+      createdAt: tileEntries[i].createdAt,
+      osmDataVersion: tileEntries[i].osmDataVersion
+    }]))
+  }
+
+  const withoutElevation = tiles.filter((_, i) => !tileEntries[i].elevation && tileEntries[i].graph.nodes.size > 0)
+  if (ELEVATION_CONFIG.enrichGraph && withoutElevation.length > 0) {
+    // Tuiles mises en cache sans altitudes : seuls leurs nœuds sont recherchés
+    const source = await enrichGraphElevations(graph)
+    if (source) {
+      areaGraph.elevationSource = source
+      await saveAreaGraph(areaGraph, withoutElevation)
+    }
+  } else if (hasElevationData(graph)) {
+    // Caches antérieurs aux pentes : recalcul à partir des altitudes des nœuds
+    computeEdgeElevationDeltas(graph)
+  }
+
+  // Valider graphe
+  const validation = validateGraph(graph)
+  if (!validation.valid) {
+    console.error(`❌ Invalid graph:`, validation.errors)
+    throw new Error('Graph validation failed: ' + validation.errors.join(', '))
+  }
+  console.log(`✅ Graph validated: nodes=${graph.nodes.size}, edges=${graph.edges.size}`)
+  return areaGraph
+}
+
+/**
+ * Rectangle englobant le disque centré sur (lat, lon), rayon en km
+ */
+export function areaBounds(lat: number, lon: number, radius: number): SearchArea {
+  const kmPerDegLon = 111 * Math.cos(lat * Math.PI / 180)
+  return {
+    north: lat + radius / 111,
+    south: lat - radius / 111,
+    east: lon + radius / kmPerDegLon,
+    west: lon - radius / kmPerDegLon,
+  }
+}
+
+/**
+ * Données OSM d'un rectangle : extrait local si OSM_EXTRACT_FILE est défini, sinon API Overpass
+ * (format OSM brut : les identifiants des nœuds sont communs à toutes les tuiles)
+ */
+async function fetchAreaOsmData(bounds: SearchArea): Promise<OSMResponse> {
+  if (OSM_EXTRACT_CONFIG.file) {
+    console.log(`   Reading local OSM extract ${OSM_EXTRACT_CONFIG.file}...`)
+    return importOsmExtract(OSM_EXTRACT_CONFIG.file, { area: bounds })
+  }
+  return osmService.getRunningPathsOSM(bounds, { includeSecondary: true })
+}
+
+// Entrée de cache d'une tuile ; la zone est le cercle circonscrit à la tuile
+function tileEntry(tile: TileId, graph: Graph, meta: { createdAt: string, elevationSource?: string, profile?: string, osmDataVersion?: string }): GraphCache.CachedGraph {
+  const bounds = tileBounds(tile)
+  const lat = (bounds.north + bounds.south) / 2
+  const radius = Math.hypot((bounds.north - bounds.south) * 111, (bounds.east - bounds.west) * 111 * Math.cos(lat * Math.PI / 180)) / 2
+  return {
+    area: { lat, lon: (bounds.east + bounds.west) / 2, radius },
+    graph,
+    osmDataVersion: meta.osmDataVersion || 'unknown',
+    profile: meta.profile,
+    createdAt: meta.createdAt,
+    nodesCount: graph.nodes.size,
+    edgesCount: graph.edges.size,
+    elevation: meta.elevationSource
+      ? { source: meta.elevationSource, nodes: Array.from(graph.nodes.values()).filter(n => n.elevation !== undefined).length }
+      : undefined,
+    tile: tileName(tile)
+  }
+}
+
+/**
+ * Construit les graphes de tuiles à partir de données OSM couvrant leur emprise,
+ * ajoute les liaisons déduites (GRAPH_CONNECTORS=true) et les altitudes, puis les enregistre dans le cache
+ * (tuiles vides comprises)
+ * @param osmData réponse Overpass ou extrait local (même forme)
+ * @returns entrées de cache indexées par tileName
+ */
+export async function buildTileGraphs(osmData: OSMResponse, tiles: TileId[], profile?: string): Promise<Map<string, GraphCache.CachedGraph>> {
+  const graph = buildGraph(osmData, profile)
+  if (CONNECTOR_CONFIG.enabled) inferConnectors(graph, osmData)
+  const createdAt = new Date().toISOString()
+  const osmDataVersion = osmData.osm3s?.timestamp_osm_base
+  const elevationSource = ELEVATION_CONFIG.enrichGraph && graph.nodes.size > 0 ? await enrichGraphElevations(graph) : undefined
+
+  const split = splitGraph(graph, tiles)
+  const entries = new Map<string, GraphCache.CachedGraph>()
+  for (const tile of tiles) {
+    const entry = tileEntry(tile, split.get(tileName(tile))!, { createdAt, elevationSource, profile, osmDataVersion })
+    await GraphCache.saveGraph(tileKey(tile, profile), entry)
+    entries.set(tileName(tile), entry)
+  }
+  console.log(`   ✅ ${tiles.length} tile(s) cached (${graph.nodes.size} nodes, ${graph.edges.size} edges)`)
+  return entries
+}
+
+/**
+ * Graphe de routage d'une zone : chaînes de nœuds de degré 2 fusionnées en arêtes composées
+ * (désactivable avec GRAPH_SIMPLIFY=false). Le cache garde le graphe complet.
+ */
+export function simplifyAreaGraph(areaGraph: AreaGraph): AreaGraph {
+  if (process.env.GRAPH_SIMPLIFY?.toLowerCase() === 'false') return areaGraph
+  const graph = simplifyGraph(areaGraph.graph)
+  console.log(`   Simplified graph: nodes=${graph.nodes.size}, edges=${graph.edges.size}`)
+  return { ...areaGraph, graph }
+}
+
+/**
+ * Hiérarchie de contraction du graphe d'une zone, lue à côté du cache ou construite puis enregistrée
+ * (désactivable avec GRAPH_HIERARCHY=false)
+ */
+export async function loadAreaHierarchy(areaGraph: AreaGraph): Promise<ContractionHierarchy | undefined> {
+  if (process.env.GRAPH_HIERARCHY?.toLowerCase() === 'false') return undefined
+  const { graph, cacheKey, createdAt } = areaGraph
+  const cached = await GraphCache.loadHierarchy(cacheKey)
+  if (cached && cached.graphCreatedAt === createdAt && isHierarchyFor(cached.hierarchy, graph)) {
+    console.log(`   Hierarchy HIT (${cached.hierarchy.shortcuts} shortcuts)`)
+    return cached.hierarchy
+  }
+  const t0 = Date.now()
+  const hierarchy = buildContractionHierarchy(graph)
+  console.log(`   ✅ Contraction hierarchy built in ${Date.now() - t0} ms (${hierarchy.shortcuts} shortcuts)`)
+  try {
+    await GraphCache.saveHierarchy(cacheKey, { graphCreatedAt: createdAt, createdAt: new Date().toISOString(), hierarchy })
+  } catch (error) {
+    console.warn('   ⚠️  Hierarchy not cached:', error instanceof Error ? error.message : String(error))
+  }
+  return hierarchy
+}
+
+/**
+ * Ajoute les altitudes des nœuds (source configurée) et les D+/D-/pentes des arêtes
+ * @returns nom de la source, ou undefined si aucune altitude n'a pu être obtenue
+ */
+export async function enrichGraphElevations(graph: Graph): Promise<string | undefined> {
+  const provider = getElevationProvider()
+  console.log(`⛰️  Adding node elevations to graph (${provider.name})...`)
+  try {
+    const enriched = await addNodeElevations(graph, coordinates => provider.getElevations(coordinates))
+    console.log(`   ✅ ${enriched}/${graph.nodes.size} node elevations added`)
+    return enriched > 0 ? provider.name : undefined
+  } catch (error) {
+    console.warn('   ⚠️  Node elevations unavailable:', error instanceof Error ? error.message : String(error))
+    return undefined
+  }
+}
+
+/**
+ * Réécrit les tuiles d'une zone dans le cache (après enrichissement par ex.) ; chaque tuile garde
+ * sa date de construction et sa version des données OSM (durée de validité inchangée)
+ * @param tiles tuiles à réécrire, par défaut toutes celles du graphe
+ */
+export async function saveAreaGraph(areaGraph: AreaGraph, tiles: TileId[] = areaGraph.tiles): Promise<void> {
+  const split = splitGraph(areaGraph.graph, tiles)
+  for (const tile of tiles) {
+    const meta = { ...areaGraph, ...areaGraph.tileVersions[tileName(tile)] }
+    await GraphCache.saveGraph(tileKey(tile, areaGraph.profile), tileEntry(tile, split.get(tileName(tile))!, meta))
+  }
+}
+
+/**
+ * Zone (centre + rayon en km) couvrant un ensemble de points, avec une marge
+ */
+export function areaCovering(points: Array<{ lat: number, lon: number }>, marginKm = 1): { lat: number, lon: number, radius: number } {
+  const lat = points.reduce((sum, p) => sum + p.lat, 0) / points.length
+  const lon = points.reduce((sum, p) => sum + p.lon, 0) / points.length
+  const kmPerDegLon = 111 * Math.cos(lat * Math.PI / 180)
+  const radius = Math.max(...points.map(p => Math.hypot((p.lat - lat) * 111, (p.lon - lon) * kmPerDegLon)))
+  return { lat, lon, radius: Math.max(radius + marginKm, 2) }
+}
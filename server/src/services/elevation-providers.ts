@@ -0,0 +1,195 @@
+// Sources d'altitude interchangeables : API Open-Elevation, tuiles MNT locales, ou les deux
+
+import axios from 'axios'
+import { readFile, readdir } from 'fs/promises'
+import path from 'path'
+import { ELEVATION_CONFIG, ElevationProviderName } from '../config/elevation-config.js'
+import { DemTile, parseHgt, parseGeoTiff, hgtTileName, tileContains, bilinearElevation } from '../utils/dem-tiles.js'
+
+/**
+ * Source d'altitude : une valeur (m) par coordonnée [lon, lat], null si inconnue
+ */
+export interface ElevationProvider {
+  readonly name: string
+  getElevations(coordinates: [number, number][]): Promise<Array<number | null>>
+}
+
+interface OpenElevationResult {
+  latitude: number
+  longitude: number
+  elevation: number | null
+}
+
+/**
+ * API publique Open-Elevation (par lots, avec une pause entre les requêtes)
+ */
+export class OpenElevationProvider implements ElevationProvider {
+  readonly name = 'open-elevation'
+
+  constructor(private config = ELEVATION_CONFIG.remote) {}
+
+  async getElevations(coordinates: [number, number][]): Promise<Array<number | null>> {
+    const { endpoint, batchSize, timeout, delayBetweenRequests } = this.config
+    const elevations: Array<number | null> = []
+
+    for (let i = 0; i < coordinates.length; i += batchSize) {
+      const batch = coordinates.slice(i, i + batchSize)
+      try {
+        const response = await axios.post(endpoint, {
+          locations: batch.map(([lon, lat]) => ({ latitude: lat, longitude: lon }))
+        }, {
+          headers: { 'Content-Type': 'application/json' },
+          timeout
+        })
+        const results = response.data?.results
+        if (Array.isArray(results) && results.length === batch.length) {
+          // L'API peut retourner null ou -32768 pour les données manquantes
+          elevations.push(...results.map((result: OpenElevationResult) =>
+            typeof result.elevation === 'number' && result.elevation >= -1000 ? result.elevation : null
+          ))
+        } else {
+          console.warn('[Elevation API] Format de réponse inattendu')
+          elevations.push(...batch.map(() => null))
+        }
+      } catch (error) {
+        console.warn(`[Elevation API] Erreur pour le batch ${i}-${i + batchSize}:`, error instanceof Error ? error.message : String(error))
+        elevations.push(...batch.map(() => null))
+      }
+
+      if (i + batchSize < coordinates.length) {
+        await new Promise(resolve => setTimeout(resolve, delayBetweenRequests))
+      }
+    }
+
+    return elevations
+  }
+}
+
+interface GeoTiffEntry {
+  file: string
+  north: number
+  south: number
+  west: number
+  east: number
+}
+
+/**
+ * Tuiles MNT d'un répertoire local : SRTM (N43E001.hgt) et GeoTIFF (*.tif, *.tiff),
+ * chargées à la demande et gardées en mémoire (LRU)
+ */
+export class LocalDemProvider implements ElevationProvider {
+  readonly name = 'local-dem'
+  private tiles = new Map<string, DemTile | null>()
+  private geoTiffs?: Promise<GeoTiffEntry[]>
+
+  constructor(private directory = ELEVATION_CONFIG.demDirectory, private cacheSize: number = ELEVATION_CONFIG.tileCacheSize) {}
+
+  async getElevations(coordinates: [number, number][]): Promise<Array<number | null>> {
+    const elevations: Array<number | null> = []
+    for (const [lon, lat] of coordinates) {
+      const tile = await this.tileFor(lat, lon)
+      elevations.push(tile ? bilinearElevation(tile, lat, lon) : null)
+    }
+    return elevations
+  }
+
+  private async tileFor(lat: number, lon: number): Promise<DemTile | null> {
+    // Tuile SRTM nommée d'après son coin sud-ouest
+    const hgt = await this.load(`${hgtTileName(lat, lon)}.hgt`, async file => parseHgt(await readFile(file), path.basename(file)))
+    if (hgt && tileContains(hgt, lat, lon)) return hgt
+
+    for (const entry of await this.listGeoTiffs()) {
+      if (lat > entry.north || lat < entry.south || lon < entry.west || lon > entry.east) continue
+      const tile = await this.load(entry.file, async file => parseGeoTiff(await readFile(file)))
+      if (tile && tileContains(tile, lat, lon)) return tile
+    }
+    return null
+  }
+
+  // Tuile en cache, ou lue depuis le disque (null si absente ou illisible)
+  private async load(name: string, parse: (file: string) => Promise<DemTile>): Promise<DemTile | null> {
+    if (this.tiles.has(name)) {
+      const tile = this.tiles.get(name)!
+      this.tiles.delete(name)
+      this.tiles.set(name, tile)
+      return tile
+    }
+    let tile: DemTile | null = null
+    try {
+      tile = await parse(path.join(this.directory, name))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`[Elevation DEM] Tuile ${name} illisible:`, error instanceof Error ? error.message : String(error))
+      }
+    }
+    this.tiles.set(name, tile)
+    // Les tuiles absentes ne coûtent rien à garder, seules les tuiles chargées comptent
+    const loaded = [...this.tiles.entries()].filter(([, t]) => t !== null)
+    if (loaded.length > this.cacheSize) this.tiles.delete(loaded[0][0])
+    return tile
+  }
+
+  // Emprise des GeoTIFF du répertoire (lue une fois)
+  private listGeoTiffs(): Promise<GeoTiffEntry[]> {
+    if (!this.geoTiffs) {
+      this.geoTiffs = (async () => {
+        let files: string[] = []
+        try {
+          files = (await readdir(this.directory)).filter(file => /\.tiff?$/i.test(file))
+        } catch {
+          console.warn(`[Elevation DEM] Répertoire ${this.directory} introuvable`)
+        }
+        const entries: GeoTiffEntry[] = []
+        for (const file of files) {
+          const tile = await this.load(file, async f => parseGeoTiff(await readFile(f)))
+          if (!tile) continue
+          entries.push({
+            file,
+            north: tile.north,
+            south: tile.north - (tile.height - 1) * tile.latStep,
+            west: tile.west,
+            east: tile.west + (tile.width - 1) * tile.lonStep
+          })
+        }
+        return entries
+      })()
+    }
+    return this.geoTiffs
+  }
+}
+
+/**
+ * Enchaîne plusieurs sources : chaque source ne reçoit que les points restés sans altitude
+ */
+export class FallbackElevationProvider implements ElevationProvider {
+  readonly name: string
+
+  constructor(private providers: ElevationProvider[]) {
+    this.name = providers.map(p => p.name).join('+')
+  }
+
+  async getElevations(coordinates: [number, number][]): Promise<Array<number | null>> {
+    const elevations: Array<number | null> = coordinates.map(() => null)
+    for (const provider of this.providers) {
+      const missing = elevations.flatMap((value, i) => (value === null ? [i] : []))
+      if (missing.length === 0) break
+      const values = await provider.getElevations(missing.map(i => coordinates[i]))
+      missing.forEach((index, k) => { elevations[index] = values[k] ?? null })
+    }
+    return elevations
+  }
+}
+
+/**
+ * Construit la source d'altitude correspondant à la configuration
+ */
+export function createElevationProvider(name: ElevationProviderName = ELEVATION_CONFIG.provider): ElevationProvider {
+  switch (name) {
+    case 'local':
+      return new LocalDemProvider()
+    case 'auto':
+      return new FallbackElevationProvider([new LocalDemProvider(), new OpenElevationProvider()])
+    default:
+      return new OpenElevationProvider()
+  }
+}
@@ -1,102 +1,87 @@
-// Service pour récupérer les altitudes depuis une API d'élévation
-// Utilise Open Elevation API (gratuite et sans clé API)
+// Service pour récupérer les altitudes
+// La source (API Open-Elevation, tuiles MNT locales) est choisie par configuration, cf. config/elevation-config.ts
 
-import axios from 'axios'
+import { ElevationProvider, createElevationProvider } from './elevation-providers.js'
 
-interface ElevationPoint {
-  latitude: number
-  longitude: number
+let provider: ElevationProvider | null = null
+
+/**
+ * Source d'altitude courante (créée à la première utilisation)
+ */
+export function getElevationProvider(): ElevationProvider {
+  if (!provider) provider = createElevationProvider()
+  return provider
 }
 
-interface ElevationResponse {
-  latitude: number
-  longitude: number
-  elevation: number
+/**
+ * Remplace la source d'altitude (tests, outils hors ligne)
+ */
+export function setElevationProvider(next: ElevationProvider | null): void {
+  provider = next
 }
 
-const OPEN_ELEVATION_API = 'https://api.open-elevation.com/api/v1/lookup'
+/**
+ * Complète les altitudes inconnues par interpolation linéaire entre les valeurs connues voisines
+ * (valeur connue la plus proche aux extrémités)
+ * @returns null si aucune altitude de la série n'est connue (pas d'altitude inventée)
+ */
+export function fillElevationGaps(values: Array<number | null>): number[] | null {
+  const isKnown = (value: number | null): value is number => value !== null && Number.isFinite(value)
+  if (values.length === 0) return []
+  if (!values.some(isKnown)) return null
+  // Indice de la prochaine valeur connue pour chaque point
+  const next: number[] = new Array(values.length)
+  for (let i = values.length - 1, n = -1; i >= 0; i--) {
+    if (isKnown(values[i])) n = i
+    next[i] = n
+  }
+  const filled: number[] = []
+  let previous = -1
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i]
+    if (isKnown(value)) {
+      filled.push(value)
+      previous = i
+    } else if (previous < 0) {
+      filled.push(values[next[i]]!)
+    } else if (next[i] < 0) {
+      filled.push(filled[previous])
+    } else {
+      const a = filled[previous], b = values[next[i]]!
+      filled.push(a + (b - a) * (i - previous) / (next[i] - previous))
+    }
+  }
+  return filled
+}
 
 /**
  * Récupère l'altitude pour un ensemble de coordonnées
  * @param coordinates Array de [longitude, latitude]
- * @returns Array d'altitudes en mètres
+ * @returns Array d'altitudes en mètres, null si l'altitude n'est disponible pour aucun point
  */
 export async function getElevations(
   coordinates: [number, number][]
-): Promise<number[]> {
+): Promise<number[] | null> {
   if (coordinates.length === 0) {
     return []
   }
 
+  const source = getElevationProvider()
+  let values: Array<number | null>
   try {
-    // Limiter à 100 points par requête pour éviter les timeouts
-    const batchSize = 100
-    const allElevations: number[] = []
-
-    for (let i = 0; i < coordinates.length; i += batchSize) {
-      const batch = coordinates.slice(i, i + batchSize)
-      
-      try {
-        const locations = batch.map(([lon, lat]) => ({
-          latitude: lat,
-          longitude: lon
-        }))
-
-        const response = await axios.post(OPEN_ELEVATION_API, {
-          locations: locations
-        }, {
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          timeout: 10000 // 10 secondes de timeout
-        })
-
-        const data = response.data
-        
-        if (data.results && Array.isArray(data.results)) {
-          const elevations = data.results.map((result: ElevationResponse) => {
-            // L'API peut retourner null ou -32768 pour les données manquantes
-            if (result.elevation === null || result.elevation === undefined || result.elevation < -1000) {
-              console.warn(`[Elevation API] Valeur invalide pour (${result.latitude}, ${result.longitude}): ${result.elevation}, utilisation de 150m par défaut`);
-              return 150 // Valeur par défaut pour zone urbaine
-            }
-            return result.elevation
-          })
-          
-          // Log des premières valeurs pour debug
-          if (batch.length <= 5) {
-            console.log(`[Elevation API] Batch résultats:`, elevations.map((e, i) => 
-              `(${batch[i][1].toFixed(4)}, ${batch[i][0].toFixed(4)}) => ${e.toFixed(1)}m`
-            ).join(', '));
-          }
-          
-          allElevations.push(...elevations)
-        } else {
-          console.warn('[Elevation API] Format de réponse inattendu, utilisation de valeurs par défaut')
-          allElevations.push(...batch.map(() => 150))
-        }
-      } catch (batchError) {
-        console.warn(`[Elevation API] Erreur pour le batch ${i}-${i + batchSize}, utilisation de valeurs par défaut:`, batchError instanceof Error ? batchError.message : String(batchError))
-        // En cas d'erreur, retourner des altitudes par défaut (150m)
-        allElevations.push(...batch.map(() => 150))
-      }
-
-      // Petite pause entre les requêtes pour éviter de surcharger l'API
-      if (i + batchSize < coordinates.length) {
-        await new Promise(resolve => setTimeout(resolve, 100))
-      }
-    }
-
-    return allElevations
+    values = await source.getElevations(coordinates)
   } catch (error) {
-    console.error('[Elevation API] Erreur lors de la récupération des altitudes:', error)
-    if (error instanceof Error) {
-      console.error('[Elevation API] Message:', error.message)
-      console.error('[Elevation API] Stack:', error.stack)
-    }
-    // En cas d'erreur, retourner des altitudes par défaut
-    return coordinates.map(() => 150)
+    console.error(`[Elevation] Erreur de la source ${source.name}:`, error instanceof Error ? error.message : String(error))
+    values = coordinates.map(() => null)
+  }
+
+  const missing = values.filter(value => value === null).length
+  if (missing === coordinates.length) {
+    console.warn(`[Elevation] Aucune altitude connue (${source.name}), profil indisponible`)
+  } else if (missing > 0) {
+    console.warn(`[Elevation] ${missing}/${coordinates.length} altitudes inconnues (${source.name}), interpolées`)
   }
+  return fillElevationGaps(values)
 }
 
 /**
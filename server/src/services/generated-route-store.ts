@@ -0,0 +1,51 @@
+// Stockage en mémoire (courte durée) des itinéraires générés,
+// pour pouvoir les sauvegarder ou les exporter sans les recalculer
+import { AssembledRoute } from './route-assembler.js'
+
+const TTL_MINUTES = 60
+const MAX_ROUTES = 500
+
+interface StoredRoute {
+  route: AssembledRoute
+  storedAt: number
+  savedAs?: Record<string, string>   // userId → id du Route Prisma déjà créé
+}
+
+const routes = new Map<string, StoredRoute>()
+
+function purgeExpired(now = Date.now()): void {
+  for (const [id, entry] of routes) {
+    if (now - entry.storedAt > TTL_MINUTES * 60 * 1000) routes.delete(id)
+  }
+}
+
+/**
+ * Conserve un itinéraire généré (les plus anciens sont évincés au-delà de MAX_ROUTES)
+ */
+export function rememberGeneratedRoute(route: AssembledRoute): void {
+  purgeExpired()
+  routes.set(route.id, { route, storedAt: Date.now() })
+  while (routes.size > MAX_ROUTES) {
+    routes.delete(routes.keys().next().value as string)
+  }
+}
+
+/**
+ * Itinéraire généré encore en mémoire, ou null s'il a expiré
+ */
+export function getGeneratedRoute(id: string): AssembledRoute | null {
+  purgeExpired()
+  return routes.get(id)?.route || null
+}
+
+/**
+ * Id du Route Prisma si cet utilisateur a déjà sauvegardé l'itinéraire
+ */
+export function getSavedRouteId(id: string, userId: string): string | null {
+  return routes.get(id)?.savedAs?.[userId] || null
+}
+
+export function markGeneratedRouteSaved(id: string, userId: string, savedId: string): void {
+  const entry = routes.get(id)
+  if (entry) entry.savedAs = { ...entry.savedAs, [userId]: savedId }
+}
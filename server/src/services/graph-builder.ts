@@ -1,4 +1,8 @@
 import { OSMResponse, OSMWay, OSMNode } from './osm-service.js';
+import { classifySurface, SurfaceCategory, SurfaceClass } from '../utils/surface-classifier.js';
+import { requireRoutingProfile, isWayAllowed } from './routing-profiles.js';
+import { footAccess, footOneway, isImpassableNode } from '../utils/osm-access.js';
+import { ACCESS_RULES } from '../config/osm-config.js';
 
 // Types robustes du graphe strict
 export interface GraphNode {
@@ -6,6 +10,7 @@ export interface GraphNode {
   osmId: string;     // id OSM
   lat: number;
   lon: number;
+  elevation?: number; // m
   connections: string[];
   tags?: Record<string, string>;
 }
@@ -16,9 +21,22 @@ export interface GraphEdge {
   to: string;
   distance: number;
   surface?: string;
+  surfaceCategory?: SurfaceCategory; // catégorie fine (surface, tracktype, smoothness, highway)
+  surfaceClass?: SurfaceClass;       // revêtu / non revêtu / mixte
   highway_type?: string;
   weight: number;
+  ascent?: number;  // D+ (m) de from vers to
+  descent?: number; // D- (m) de from vers to
+  grade?: number;   // pente moyenne (%) de from vers to, négative en descente
+  accessPenalty?: number; // multiplicateur de poids (> 1) d'un accès toléré mais déconseillé
+  oneway?: boolean; // sens unique piéton : pas d'arête inverse
+  openingHours?: string[]; // opening_hours de la voie, des portails et des zones traversées (parcs)
   tags?: Record<string, string>;
+  via?: string[];   // arête composée (graphe simplifié) : nœuds intermédiaires de from vers to
+  geometry?: Array<[number, number]>; // arête composée : [lon, lat] des nœuds intermédiaires
+  maxGrade?: number; // arête composée : pente la plus forte (%, en valeur absolue) de ses tronçons
+  inferred?: boolean; // liaison déduite, absente d'OSM (chemin en impasse raccordé à une voie proche)
+  splitFrom?: string; // arête OSM d'origine d'un tronçon coupé au point de raccordement d'une liaison déduite
 }
 export interface Graph {
   nodes: Map<string, GraphNode>;
@@ -38,7 +56,66 @@ const isWalkable = (way:OSMWay) => {
   const h = way.tags.highway;
   return h && /footway|path|track|cycleway|steps|pedestrian|residential|living_street|service/.test(h);
 };
-export function buildGraph(osmData: any): Graph {
+
+interface OpeningHoursArea {
+  ring: Array<[number, number]>; // [lon, lat]
+  bbox: { minLat: number; maxLat: number; minLon: number; maxLon: number };
+  openingHours: string;
+}
+
+/**
+ * Zones fermées (parcs, jardins...) portant des horaires d'ouverture, hors voies praticables
+ */
+function openingHoursAreas(elements: any[], nodes: Map<string, GraphNode>, accepts: (way: OSMWay) => boolean): OpeningHoursArea[] {
+  const areas: OpeningHoursArea[] = [];
+  for (const el of elements) {
+    if (el.type !== 'way' || !el.tags?.opening_hours || accepts(el as OSMWay)) continue;
+    const ids: number[] = el.nodes || [];
+    if (ids.length < 4 || ids[0] !== ids[ids.length - 1]) continue;
+    const ring = ids
+      .map(id => nodes.get(`osm_node_${id}`))
+      .filter((n): n is GraphNode => !!n)
+      .map(n => [n.lon, n.lat] as [number, number]);
+    if (ring.length < 4) continue;
+    const lats = ring.map(c => c[1]), lons = ring.map(c => c[0]);
+    areas.push({
+      ring,
+      bbox: { minLat: Math.min(...lats), maxLat: Math.max(...lats), minLon: Math.min(...lons), maxLon: Math.max(...lons) },
+      openingHours: el.tags.opening_hours
+    });
+  }
+  return areas;
+}
+
+function isInArea(lat: number, lon: number, area: OpeningHoursArea): boolean {
+  const { bbox, ring } = area;
+  if (lat < bbox.minLat || lat > bbox.maxLat || lon < bbox.minLon || lon > bbox.maxLon) return false;
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i], [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lon < (xj - xi) * (lat - yi) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+// Horaires d'une arête : voie, portails aux extrémités, zones contenant son milieu
+function collectOpeningHours(way: OSMWay, from: GraphNode, to: GraphNode, areas: OpeningHoursArea[]): string[] {
+  const hours: string[] = [];
+  if (way.tags.opening_hours) hours.push(way.tags.opening_hours);
+  for (const node of [from, to]) {
+    if (node.tags?.barrier && node.tags.opening_hours) hours.push(node.tags.opening_hours);
+  }
+  const midLat = (from.lat + to.lat) / 2, midLon = (from.lon + to.lon) / 2;
+  for (const area of areas) {
+    if (isInArea(midLat, midLon, area)) hours.push(area.openingHours);
+  }
+  return Array.from(new Set(hours));
+}
+/**
+ * Construit le graphe des voies praticables
+ * @param profileId profil de routage (voies autorisées) ; sans profil, toutes les voies piétonnes
+ */
+export function buildGraph(osmData: any, profileId?: string): Graph {
   if ('features' in osmData && Array.isArray(osmData.features)) {
     console.warn('[buildGraph] Reçu un GeoJSON (features) au lieu d\'un .elements OSM !');
     // TODO : adapter si besoin pour convertir GeoJSON -> .elements OSM (non pris en charge ici)
@@ -48,6 +125,8 @@ export function buildGraph(osmData: any): Graph {
     console.error("[buildGraph] ERREUR : osmData.elements is not iterable !", JSON.stringify(osmData).substring(0,500));
     throw new Error("Erreur OSM: response format incorrect, pas de tableau elements (reçu : " + typeof osmData + ")");
   }
+  const profile = profileId ? requireRoutingProfile(profileId) : undefined;
+  const accepts = (way: OSMWay): boolean => profile ? isWayAllowed(profile, way.tags) : !!isWalkable(way);
   const nodes = new Map<string, GraphNode>();
   const edges = new Map<string, GraphEdge>();
   // 1. Extraire nodes OSM
@@ -63,17 +142,30 @@ export function buildGraph(osmData: any): Graph {
       });
     }
   }
-  // 2. Créer les arêtes UNIQUEMENT selon les ways OSM walkables
+  // Nœuds infranchissables (barrières fermées, accès privé) : aucune arête n'y passe
+  const blocked = new Set<string>();
+  for (const [id, node] of nodes) {
+    if (node.tags && isImpassableNode(node.tags)) blocked.add(id);
+  }
+  const areas = openingHoursAreas(osmData.elements, nodes, accepts);
+  let forbiddenWays = 0;
+  // 2. Créer les arêtes UNIQUEMENT selon les ways OSM walkables (ou autorisées par le profil)
   for(const el of osmData.elements) {
-    if (el.type==='way' && isWalkable(el as OSMWay)) {
+    if (el.type==='way' && accepts(el as OSMWay)) {
       const way = el as OSMWay;
+      const access = footAccess(way.tags);
+      if (access === 'no') { forbiddenWays++; continue; }
+      const oneway = footOneway(way.tags);
+      const surfaceInfo = classifySurface(way.tags);
       for(let i=0;i<way.nodes.length-1;i++) {
         const fromId = `osm_node_${way.nodes[i]}`;
         const toId = `osm_node_${way.nodes[i+1]}`;
         const fromNode = nodes.get(fromId), toNode = nodes.get(toId);
         if (!fromNode || !toNode) continue;
+        if (blocked.has(fromId) || blocked.has(toId)) continue;
         const dist = haversine(fromNode.lat,fromNode.lon,toNode.lat,toNode.lon);
         const edgeId = `${fromId}-${toId}`;
+        const openingHours = collectOpeningHours(way, fromNode, toNode, areas);
         const edge:GraphEdge = {
           id: edgeId,
           osmWayId: String(way.id),
@@ -81,20 +173,32 @@ export function buildGraph(osmData: any): Graph {
           to: toId,
           distance: dist,
           surface: way.tags.surface,
+          surfaceCategory: surfaceInfo.category,
+          surfaceClass: surfaceInfo.class,
           highway_type: way.tags.highway,
           weight: dist, // par défaut pondération distance
+          ...(access === 'discouraged' ? { accessPenalty: ACCESS_RULES.discouragedPenalty } : {}),
+          ...(oneway !== 0 ? { oneway: true } : {}),
+          ...(openingHours.length > 0 ? { openingHours } : {}),
           tags: way.tags
         };
-        edges.set(edgeId, edge);
-        // graphe non-orienté
-        const backEdgeId = `${toId}-${fromId}`;
-        edges.set(backEdgeId, { ...edge, id: backEdgeId, from: toId, to: fromId });
-        fromNode.connections.push(toId);
-        toNode.connections.push(fromId);
+        // Graphe non orienté, sauf sens unique piéton (arête dans le seul sens autorisé)
+        if (oneway !== -1) {
+          edges.set(edgeId, edge);
+          fromNode.connections.push(toId);
+        }
+        if (oneway !== 1) {
+          const backEdgeId = `${toId}-${fromId}`;
+          edges.set(backEdgeId, { ...edge, id: backEdgeId, from: toId, to: fromId });
+          toNode.connections.push(fromId);
+        }
       }
     }
   }
-  console.log(`[BUILD] Graph : ${nodes.size} nœuds, ${edges.size} arêtes`);
+  if (forbiddenWays > 0 || blocked.size > 0) {
+    console.log(`[BUILD] Accès : ${forbiddenWays} voie(s) interdite(s), ${blocked.size} nœud(s) infranchissable(s)`);
+  }
+  console.log(`[BUILD] Graph${profile ? ` (${profile.id})` : ''} : ${nodes.size} nœuds, ${edges.size} arêtes`);
   // Validation min.
   for(const [id,e] of edges) {
     if (!e.osmWayId) throw new Error(`Edge ${id} missing osmWayId`);
@@ -103,6 +207,95 @@ export function buildGraph(osmData: any): Graph {
   return { nodes, edges };
 }
 
+/**
+ * Ajoute l'altitude des nœuds qui n'en ont pas encore puis recalcule les dénivelés des arêtes
+ * @param lookup fonction renvoyant les altitudes pour des coordonnées [lon, lat] (null si inconnue)
+ * @returns nombre de nœuds enrichis
+ */
+export async function addNodeElevations(
+  graph: Graph,
+  lookup: (coordinates: [number, number][]) => Promise<Array<number | null>>
+): Promise<number> {
+  const missing = Array.from(graph.nodes.values()).filter(n => n.elevation === undefined);
+  let enriched = 0;
+  if (missing.length > 0) {
+    const elevations = await lookup(missing.map(n => [n.lon, n.lat] as [number, number]));
+    missing.forEach((n, i) => {
+      const elevation = elevations[i];
+      if (typeof elevation === 'number' && Number.isFinite(elevation)) {
+        n.elevation = elevation;
+        enriched++;
+      }
+    });
+  }
+  computeEdgeElevationDeltas(graph);
+  return enriched;
+}
+
+/**
+ * Renseigne ascent/descent/grade de chaque arête à partir des altitudes de ses nœuds
+ */
+export function computeEdgeElevationDeltas(graph: Graph): void {
+  for (const edge of graph.edges.values()) {
+    const from = graph.nodes.get(edge.from), to = graph.nodes.get(edge.to);
+    if (from?.elevation === undefined || to?.elevation === undefined) continue;
+    const delta = to.elevation - from.elevation;
+    edge.ascent = Math.max(0, delta);
+    edge.descent = Math.max(0, -delta);
+    edge.grade = edge.distance > 0 ? delta / edge.distance * 100 : 0;
+  }
+}
+
+export function hasElevationData(graph: Graph): boolean {
+  for (const edge of graph.edges.values()) {
+    if (edge.ascent !== undefined) return true;
+  }
+  return false;
+}
+
+export interface GraphComponents {
+  component: Map<string, number>; // composante de chaque nœud (0 : la plus étendue)
+  lengths: number[];              // longueur de voies (m) de chaque composante, décroissante
+}
+
+/**
+ * Composantes connexes du graphe (sens uniques compris, arêtes prises dans les deux sens),
+ * numérotées de la plus étendue à la plus petite
+ */
+export function connectedComponents(graph: Graph): GraphComponents {
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    for (let node = id; node !== root;) {
+      const next = parent.get(node)!;
+      parent.set(node, root);
+      node = next;
+    }
+    return root;
+  };
+  for (const id of graph.nodes.keys()) parent.set(id, id);
+  for (const e of graph.edges.values()) {
+    if (!parent.has(e.from) || !parent.has(e.to)) continue;
+    const a = find(e.from), b = find(e.to);
+    if (a !== b) parent.set(a, b);
+  }
+
+  // Longueur par racine : une arête par paire de nœuds
+  const lengthOf = new Map<string, number>();
+  for (const id of graph.nodes.keys()) lengthOf.set(find(id), lengthOf.get(find(id)) ?? 0);
+  for (const e of graph.edges.values()) {
+    if (!parent.has(e.from) || (e.from > e.to && graph.edges.has(`${e.to}-${e.from}`))) continue;
+    const root = find(e.from);
+    lengthOf.set(root, lengthOf.get(root)! + e.distance);
+  }
+  const roots = Array.from(lengthOf.keys()).sort((a, b) => lengthOf.get(b)! - lengthOf.get(a)!);
+  const order = new Map(roots.map((root, i) => [root, i]));
+  const component = new Map<string, number>();
+  for (const id of graph.nodes.keys()) component.set(id, order.get(find(id))!);
+  return { component, lengths: roots.map(root => lengthOf.get(root)!) };
+}
+
 export function validateGraph(graph: Graph): { valid: boolean, errors: string[] } {
   const errors:string[]=[];
   for(const [eid,e] of graph.edges) {
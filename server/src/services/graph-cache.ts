@@ -2,6 +2,8 @@ import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { Graph } from './graph-builder';
+import { ContractionHierarchy } from '../algorithms/contraction-hierarchy';
+import { encodeGraph, decodeGraph, readGraphMeta } from './graph-codec.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const CACHE_DIR = path.resolve(__dirname, '../../cache');
@@ -11,78 +13,143 @@ export interface CachedGraph {
   area: { lat: number, lon: number, radius: number }
   graph: Graph
   osmDataVersion: string
+  profile?: string        // profil de routage ayant filtré les voies
   createdAt: string
   nodesCount: number
   edgesCount: number
+  elevation?: { source: string, nodes: number }  // altitudes des nœuds et pentes des arêtes incluses
+  tile?: string           // tuile z/x/y (graph-tiles) : peut être vide (aucune voie praticable)
 }
 
 export function hashArea(lat: number, lon: number, radius: number): string {
   return Buffer.from(`${lat.toFixed(6)},${lon.toFixed(6)},${radius.toFixed(2)}`).toString('base64')
 }
 
+// Graphe au format binaire (graph-codec) ; osm-<clé>.json : ancien format JSON, migré à la lecture
+const graphFile = (key: string) => path.join(CACHE_DIR, `osm-${key}.bin`)
+const legacyGraphFile = (key: string) => path.join(CACHE_DIR, `osm-${key}.json`)
+
+const isExpired = (createdAt: string) => Date.now()-Date.parse(createdAt) > TTL_DAYS*24*3600*1000
+
 export async function saveGraph(key: string, data: CachedGraph): Promise<void> {
   // Validation : ne pas sauvegarder de graphe vide
-  const nodesCount = data.graph?.nodes instanceof Map ? data.graph.nodes.size : 
-                     typeof data.graph?.nodes === 'object' ? Object.keys(data.graph.nodes).length : 0
-  const edgesCount = data.graph?.edges instanceof Map ? data.graph.edges.size : 
-                     typeof data.graph?.edges === 'object' ? Object.keys(data.graph.edges).length : 0
+  const nodesCount = data.graph?.nodes instanceof Map ? data.graph.nodes.size : 0
+  const edgesCount = data.graph?.edges instanceof Map ? data.graph.edges.size : 0
   
-  if (nodesCount === 0 || edgesCount === 0) {
+  if ((nodesCount === 0 || edgesCount === 0) && !data.tile) {
     throw new Error(`Cannot cache empty graph (nodes=${nodesCount}, edges=${edgesCount})`)
   }
   
   await fs.mkdir(CACHE_DIR, {recursive:true})
-  const file = path.join(CACHE_DIR, `osm-${key}.json`)
-  
-  // Convertir les Map en objets pour JSON serialization
-  const serializableData = {
-    ...data,
-    graph: {
-      nodes: data.graph.nodes instanceof Map 
-        ? Object.fromEntries(data.graph.nodes)
-        : data.graph.nodes,
-      edges: data.graph.edges instanceof Map
-        ? Object.fromEntries(data.graph.edges)
-        : data.graph.edges
+  const { graph, ...meta } = data
+  const file = graphFile(key)
+  // Écriture atomique : un fichier tronqué ne doit jamais être lu
+  await fs.writeFile(`${file}.tmp`, encodeGraph(graph, { ...meta, nodesCount, edgesCount }))
+  await fs.rename(`${file}.tmp`, file)
+}
+
+export async function loadGraph(key: string): Promise<CachedGraph|null> {
+  let buffer: Buffer
+  try {
+    buffer = await fs.readFile(graphFile(key))
+  } catch {
+    return migrateLegacyGraph(key)
+  }
+  try {
+    const { graph, meta } = decodeGraph<Omit<CachedGraph, 'graph'>>(buffer)
+    // TTL management
+    if (isExpired(meta.createdAt)) return null
+    const empty = graph.nodes.size === 0 || graph.edges.size === 0
+    if (graph.nodes.size !== meta.nodesCount || graph.edges.size !== meta.edgesCount || (empty && !meta.tile)) {
+      throw new Error(`Invalid graph cache: nodes=${graph.nodes.size}, edges=${graph.edges.size}`)
     }
+    return { ...meta, graph }
+  } catch (error) {
+    // Version de schéma dépassée ou fichier corrompu : invalidé, le graphe sera reconstruit
+    console.warn(`[cache] Rejected graph for key ${key}: ${error instanceof Error ? error.message : String(error)}`)
+    await fs.unlink(graphFile(key)).catch(() => {})
+    return null
   }
-  
-  await fs.writeFile(file, JSON.stringify(serializableData, null, 2), 'utf8')
 }
 
-export async function loadGraph(key: string): Promise<CachedGraph|null> {
-  const file = path.join(CACHE_DIR, `osm-${key}.json`)
+/**
+ * Ancien cache JSON : relu, réécrit au format binaire puis supprimé
+ */
+async function migrateLegacyGraph(key: string): Promise<CachedGraph|null> {
+  const file = legacyGraphFile(key)
   try {
     const raw = await fs.readFile(file, 'utf8')
     const obj = JSON.parse(raw)
     // TTL management
-    if (Date.now()-Date.parse(obj.createdAt) > TTL_DAYS*24*3600*1000) return null
+    if (isExpired(obj.createdAt)) return null
     // Rejeter les graphes vides (problème de cache corrompu)
     if (!obj.graph || !obj.graph.nodes || !obj.graph.edges) {
       console.warn(`[cache] Rejected invalid graph structure for key ${key}`)
       return null
     }
-    const nodesCount = obj.nodesCount || (typeof obj.graph.nodes === 'object' ? Object.keys(obj.graph.nodes).length : 0)
-    const edgesCount = obj.edgesCount || (typeof obj.graph.edges === 'object' ? Object.keys(obj.graph.edges).length : 0)
-    if (nodesCount === 0 || edgesCount === 0) {
-      console.warn(`[cache] Rejected empty graph (nodes=${nodesCount}, edges=${edgesCount}) for key ${key}`)
+    const graph: Graph = {
+      nodes: new Map(Object.entries(obj.graph.nodes)),
+      edges: new Map(Object.entries(obj.graph.edges))
+    }
+    if (graph.nodes.size === 0 || graph.edges.size === 0) {
+      console.warn(`[cache] Rejected empty graph (nodes=${graph.nodes.size}, edges=${graph.edges.size}) for key ${key}`)
       return null
     }
-    return obj as CachedGraph
+    const cached: CachedGraph = { ...obj, graph, nodesCount: graph.nodes.size, edgesCount: graph.edges.size }
+    await saveGraph(key, cached)
+    await fs.unlink(file)
+    console.log(`[cache] Migrated ${path.basename(file)} to the binary format`)
+    return cached
   } catch {
     return null
   }
 }
 
+export interface CachedHierarchy {
+  graphCreatedAt: string  // createdAt du graphe prétraité (une hiérarchie par version du graphe)
+  createdAt: string
+  hierarchy: ContractionHierarchy
+}
+
+// Hiérarchie de contraction stockée à côté du graphe : osm-<clé>.ch.json
+const hierarchyFile = (key: string) => path.join(CACHE_DIR, `osm-${key}.ch.json`)
+
+export async function saveHierarchy(key: string, data: CachedHierarchy): Promise<void> {
+  await fs.mkdir(CACHE_DIR, {recursive:true})
+  await fs.writeFile(hierarchyFile(key), JSON.stringify(data), 'utf8')
+}
+
+export async function loadHierarchy(key: string): Promise<CachedHierarchy|null> {
+  try {
+    const obj = JSON.parse(await fs.readFile(hierarchyFile(key), 'utf8'))
+    if (!obj.hierarchy || !Array.isArray(obj.hierarchy.nodeIds)) return null
+    return obj as CachedHierarchy
+  } catch {
+    return null
+  }
+}
+
+// Date de création d'un fichier du cache (graphe binaire ou JSON, hiérarchie), null s'il est illisible
+async function fileCreatedAt(file: string): Promise<string|null> {
+  try {
+    const raw = await fs.readFile(file)
+    if (file.endsWith('.bin')) return readGraphMeta<{ createdAt: string }>(raw).createdAt
+    return JSON.parse(raw.toString('utf8')).createdAt ?? null
+  } catch {
+    return null
+  }
+}
+
+const isCacheFile = (f: string) => f.startsWith('osm-') && (f.endsWith('.bin') || f.endsWith('.json'))
+
 export async function cleanupCache(): Promise<void> {
   try {
     const files = await fs.readdir(CACHE_DIR)
     for(const f of files) {
-      if(f.startsWith('osm-')&&f.endsWith('.json')) {
+      if(isCacheFile(f)) {
         const p = path.join(CACHE_DIR, f)
-        const raw = await fs.readFile(p, 'utf8')
-        const obj = JSON.parse(raw)
-        if (Date.now()-Date.parse(obj.createdAt) > TTL_DAYS*24*3600*1000) {
+        const createdAt = await fileCreatedAt(p)
+        if (!createdAt || isExpired(createdAt)) {
           await fs.unlink(p)
         }
       }
@@ -95,9 +162,9 @@ export async function cacheStats(): Promise<{count:number, totalMB:number}> {
   const files = await fs.readdir(CACHE_DIR)
   let count = 0, total = 0
   for(const f of files) {
-    if(f.startsWith('osm-')&&f.endsWith('.json')) {
+    if(isCacheFile(f)) {
       const stat = await fs.stat(path.join(CACHE_DIR, f))
-      count++
+      if (!f.endsWith('.ch.json')) count++
       total += stat.size
     }
   }
@@ -0,0 +1,425 @@
+// Format binaire compact du cache de graphes
+//
+// [magic "TRGC"][version u16][réservé u16][taille en-tête u32][taille données u32][crc32 des données u32]
+// [en-tête JSON compressé][données compressées]
+// L'en-tête porte les métadonnées, la table des chaînes (internées), les jeux de tags partagés
+// et la position des sections ; les données sont des tableaux typés alignés sur 8 octets
+// (coordonnées, adjacence au format CSR, attributs des arêtes). L'arête retour d'une voie à double
+// sens n'est stockée que par un indicateur : elle reprend l'arête aller, extrémités inversées.
+
+import zlib from 'zlib'
+import { Graph, GraphEdge, GraphNode } from './graph-builder.js'
+import { isSurfaceCategory, isSurfaceClass } from '../utils/surface-classifier.js'
+
+/** Version du schéma : un fichier d'une autre version est invalidé au chargement */
+export const GRAPH_CACHE_VERSION = 1
+
+const MAGIC = 'TRGC'
+const PREFIX_SIZE = 20
+const NONE = -1
+
+// Indicateurs par arête
+const FLAG_ONEWAY_SET = 1
+const FLAG_ONEWAY = 2
+const FLAG_TWIN = 4   // arête inverse de la précédente
+
+// Champs connus, encodés dans les sections ; les autres passent par les `extras` de l'en-tête
+const NODE_FIELDS = new Set(['id', 'osmId', 'lat', 'lon', 'elevation', 'connections', 'tags'])
+const EDGE_FIELDS = new Set([
+  'id', 'osmWayId', 'from', 'to', 'distance', 'weight', 'surface', 'surfaceCategory', 'surfaceClass',
+  'highway_type', 'ascent', 'descent', 'grade', 'accessPenalty', 'oneway', 'openingHours', 'tags'
+])
+type EdgeStringField = keyof Pick<GraphEdge, 'surface' | 'surfaceCategory' | 'surfaceClass' | 'highway_type'>
+const EDGE_STRING_FIELDS: readonly EdgeStringField[] = ['surface', 'surfaceCategory', 'surfaceClass', 'highway_type']
+const EDGE_NUMBER_FIELDS = ['ascent', 'descent', 'grade', 'accessPenalty'] as const
+
+type SectionType = 'f64' | 'i32' | 'u32' | 'u8'
+type TypedArray = Float64Array | Int32Array | Uint32Array | Uint8Array
+
+const SECTION_TYPES = { f64: Float64Array, i32: Int32Array, u32: Uint32Array, u8: Uint8Array }
+
+interface Header {
+  meta: Record<string, unknown>
+  counts: { nodes: number, edges: number, storedEdges: number }
+  strings: string[]
+  tagSets: number[][]                // [clé, valeur, clé, valeur...] (indices de chaînes)
+  openingHoursSets: number[][]
+  customNodes: Record<number, [string, string]>   // ids hors convention osm_node_<osmId>
+  customEdgeIds: Record<number, string>           // ids hors convention <from>-<to>
+  nodeExtras: Record<number, Record<string, unknown>>
+  edgeExtras: Record<number, Record<string, unknown>>
+  sections: Record<string, [SectionType, number, number]>  // type, position (octets), longueur
+}
+
+export interface DecodedGraph<M> {
+  graph: Graph
+  meta: M
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+class Interner<T> {
+  readonly values: T[] = []
+  private index = new Map<string, number>()
+  constructor(private key: (value: T) => string) {}
+  add(value: T): number {
+    const k = this.key(value)
+    let i = this.index.get(k)
+    if (i === undefined) {
+      i = this.values.length
+      this.values.push(value)
+      this.index.set(k, i)
+    }
+    return i
+  }
+}
+
+function extrasOf(object: object, known: Set<string>): Record<string, unknown> | undefined {
+  const extras = Object.entries(object).filter(([k, v]) => !known.has(k) && v !== undefined)
+  return extras.length > 0 ? Object.fromEntries(extras) : undefined
+}
+
+// Pente de l'arête inverse (0 reste 0)
+const reverseGrade = (grade?: number) => grade === undefined || grade === 0 ? grade : -grade
+
+// L'arête `edge` est-elle exactement l'inverse de `previous` (même voie, mêmes attributs) ?
+function isTwin(edge: GraphEdge, previous: GraphEdge | undefined): boolean {
+  if (!previous || edge.from !== previous.to || edge.to !== previous.from) return false
+  if (edge.id !== `${edge.from}-${edge.to}` || previous.id !== `${previous.from}-${previous.to}`) return false
+  if (extrasOf(edge, EDGE_FIELDS) || extrasOf(previous, EDGE_FIELDS)) return false
+  return edge.osmWayId === previous.osmWayId
+    && edge.distance === previous.distance
+    && edge.weight === previous.weight
+    && EDGE_STRING_FIELDS.every(field => edge[field] === previous[field])
+    && edge.accessPenalty === previous.accessPenalty
+    && edge.oneway === previous.oneway
+    && edge.tags === previous.tags
+    && edge.openingHours === previous.openingHours
+    && edge.ascent === previous.descent
+    && edge.descent === previous.ascent
+    && Object.is(edge.grade, reverseGrade(previous.grade))
+}
+
+/**
+ * Sérialise un graphe et ses métadonnées (JSON) au format binaire
+ */
+export function encodeGraph(graph: Graph, meta: Record<string, unknown>): Buffer {
+  const strings = new Interner<string>(s => s)
+  const tagSetKeys = new WeakMap<object, number>()
+  const tagSets = new Interner<number[]>(pairs => pairs.join(','))
+  const internTags = (tags?: Record<string, string>) => {
+    if (!tags) return NONE
+    const known = tagSetKeys.get(tags)
+    if (known !== undefined) return known
+    const pairs = Object.entries(tags)
+      .filter(([, v]) => v !== undefined)
+      .flatMap(([k, v]) => [strings.add(k), strings.add(String(v))])
+    const index = tagSets.add(pairs)
+    tagSetKeys.set(tags, index)
+    return index
+  }
+  const openingHoursSets = new Interner<number[]>(ids => ids.join(','))
+  const optionalString = (value?: string) => value === undefined ? NONE : strings.add(value)
+
+  const nodes = Array.from(graph.nodes.values())
+  const nodeIndex = new Map(nodes.map((node, i) => [node.id, i]))
+  const n = nodes.length
+  const header: Header = {
+    meta, counts: { nodes: n, edges: graph.edges.size, storedEdges: 0 }, strings: [], tagSets: [], openingHoursSets: [],
+    customNodes: {}, customEdgeIds: {}, nodeExtras: {}, edgeExtras: {}, sections: {}
+  }
+
+  const nodeOsmId = new Float64Array(n)
+  const nodeCoords = new Float64Array(2 * n)
+  const nodeElevation = new Float64Array(n)
+  const nodeTags = new Int32Array(n)
+  const adjOffsets = new Uint32Array(n + 1)
+  const targets: number[] = []
+  nodes.forEach((node, i) => {
+    const numericId = Number(node.osmId)
+    if (node.id === `osm_node_${node.osmId}` && Number.isSafeInteger(numericId) && String(numericId) === node.osmId) {
+      nodeOsmId[i] = numericId
+    } else {
+      nodeOsmId[i] = NaN
+      header.customNodes[i] = [node.id, node.osmId]
+    }
+    nodeCoords[2 * i] = node.lat
+    nodeCoords[2 * i + 1] = node.lon
+    nodeElevation[i] = node.elevation ?? NaN
+    nodeTags[i] = internTags(node.tags)
+    const connections = node.connections.map(id => nodeIndex.get(id))
+    const extras = extrasOf(node, NODE_FIELDS) || {}
+    if (connections.some(c => c === undefined)) {
+      // Connexions vers des nœuds absents : conservées telles quelles
+      extras.connections = node.connections
+    } else {
+      for (const c of connections) targets.push(c!)
+    }
+    adjOffsets[i + 1] = targets.length
+    if (Object.keys(extras).length > 0) header.nodeExtras[i] = extras
+  })
+
+  // Arêtes : indicateurs pour toutes, attributs pour les seules arêtes non jumelles
+  const edges = Array.from(graph.edges.values())
+  const m = edges.length
+  const edgeFlags = new Uint8Array(m)
+  const stored: GraphEdge[] = []
+  edges.forEach((edge, i) => {
+    const twin = isTwin(edge, edges[i - 1]) && !(edgeFlags[i - 1] & FLAG_TWIN)
+    if (edge.oneway !== undefined) edgeFlags[i] |= FLAG_ONEWAY_SET | (edge.oneway ? FLAG_ONEWAY : 0)
+    if (twin) {
+      edgeFlags[i] |= FLAG_TWIN
+      return
+    }
+    if (edge.id !== `${edge.from}-${edge.to}`) header.customEdgeIds[i] = edge.id
+    const extras = extrasOf(edge, EDGE_FIELDS) || {}
+    if (edge.weight !== edge.distance) extras.weight = edge.weight
+    if (Object.keys(extras).length > 0) header.edgeExtras[i] = extras
+    stored.push(edge)
+  })
+  const p = stored.length
+  header.counts.storedEdges = p
+  const edgeEnds = new Uint32Array(2 * p)
+  const edgeWay = new Int32Array(p)
+  const edgeDistance = new Float64Array(p)
+  const edgeStrings = new Int32Array(EDGE_STRING_FIELDS.length * p)
+  const edgeNumbers = new Float64Array(EDGE_NUMBER_FIELDS.length * p)
+  const edgeTags = new Int32Array(p)
+  const edgeOpeningHours = new Int32Array(p)
+  stored.forEach((edge, i) => {
+    const from = nodeIndex.get(edge.from), to = nodeIndex.get(edge.to)
+    if (from === undefined || to === undefined) throw new Error(`Edge ${edge.id} references unknown node`)
+    edgeEnds[2 * i] = from
+    edgeEnds[2 * i + 1] = to
+    edgeWay[i] = strings.add(edge.osmWayId)
+    edgeDistance[i] = edge.distance
+    EDGE_STRING_FIELDS.forEach((field, k) => { edgeStrings[i * EDGE_STRING_FIELDS.length + k] = optionalString(edge[field]) })
+    EDGE_NUMBER_FIELDS.forEach((field, k) => { edgeNumbers[i * EDGE_NUMBER_FIELDS.length + k] = edge[field] ?? NaN })
+    edgeTags[i] = internTags(edge.tags)
+    edgeOpeningHours[i] = edge.openingHours ? openingHoursSets.add(edge.openingHours.map(h => strings.add(h))) : NONE
+  })
+
+  const sections: Array<[string, SectionType, TypedArray]> = [
+    ['nodeOsmId', 'f64', nodeOsmId],
+    ['nodeCoords', 'f64', nodeCoords],
+    ['nodeElevation', 'f64', nodeElevation],
+    ['nodeTags', 'i32', nodeTags],
+    ['adjOffsets', 'u32', adjOffsets],
+    ['adjTargets', 'u32', Uint32Array.from(targets)],
+    ['edgeFlags', 'u8', edgeFlags],
+    ['edgeEnds', 'u32', edgeEnds],
+    ['edgeWay', 'i32', edgeWay],
+    ['edgeDistance', 'f64', edgeDistance],
+    ['edgeStrings', 'i32', edgeStrings],
+    ['edgeNumbers', 'f64', edgeNumbers],
+    ['edgeTags', 'i32', edgeTags],
+    ['edgeOpeningHours', 'i32', edgeOpeningHours]
+  ]
+  let size = 0
+  for (const [name, type, array] of sections) {
+    header.sections[name] = [type, size, array.length]
+    size += Math.ceil(array.byteLength / 8) * 8
+  }
+  const data = Buffer.alloc(size)
+  for (const [name, , array] of sections) {
+    data.set(new Uint8Array(array.buffer, array.byteOffset, array.byteLength), header.sections[name][1])
+  }
+
+  header.strings = strings.values
+  header.tagSets = tagSets.values
+  header.openingHoursSets = openingHoursSets.values
+  const headerBytes = zlib.deflateRawSync(Buffer.from(JSON.stringify(header), 'utf8'))
+  const dataBytes = zlib.deflateRawSync(data)
+  const prefix = Buffer.alloc(PREFIX_SIZE)
+  prefix.write(MAGIC, 0, 'ascii')
+  prefix.writeUInt16LE(GRAPH_CACHE_VERSION, 4)
+  prefix.writeUInt32LE(headerBytes.length, 8)
+  prefix.writeUInt32LE(dataBytes.length, 12)
+  prefix.writeUInt32LE(crc32(data), 16)
+  return Buffer.concat([prefix, headerBytes, dataBytes])
+}
+
+/**
+ * Version du schéma d'un fichier (null si ce n'est pas un cache binaire)
+ */
+export function graphCacheVersion(buffer: Buffer): number | null {
+  if (buffer.length < PREFIX_SIZE || buffer.toString('ascii', 0, 4) !== MAGIC) return null
+  return buffer.readUInt16LE(4)
+}
+
+function readHeader(buffer: Buffer): Header {
+  const version = graphCacheVersion(buffer)
+  if (version === null) throw new Error('Invalid graph cache: bad magic')
+  if (version !== GRAPH_CACHE_VERSION) throw new Error(`Invalid graph cache: schema version ${version}, expected ${GRAPH_CACHE_VERSION}`)
+  const headerLength = buffer.readUInt32LE(8), dataLength = buffer.readUInt32LE(12)
+  if (PREFIX_SIZE + headerLength + dataLength !== buffer.length) throw new Error('Invalid graph cache: truncated file')
+  try {
+    return JSON.parse(zlib.inflateRawSync(buffer.subarray(PREFIX_SIZE, PREFIX_SIZE + headerLength)).toString('utf8'))
+  } catch {
+    throw new Error('Invalid graph cache: unreadable header')
+  }
+}
+
+/**
+ * Métadonnées seules (sans décoder le graphe)
+ */
+export function readGraphMeta<M>(buffer: Buffer): M {
+  return readHeader(buffer).meta as M
+}
+
+/**
+ * Relit un graphe encodé par encodeGraph, après contrôle de la version, du CRC et des indices
+ * @throws Error si le fichier est invalide, tronqué ou d'une autre version
+ */
+export function decodeGraph<M = Record<string, unknown>>(buffer: Buffer): DecodedGraph<M> {
+  const header = readHeader(buffer)
+  let data: Uint8Array
+  try {
+    data = zlib.inflateRawSync(buffer.subarray(PREFIX_SIZE + buffer.readUInt32LE(8)))
+  } catch {
+    throw new Error('Invalid graph cache: unreadable data')
+  }
+  if (crc32(data) !== buffer.readUInt32LE(16)) throw new Error('Invalid graph cache: checksum mismatch')
+  // Les tableaux typés exigent un alignement que les Buffer du pool ne garantissent pas
+  if (data.byteOffset % 8 !== 0) data = new Uint8Array(data)
+
+  const { nodes: n, edges: m, storedEdges: p } = header.counts
+  const section = <T extends TypedArray>(name: string, expected: number): T => {
+    const entry = header.sections[name]
+    if (!entry) throw new Error(`Invalid graph cache: missing section ${name}`)
+    const [type, offset, length] = entry
+    const Type = SECTION_TYPES[type]
+    if (!Type || offset + length * Type.BYTES_PER_ELEMENT > data.length) throw new Error(`Invalid graph cache: section ${name} out of bounds`)
+    if (length !== expected) throw new Error(`Invalid graph cache: section ${name} has ${length} entries, expected ${expected}`)
+    return new Type(data.buffer as ArrayBuffer, data.byteOffset + offset, length) as T
+  }
+  const strings = header.strings
+  const string = (index: number) => {
+    if (index === NONE) return undefined
+    if (index < 0 || index >= strings.length) throw new Error('Invalid graph cache: string index out of range')
+    return strings[index]
+  }
+  const tagObjects = header.tagSets.map(pairs => {
+    const tags: Record<string, string> = {}
+    for (let i = 0; i < pairs.length; i += 2) tags[string(pairs[i])!] = string(pairs[i + 1])!
+    return tags
+  })
+  const tagSet = (index: number) => {
+    if (index === NONE) return undefined
+    if (index < 0 || index >= tagObjects.length) throw new Error('Invalid graph cache: tag set index out of range')
+    return tagObjects[index]
+  }
+  const openingHours = header.openingHoursSets.map(set => set.map(index => string(index)!))
+
+  const nodeOsmId = section<Float64Array>('nodeOsmId', n)
+  const nodeCoords = section<Float64Array>('nodeCoords', 2 * n)
+  const nodeElevation = section<Float64Array>('nodeElevation', n)
+  const nodeTags = section<Int32Array>('nodeTags', n)
+  const adjOffsets = section<Uint32Array>('adjOffsets', n + 1)
+  const adjTargets = section<Uint32Array>('adjTargets', adjOffsets[n])
+
+  const ids: string[] = new Array(n)
+  for (let i = 0; i < n; i++) {
+    ids[i] = header.customNodes[i]?.[0] ?? `osm_node_${nodeOsmId[i]}`
+  }
+  const nodes = new Map<string, GraphNode>()
+  for (let i = 0; i < n; i++) {
+    const connections: string[] = new Array(adjOffsets[i + 1] - adjOffsets[i])
+    for (let k = adjOffsets[i], c = 0; k < adjOffsets[i + 1]; k++, c++) {
+      if (adjTargets[k] >= n) throw new Error('Invalid graph cache: adjacency index out of range')
+      connections[c] = ids[adjTargets[k]]
+    }
+    const node: GraphNode = {
+      id: ids[i],
+      osmId: header.customNodes[i]?.[1] ?? String(nodeOsmId[i]),
+      lat: nodeCoords[2 * i],
+      lon: nodeCoords[2 * i + 1],
+      connections
+    }
+    if (!Number.isNaN(nodeElevation[i])) node.elevation = nodeElevation[i]
+    const tags = tagSet(nodeTags[i])
+    if (tags) node.tags = tags
+    if (header.nodeExtras[i]) Object.assign(node, header.nodeExtras[i])
+    nodes.set(node.id, node)
+  }
+
+  const edgeFlags = section<Uint8Array>('edgeFlags', m)
+  const edgeEnds = section<Uint32Array>('edgeEnds', 2 * p)
+  const edgeWay = section<Int32Array>('edgeWay', p)
+  const edgeDistance = section<Float64Array>('edgeDistance', p)
+  const edgeStrings = section<Int32Array>('edgeStrings', EDGE_STRING_FIELDS.length * p)
+  const edgeNumbers = section<Float64Array>('edgeNumbers', EDGE_NUMBER_FIELDS.length * p)
+  const edgeTags = section<Int32Array>('edgeTags', p)
+  const edgeOpeningHours = section<Int32Array>('edgeOpeningHours', p)
+
+  const edges = new Map<string, GraphEdge>()
+  let previous: GraphEdge | undefined
+  for (let i = 0, s = 0; i < m; i++) {
+    let edge: GraphEdge
+    if (edgeFlags[i] & FLAG_TWIN) {
+      if (!previous) throw new Error('Invalid graph cache: twin edge without predecessor')
+      const { ascent, descent, grade } = previous
+      edge = { ...previous, id: `${previous.to}-${previous.from}`, from: previous.to, to: previous.from }
+      if (ascent !== undefined) edge.descent = ascent
+      if (descent !== undefined) edge.ascent = descent
+      if (grade !== undefined) edge.grade = reverseGrade(grade)
+    } else {
+      if (s >= p) throw new Error('Invalid graph cache: edge count mismatch')
+      const fromIndex = edgeEnds[2 * s], toIndex = edgeEnds[2 * s + 1]
+      if (fromIndex >= n || toIndex >= n) throw new Error('Invalid graph cache: edge node index out of range')
+      const from = ids[fromIndex], to = ids[toIndex]
+      edge = {
+        id: header.customEdgeIds[i] ?? `${from}-${to}`,
+        osmWayId: string(edgeWay[s])!,
+        from,
+        to,
+        distance: edgeDistance[s],
+        weight: edgeDistance[s]
+      }
+      // Catégorie et classe de surface inconnues de cette version du classifieur : ignorées
+      for (let k = 0; k < EDGE_STRING_FIELDS.length; k++) {
+        const value = string(edgeStrings[s * EDGE_STRING_FIELDS.length + k])
+        const field = EDGE_STRING_FIELDS[k]
+        if (value === undefined) continue
+        if (field === 'surfaceCategory') {
+          if (isSurfaceCategory(value)) edge.surfaceCategory = value
+        } else if (field === 'surfaceClass') {
+          if (isSurfaceClass(value)) edge.surfaceClass = value
+        } else {
+          edge[field] = value
+        }
+      }
+      for (let k = 0; k < EDGE_NUMBER_FIELDS.length; k++) {
+        const value = edgeNumbers[s * EDGE_NUMBER_FIELDS.length + k]
+        if (!Number.isNaN(value)) edge[EDGE_NUMBER_FIELDS[k]] = value
+      }
+      if (edgeOpeningHours[s] !== NONE) {
+        if (!openingHours[edgeOpeningHours[s]]) throw new Error('Invalid graph cache: opening hours index out of range')
+        edge.openingHours = openingHours[edgeOpeningHours[s]]
+      }
+      const tags = tagSet(edgeTags[s])
+      if (tags) edge.tags = tags
+      if (header.edgeExtras[i]) Object.assign(edge, header.edgeExtras[i])
+      s++
+    }
+    if (edgeFlags[i] & FLAG_ONEWAY_SET) edge.oneway = (edgeFlags[i] & FLAG_ONEWAY) !== 0
+    edges.set(edge.id, edge)
+    previous = edge
+  }
+
+  return { graph: { nodes, edges }, meta: header.meta as M }
+}
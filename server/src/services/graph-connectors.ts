@@ -0,0 +1,195 @@
+// Liaisons déduites entre sous-réseaux : un chemin qui s'arrête à quelques mètres d'une voie d'un autre
+// sous-réseau (traversée ou bout de trottoir manquant dans OSM) y est raccordé par une courte arête
+// synthétique, marquée `inferred`. Une liaison ne part pas d'une barrière et ne franchit ni barrière
+// linéaire (mur, clôture…) ni grand axe ; la voie rejointe est coupée au point de raccordement.
+
+import { Graph, GraphNode, GraphEdge, connectedComponents } from './graph-builder.js'
+import { OSMResponse, OSMNode, OSMWay } from './osm-service.js'
+import { EdgeGridIndex } from '../utils/spatial-index.js'
+import { CONNECTOR_CONFIG, configUtils } from '../config/osm-config.js'
+
+export interface ConnectorOptions {
+  maxDistance?: number       // m, longueur maximale d'une liaison
+  nodeSnapDistance?: number  // m, en deçà la liaison rejoint directement le nœud de la voie
+}
+
+interface Point {
+  lat: number
+  lon: number
+}
+
+function haversine(a: Point, b: Point): number {
+  const R = 6371000
+  const toRad = (x: number) => x * Math.PI / 180
+  const dLat = toRad(b.lat - a.lat)
+  const dLon = toRad(b.lon - a.lon)
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2
+  return R * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h))
+}
+
+// Segments des grands axes et barrières linéaires présents dans les données OSM
+function obstacleSegments(osmData: OSMResponse): Array<[Point, Point]> {
+  const coordinates = new Map<number, Point>()
+  for (const el of osmData.elements) {
+    if (el.type === 'node') coordinates.set(el.id, el as OSMNode)
+  }
+  const segments: Array<[Point, Point]> = []
+  for (const el of osmData.elements) {
+    if (el.type !== 'way' || !configUtils.isConnectorObstacle(el.tags || {})) continue
+    const nodes = (el as OSMWay).nodes
+    for (let i = 0; i < nodes.length - 1; i++) {
+      const a = coordinates.get(nodes[i]), b = coordinates.get(nodes[i + 1])
+      if (a && b) segments.push([a, b])
+    }
+  }
+  return segments
+}
+
+// [p1, p2] et [q1, q2] se coupent-ils (contact compris) ? Plan local équirectangulaire
+function crosses(p1: Point, p2: Point, q1: Point, q2: Point): boolean {
+  const kx = Math.cos(p1.lat * Math.PI / 180)
+  const cross = (o: Point, a: Point, b: Point) =>
+    (a.lon - o.lon) * kx * (b.lat - o.lat) - (a.lat - o.lat) * (b.lon - o.lon) * kx
+  const d1 = cross(q1, q2, p1), d2 = cross(q1, q2, p2), d3 = cross(p1, p2, q1), d4 = cross(p1, p2, q2)
+  return d1 * d2 <= 0 && d3 * d4 <= 0
+}
+
+// Nœuds en impasse : un seul voisin, sens uniques compris
+function danglingNodes(graph: Graph): GraphNode[] {
+  const neighbours = new Map<string, Set<string>>()
+  for (const edge of graph.edges.values()) {
+    for (const [a, b] of [[edge.from, edge.to], [edge.to, edge.from]]) {
+      if (!neighbours.has(a)) neighbours.set(a, new Set())
+      neighbours.get(a)!.add(b)
+    }
+  }
+  return Array.from(graph.nodes.values()).filter(node => neighbours.get(node.id)?.size === 1 && !node.tags?.barrier)
+}
+
+function connectorEdge(from: GraphNode, to: GraphNode): GraphEdge {
+  const distance = haversine(from, to)
+  return {
+    id: `${from.id}-${to.id}`,
+    osmWayId: 'inferred',
+    from: from.id,
+    to: to.id,
+    distance,
+    weight: distance,
+    highway_type: 'footway',
+    tags: { highway: 'footway' },
+    inferred: true
+  }
+}
+
+// Tronçon [start, end] (fractions) d'une arête coupée, marqué comme tel (même voie OSM). D+/D- et pente
+// du tronçon d'après les altitudes de ses extrémités, à défaut au prorata de l'arête
+function edgePart(graph: Graph, edge: GraphEdge, from: string, to: string, start: number, end: number): GraphEdge {
+  const share = end - start
+  const { ascent, descent, grade, maxGrade, ...attributes } = edge
+  const part: GraphEdge = {
+    ...attributes,
+    id: `${from}-${to}`,
+    from,
+    to,
+    distance: edge.distance * share,
+    weight: edge.weight * share,
+    splitFrom: edge.splitFrom ?? edge.id
+  }
+  const a = graph.nodes.get(from)!.elevation, b = graph.nodes.get(to)!.elevation
+  if (a !== undefined && b !== undefined) {
+    part.ascent = Math.max(0, b - a)
+    part.descent = Math.max(0, a - b)
+  } else if (ascent !== undefined && descent !== undefined) {
+    part.ascent = ascent * share
+    part.descent = descent * share
+  }
+  if (part.ascent !== undefined && part.descent !== undefined) {
+    part.grade = part.distance > 0 ? (part.ascent - part.descent) / part.distance * 100 : 0
+  }
+  return part
+}
+
+// Coupe l'arête a → b (et b → a) aux nœuds donnés, triés par fraction depuis a
+function splitEdge(graph: Graph, edge: GraphEdge, cuts: Array<{ node: GraphNode, fraction: number }>): void {
+  const chain = [edge.from, ...cuts.map(cut => cut.node.id), edge.to]
+  const fractions = [0, ...cuts.map(cut => cut.fraction), 1]
+  const last = chain.length - 1
+  const relink = (from: string, previous: string, next: string) => {
+    const connections = graph.nodes.get(from)!.connections
+    const i = connections.indexOf(previous)
+    if (i >= 0) connections[i] = next
+    else connections.push(next)
+  }
+  for (const cut of cuts) graph.nodes.set(cut.node.id, cut.node)
+
+  graph.edges.delete(edge.id)
+  relink(edge.from, edge.to, chain[1])
+  for (let i = 0; i < last; i++) {
+    graph.edges.set(`${chain[i]}-${chain[i + 1]}`, edgePart(graph, edge, chain[i], chain[i + 1], fractions[i], fractions[i + 1]))
+    if (i > 0) graph.nodes.get(chain[i])!.connections.push(chain[i + 1])
+  }
+  const reverse = graph.edges.get(`${edge.to}-${edge.from}`)
+  if (!reverse) return
+  graph.edges.delete(reverse.id)
+  relink(edge.to, edge.from, chain[last - 1])
+  for (let i = last; i > 0; i--) {
+    graph.edges.set(`${chain[i]}-${chain[i - 1]}`, edgePart(graph, reverse, chain[i], chain[i - 1], 1 - fractions[i], 1 - fractions[i - 1]))
+    if (i < last) graph.nodes.get(chain[i])!.connections.push(chain[i - 1])
+  }
+}
+
+/**
+ * Raccorde les chemins en impasse à la voie la plus proche d'un autre sous-réseau (composante connexe),
+ * à moins de maxDistance mètres et sans traverser de grand axe ni de barrière des données OSM
+ * @param osmData données ayant servi à construire le graphe (grands axes et barrières compris si
+ *                GRAPH_CONNECTORS=true, voir configUtils.buildOverpassQuery)
+ * @returns nombre de liaisons ajoutées
+ */
+export function inferConnectors(graph: Graph, osmData: OSMResponse, options: ConnectorOptions = {}): number {
+  const maxDistance = options.maxDistance ?? CONNECTOR_CONFIG.maxDistance
+  const nodeSnapDistance = options.nodeSnapDistance ?? CONNECTOR_CONFIG.nodeSnapDistance
+  const { component } = connectedComponents(graph)
+  const index = new EdgeGridIndex(graph)
+  const obstacles = obstacleSegments(osmData)
+
+  // Raccordements, calculés sur le graphe d'origine avant toute coupure
+  const links: Array<{ from: GraphNode, to: string }> = []
+  const cuts = new Map<string, Array<{ node: GraphNode, fraction: number }>>()
+  for (const dangling of danglingNodes(graph)) {
+    const target = index.edgesNear(dangling.lat, dangling.lon, maxDistance).find(candidate => {
+      const edge = graph.edges.get(candidate.edgeId)!
+      return component.get(edge.from) !== component.get(dangling.id)
+        && !obstacles.some(([a, b]) => crosses(dangling, candidate, a, b))
+    })
+    if (!target) continue
+
+    const edge = graph.edges.get(target.edgeId)!
+    const along = target.fraction * edge.distance
+    if (along <= nodeSnapDistance || edge.distance - along <= nodeSnapDistance) {
+      links.push({ from: dangling, to: along <= nodeSnapDistance ? edge.from : edge.to })
+      continue
+    }
+    const node: GraphNode = { id: `connector_node_${dangling.osmId}`, osmId: '', lat: target.lat, lon: target.lon, connections: [] }
+    const [a, b] = [graph.nodes.get(edge.from)!.elevation, graph.nodes.get(edge.to)!.elevation]
+    if (a !== undefined && b !== undefined) node.elevation = a + (b - a) * target.fraction
+    if (!cuts.has(edge.id)) cuts.set(edge.id, [])
+    cuts.get(edge.id)!.push({ node, fraction: target.fraction })
+    links.push({ from: dangling, to: node.id })
+  }
+
+  for (const [edgeId, edgeCuts] of cuts) {
+    splitEdge(graph, graph.edges.get(edgeId)!, edgeCuts.sort((a, b) => a.fraction - b.fraction))
+  }
+  let added = 0
+  for (const link of links) {
+    const to = graph.nodes.get(link.to)!
+    if (graph.edges.has(`${link.from.id}-${to.id}`)) continue   // deux impasses raccordées l'une à l'autre
+    for (const edge of [connectorEdge(link.from, to), connectorEdge(to, link.from)]) {
+      graph.edges.set(edge.id, edge)
+      graph.nodes.get(edge.from)!.connections.push(edge.to)
+    }
+    added++
+  }
+  if (added > 0) console.log(`[BUILD] ${added} liaison(s) déduite(s) entre sous-réseaux`)
+  return added
+}
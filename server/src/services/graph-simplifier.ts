@@ -0,0 +1,217 @@
+// Simplification du graphe de routage : fusion des chaînes de nœuds de degré 2 en arêtes composées
+//
+// Seuls restent les nœuds utiles à la recherche (intersections, impasses, nœuds tagués, changements
+// d'attributs de la voie). Une arête composée garde ses nœuds intermédiaires (`via`) et leur géométrie,
+// la somme des distances, poids et dénivelés de ses tronçons, et leurs attributs communs. Les chemins
+// calculés sur le graphe simplifié sont redéployés sur le graphe complet (expandPath) pour la réponse.
+
+import { Graph, GraphNode, GraphEdge } from './graph-builder.js'
+
+const sameTags = (a?: Record<string, string>, b?: Record<string, string>) => {
+  if (a === b) return true
+  if (!a || !b || Object.keys(a).length !== Object.keys(b).length) return false
+  return Object.entries(a).every(([key, value]) => b[key] === value)
+}
+
+// Deux tronçons consécutifs sont fusionnables s'ils ont les mêmes attributs de routage
+function sameAttributes(a: GraphEdge, b: GraphEdge): boolean {
+  return a.highway_type === b.highway_type
+    && a.surface === b.surface
+    && a.surfaceCategory === b.surfaceCategory
+    && a.surfaceClass === b.surfaceClass
+    && a.accessPenalty === b.accessPenalty
+    && a.oneway === b.oneway
+    && a.inferred === b.inferred
+    && a.splitFrom === b.splitFrom
+    && (a.openingHours || []).join(';') === (b.openingHours || []).join(';')
+    && sameTags(a.tags, b.tags)
+}
+
+// Nœud de passage : deux voisins, tronçons homogènes dans les deux sens (ou sens unique traversant)
+function isChainNode(graph: Graph, node: GraphNode, incoming: Map<string, Set<string>>): boolean {
+  if (node.tags && Object.keys(node.tags).length > 0) return false
+  const outgoing = new Set(node.connections)
+  const from = incoming.get(node.id) || new Set<string>()
+  const edge = (a: string, b: string) => graph.edges.get(`${a}-${b}`)
+  if (outgoing.size === 2 && from.size === 2) {
+    const [u, w] = Array.from(outgoing)
+    if (!from.has(u) || !from.has(w)) return false
+    const [uv, vw, wv, vu] = [edge(u, node.id), edge(node.id, w), edge(w, node.id), edge(node.id, u)]
+    return !!(uv && vw && wv && vu) && sameAttributes(uv, vw) && sameAttributes(wv, vu)
+  }
+  if (outgoing.size === 1 && from.size === 1) {
+    const [w] = Array.from(outgoing), [u] = Array.from(from)
+    const [uv, vw] = [edge(u, node.id), edge(node.id, w)]
+    return u !== w && !!(uv && vw) && sameAttributes(uv, vw)
+  }
+  return false
+}
+
+// Chaînes orientées entre nœuds conservés ; les cycles sans nœud conservé en reçoivent un
+function collectChains(graph: Graph, kept: Set<string>): string[][] {
+  const chains: string[][] = []
+  const visited = new Set<string>()
+  const walk = (start: string) => {
+    for (const first of new Set(graph.nodes.get(start)!.connections)) {
+      const chain = [start]
+      let previous = start, current = first
+      while (!kept.has(current)) {
+        visited.add(current)
+        chain.push(current)
+        const next = graph.nodes.get(current)!.connections.find(id => id !== previous)!
+        previous = current
+        current = next
+      }
+      chain.push(current)
+      chains.push(chain)
+    }
+  }
+  for (const id of kept) walk(id)
+  for (const id of graph.nodes.keys()) {
+    if (kept.has(id) || visited.has(id)) continue
+    kept.add(id)
+    walk(id)
+  }
+  return chains
+}
+
+// Chaîne dans son sens de référence (identique quel que soit le sens de parcours)
+function undirected(chain: string[]): string[] {
+  const reversed = [...chain].reverse()
+  return chain.join() <= reversed.join() ? chain : reversed
+}
+
+// Arête composée d'une chaîne de nœuds (au moins un nœud intermédiaire)
+function compoundEdge(graph: Graph, chain: string[]): GraphEdge {
+  const parts = chain.slice(1).map((to, i) => graph.edges.get(`${chain[i]}-${to}`)!)
+  const via = chain.slice(1, -1)
+  const sum = (value: (edge: GraphEdge) => number) => parts.reduce((total, edge) => total + value(edge), 0)
+  const distance = sum(edge => edge.distance)
+  const { ascent, descent, grade, ...attributes } = parts[0]
+  const edge: GraphEdge = {
+    ...attributes,
+    id: `${chain[0]}-${chain[chain.length - 1]}`,
+    from: chain[0],
+    to: chain[chain.length - 1],
+    distance,
+    weight: sum(edge => edge.weight),
+    via,
+    geometry: via.map(id => {
+      const node = graph.nodes.get(id)!
+      return [node.lon, node.lat] as [number, number]
+    })
+  }
+  if (parts.every(part => part.ascent !== undefined && part.descent !== undefined)) {
+    edge.ascent = sum(part => part.ascent!)
+    edge.descent = sum(part => part.descent!)
+    edge.grade = distance > 0 ? (edge.ascent - edge.descent) / distance * 100 : 0
+    edge.maxGrade = Math.max(...parts.map(part => Math.abs(part.grade ?? 0)))
+  }
+  return edge
+}
+
+/**
+ * Graphe simplifié : nœuds conservés, arêtes d'origine entre nœuds conservés voisins et arêtes composées
+ * pour les chaînes de nœuds de passage. Deux chaînes parallèles entre les mêmes nœuds, ou une chaîne
+ * refermée sur son nœud de départ, sont coupées en leur milieu (identifiants d'arête uniques).
+ * Le graphe d'origine n'est pas modifié.
+ */
+export function simplifyGraph(graph: Graph): Graph {
+  const incoming = new Map<string, Set<string>>()
+  for (const edge of graph.edges.values()) {
+    if (!incoming.has(edge.to)) incoming.set(edge.to, new Set())
+    incoming.get(edge.to)!.add(edge.from)
+  }
+  const kept = new Set<string>()
+  for (const node of graph.nodes.values()) {
+    if (!isChainNode(graph, node, incoming)) kept.add(node.id)
+  }
+
+  for (;;) {
+    const chains = collectChains(graph, kept)
+    const byId = new Map<string, string[][]>()
+    for (const chain of chains) {
+      const id = `${chain[0]}-${chain[chain.length - 1]}`
+      if (!byId.has(id)) byId.set(id, [])
+      byId.get(id)!.push(chain)
+    }
+    let split = false
+    for (const group of byId.values()) {
+      // Mêmes choix pour les deux sens de parcours d'une chaîne
+      const oriented = group.map(undirected).sort((a, b) => a.length - b.length || a.join().localeCompare(b.join()))
+      const loop = group[0][0] === group[0][group[0].length - 1]
+      for (const chain of loop ? oriented : oriented.slice(1)) {
+        if (chain.length < 3) continue
+        kept.add(chain[Math.floor(chain.length / 2)])
+        split = true
+      }
+    }
+    if (split) continue
+
+    const nodes = new Map<string, GraphNode>()
+    const edges = new Map<string, GraphEdge>()
+    for (const chain of chains) {
+      const edge = chain.length === 2 ? graph.edges.get(`${chain[0]}-${chain[1]}`)! : compoundEdge(graph, chain)
+      edges.set(edge.id, edge)
+    }
+    for (const id of kept) {
+      nodes.set(id, { ...graph.nodes.get(id)!, connections: [] })
+    }
+    for (const edge of edges.values()) {
+      const connections = nodes.get(edge.from)!.connections
+      if (!connections.includes(edge.to)) connections.push(edge.to)
+    }
+    return { nodes, edges }
+  }
+}
+
+/**
+ * Redéploie un chemin du graphe simplifié sur le graphe complet : nœuds intermédiaires
+ * des arêtes composées et identifiants des tronçons d'origine
+ */
+export function expandPath<T extends { loop: string[], pathEdges: string[] }>(graph: Graph, path: T): T {
+  const loop: string[] = []
+  path.loop.forEach((id, i) => {
+    if (i > 0) {
+      const previous = path.loop[i - 1]
+      const edge = graph.edges.get(`${previous}-${id}`)
+      if (edge?.via) loop.push(...edge.via)
+      else if (!edge) loop.push(...[...(graph.edges.get(`${id}-${previous}`)?.via || [])].reverse())
+    }
+    loop.push(id)
+  })
+  const pathEdges = path.pathEdges.flatMap(id => {
+    const edge = graph.edges.get(id)
+    if (!edge?.via) return [id]
+    const chain = [edge.from, ...edge.via, edge.to]
+    return chain.slice(1).map((to, i) => `${chain[i]}-${to}`)
+  })
+  return { ...path, loop, pathEdges }
+}
+
+/**
+ * Ajoute au graphe simplifié un nœud intermédiaire d'arête composée (départ recalé en milieu de chaîne) :
+ * les arêtes composées qui le traversent, dans un sens comme dans l'autre, sont coupées en deux
+ * @param graph graphe complet dont le graphe simplifié est issu
+ * @returns false si le nœud n'est intermédiaire d'aucune arête composée
+ */
+export function exposeNode(simplified: Graph, graph: Graph, nodeId: string): boolean {
+  if (simplified.nodes.has(nodeId)) return true
+  const through = Array.from(simplified.edges.values()).filter(edge => edge.via?.includes(nodeId))
+  if (through.length === 0) return false
+
+  simplified.nodes.set(nodeId, { ...graph.nodes.get(nodeId)!, connections: [] })
+  for (const edge of through) {
+    const chain = [edge.from, ...edge.via!, edge.to]
+    const k = chain.indexOf(nodeId)
+    const [head, tail] = [chain.slice(0, k + 1), chain.slice(k)]
+      .map(part => (part.length === 2 ? graph.edges.get(`${part[0]}-${part[1]}`)! : compoundEdge(graph, part)))
+    simplified.edges.delete(edge.id)
+    simplified.edges.set(head.id, head)
+    simplified.edges.set(tail.id, tail)
+    const connections = simplified.nodes.get(edge.from)!.connections
+    connections[connections.indexOf(edge.to)] = nodeId
+    simplified.nodes.get(nodeId)!.connections.push(edge.to)
+  }
+  return true
+}
@@ -0,0 +1,125 @@
+// Découpage du graphe en tuiles géographiques fixes (tuiles « slippy map ») et recollage à la demande
+//
+// Chaque arête appartient à la tuile de son nœud de départ : une tuile contient ses nœuds, leurs arêtes
+// sortantes et, sans connexions, les extrémités situées dans les tuiles voisines. Recoller des tuiles
+// redonne exactement le graphe construit sur leur emprise.
+
+import { Graph, GraphNode, GraphEdge } from './graph-builder.js'
+import type { SearchArea } from '../config/osm-config.js'
+
+export interface TileId {
+  z: number
+  x: number
+  y: number
+}
+
+/** Niveau des tuiles du cache (z14 : environ 2,4 km × 2,4 km à l'équateur) */
+export const TILE_ZOOM = 14
+
+/** Tuiles téléchargées ensemble (bloc de N × N tuiles, sous la taille maximale d'une requête Overpass) */
+export const TILE_FETCH_BLOCK = 8
+
+const MAX_LAT = 85.0511287798
+
+export function tileOf(lat: number, lon: number, zoom = TILE_ZOOM): TileId {
+  const n = 2 ** zoom
+  const rad = Math.max(-MAX_LAT, Math.min(MAX_LAT, lat)) * Math.PI / 180
+  const x = Math.floor((lon + 180) / 360 * n)
+  const y = Math.floor((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2 * n)
+  return { z: zoom, x: Math.max(0, Math.min(n - 1, x)), y: Math.max(0, Math.min(n - 1, y)) }
+}
+
+export function tileBounds(tile: TileId): SearchArea {
+  const n = 2 ** tile.z
+  const lat = (y: number) => Math.atan(Math.sinh(Math.PI * (1 - 2 * y / n))) * 180 / Math.PI
+  return {
+    north: lat(tile.y),
+    south: lat(tile.y + 1),
+    west: tile.x / n * 360 - 180,
+    east: (tile.x + 1) / n * 360 - 180
+  }
+}
+
+/**
+ * Tuiles couvrant un rectangle, ligne par ligne du nord au sud
+ */
+export function tilesCovering(bounds: SearchArea, zoom = TILE_ZOOM): TileId[] {
+  const nw = tileOf(bounds.north, bounds.west, zoom)
+  const se = tileOf(bounds.south, bounds.east, zoom)
+  const tiles: TileId[] = []
+  for (let y = nw.y; y <= se.y; y++) {
+    for (let x = nw.x; x <= se.x; x++) tiles.push({ z: zoom, x, y })
+  }
+  return tiles
+}
+
+export const tileName = (tile: TileId) => `${tile.z}/${tile.x}/${tile.y}`
+
+/**
+ * Rectangle englobant un ensemble de tuiles
+ */
+export function tilesBounds(tiles: TileId[]): SearchArea {
+  const bounds = tiles.map(tileBounds)
+  return {
+    north: Math.max(...bounds.map(b => b.north)),
+    south: Math.min(...bounds.map(b => b.south)),
+    east: Math.max(...bounds.map(b => b.east)),
+    west: Math.min(...bounds.map(b => b.west))
+  }
+}
+
+/**
+ * Regroupe des tuiles par blocs de TILE_FETCH_BLOCK × TILE_FETCH_BLOCK (un téléchargement par bloc)
+ */
+export function groupTiles(tiles: TileId[], block = TILE_FETCH_BLOCK): TileId[][] {
+  const groups = new Map<string, TileId[]>()
+  for (const tile of tiles) {
+    const key = `${tile.z}/${Math.floor(tile.x / block)}/${Math.floor(tile.y / block)}`
+    if (!groups.has(key)) groups.set(key, [])
+    groups.get(key)!.push(tile)
+  }
+  return Array.from(groups.values())
+}
+
+/**
+ * Graphe de chacune des tuiles demandées ; les nœuds hors de ces tuiles ne sont repris que comme extrémités
+ * @returns graphes indexés par tileName (tuile vide : graphe sans nœud)
+ */
+export function splitGraph(graph: Graph, tiles: TileId[]): Map<string, Graph> {
+  const result = new Map<string, Graph>()
+  for (const tile of tiles) result.set(tileName(tile), { nodes: new Map(), edges: new Map() })
+  const zoom = tiles[0]?.z ?? TILE_ZOOM
+  const owner = new Map<string, Graph | undefined>()
+  for (const [id, node] of graph.nodes) {
+    const tileGraph = result.get(tileName(tileOf(node.lat, node.lon, zoom)))
+    owner.set(id, tileGraph)
+    tileGraph?.nodes.set(id, node)
+  }
+  for (const [id, edge] of graph.edges) {
+    const tileGraph = owner.get(edge.from)
+    if (!tileGraph) continue
+    tileGraph.edges.set(id, edge)
+    if (!tileGraph.nodes.has(edge.to)) {
+      const to = graph.nodes.get(edge.to)
+      if (to) tileGraph.nodes.set(edge.to, { ...to, connections: [] })
+    }
+  }
+  return result
+}
+
+/**
+ * Recolle des graphes de tuiles : chaque nœud est repris de sa tuile (avec ses connexions)
+ * plutôt que d'une tuile voisine où il n'est qu'une extrémité
+ */
+export function stitchGraphs(graphs: Graph[]): Graph {
+  const nodes = new Map<string, GraphNode>()
+  const edges = new Map<string, GraphEdge>()
+  for (const graph of graphs) {
+    for (const [id, node] of graph.nodes) {
+      const known = nodes.get(id)
+      if (!known || node.connections.length > known.connections.length) nodes.set(id, node)
+    }
+    for (const [id, edge] of graph.edges) edges.set(id, edge)
+  }
+  return { nodes, edges }
+}
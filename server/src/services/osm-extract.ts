@@ -0,0 +1,132 @@
+// Import d'extraits OSM locaux (.osm.pbf, .osm) : mêmes voies que la requête Overpass, sans réseau
+
+import fs from 'fs'
+import path from 'path'
+import { OSMResponse, OSMNode, OSMWay } from './osm-service.js'
+import { OSM_EXTRACT_CONFIG, RUNNING_PATH_TAGS, configUtils, type SearchArea } from '../config/osm-config.js'
+import {
+  OsmRecordSink, PbfHeader, MAX_BLOB_HEADER_SIZE,
+  parseBlobHeader, blobData, parseHeaderBlock, parsePrimitiveBlock
+} from '../utils/osm-pbf.js'
+import { createOsmXmlParser } from '../utils/osm-xml.js'
+
+export type ExtractFormat = 'pbf' | 'xml'
+
+export interface ExtractImportOptions {
+  area?: SearchArea            // zone retenue : ways ayant au moins un nœud dedans (comme Overpass)
+  includeSecondary?: boolean   // routes secondaires (résidentielles, service...), par défaut oui
+}
+
+/**
+ * Format d'un extrait d'après son extension
+ */
+export function extractFormat(file: string): ExtractFormat {
+  const name = file.toLowerCase()
+  if (name.endsWith('.pbf')) return 'pbf'
+  if (name.endsWith('.osm') || name.endsWith('.xml')) return 'xml'
+  throw new Error(`Unsupported OSM extract format: ${path.basename(file)} (expected .osm.pbf or .osm)`)
+}
+
+/**
+ * Parcourt les blocs d'un fichier PBF sans le charger entièrement en mémoire
+ * @param done arrêt anticipé, vérifié entre deux blocs
+ * @returns en-tête du fichier
+ */
+async function readPbf(file: string, sink: OsmRecordSink, done?: () => boolean): Promise<PbfHeader | undefined> {
+  const handle = await fs.promises.open(file, 'r')
+  let header: PbfHeader | undefined
+  try {
+    const { size } = await handle.stat()
+    const read = async (position: number, length: number) => {
+      const buffer = Buffer.alloc(length)
+      const { bytesRead } = await handle.read(buffer, 0, length, position)
+      if (bytesRead < length) throw new Error(`Truncated PBF file: ${path.basename(file)}`)
+      return buffer
+    }
+    for (let position = 0; position < size && !done?.();) {
+      const headerSize = (await read(position, 4)).readUInt32BE(0)
+      if (headerSize > MAX_BLOB_HEADER_SIZE) throw new Error(`Invalid PBF file: ${path.basename(file)}`)
+      const blobHeader = parseBlobHeader(await read(position + 4, headerSize))
+      const data = blobData(await read(position + 4 + headerSize, blobHeader.dataSize))
+      position += 4 + headerSize + blobHeader.dataSize
+      if (blobHeader.type === 'OSMHeader') header = parseHeaderBlock(data)
+      else if (blobHeader.type === 'OSMData') parsePrimitiveBlock(data, sink)
+    }
+  } finally {
+    await handle.close()
+  }
+  return header
+}
+
+/**
+ * Lit un fichier XML OSM par morceaux
+ * @param done arrêt anticipé, vérifié entre deux morceaux
+ * @returns horodatage des données, s'il est indiqué
+ */
+async function readXml(file: string, sink: OsmRecordSink, done?: () => boolean): Promise<string | undefined> {
+  const parser = createOsmXmlParser(sink)
+  const stream = fs.createReadStream(file, { encoding: 'utf8', highWaterMark: OSM_EXTRACT_CONFIG.readChunkSize })
+  for await (const chunk of stream) {
+    parser.write(chunk as string)
+    if (done?.()) return parser.timestamp
+  }
+  parser.end()
+  return parser.timestamp
+}
+
+/**
+ * Lit un extrait OSM et le présente comme une réponse Overpass (nœuds puis ways)
+ *
+ * Deux passes sur le fichier : les ways retenues (tags de RUNNING_PATH_TAGS ou zones avec horaires),
+ * puis uniquement leurs nœuds, ce qui limite la mémoire aux chemins d'une région. Avec une zone,
+ * le tri se fait pendant la lecture : seuls les nœuds de la zone sont gardés en première passe
+ * (l'extrait doit être trié, nœuds avant ways, comme ceux de Geofabrik ou d'osmium) et la seconde
+ * passe, limitée aux nœuds hors zone des ways retenues, s'arrête dès qu'ils sont tous lus.
+ */
+export async function importOsmExtract(file: string, options: ExtractImportOptions = {}): Promise<OSMResponse> {
+  const format = extractFormat(file)
+  const highways: string[] = [...RUNNING_PATH_TAGS.primary, ...(options.includeSecondary === false ? [] : RUNNING_PATH_TAGS.secondary)]
+  const read = (sink: OsmRecordSink, done?: () => boolean) => format === 'pbf'
+    ? readPbf(file, sink, done).then(header => header?.replicationTimestamp)
+    : readXml(file, sink, done)
+  const { area } = options
+  const inArea = (node: { lat: number, lon: number }) => !!area
+    && node.lat >= area.south && node.lat <= area.north && node.lon >= area.west && node.lon <= area.east
+
+  const nodes = new Map<number, OSMNode>()
+  const ways: OSMWay[] = []
+  const needed = new Set<number>()
+  const timestamp = await read({
+    node: node => {
+      if (inArea(node)) nodes.set(node.id, { type: 'node', ...node })
+    },
+    way: way => {
+      if (way.nodes.length < 2 || !configUtils.matchesPathQuery(way.tags, highways)) return
+      if (area && !way.nodes.some(id => nodes.has(id))) return
+      ways.push({ type: 'way', ...way })
+      for (const id of way.nodes) if (!nodes.has(id)) needed.add(id)
+    }
+  })
+
+  if (needed.size > 0) {
+    await read({
+      node: node => {
+        if (!needed.delete(node.id)) return
+        nodes.set(node.id, { type: 'node', ...node })
+      }
+    }, () => needed.size === 0)
+  }
+  const used = new Set(ways.flatMap(way => way.nodes))
+
+  const data: OSMResponse = {
+    version: 0.6,
+    generator: `osm-extract ${path.basename(file)}`,
+    osm3s: {
+      timestamp_osm_base: timestamp || (await fs.promises.stat(file)).mtime.toISOString(),
+      copyright: 'The data included in this document is from www.openstreetmap.org. The data is made available under ODbL.'
+    },
+    elements: [...Array.from(nodes.values()).filter(node => used.has(node.id)), ...ways]
+  }
+  console.log(`[extract] ${path.basename(file)} : ${ways.length} ways, ${data.elements.length - ways.length} nodes`)
+  return data
+}
@@ -24,6 +24,7 @@ import {
   type OverpassQuery,
   type SearchArea
 } from '../config/osm-config'
+import { classifySurface, surfaceQualityPoints } from '../utils/surface-classifier.js'
 
 /**
  * Types pour les données OSM
@@ -80,6 +81,15 @@ export interface GeoJSONFeature {
     smoothness?: string
     tracktype?: string
     trail_visibility?: string
+    oneway?: string
+    'oneway:foot'?: string
+    sac_scale?: string
+    incline?: string
+    lit?: string
+    opening_hours?: string
+    leisure?: string
+    /** Tags d'accès des nœuds de la voie (barrières, portails), par indice de coordonnée */
+    barriers?: Record<number, Record<string, string>>
     osm_id: number
   }
 }
@@ -158,6 +168,21 @@ export class OSMService {
     }
   }
 
+  /**
+   * Récupère les chemins d'une zone au format OSM brut (nœuds et ways avec leurs identifiants OSM),
+   * pour construire un graphe dont les nœuds sont partagés d'une zone à l'autre
+   *
+   * @param area - Zone de recherche (bounding box)
+   * @returns Réponse Overpass, éventuellement sans élément
+   */
+  async getRunningPathsOSM(area: SearchArea, options: { includeSecondary?: boolean } = {}): Promise<OSMResponse> {
+    if (!configUtils.validateSearchArea(area)) {
+      throw new Error(ERROR_MESSAGES.INVALID_COORDINATES)
+    }
+    const query = configUtils.buildOverpassQuery(area, this.buildPathTags(options.includeSecondary || false))
+    return this.fetchOverpassData(query, true)
+  }
+
   /**
    * Récupère les données d'élévation pour une zone
    * 
@@ -228,7 +253,7 @@ export class OSMService {
   /**
    * Récupère les données depuis l'API Overpass
    */
-  private async fetchOverpassData(query: OverpassQuery): Promise<OSMResponse> {
+  private async fetchOverpassData(query: OverpassQuery, allowEmpty = false): Promise<OSMResponse> {
     const maxRetries = 3
     const retryDelay = 5000 // 5 secondes
 
@@ -274,7 +299,7 @@ export class OSMService {
         console.log(`Overpass response status: ${response.status}`)
         console.log(`Overpass response elements: ${response.data.elements?.length || 0}`)
 
-        if (response.data.elements.length === 0) {
+        if (response.data.elements.length === 0 && !allowEmpty) {
           throw new Error(ERROR_MESSAGES.NO_PATHS_FOUND)
         }
 
@@ -392,7 +417,7 @@ export class OSMService {
               coordinates
             }
           }
-          const feature: GeoJSONFeature = this.createFeatureFromWay(wayWithGeometry)
+          const feature: GeoJSONFeature = this.createFeatureFromWay(wayWithGeometry, this.wayBarriers(way, nodeMap))
           features.push(feature)
         } else {
           console.log(`Skipping way ${way.id}: insufficient coordinates (${coordinates.length})`)
@@ -413,10 +438,30 @@ export class OSMService {
     }
   }
 
+  /**
+   * Tags d'accès des nœuds d'une way (barrières, accès interdit, horaires), par indice de coordonnée
+   */
+  private wayBarriers(way: OSMWay, nodeMap: Map<number, OSMNode>): Record<number, Record<string, string>> | undefined {
+    const barriers: Record<number, Record<string, string>> = {}
+    let index = 0
+    for (const nodeId of way.nodes) {
+      const node = nodeMap.get(nodeId)
+      if (!node) continue
+      const tags = node.tags || {}
+      if (tags.barrier || tags.access || tags.foot || tags.locked) {
+        barriers[index] = Object.fromEntries(
+          ['barrier', 'access', 'foot', 'locked', 'opening_hours'].filter(k => tags[k]).map(k => [k, tags[k]])
+        )
+      }
+      index++
+    }
+    return Object.keys(barriers).length > 0 ? barriers : undefined
+  }
+
   /**
    * Crée une feature GeoJSON à partir d'une way OSM
    */
-  private createFeatureFromWay(way: OSMWay): GeoJSONFeature {
+  private createFeatureFromWay(way: OSMWay, barriers?: Record<number, Record<string, string>>): GeoJSONFeature {
     return {
       type: 'Feature',
       geometry: way.geometry!,
@@ -436,6 +481,14 @@ export class OSMService {
         smoothness: way.tags.smoothness,
         tracktype: way.tags.tracktype,
         trail_visibility: way.tags.trail_visibility,
+        oneway: way.tags.oneway,
+        'oneway:foot': way.tags['oneway:foot'],
+        sac_scale: way.tags.sac_scale,
+        incline: way.tags.incline,
+        lit: way.tags.lit,
+        opening_hours: way.tags.opening_hours,
+        leisure: way.tags.leisure,
+        barriers,
         osm_id: way.id
       }
     }
@@ -547,20 +600,14 @@ export class OSMService {
    * Calcule la difficulté d'un chemin basée sur ses tags
    */
   private calculateDifficulty(tags: Record<string, string>): 'easy' | 'medium' | 'hard' {
-    const surface = tags.surface
-    const tracktype = tags.tracktype
-    const smoothness = tags.smoothness
+    const { category, class: surfaceClass } = classifySurface(tags)
 
-    // Logique de calcul de difficulté basée sur les tags OSM
-    if (surface === 'asphalt' || surface === 'concrete') {
+    // Logique de calcul de difficulté basée sur la surface (tags surface, tracktype, smoothness, highway)
+    if (surfaceClass === 'paved') {
       return 'easy'
     }
     
-    if (surface === 'gravel' || surface === 'dirt' || tracktype === 'grade1') {
-      return 'medium'
-    }
-    
-    if (surface === 'grass' || surface === 'sand' || tracktype === 'grade3') {
+    if (['grass', 'sand', 'mud', 'rock', 'snow'].includes(category)) {
       return 'hard'
     }
 
@@ -602,20 +649,7 @@ export class OSMService {
 }
 
 export function calculateWayQualityScore(tags: Record<string,string>): number {
-  let score = 0;
-  switch(tags.surface) {
-    case 'paved':
-    case 'asphalt':
-    case 'concrete': score+=10; break;
-    case 'compacted':
-    case 'gravel': score +=8; break;
-    case 'ground':
-    case 'dirt': score+=6; break;
-    case 'grass': score+=5; break;
-    case 'sand':
-    case 'mud': score+=3; break;
-    default: score+=7;
-  }
+  let score = surfaceQualityPoints(tags);
   switch(tags.highway) {
     case 'footway':
     case 'pedestrian': score+=5; break;
@@ -0,0 +1,271 @@
+// Assemblage d'une réponse "route" (géométrie, surfaces, altitudes, durée)
+// à partir d'un chemin calculé sur le graphe OSM
+
+import { randomUUID } from 'crypto'
+import { Graph } from './graph-builder.js'
+import { GeneratedLoop } from '../algorithms/loop-generator.js'
+import { getElevations } from './elevation-service.js'
+import { resampleLine, analyseElevationProfile, smoothElevations, ElevationAnalysis, toElevationStats } from '../utils/elevation-analysis.js'
+import { computeSurfaceBreakdown, terrainTypeFromBreakdown, unpavedRatio } from '../utils/surface-classifier.js'
+import { estimateDifficulty } from '../utils/difficulty.js'
+import { DurationModel, DurationSegment, estimateDuration, defaultDurationModel } from '../utils/duration-model.js'
+
+export interface AssembleRouteOptions {
+  kind?: 'loop' | 'point_to_point'
+  pace?: number                                // min/km sur le plat
+  durationModel?: DurationModel                // défaut selon l'allure (course / marche)
+  viaPoints?: Array<{ lat: number; lon: number }>  // étapes intermédiaires demandées
+}
+
+export type AssembledRoute = Awaited<ReturnType<typeof assembleRoute>>
+
+// Pas du profil altimétrique (m), élargi au-delà de MAX_PROFILE_SAMPLES points
+const PROFILE_INTERVAL = 25
+const MAX_PROFILE_SAMPLES = 500
+
+/**
+ * Segments du modèle de durée : intervalles du profil altimétrique (s'il existe),
+ * sinon les arêtes et leurs D+/D-, avec la surface de l'arête parcourue
+ */
+function durationSegments(graph: Graph, pathEdges: string[], profile?: { distances: number[]; elevations: number[] }): DurationSegment[] {
+  const edges = pathEdges.map(id => graph.edges.get(id)).filter((edge): edge is NonNullable<typeof edge> => !!edge);
+  if (!profile || profile.distances.length < 2) {
+    return edges.map(edge => ({
+      distance: edge.distance,
+      elevationDelta: (edge.ascent ?? 0) - (edge.descent ?? 0),
+      surface: edge.surface
+    }));
+  }
+  const { distances, elevations } = profile;
+  const segments: DurationSegment[] = [];
+  let k = 0, edgeEnd = edges[0]?.distance ?? Infinity;
+  for (let i = 1; i < distances.length; i++) {
+    const middle = (distances[i - 1] + distances[i]) / 2;
+    while (k < edges.length - 1 && middle > edgeEnd) edgeEnd += edges[++k].distance;
+    segments.push({
+      distance: distances[i] - distances[i - 1],
+      elevationDelta: elevations[i] - elevations[i - 1],
+      surface: edges[k]?.surface
+    });
+  }
+  return segments;
+}
+
+/**
+ * Construit l'objet route renvoyé au client pour un chemin du graphe
+ * (boucle ou itinéraire point à point)
+ */
+export async function assembleRoute(graph: Graph, loop: GeneratedLoop, options: AssembleRouteOptions = {}) {
+  const { pace } = options
+
+  // CORRECTION : Construire les coordonnées depuis les nœuds du loop
+  // IMPORTANT : S'assurer que TOUTES les coordonnées sont extraites
+  const coordinates = Array.isArray(loop.loop) && loop.loop.length >= 2
+    ? loop.loop.map(lid => {
+        const n = graph.nodes.get(lid);
+        if (!n) {
+          console.warn(`   ⚠️  Node ${lid} not found in graph!`);
+          return undefined;
+        }
+        return [n.lon, n.lat] as [number, number];
+      }).filter((coord): coord is [number, number] => coord !== undefined)
+    : []
+  
+  console.log(`   📍 Loop ${loop.loop?.length || 0} nodes → ${coordinates.length} coordinates`);
+  
+  // Vérification de sécurité
+  if (!coordinates || coordinates.length === 0) {
+    console.error(`   ❌ ERROR: Loop has no coordinates!`);
+    console.error(`      Loop nodes: ${loop.loop?.length || 0}`);
+    console.error(`      Loop structure:`, JSON.stringify(loop).substring(0, 200));
+  }
+  
+  if (coordinates.length !== loop.loop?.length) {
+    console.warn(`   ⚠️  Mismatch: ${loop.loop?.length || 0} nodes but ${coordinates.length} coordinates`);
+  }
+  
+  // Recalculer la distance totale depuis les coordonnées réelles (plus fiable)
+  let totalDistance = 0;
+  if (coordinates.length >= 2) {
+    // Utiliser la fonction haversine pour calculer la distance réelle entre les points
+    const haversine = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+      const R = 6371000; // Rayon de la Terre en mètres
+      const toRad = (x: number) => x * Math.PI / 180;
+      const dLat = toRad(lat2 - lat1);
+      const dLon = toRad(lon2 - lon1);
+      const a = Math.sin(dLat / 2) ** 2 + 
+                Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+      return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+    };
+    
+    // Somme des distances entre points consécutifs
+    for (let i = 0; i < coordinates.length - 1; i++) {
+      const [lon1, lat1] = coordinates[i];
+      const [lon2, lat2] = coordinates[i + 1];
+      // Vérifier que les coordonnées sont valides (lat entre -90 et 90, lon entre -180 et 180)
+      if (lat1 >= -90 && lat1 <= 90 && lat2 >= -90 && lat2 <= 90 &&
+          lon1 >= -180 && lon1 <= 180 && lon2 >= -180 && lon2 <= 180) {
+        totalDistance += haversine(lat1, lon1, lat2, lon2);
+      }
+    }
+  }
+  
+  // Si le calcul depuis les coordonnées échoue, utiliser les edges
+  if (totalDistance === 0 && loop.pathEdges && loop.pathEdges.length > 0) {
+    for (const edgeId of loop.pathEdges) {
+      const edge = graph.edges.get(edgeId);
+      if (edge) {
+        totalDistance += edge.distance;
+      }
+    }
+  }
+  
+  // Utiliser la distance calculée ou celle du loop
+  const finalDistance = totalDistance > 0 ? totalDistance : loop.distance;
+  
+  // Debug: log pour vérifier (avec premiers points pour détecter inversion lat/lon)
+  const firstCoord = coordinates.length > 0 ? coordinates[0] : null;
+  const lastCoord = coordinates.length > 0 ? coordinates[coordinates.length - 1] : null;
+  console.log(`   🔍 Distance check: calculated=${(totalDistance / 1000).toFixed(3)}km, loop.distance=${(loop.distance / 1000).toFixed(3)}km, final=${(finalDistance / 1000).toFixed(3)}km`)
+  console.log(`   🔍 Coords: first=[${firstCoord ? `${firstCoord[0].toFixed(6)}, ${firstCoord[1].toFixed(6)}` : 'N/A'}], last=[${lastCoord ? `${lastCoord[0].toFixed(6)}, ${lastCoord[1].toFixed(6)}` : 'N/A'}], count=${coordinates.length}`)
+  console.log(`   🔍 Path edges count: ${loop.pathEdges?.length || 0}`)
+  console.log(`   📤 Sending ${coordinates.length} coordinates to frontend`)
+  
+  // Vérifier qu'il n'y a pas de duplication d'edges
+  if (loop.pathEdges) {
+    const uniqueEdges = new Set(loop.pathEdges);
+    if (uniqueEdges.size !== loop.pathEdges.length) {
+      console.warn(`   ⚠️  Duplicate edges detected: ${loop.pathEdges.length} total, ${uniqueEdges.size} unique`);
+    }
+  }
+  
+  // Analyser les surfaces utilisées dans le parcours
+  const surfaceBreakdown = computeSurfaceBreakdown(graph, loop.pathEdges || []);
+  
+  // Liaisons déduites (absentes d'OSM) empruntées par le tracé, signalées sur la carte
+  const inferredSegments = (loop.pathEdges || [])
+    .map(edgeId => graph.edges.get(edgeId))
+    .filter((edge): edge is NonNullable<typeof edge> => !!edge?.inferred)
+    .map(edge => [edge.from, edge.to].map(id => {
+      const n = graph.nodes.get(id)!;
+      return [n.lon, n.lat] as [number, number];
+    }));
+  
+  // Convertir la distance en kilomètres pour correspondre au type Route (distance in kilometers)
+  const distanceInKm = finalDistance / 1000;
+  
+  // Altitudes échantillonnées à intervalle régulier le long du tracé (distances réelles)
+  let elevationGain = 0;
+  let elevationAnalysis: ElevationAnalysis | null = null;
+  let elevationProfile: Array<{ distance: number; elevation: number; coordinate: [number, number] }> = [];
+  let profile: { distances: number[]; elevations: number[] } | undefined;
+  
+  if (coordinates.length > 1) {
+    const interval = Math.max(PROFILE_INTERVAL, finalDistance / MAX_PROFILE_SAMPLES);
+    const samples = resampleLine(coordinates, interval);
+    
+    console.log(`   📍 Récupération des altitudes pour ${samples.length} points (tous les ${interval.toFixed(0)}m, ${coordinates.length} coordonnées)...`);
+    
+    try {
+      // Récupérer les altitudes avec timeout
+      const elevationPromise = getElevations(samples.map(sample => sample.coordinate));
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timeoutPromise = new Promise<null>((resolve) => {
+        timer = setTimeout(() => {
+          console.warn('   ⚠️  Timeout lors de la récupération des altitudes, profil non disponible');
+          resolve(null);
+        }, 8000); // Timeout de 8 secondes
+      });
+      
+      let elevations: number[] | null;
+      try {
+        elevations = await Promise.race([elevationPromise, timeoutPromise]);
+      } finally {
+        clearTimeout(timer);
+      }
+      
+      if (elevations && elevations.length > 0 && elevations.length === samples.length) {
+        const distances = samples.map(sample => sample.distance);
+        elevationAnalysis = analyseElevationProfile(distances, elevations);
+        profile = { distances, elevations: smoothElevations(elevations, { method: 'moving-average' }) };
+        elevationGain = elevationAnalysis.gain;
+        elevationProfile = samples.map((sample, index) => ({
+          distance: sample.distance / 1000,
+          elevation: Math.round(elevations[index] * 10) / 10,
+          coordinate: sample.coordinate
+        }));
+        console.log(`   ✅ Altitudes récupérées: ${elevations.length} points, min=${elevationAnalysis.min}m, max=${elevationAnalysis.max}m, D+=${elevationAnalysis.gain}m, D-=${elevationAnalysis.loss}m, pente max=${elevationAnalysis.maxGrade}%`);
+      } else {
+        console.warn(`   ⚠️  Altitudes indisponibles ou nombre incorrect (${elevations?.length ?? 0} vs ${samples.length})`);
+      }
+    } catch (error) {
+      console.error('   ❌ Erreur lors de la récupération des altitudes:', error);
+    }
+  }
+  
+  // Durée selon la pente et la surface (allure donnée pour le plat)
+  const model = options.durationModel ?? defaultDurationModel(pace);
+  const estimate = estimateDuration(durationSegments(graph, loop.pathEdges || [], profile), { model, pace });
+  const durationMinutes = estimate.duration;
+  
+  // Vitesse moyenne (en km/h)
+  const averageSpeed = durationMinutes > 0 ? distanceInKm / (durationMinutes / 60) : 0;
+  
+  console.log(`   📊 Loop stats: distance=${distanceInKm.toFixed(2)}km, duration=${durationMinutes}min, elevation=${elevationAnalysis ? `${elevationGain.toFixed(0)}m` : 'N/A'}`)
+  
+  const now = new Date().toISOString();
+  const route = {
+    id: `generated_${randomUUID()}`, // Unique même pour plusieurs variantes d'une même requête
+    name: options.kind === 'point_to_point'
+      ? `Itinéraire de ${distanceInKm.toFixed(1)} km`
+      : `Boucle de ${distanceInKm.toFixed(1)} km`,
+    distance: distanceInKm, // Distance en kilomètres (comme spécifié dans le type Route)
+    duration: durationMinutes, // Durée en minutes
+    elevation: elevationAnalysis ? Math.round(elevationGain) : undefined, // Dénivelé positif lissé en mètres, absent sans altitudes
+    elevation_loss: elevationAnalysis ? elevationAnalysis.loss : undefined,
+    difficulty: estimateDifficulty({
+      distanceKm: distanceInKm,
+      elevationGain,
+      unpavedRatio: unpavedRatio(surfaceBreakdown)
+    }), // Difficulté réelle (distance, dénivelé, surfaces)
+    terrain_type: terrainTypeFromBreakdown(surfaceBreakdown),
+    created_at: now,
+    updated_at: now,
+    average_speed: parseFloat(averageSpeed.toFixed(1)), // Vitesse moyenne en km/h
+    duration_model: estimate.model,
+    splits: estimate.splits, // Temps prévu par kilomètre
+    geometry: {
+      type: 'LineString' as const,
+      coordinates: coordinates // IMPORTANT : TOUTES les coordonnées ici (pas seulement waypoints)
+    },
+    waypoints: coordinates.length > 0 ? [
+      { 
+        lat: coordinates[0][1], 
+        lon: coordinates[0][0], 
+        type: 'start',
+        name: 'Départ'
+      },
+      ...(options.viaPoints || []).map((via, i) => ({
+        lat: via.lat,
+        lon: via.lon,
+        type: 'waypoint',
+        name: `Étape ${i + 1}`
+      })),
+      { 
+        lat: coordinates[coordinates.length - 1][1], 
+        lon: coordinates[coordinates.length - 1][0], 
+        type: 'end',
+        name: 'Arrivée'
+      }
+    ] : [],
+    quality_score: Math.min(1.0, Math.max(0, loop.qualityScore || 0)), // CORRECTION : Limiter entre 0-1
+    pathEdges: loop.pathEdges || [],
+    surface_breakdown: surfaceBreakdown, // Nouvelle information de surface
+    inferred_segments: inferredSegments, // Liaisons déduites [[lon, lat], [lon, lat]]
+    elevation_profile: elevationProfile.length > 0 ? elevationProfile : [],
+    elevation_stats: elevationAnalysis ? toElevationStats(elevationAnalysis) : null,
+    debug: loop.debug
+  };
+
+  return route
+}
@@ -0,0 +1,143 @@
+// Profils de routage déclaratifs (coureur trail, coureur sur route, randonneur, poussette, fauteuil roulant)
+//
+// Un profil par fichier JSON dans server/profiles (ou ROUTING_PROFILES_DIR) : il suffit d'y
+// déposer un fichier pour ajouter un profil. Les fichiers sont lus au premier usage.
+
+import fs from 'fs'
+import path from 'path'
+import { z } from 'zod'
+import { GraphEdge } from './graph-builder.js'
+import { SURFACE_CATEGORIES, edgeSurfaceInfo, classifySurface } from '../utils/surface-classifier.js'
+
+// Relatif au répertoire de lancement du serveur, comme les tuiles MNT
+const PROFILES_DIR = path.resolve(process.env.ROUTING_PROFILES_DIR || './profiles')
+
+/** Échelle SAC (tag sac_scale), de la plus facile à la plus difficile */
+export const SAC_SCALE = [
+  'hiking',
+  'mountain_hiking',
+  'demanding_mountain_hiking',
+  'alpine_hiking',
+  'demanding_alpine_hiking',
+  'difficult_alpine_hiking'
+] as const
+
+// Multiplicateurs >= 1 pour garder l'heuristique A* admissible
+const multiplier = z.number().min(1)
+
+const routingProfileSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'id en minuscules, chiffres et tirets'),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  /** Types de voies (tag highway) autorisés, avec leur multiplicateur de poids */
+  highways: z.record(z.string(), multiplier).refine(h => Object.keys(h).length > 0, 'au moins un type de voie'),
+  /** Multiplicateur par catégorie de surface (1 par défaut) */
+  surfaces: z.record(z.enum(SURFACE_CATEGORIES as [string, ...string[]]), multiplier).default({}),
+  /** Catégories de surface exclues du graphe */
+  excludedSurfaces: z.array(z.enum(SURFACE_CATEGORIES as [string, ...string[]])).default([]),
+  /** Escaliers : autorisés, pénalisés ou exclus */
+  steps: z.enum(['allow', 'avoid', 'forbid']).default('allow'),
+  /** Pente maximale (%), en montée comme en descente */
+  maxIncline: z.number().positive().nullable().default(null),
+  /** Difficulté maximale (tag sac_scale) */
+  maxSacScale: z.enum(SAC_SCALE).nullable().default(null),
+  /** Éclairage : indifférent ou voies éclairées (lit=yes) préférées */
+  lit: z.enum(['any', 'prefer']).default('any')
+})
+
+export type RoutingProfile = z.infer<typeof routingProfileSchema>
+
+// Pénalités (multiplicateurs) appliquées par les profils
+const STEPS_AVOID_PENALTY = 3
+const UNLIT_PENALTY = 1.2
+
+let profiles: Map<string, RoutingProfile> | null = null
+
+function loadProfiles(): Map<string, RoutingProfile> {
+  const loaded = new Map<string, RoutingProfile>()
+  let files: string[] = []
+  try {
+    files = fs.readdirSync(PROFILES_DIR).filter(f => f.endsWith('.json')).sort()
+  } catch {
+    console.warn(`[Profiles] Répertoire de profils introuvable : ${PROFILES_DIR}`)
+  }
+  for (const file of files) {
+    try {
+      const raw = JSON.parse(fs.readFileSync(path.join(PROFILES_DIR, file), 'utf8'))
+      const profile = routingProfileSchema.parse(raw)
+      loaded.set(profile.id, profile)
+    } catch (error) {
+      const message = error instanceof z.ZodError
+        ? error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')
+        : error instanceof Error ? error.message : String(error)
+      console.warn(`[Profiles] Profil ${file} ignoré (${message})`)
+    }
+  }
+  return loaded
+}
+
+/**
+ * Tous les profils disponibles
+ */
+export function listRoutingProfiles(): RoutingProfile[] {
+  if (!profiles) profiles = loadProfiles()
+  return Array.from(profiles.values())
+}
+
+/**
+ * Profil par son id (undefined s'il n'existe pas)
+ */
+export function getRoutingProfile(id: string): RoutingProfile | undefined {
+  if (!profiles) profiles = loadProfiles()
+  return profiles.get(id)
+}
+
+/**
+ * Profil par son id, erreur s'il n'existe pas
+ */
+export function requireRoutingProfile(id: string): RoutingProfile {
+  const profile = getRoutingProfile(id)
+  if (!profile) {
+    throw new Error(`Unknown routing profile "${id}" (available: ${listRoutingProfiles().map(p => p.id).join(', ')})`)
+  }
+  return profile
+}
+
+// Pente d'un tag incline ("12%", "-8 %") ; "up"/"down" sans valeur ne permettent pas de conclure
+function parseIncline(value?: string): number | undefined {
+  const match = value?.trim().match(/^(-?\d+(?:\.\d+)?)\s*%?$/)
+  return match ? Math.abs(parseFloat(match[1])) : undefined
+}
+
+/**
+ * Une voie (tags OSM) est-elle praticable avec ce profil ?
+ */
+export function isWayAllowed(profile: RoutingProfile, tags: Record<string, string> = {}): boolean {
+  const highway = tags.highway
+  if (!highway || profile.highways[highway] === undefined) return false
+  if (highway === 'steps' && profile.steps === 'forbid') return false
+  if (profile.maxSacScale && tags.sac_scale) {
+    const level = SAC_SCALE.indexOf(tags.sac_scale as typeof SAC_SCALE[number])
+    if (level > SAC_SCALE.indexOf(profile.maxSacScale)) return false
+  }
+  if (profile.excludedSurfaces.includes(classifySurface(tags).category)) return false
+  const incline = parseIncline(tags.incline)
+  if (profile.maxIncline !== null && incline !== undefined && incline > profile.maxIncline) return false
+  return true
+}
+
+/**
+ * Multiplicateur de poids (>= 1) d'une arête pour ce profil, Infinity si elle est interdite
+ * (graphe construit sans profil, ou pente calculée supérieure à maxIncline)
+ */
+export function profileWeightMultiplier(profile: RoutingProfile, edge: GraphEdge): number {
+  const tags: Record<string, string> = { ...(edge.highway_type ? { highway: edge.highway_type } : {}), ...edge.tags }
+  if (!isWayAllowed(profile, tags)) return Infinity
+  const grade = edge.maxGrade ?? edge.grade
+  if (profile.maxIncline !== null && grade !== undefined && Math.abs(grade) > profile.maxIncline) return Infinity
+
+  let weight = profile.highways[tags.highway] * (profile.surfaces[edgeSurfaceInfo(edge).category] ?? 1)
+  if (tags.highway === 'steps' && profile.steps === 'avoid') weight *= STEPS_AVOID_PENALTY
+  if (profile.lit === 'prefer' && tags.lit !== 'yes') weight *= UNLIT_PENALTY
+  return weight
+}
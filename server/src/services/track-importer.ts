@@ -0,0 +1,156 @@
+// Analyse d'une trace importée : distance, dénivelés, durée, terrain et difficulté
+
+import { ParsedTrack } from '../utils/track-import.js'
+import { getElevations } from './elevation-service.js'
+import { resampleLine, analyseElevationProfile, smoothElevations, ElevationAnalysis } from '../utils/elevation-analysis.js'
+import { estimateDuration, defaultDurationModel, KmSplit } from '../utils/duration-model.js'
+import { loadAreaGraph, areaCovering } from './area-graph.js'
+import { matchTrack, OffNetworkSection } from '../algorithms/map-matching.js'
+import { calculateWayQualityScore } from './osm-service.js'
+import { Graph } from './graph-builder.js'
+import { computeSurfaceBreakdown, terrainTypeFromBreakdown, unpavedRatio, SurfaceBreakdownEntry, TerrainPreference } from '../utils/surface-classifier.js'
+import { Difficulty, estimateDifficulty } from '../utils/difficulty.js'
+
+// Pas du profil altimétrique (m), élargi au-delà de MAX_ELEVATION_SAMPLES points
+const PROFILE_INTERVAL = 25
+// Nombre max de points envoyés à la source d'altitude
+const MAX_ELEVATION_SAMPLES = 500
+// Au-delà, on ne charge pas le graphe OSM pour déduire le terrain (km)
+const MAX_MATCHING_RADIUS = 15
+// Score qualité max renvoyé par calculateWayQualityScore
+const MAX_QUALITY = 30
+
+export interface TrackAnalysis {
+  distance: number            // km
+  duration: number            // min
+  elevationGain?: number      // m, absent si l'altitude est indisponible
+  elevationLoss?: number      // m, absent si l'altitude est indisponible
+  elevationStats: ElevationAnalysis | null
+  splits: KmSplit[]           // temps prévu par kilomètre
+  difficulty: Difficulty
+  terrainType: TerrainPreference
+  surfaceBreakdown: SurfaceBreakdownEntry[]
+  matchedRatio: number        // part de la trace recalée sur le graphe OSM
+  qualityScore: number        // 0-1, qualité moyenne des chemins empruntés (pondérée par la distance)
+  offNetwork: OffNetworkSection[]   // sections sans chemin OSM proche
+  pathEdges: string[]         // arêtes du graphe OSM parcourues
+}
+
+interface TrackMatching {
+  breakdown: SurfaceBreakdownEntry[]
+  matchedRatio: number
+  qualityScore: number
+  offNetwork: OffNetworkSection[]
+  pathEdges: string[]
+}
+
+const NO_MATCHING: TrackMatching = { breakdown: [], matchedRatio: 0, qualityScore: 0, offNetwork: [], pathEdges: [] }
+
+function haversine(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371000
+  const toRad = (x: number) => x * Math.PI / 180
+  const dLat = toRad(lat2 - lat1)
+  const dLon = toRad(lon2 - lon1)
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
+
+// Au plus `max` points régulièrement espacés (premier et dernier inclus)
+function sample<T>(items: T[], max: number): T[] {
+  if (items.length <= max) return items
+  const step = (items.length - 1) / (max - 1)
+  return Array.from({ length: max }, (_, i) => items[Math.round(i * step)])
+}
+
+// Profil rééchantillonné : altitudes du fichier si présentes, sinon de la source d'altitude (null si indisponibles)
+async function trackProfile(coordinates: number[][], distanceM: number): Promise<{ distances: number[], elevations: number[] | null }> {
+  const samples = resampleLine(coordinates, Math.max(PROFILE_INTERVAL, distanceM / MAX_ELEVATION_SAMPLES))
+  const elevations = samples.every(s => s.elevation !== undefined)
+    ? samples.map(s => s.elevation!)
+    : await getElevations(samples.map(s => s.coordinate))
+  return { distances: samples.map(s => s.distance), elevations }
+}
+
+function pathQuality(graph: Graph, edges: string[]): number {
+  let quality = 0, distance = 0
+  for (const edgeId of edges) {
+    const edge = graph.edges.get(edgeId)
+    if (!edge) continue
+    quality += (edge.tags ? calculateWayQualityScore(edge.tags) : MAX_QUALITY / 2) * edge.distance
+    distance += edge.distance
+  }
+  return distance > 0 ? Math.min(1, quality / distance / MAX_QUALITY) : 0
+}
+
+// Terrain et qualité déduits en recalant la trace sur le graphe OSM de la zone (mis en cache)
+async function trackMatching(coordinates: number[][]): Promise<TrackMatching> {
+  const points = sample(coordinates, 200).map(([lon, lat]) => ({ lat, lon }))
+  const area = areaCovering(points, 0.5)
+  if (area.radius > MAX_MATCHING_RADIUS) {
+    console.warn(`   ⚠️  Track too large for OSM matching (radius ${area.radius.toFixed(1)} km)`)
+    return NO_MATCHING
+  }
+  try {
+    const { graph } = await loadAreaGraph(area.lat, area.lon, area.radius)
+    const match = matchTrack(graph, coordinates)
+    return {
+      breakdown: computeSurfaceBreakdown(graph, match.edges),
+      matchedRatio: match.matchedRatio,
+      qualityScore: pathQuality(graph, match.edges),
+      offNetwork: match.offNetwork,
+      pathEdges: match.edges
+    }
+  } catch (error) {
+    console.warn('   ⚠️  OSM matching failed:', error instanceof Error ? error.message : String(error))
+    return NO_MATCHING
+  }
+}
+
+/**
+ * Calcule les caractéristiques d'une trace importée
+ */
+export async function analyseTrack(track: ParsedTrack): Promise<TrackAnalysis> {
+  const { coordinates } = track
+  let distanceM = 0
+  for (let i = 1; i < coordinates.length; i++) {
+    const [lon1, lat1] = coordinates[i - 1], [lon2, lat2] = coordinates[i]
+    distanceM += haversine(lat1, lon1, lat2, lon2)
+  }
+  const distance = distanceM / 1000
+
+  const profile = await trackProfile(coordinates, distanceM)
+  const elevationStats = profile.elevations ? analyseElevationProfile(profile.distances, profile.elevations) : null
+  const elevationGain = elevationStats?.gain
+  const elevationLoss = elevationStats?.loss
+
+  const { breakdown, matchedRatio, qualityScore, offNetwork, pathEdges } = await trackMatching(coordinates)
+
+  // Durée réelle si la trace est horodatée, sinon estimée selon la pente (sur le plat sans altitudes)
+  const smoothed = profile.elevations && smoothElevations(profile.elevations, { method: 'moving-average' })
+  const estimate = estimateDuration(
+    profile.distances.slice(1).map((d, i) => ({ distance: d - profile.distances[i], elevationDelta: smoothed ? smoothed[i + 1] - smoothed[i] : 0 })),
+    { model: defaultDurationModel() }
+  )
+  const start = track.times ? Date.parse(track.times[0]) : NaN
+  const end = track.times ? Date.parse(track.times[track.times.length - 1]) : NaN
+  const duration = Number.isFinite(start) && Number.isFinite(end) && end > start
+    ? Math.round((end - start) / 60000)
+    : estimate.duration
+
+  return {
+    distance,
+    duration,
+    elevationGain,
+    elevationLoss,
+    elevationStats,
+    splits: estimate.splits,
+    // Dénivelé inconnu : difficulté selon la distance et le terrain seuls
+    difficulty: estimateDifficulty({ distanceKm: distance, elevationGain: elevationGain ?? 0, unpavedRatio: unpavedRatio(breakdown) }),
+    terrainType: breakdown.length > 0 ? terrainTypeFromBreakdown(breakdown) : 'mixed',
+    surfaceBreakdown: breakdown,
+    matchedRatio,
+    qualityScore,
+    offNetwork,
+    pathEdges
+  }
+}
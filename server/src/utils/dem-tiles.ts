@@ -0,0 +1,225 @@
+// Lecture des tuiles de modèle numérique de terrain (SRTM .hgt, GeoTIFF) et interpolation
+import { inflateSync } from 'zlib'
+
+/**
+ * Grille d'altitudes régulière en latitude/longitude.
+ * (north, west) est le centre du pixel (0, 0), les lignes vont du nord au sud.
+ */
+export interface DemTile {
+  width: number
+  height: number
+  north: number
+  west: number
+  latStep: number      // degrés entre deux lignes
+  lonStep: number      // degrés entre deux colonnes
+  data: Float32Array   // altitudes (m), ligne par ligne
+  noData?: number
+}
+
+// Valeur des vides dans les fichiers SRTM
+const HGT_VOID = -32768
+
+/**
+ * Nom de la tuile SRTM couvrant un point (coin sud-ouest), ex. N43E001
+ */
+export function hgtTileName(lat: number, lon: number): string {
+  const la = Math.floor(lat), lo = Math.floor(lon)
+  return `${la >= 0 ? 'N' : 'S'}${String(Math.abs(la)).padStart(2, '0')}`
+    + `${lo >= 0 ? 'E' : 'W'}${String(Math.abs(lo)).padStart(3, '0')}`
+}
+
+/**
+ * Lit une tuile SRTM .hgt (entiers 16 bits big-endian, 1201² ou 3601² points)
+ * @param name nom du fichier, qui donne le coin sud-ouest (ex. N43E001.hgt)
+ */
+export function parseHgt(buffer: Buffer, name: string): DemTile {
+  const match = name.match(/([NS])(\d{2})([EW])(\d{3})/i)
+  if (!match) throw new Error(`Nom de tuile SRTM invalide : ${name}`)
+  const size = Math.round(Math.sqrt(buffer.length / 2))
+  if (size * size * 2 !== buffer.length || size < 2) throw new Error(`Taille de tuile SRTM invalide : ${name}`)
+  const south = (match[1].toUpperCase() === 'N' ? 1 : -1) * parseInt(match[2], 10)
+  const west = (match[3].toUpperCase() === 'E' ? 1 : -1) * parseInt(match[4], 10)
+  const data = new Float32Array(size * size)
+  for (let i = 0; i < data.length; i++) data[i] = buffer.readInt16BE(i * 2)
+  const step = 1 / (size - 1)
+  return { width: size, height: size, north: south + 1, west, latStep: step, lonStep: step, data, noData: HGT_VOID }
+}
+
+// Types de champs TIFF → taille en octets
+const TIFF_TYPE_SIZE: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 6: 1, 8: 2, 9: 4, 11: 4, 12: 8, 16: 8 }
+
+const TAG = {
+  width: 256, height: 257, bitsPerSample: 258, compression: 259,
+  stripOffsets: 273, samplesPerPixel: 277, rowsPerStrip: 278, stripByteCounts: 279,
+  predictor: 317, tileWidth: 322, tileHeight: 323, tileOffsets: 324, tileByteCounts: 325,
+  sampleFormat: 339, pixelScale: 33550, tiepoint: 33922, geoKeys: 34735, gdalNoData: 42113
+}
+
+// GeoKey GTRasterTypeGeoKey : 1 = PixelIsArea (défaut), 2 = PixelIsPoint
+const GT_RASTER_TYPE = 1025
+
+/**
+ * Lit un GeoTIFF mono-bande en coordonnées géographiques (EPSG:4326),
+ * non compressé ou compressé Deflate, en bandes ou en tuiles
+ */
+export function parseGeoTiff(buffer: Buffer): DemTile {
+  const order = buffer.toString('latin1', 0, 2)
+  if (order !== 'II' && order !== 'MM') throw new Error('Fichier TIFF invalide')
+  const le = order === 'II'
+  const u16 = (offset: number) => (le ? buffer.readUInt16LE(offset) : buffer.readUInt16BE(offset))
+  const u32 = (offset: number) => (le ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset))
+  if (u16(2) !== 42) throw new Error('TIFF non pris en charge (BigTIFF ?)')
+
+  // Premier IFD uniquement
+  const fields = new Map<number, number[] | string>()
+  const ifd = u32(4)
+  for (let i = 0; i < u16(ifd); i++) {
+    const entry = ifd + 2 + i * 12
+    const tag = u16(entry), type = u16(entry + 2), count = u32(entry + 4)
+    const size = (TIFF_TYPE_SIZE[type] || 1) * count
+    const offset = size <= 4 ? entry + 8 : u32(entry + 8)
+    if (type === 2) {
+      fields.set(tag, buffer.toString('latin1', offset, offset + count).replace(/\0+$/, ''))
+      continue
+    }
+    const values: number[] = []
+    for (let k = 0; k < count; k++) {
+      const at = offset + k * (TIFF_TYPE_SIZE[type] || 1)
+      values.push(
+        type === 3 ? u16(at)
+        : type === 4 ? u32(at)
+        : type === 8 ? (le ? buffer.readInt16LE(at) : buffer.readInt16BE(at))
+        : type === 9 ? (le ? buffer.readInt32LE(at) : buffer.readInt32BE(at))
+        : type === 11 ? (le ? buffer.readFloatLE(at) : buffer.readFloatBE(at))
+        : type === 12 ? (le ? buffer.readDoubleLE(at) : buffer.readDoubleBE(at))
+        : buffer[at]
+      )
+    }
+    fields.set(tag, values)
+  }
+  const num = (tag: number, fallback?: number): number => {
+    const value = fields.get(tag)
+    if (Array.isArray(value) && value.length > 0) return value[0]
+    if (fallback === undefined) throw new Error(`Champ TIFF ${tag} manquant`)
+    return fallback
+  }
+  const list = (tag: number): number[] => {
+    const value = fields.get(tag)
+    if (!Array.isArray(value)) throw new Error(`Champ TIFF ${tag} manquant`)
+    return value
+  }
+
+  const width = num(TAG.width), height = num(TAG.height)
+  const bits = num(TAG.bitsPerSample), format = num(TAG.sampleFormat, 1)
+  const compression = num(TAG.compression, 1), predictor = num(TAG.predictor, 1)
+  if (num(TAG.samplesPerPixel, 1) !== 1) throw new Error('GeoTIFF multi-bandes non pris en charge')
+  if (compression !== 1 && compression !== 8 && compression !== 32946) {
+    throw new Error(`Compression TIFF ${compression} non prise en charge (aucune ou Deflate)`)
+  }
+  if (predictor !== 1 && predictor !== 2) throw new Error(`Prédicteur TIFF ${predictor} non pris en charge`)
+
+  const bytes = bits / 8
+  const read = (chunk: Buffer, at: number): number => {
+    if (format === 3) return bits === 64 ? (le ? chunk.readDoubleLE(at) : chunk.readDoubleBE(at)) : (le ? chunk.readFloatLE(at) : chunk.readFloatBE(at))
+    if (bits === 8) return format === 2 ? chunk.readInt8(at) : chunk[at]
+    if (bits === 16) return format === 2 ? (le ? chunk.readInt16LE(at) : chunk.readInt16BE(at)) : (le ? chunk.readUInt16LE(at) : chunk.readUInt16BE(at))
+    if (bits === 32) return format === 2 ? (le ? chunk.readInt32LE(at) : chunk.readInt32BE(at)) : (le ? chunk.readUInt32LE(at) : chunk.readUInt32BE(at))
+    throw new Error(`Format d'échantillon TIFF non pris en charge (${bits} bits)`)
+  }
+  // Les entiers sont relus dans leur type d'origine pour que le prédicteur reboucle comme le fichier
+  const wrap = format === 3 ? (v: number) => v
+    : bits === 8 ? (v: number) => (format === 2 ? (v << 24) >> 24 : v & 0xff)
+    : bits === 16 ? (v: number) => (format === 2 ? (v << 16) >> 16 : v & 0xffff)
+    : (v: number) => (format === 2 ? v | 0 : v >>> 0)
+
+  const data = new Float32Array(width * height)
+  // Copie d'un bloc (bande ou tuile) de chunkWidth × chunkHeight à partir de (row0, col0)
+  const copyChunk = (offset: number, byteCount: number, row0: number, col0: number, chunkWidth: number, chunkHeight: number) => {
+    let chunk = buffer.subarray(offset, offset + byteCount)
+    if (compression !== 1) chunk = inflateSync(chunk)
+    for (let r = 0; r < chunkHeight; r++) {
+      let previous = 0
+      for (let c = 0; c < chunkWidth; c++) {
+        const at = (r * chunkWidth + c) * bytes
+        if (at + bytes > chunk.length) return
+        let value = read(chunk, at)
+        if (predictor === 2 && c > 0) value = wrap(value + previous)
+        previous = value
+        const row = row0 + r, col = col0 + c
+        if (row < height && col < width) data[row * width + col] = value
+      }
+    }
+  }
+
+  if (fields.has(TAG.tileOffsets)) {
+    const tileWidth = num(TAG.tileWidth), tileHeight = num(TAG.tileHeight)
+    const offsets = list(TAG.tileOffsets), counts = list(TAG.tileByteCounts)
+    const across = Math.ceil(width / tileWidth)
+    offsets.forEach((offset, t) => {
+      copyChunk(offset, counts[t], Math.floor(t / across) * tileHeight, (t % across) * tileWidth, tileWidth, tileHeight)
+    })
+  } else {
+    const rowsPerStrip = Math.min(num(TAG.rowsPerStrip, height), height)
+    const offsets = list(TAG.stripOffsets), counts = list(TAG.stripByteCounts)
+    offsets.forEach((offset, s) => {
+      copyChunk(offset, counts[s], s * rowsPerStrip, 0, width, Math.min(rowsPerStrip, height - s * rowsPerStrip))
+    })
+  }
+
+  // Géoréférencement : point d'attache (pixel i, j → x, y) et taille de pixel
+  const [i, j, , x, y] = list(TAG.tiepoint)
+  const [scaleX, scaleY] = list(TAG.pixelScale)
+  const geoKeys = fields.get(TAG.geoKeys)
+  let pixelIsPoint = false
+  if (Array.isArray(geoKeys)) {
+    for (let k = 4; k + 3 < geoKeys.length; k += 4) {
+      if (geoKeys[k] === GT_RASTER_TYPE && geoKeys[k + 1] === 0) pixelIsPoint = geoKeys[k + 3] === 2
+    }
+  }
+  const half = pixelIsPoint ? 0 : 0.5
+  const noDataText = fields.get(TAG.gdalNoData)
+  const noData = typeof noDataText === 'string' && noDataText.trim() !== '' ? parseFloat(noDataText) : undefined
+
+  return {
+    width,
+    height,
+    north: y - (half - j) * scaleY,
+    west: x + (half - i) * scaleX,
+    latStep: scaleY,
+    lonStep: scaleX,
+    data,
+    noData: Number.isFinite(noData) ? noData : undefined
+  }
+}
+
+/**
+ * Indique si le point est dans l'emprise de la tuile (centres des pixels de bord inclus)
+ */
+export function tileContains(tile: DemTile, lat: number, lon: number): boolean {
+  const row = (tile.north - lat) / tile.latStep
+  const col = (lon - tile.west) / tile.lonStep
+  const eps = 1e-6
+  return row >= -eps && row <= tile.height - 1 + eps && col >= -eps && col <= tile.width - 1 + eps
+}
+
+/**
+ * Altitude interpolée (bilinéaire) au point, ou null hors tuile ou sur un vide
+ * (les pixels vides voisins sont ignorés et les poids renormalisés)
+ */
+export function bilinearElevation(tile: DemTile, lat: number, lon: number): number | null {
+  if (!tileContains(tile, lat, lon)) return null
+  const row = Math.min(Math.max((tile.north - lat) / tile.latStep, 0), tile.height - 1)
+  const col = Math.min(Math.max((lon - tile.west) / tile.lonStep, 0), tile.width - 1)
+  const r0 = Math.min(Math.floor(row), Math.max(tile.height - 2, 0))
+  const c0 = Math.min(Math.floor(col), Math.max(tile.width - 2, 0))
+  const dr = row - r0, dc = col - c0
+  let sum = 0, weights = 0
+  for (const [r, c, w] of [[r0, c0, (1 - dr) * (1 - dc)], [r0, c0 + 1, (1 - dr) * dc], [r0 + 1, c0, dr * (1 - dc)], [r0 + 1, c0 + 1, dr * dc]]) {
+    if (r >= tile.height || c >= tile.width || w === 0) continue
+    const value = tile.data[r * tile.width + c]
+    if (!Number.isFinite(value) || value === tile.noData) continue
+    sum += value * w
+    weights += w
+  }
+  return weights > 0 ? sum / weights : null
+}
@@ -0,0 +1,46 @@
+export type Difficulty = 'easy' | 'medium' | 'hard' | 'expert'
+
+export const DIFFICULTY_LEVELS: Difficulty[] = ['easy', 'medium', 'hard', 'expert']
+
+/**
+ * Part de surfaces non revêtues visée pour chaque niveau de difficulté
+ */
+export const DIFFICULTY_UNPAVED_TARGET: Record<Difficulty, number> = {
+  easy: 0.1,
+  medium: 0.4,
+  hard: 0.7,
+  expert: 0.9
+}
+
+export interface DifficultyInput {
+  distanceKm: number
+  elevationGain: number   // m
+  unpavedRatio: number    // 0-1
+}
+
+/**
+ * Effort en "km-effort" : 100 m de D+ ≈ 1 km à plat,
+ * majoré jusqu'à +20% sur terrain non revêtu
+ */
+export function computeEffort({ distanceKm, elevationGain, unpavedRatio }: DifficultyInput): number {
+  const ratio = Math.min(1, Math.max(0, unpavedRatio))
+  return (distanceKm + elevationGain / 100) * (1 + 0.2 * ratio)
+}
+
+/**
+ * Estime la difficulté réelle d'un parcours (distance, dénivelé, surfaces)
+ */
+export function estimateDifficulty(input: DifficultyInput): Difficulty {
+  const effort = computeEffort(input)
+  if (effort < 8) return 'easy'
+  if (effort < 16) return 'medium'
+  if (effort < 30) return 'hard'
+  return 'expert'
+}
+
+/**
+ * Écart (en niveaux) entre deux difficultés
+ */
+export function difficultyGap(a: Difficulty, b: Difficulty): number {
+  return Math.abs(DIFFICULTY_LEVELS.indexOf(a) - DIFFICULTY_LEVELS.indexOf(b))
+}
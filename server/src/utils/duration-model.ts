@@ -0,0 +1,152 @@
+// Estimation de la durée d'un parcours selon la pente et la surface, avec temps au kilomètre
+import { SURFACE_TYPES, SURFACE_SLOWDOWN } from '../config/osm-config.js'
+
+/**
+ * - naismith : 1 h pour 5 km + 1 h pour 600 m de D+, corrections de Langmuir en descente
+ * - tobler : fonction de randonnée de Tobler (vitesse selon la pente)
+ * - running : coût énergétique de la course selon la pente (Minetti et al., 2002)
+ */
+export type DurationModel = 'naismith' | 'tobler' | 'running'
+
+export const DURATION_MODELS: DurationModel[] = ['naismith', 'tobler', 'running']
+
+// Allure sur le plat par défaut (min/km) pour chaque modèle
+export const DEFAULT_PACE: Record<DurationModel, number> = {
+  naismith: 12,
+  tobler: 12,
+  running: 5
+}
+
+export interface DurationSegment {
+  distance: number        // m
+  elevationDelta: number  // m, positif en montée
+  surface?: string        // tag OSM surface
+}
+
+export interface KmSplit {
+  km: number              // numéro du kilomètre (1, 2, ...)
+  distance: number        // m (le dernier peut être incomplet)
+  duration: number        // min
+  ascent: number          // m
+  descent: number         // m
+}
+
+export interface DurationEstimate {
+  model: DurationModel
+  pace: number            // min/km sur le plat, revêtu
+  duration: number        // min
+  splits: KmSplit[]
+}
+
+// Coût énergétique de la course (J/kg/m) pour une pente i (fraction), valable entre -45 % et +45 %
+function runningCost(i: number): number {
+  const g = Math.min(0.45, Math.max(-0.45, i))
+  return 155.4 * g ** 5 - 30.4 * g ** 4 - 43.3 * g ** 3 + 46.3 * g ** 2 + 19.5 * g + 3.6
+}
+
+// En descente, on ne court pas aussi vite que le coût énergétique le permettrait
+const MIN_RUNNING_FACTOR = 0.8
+
+/**
+ * Multiplicateur du temps de parcours pour une surface OSM
+ */
+export function surfaceFactor(surface?: string): number {
+  if (!surface) return SURFACE_SLOWDOWN.unknown
+  const value = surface.toLowerCase()
+  if (SURFACE_SLOWDOWN.surfaces[value] !== undefined) return SURFACE_SLOWDOWN.surfaces[value]
+  for (const [category, surfaces] of Object.entries(SURFACE_TYPES)) {
+    if ((surfaces as readonly string[]).includes(value)) {
+      return SURFACE_SLOWDOWN.categories[category as keyof typeof SURFACE_SLOWDOWN.categories]
+    }
+  }
+  return SURFACE_SLOWDOWN.unknown
+}
+
+/**
+ * Temps (min) pour parcourir un segment à l'allure `pace` (min/km sur le plat)
+ */
+export function segmentMinutes(segment: DurationSegment, model: DurationModel, pace: number): number {
+  const { distance, elevationDelta } = segment
+  if (distance <= 0) return 0
+  const km = distance / 1000
+  const grade = elevationDelta / distance
+  let flatKm: number   // distance équivalente sur le plat
+
+  switch (model) {
+    case 'naismith': {
+      // 600 m de D+ valent 5 km ; Langmuir : -10 min par 300 m de descente douce (5-12°), +10 min au-delà
+      flatKm = km + Math.max(0, elevationDelta) * 5 / 600
+      const angle = Math.atan(Math.abs(grade)) * 180 / Math.PI
+      if (elevationDelta < 0 && angle >= 5) {
+        const correction = -elevationDelta / 300 * (10 / DEFAULT_PACE.naismith)
+        flatKm += angle <= 12 ? -correction : correction
+      }
+      break
+    }
+    case 'tobler': {
+      // v = 6·exp(-3,5·|pente + 0,05|), rapportée à la vitesse sur le plat
+      flatKm = km * Math.exp(3.5 * (Math.abs(grade + 0.05) - 0.05))
+      break
+    }
+    case 'running':
+      flatKm = km * Math.max(MIN_RUNNING_FACTOR, runningCost(grade) / runningCost(0))
+      break
+  }
+
+  return flatKm * pace * surfaceFactor(segment.surface)
+}
+
+/**
+ * Durée totale et temps au kilomètre d'une suite de segments
+ */
+export function estimateDuration(
+  segments: DurationSegment[],
+  options: { model?: DurationModel, pace?: number } = {}
+): DurationEstimate {
+  const model = options.model ?? 'naismith'
+  const pace = options.pace && options.pace > 0 ? options.pace : DEFAULT_PACE[model]
+
+  const splits: KmSplit[] = []
+  let current: KmSplit = { km: 1, distance: 0, duration: 0, ascent: 0, descent: 0 }
+  let total = 0
+  for (const segment of segments) {
+    const minutes = segmentMinutes(segment, model, pace)
+    total += minutes
+    // Répartir le segment entre les kilomètres qu'il traverse
+    let remaining = segment.distance
+    while (remaining > 0) {
+      const part = Math.min(remaining, 1000 - current.distance)
+      const share = segment.distance > 0 ? part / segment.distance : 0
+      current.distance += part
+      current.duration += minutes * share
+      current.ascent += Math.max(0, segment.elevationDelta) * share
+      current.descent += Math.max(0, -segment.elevationDelta) * share
+      remaining -= part
+      if (current.distance >= 1000 - 1e-6) {
+        splits.push(current)
+        current = { km: current.km + 1, distance: 0, duration: 0, ascent: 0, descent: 0 }
+      }
+    }
+  }
+  if (current.distance > 1) splits.push(current)
+
+  return {
+    model,
+    pace,
+    duration: Math.round(total),
+    splits: splits.map(split => ({
+      km: split.km,
+      distance: Math.round(split.distance),
+      duration: Math.round(split.duration * 10) / 10,
+      ascent: Math.round(split.ascent),
+      descent: Math.round(split.descent)
+    }))
+  }
+}
+
+/**
+ * Modèle par défaut selon l'allure demandée : marche à partir de 8 min/km, course sinon
+ */
+export function defaultDurationModel(pace?: number): DurationModel {
+  return pace !== undefined && pace >= 8 ? 'naismith' : 'running'
+}
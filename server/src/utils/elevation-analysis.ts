@@ -0,0 +1,184 @@
+// Analyse du profil altimétrique : rééchantillonnage en distance, lissage, dénivelés et pentes
+
+export interface ProfileSample {
+  distance: number              // m depuis le départ
+  coordinate: [number, number]  // [lon, lat]
+  elevation?: number            // m, si connue (trace 3D)
+}
+
+export interface SteepestSection {
+  start: number                 // m depuis le départ
+  end: number
+  grade: number                 // %, positif en montée
+}
+
+export interface ElevationAnalysis {
+  gain: number                  // m, dénivelé positif (lissé)
+  loss: number                  // m, dénivelé négatif (lissé)
+  min: number
+  max: number
+  maxGrade: number              // %, pente la plus forte entre deux échantillons (en valeur absolue)
+  averageGrade: number          // %, pente moyenne absolue (D+ + D-) / distance
+  steepest100m: SteepestSection | null
+  steepest1km: SteepestSection | null
+}
+
+export interface SmoothingOptions {
+  method?: 'hysteresis' | 'moving-average' | 'none'
+  threshold?: number            // m, seuil d'hystérésis (défaut 5)
+  window?: number               // échantillons, fenêtre de la moyenne glissante (défaut 5)
+}
+
+function haversine(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371000
+  const toRad = (x: number) => x * Math.PI / 180
+  const dLat = toRad(lat2 - lat1)
+  const dLon = toRad(lon2 - lon1)
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
+
+/**
+ * Points régulièrement espacés de `interval` mètres le long de la géométrie ([lon, lat] ou
+ * [lon, lat, ele]), dernier point inclus. L'altitude éventuelle est interpolée linéairement.
+ */
+export function resampleLine(coordinates: number[][], interval: number): ProfileSample[] {
+  if (coordinates.length === 0) return []
+  const withElevation = coordinates.every(c => typeof c[2] === 'number')
+  const sampleAt = (a: number[], b: number[], t: number, distance: number): ProfileSample => ({
+    distance,
+    coordinate: [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t],
+    ...(withElevation ? { elevation: a[2] + (b[2] - a[2]) * t } : {})
+  })
+
+  const samples: ProfileSample[] = [sampleAt(coordinates[0], coordinates[0], 0, 0)]
+  let travelled = 0
+  let nextMark = interval
+  for (let i = 1; i < coordinates.length; i++) {
+    const a = coordinates[i - 1], b = coordinates[i]
+    const length = haversine(a[1], a[0], b[1], b[0])
+    while (length > 0 && nextMark <= travelled + length) {
+      samples.push(sampleAt(a, b, (nextMark - travelled) / length, nextMark))
+      nextMark += interval
+    }
+    travelled += length
+  }
+  const last = coordinates[coordinates.length - 1]
+  if (travelled - samples[samples.length - 1].distance > interval * 0.01) {
+    samples.push(sampleAt(last, last, 0, travelled))
+  }
+  return samples
+}
+
+/**
+ * Lissage du bruit altimétrique.
+ * - hysteresis : l'altitude retenue ne bouge que si l'écart dépasse le seuil
+ * - moving-average : moyenne glissante centrée
+ */
+export function smoothElevations(elevations: number[], options: SmoothingOptions = {}): number[] {
+  const { method = 'hysteresis', threshold = 5, window = 5 } = options
+  if (elevations.length === 0 || method === 'none') return [...elevations]
+
+  if (method === 'moving-average') {
+    const half = Math.floor(window / 2)
+    return elevations.map((_, i) => {
+      const from = Math.max(0, i - half), to = Math.min(elevations.length - 1, i + half)
+      let sum = 0
+      for (let k = from; k <= to; k++) sum += elevations[k]
+      return sum / (to - from + 1)
+    })
+  }
+
+  // Hystérésis : on suit la tendance, un retournement n'est pris en compte qu'au-delà du seuil
+  const smoothed: number[] = [elevations[0]]
+  let reference = elevations[0]
+  for (let i = 1; i < elevations.length; i++) {
+    const value = elevations[i]
+    if (Math.abs(value - reference) >= threshold) reference = value
+    smoothed.push(reference)
+  }
+  // Le dernier point rejoint sa valeur réelle pour ne pas perdre la fin de montée
+  smoothed[smoothed.length - 1] = elevations[elevations.length - 1]
+  return smoothed
+}
+
+// Section de longueur `length` (m) dont la pente est la plus forte en valeur absolue
+function steepestSection(distances: number[], elevations: number[], length: number): SteepestSection | null {
+  const total = distances[distances.length - 1] - distances[0]
+  if (distances.length < 2 || total < length) return null
+  const elevationAt = (d: number, hint: number) => {
+    let k = hint
+    while (k + 1 < distances.length && distances[k + 1] < d) k++
+    const span = distances[k + 1] - distances[k]
+    const t = span > 0 ? (d - distances[k]) / span : 0
+    return { elevation: elevations[k] + (elevations[k + 1] - elevations[k]) * Math.min(1, t), index: k }
+  }
+  let best: SteepestSection | null = null
+  let hint = 0
+  for (let i = 0; i < distances.length && distances[i] + length <= distances[distances.length - 1] + 1e-6; i++) {
+    const end = distances[i] + length
+    const at = elevationAt(end, Math.max(hint, i))
+    hint = at.index
+    const grade = (at.elevation - elevations[i]) / length * 100
+    if (!best || Math.abs(grade) > Math.abs(best.grade)) best = { start: distances[i], end, grade }
+  }
+  return best
+}
+
+/**
+ * Dénivelés et pentes d'un profil (distances en m croissantes, altitudes en m).
+ * Les dénivelés utilisent le lissage demandé, les pentes une moyenne glissante
+ * (l'hystérésis produit des marches qui fausseraient les pentes locales).
+ */
+export function analyseElevationProfile(distances: number[], elevations: number[], options: SmoothingOptions = {}): ElevationAnalysis {
+  const smoothed = smoothElevations(elevations, options)
+  let gain = 0, loss = 0
+  for (let i = 1; i < smoothed.length; i++) {
+    const diff = smoothed[i] - smoothed[i - 1]
+    if (diff > 0) gain += diff
+    else loss -= diff
+  }
+
+  const forGrades = options.method === 'moving-average' || options.method === 'none'
+    ? smoothed
+    : smoothElevations(elevations, { method: 'moving-average', window: options.window })
+  let maxGrade = 0
+  for (let i = 1; i < forGrades.length; i++) {
+    const run = distances[i] - distances[i - 1]
+    if (run > 0) maxGrade = Math.max(maxGrade, Math.abs(forGrades[i] - forGrades[i - 1]) / run * 100)
+  }
+
+  const length = distances.length > 1 ? distances[distances.length - 1] - distances[0] : 0
+  const round1 = (x: number) => Math.round(x * 10) / 10
+  const roundSection = (s: SteepestSection | null) => s && { start: Math.round(s.start), end: Math.round(s.end), grade: round1(s.grade) }
+
+  return {
+    gain: Math.round(gain),
+    loss: Math.round(loss),
+    min: elevations.length > 0 ? Math.round(Math.min(...elevations)) : 0,
+    max: elevations.length > 0 ? Math.round(Math.max(...elevations)) : 0,
+    maxGrade: round1(maxGrade),
+    averageGrade: length > 0 ? round1((gain + loss) / length * 100) : 0,
+    steepest100m: roundSection(steepestSection(distances, forGrades, 100)),
+    steepest1km: roundSection(steepestSection(distances, forGrades, 1000))
+  }
+}
+
+/**
+ * Statistiques exposées au client (sections en km, comme le profil)
+ */
+export function toElevationStats(analysis: ElevationAnalysis) {
+  const inKm = (section: SteepestSection | null) => section && {
+    start: section.start / 1000,
+    end: section.end / 1000,
+    grade: section.grade
+  }
+  return {
+    min_elevation: analysis.min,
+    max_elevation: analysis.max,
+    max_grade: analysis.maxGrade,
+    average_grade: analysis.averageGrade,
+    steepest_100m: inKm(analysis.steepest100m),
+    steepest_1km: inKm(analysis.steepest1km)
+  }
+}
@@ -12,29 +12,38 @@ export function convertGeoJSONToOSM(geojson: any): OSMData {
   const elements: OSMElement[] = []
   const nodeIdCounter = { current: 1 }
   const nodeCache = new Map<string, number>()
+  const nodeElements = new Map<number, OSMNode>()
   if (!geojson.features || !Array.isArray(geojson.features)) throw new Error('Invalid GeoJSON: no features array')
   for (const feature of geojson.features) {
     if (!feature.geometry || !feature.properties) continue
     const { geometry, properties } = feature
     if (geometry.type === 'LineString') {
+      // Tags des barrières, reportés sur les nœuds (partagés entre voies par coordonnées)
+      const { barriers, ...wayTags } = properties
       const wayNodes: number[] = []
-      for (const coord of geometry.coordinates) {
+      geometry.coordinates.forEach((coord: [number, number], index: number) => {
         const [lon, lat] = coord
         const key = `${lat.toFixed(6)},${lon.toFixed(6)}`
         let nodeId = nodeCache.get(key)
         if (!nodeId) {
           nodeId = nodeIdCounter.current++
           nodeCache.set(key, nodeId)
-          elements.push({ type: 'node', id: nodeId, lat, lon, tags: {} } as OSMNode)
+          const node = { type: 'node', id: nodeId, lat, lon, tags: {} } as OSMNode
+          nodeElements.set(nodeId, node)
+          elements.push(node)
+        }
+        if (barriers?.[index]) {
+          const node = nodeElements.get(nodeId)!
+          node.tags = { ...node.tags, ...barriers[index] }
         }
         wayNodes.push(nodeId)
-      }
+      })
       if (wayNodes.length >= 2) {
         elements.push({
           type: 'way',
           id: feature.id || nodeIdCounter.current++,
           nodes: wayNodes,
-          tags: { highway: properties.highway || 'path', surface: properties.surface || 'unknown', ...properties }
+          tags: { highway: wayTags.highway || 'path', surface: wayTags.surface || 'unknown', ...wayTags }
         } as OSMWay)
       }
     } else if (geometry.type === 'Point') {
@@ -0,0 +1,111 @@
+// Export GPX 1.1 d'un itinéraire (trace complète, altitudes, points de passage)
+
+export interface GpxWaypoint {
+  lat: number
+  lon: number
+  name?: string
+  type?: string
+}
+
+export interface GpxRoute {
+  name: string
+  description?: string | null
+  createdAt?: string | Date
+  coordinates: number[][]              // [lon, lat] ou [lon, lat, ele]
+  elevationProfile?: Array<{ distance: number; elevation: number }>
+  waypoints?: GpxWaypoint[]
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function haversine(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371000
+  const toRad = (x: number) => x * Math.PI / 180
+  const dLat = toRad(lat2 - lat1)
+  const dLon = toRad(lon2 - lon1)
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
+
+/**
+ * Altitude de chaque point de la trace : 3e coordonnée si présente, sinon interpolation
+ * linéaire du profil (échantillonné) selon la position relative le long de la trace
+ */
+export function trackElevations(coordinates: number[][], profile?: Array<{ distance: number; elevation: number }>): Array<number | undefined> {
+  if (coordinates.every(c => typeof c[2] === 'number')) return coordinates.map(c => c[2])
+  if (!profile || profile.length === 0 || coordinates.length === 0) return coordinates.map(() => undefined)
+
+  const cumulative = [0]
+  for (let i = 1; i < coordinates.length; i++) {
+    const [lon1, lat1] = coordinates[i - 1], [lon2, lat2] = coordinates[i]
+    cumulative.push(cumulative[i - 1] + haversine(lat1, lon1, lat2, lon2))
+  }
+  const total = cumulative[cumulative.length - 1] || 1
+  const profileTotal = profile[profile.length - 1].distance || 1
+
+  let k = 0
+  return cumulative.map(d => {
+    const target = (d / total) * profileTotal
+    while (k < profile.length - 2 && profile[k + 1].distance < target) k++
+    const a = profile[k], b = profile[Math.min(k + 1, profile.length - 1)]
+    if (b.distance === a.distance) return a.elevation
+    const t = Math.min(1, Math.max(0, (target - a.distance) / (b.distance - a.distance)))
+    return a.elevation + t * (b.elevation - a.elevation)
+  })
+}
+
+const formatCoord = (value: number) => value.toFixed(7)
+
+/**
+ * Sérialise un itinéraire au format GPX 1.1
+ */
+export function buildGpx(route: GpxRoute): string {
+  const name = escapeXml(route.name)
+  const desc = route.description ? `\n    <desc>${escapeXml(route.description)}</desc>` : ''
+  const time = new Date(route.createdAt || Date.now()).toISOString()
+  const elevations = trackElevations(route.coordinates, route.elevationProfile)
+
+  const waypoints = (route.waypoints || []).map(wp => {
+    const wpName = wp.name ? `\n    <name>${escapeXml(wp.name)}</name>` : ''
+    const wpType = wp.type ? `\n    <type>${escapeXml(wp.type)}</type>` : ''
+    return `  <wpt lat="${formatCoord(wp.lat)}" lon="${formatCoord(wp.lon)}">${wpName}${wpType}\n  </wpt>`
+  })
+
+  const points = route.coordinates.map(([lon, lat], i) => {
+    const ele = elevations[i]
+    return ele === undefined || isNaN(ele)
+      ? `      <trkpt lat="${formatCoord(lat)}" lon="${formatCoord(lon)}"/>`
+      : `      <trkpt lat="${formatCoord(lat)}" lon="${formatCoord(lon)}"><ele>${ele.toFixed(1)}</ele></trkpt>`
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Trail Route Generator" xmlns="http://www.topografix.com/GPX/1/1" ' +
+      'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" ' +
+      'xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">',
+    `  <metadata>\n    <name>${name}</name>${desc}\n    <time>${time}</time>\n  </metadata>`,
+    ...waypoints,
+    `  <trk>\n    <name>${name}</name>${desc}\n    <trkseg>`,
+    ...points,
+    '    </trkseg>\n  </trk>',
+    '</gpx>',
+    ''
+  ].join('\n')
+}
+
+/**
+ * Nom de fichier sûr dérivé du nom de l'itinéraire
+ */
+export function gpxFileName(name: string): string {
+  const slug = name
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+  return `${slug || 'itineraire'}.gpx`
+}
@@ -0,0 +1,170 @@
+// Évaluation du tag OSM opening_hours (sous-ensemble courant de la syntaxe)
+//
+// Pris en charge : "24/7", règles séparées par ";" (ou "||"), mois (Jan, Apr-Sep), jours (Mo-Fr, Sa,Su),
+// plages horaires (08:00-20:00, 22:00-02:00, 07:00+), sunrise/sunset, dawn/dusk, "off"/"closed".
+// Une règle plus loin qui concerne le même jour remplace les précédentes.
+// Tout ce qui n'est pas compris (jours fériés seuls, décalages, semaines...) rend la valeur indéterminée.
+
+/** Date et heure locales du lieu */
+export interface LocalDateTime {
+  year: number
+  month: number     // 0-11
+  day: number       // 1-31
+  weekday: number   // 0 = dimanche
+  minutes: number   // minutes depuis minuit
+}
+
+/** Lever et coucher du soleil (minutes locales depuis minuit) */
+export interface SunMinutes {
+  sunrise: number
+  sunset: number
+}
+
+interface TimeRange {
+  start: number | string   // minutes ou événement solaire
+  end: number | string
+}
+
+interface Rule {
+  months: number[] | null    // null : tous les mois
+  weekdays: number[] | null  // null : tous les jours
+  ranges: TimeRange[]        // vide : fermé ; [0, 1440] : toute la journée
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+const WEEKDAYS = ['su', 'mo', 'tu', 'we', 'th', 'fr', 'sa']
+// Aube et crépuscule civils, approximés à 30 min du lever / coucher
+const TWILIGHT = 30
+
+const ALL_DAY: TimeRange = { start: 0, end: 1440 }
+
+// "Apr-Sep,Dec" → [3, 4, ..., 8, 11] ; null si ce n'est pas une liste de noms
+function parseNames(selector: string, names: string[]): number[] | null {
+  const result: number[] = []
+  for (const part of selector.toLowerCase().split(',')) {
+    const [from, to] = part.split('-')
+    const a = names.indexOf(from), b = to === undefined ? a : names.indexOf(to)
+    if (a < 0 || b < 0) return null
+    for (let i = a; ; i = (i + 1) % names.length) {
+      result.push(i)
+      if (i === b) break
+    }
+  }
+  return result
+}
+
+function parseTime(value: string): number | string | null {
+  const lower = value.toLowerCase()
+  if (['sunrise', 'sunset', 'dawn', 'dusk'].includes(lower)) return lower
+  const match = value.match(/^(\d{1,2}):(\d{2})$/)
+  if (!match) return null
+  const minutes = parseInt(match[1], 10) * 60 + parseInt(match[2], 10)
+  return minutes <= 48 * 60 ? minutes : null
+}
+
+function parseRanges(selector: string): TimeRange[] | null {
+  const ranges: TimeRange[] = []
+  for (const part of selector.split(',')) {
+    if (part.endsWith('+')) {
+      const start = parseTime(part.slice(0, -1))
+      if (start === null) return null
+      ranges.push({ start, end: 1440 })
+      continue
+    }
+    const [from, to] = part.split('-')
+    const start = parseTime(from), end = to !== undefined ? parseTime(to) : null
+    if (start === null || end === null) return null
+    ranges.push({ start, end })
+  }
+  return ranges
+}
+
+function parseRule(text: string): Rule | null {
+  const rule: Rule = { months: null, weekdays: null, ranges: [ALL_DAY] }
+  const tokens = text.trim().replace(/\s*([,-])\s*/g, '$1').split(/\s+/).filter(Boolean)
+  let hasTimes = false
+  for (const token of tokens) {
+    const lower = token.toLowerCase()
+    if (lower === 'off' || lower === 'closed') {
+      rule.ranges = []
+      hasTimes = true
+    } else if (lower === 'open') {
+      rule.ranges = [ALL_DAY]
+      hasTimes = true
+    } else if (!hasTimes && rule.months === null && rule.weekdays === null && parseNames(token, MONTHS)) {
+      rule.months = parseNames(token, MONTHS)
+    } else if (!hasTimes && rule.weekdays === null && parseNames(token, WEEKDAYS)) {
+      rule.weekdays = parseNames(token, WEEKDAYS)
+    } else {
+      const ranges = parseRanges(token)
+      if (!ranges || hasTimes) return null
+      rule.ranges = ranges
+      hasTimes = true
+    }
+  }
+  return rule
+}
+
+/**
+ * Analyse une valeur opening_hours ; null si elle n'est pas comprise
+ */
+export function parseOpeningHours(value: string): Rule[] | null {
+  const text = value.trim()
+  if (text === '24/7') return [{ months: null, weekdays: null, ranges: [ALL_DAY] }]
+  const rules: Rule[] = []
+  for (const part of text.split(/;|\|\|/)) {
+    if (!part.trim()) continue
+    const rule = parseRule(part)
+    if (!rule) return null
+    rules.push(rule)
+  }
+  return rules.length > 0 ? rules : null
+}
+
+// Dernière règle s'appliquant à ce jour (mois, jour de la semaine)
+function ruleForDay(rules: Rule[], month: number, weekday: number): Rule | undefined {
+  let applicable: Rule | undefined
+  for (const rule of rules) {
+    if (rule.months && !rule.months.includes(month)) continue
+    if (rule.weekdays && !rule.weekdays.includes(weekday)) continue
+    applicable = rule
+  }
+  return applicable
+}
+
+function resolve(time: number | string, sun?: SunMinutes): number | null {
+  if (typeof time === 'number') return time
+  if (!sun) return null
+  switch (time) {
+    case 'sunrise': return sun.sunrise
+    case 'sunset': return sun.sunset
+    case 'dawn': return sun.sunrise - TWILIGHT
+    default: return sun.sunset + TWILIGHT
+  }
+}
+
+/**
+ * Le lieu est-il ouvert à cette date et heure locales ?
+ * @returns undefined si la valeur n'est pas comprise (ou dépend du soleil sans `sun`)
+ */
+export function isOpenAt(value: string, at: LocalDateTime, sun?: SunMinutes): boolean | undefined {
+  const rules = parseOpeningHours(value)
+  if (!rules) return undefined
+
+  // Plages du jour même, puis débordements après minuit de la veille (22:00-02:00)
+  const previous = new Date(Date.UTC(at.year, at.month, at.day - 1))
+  const days = [
+    { rule: ruleForDay(rules, at.month, at.weekday), offset: 0 },
+    { rule: ruleForDay(rules, previous.getUTCMonth(), previous.getUTCDay()), offset: 1440 }
+  ]
+  for (const { rule, offset } of days) {
+    for (const range of rule?.ranges ?? []) {
+      const start = resolve(range.start, sun), rawEnd = resolve(range.end, sun)
+      if (start === null || rawEnd === null) return undefined
+      const end = rawEnd <= start ? rawEnd + 1440 : rawEnd
+      const minutes = at.minutes + offset
+      if (minutes >= start && minutes < end) return true
+    }
+  }
+  return false
+}
@@ -0,0 +1,56 @@
+// Restrictions d'accès piéton OSM : access / foot, oneway:foot et barrières
+import { ACCESS_RULES } from '../config/osm-config.js'
+
+export type FootAccess = 'yes' | 'discouraged' | 'no'
+
+// Sens unique piéton : 1 dans le sens de la voie, -1 à contresens, 0 dans les deux sens
+export type FootOneway = 1 | -1 | 0
+
+function accessLevel(value?: string): FootAccess | undefined {
+  if (!value) return undefined
+  const v = value.toLowerCase().split(';')[0].trim()
+  if ((ACCESS_RULES.forbidden as readonly string[]).includes(v)) return 'no'
+  if ((ACCESS_RULES.discouraged as readonly string[]).includes(v)) return 'discouraged'
+  return 'yes'
+}
+
+/**
+ * Accès piéton d'une voie ou d'un nœud : `foot` prime sur `access`
+ */
+export function footAccess(tags: Record<string, string> = {}): FootAccess {
+  return accessLevel(tags.foot) ?? accessLevel(tags.access) ?? 'yes'
+}
+
+/**
+ * Sens unique pour les piétons : `oneway:foot`, ou `oneway` sur les voies piétonnes
+ */
+export function footOneway(tags: Record<string, string> = {}): FootOneway {
+  const highway = tags.highway
+  const value = tags['oneway:foot']
+    ?? ((ACCESS_RULES.pedestrianOnewayHighways as readonly string[]).includes(highway) ? tags.oneway : undefined)
+  switch (value?.toLowerCase()) {
+    case 'yes':
+    case 'true':
+    case '1':
+      return 1
+    case '-1':
+    case 'reverse':
+      return -1
+    default:
+      return 0
+  }
+}
+
+/**
+ * Un nœud (barrière, portail...) bloque-t-il le passage à pied ?
+ * Portails et barrières sont franchissables par défaut, sauf accès interdit ou `locked=yes`.
+ */
+export function isImpassableNode(tags: Record<string, string> = {}): boolean {
+  const foot = accessLevel(tags.foot)
+  if (foot === 'yes' || foot === 'discouraged') return false
+  if (foot === 'no') return true
+  if (!tags.barrier && !tags.access && !tags.locked) return false
+  if (tags.locked === 'yes') return true
+  if ((ACCESS_RULES.impassableBarriers as readonly string[]).includes(tags.barrier)) return true
+  return accessLevel(tags.access) === 'no'
+}
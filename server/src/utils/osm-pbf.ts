@@ -0,0 +1,287 @@
+// Lecture des extraits OpenStreetMap au format PBF (.osm.pbf)
+// Format : https://wiki.openstreetmap.org/wiki/PBF_Format
+import { inflateSync } from 'zlib'
+
+export interface OsmNodeRecord {
+  id: number
+  lat: number
+  lon: number
+  tags?: Record<string, string>
+}
+
+export interface OsmWayRecord {
+  id: number
+  nodes: number[]
+  tags: Record<string, string>
+}
+
+/** Éléments à décoder : les blocs ignorés ne sont pas parcourus */
+export interface OsmRecordSink {
+  node?: (node: OsmNodeRecord) => void
+  way?: (way: OsmWayRecord) => void
+}
+
+export interface PbfHeader {
+  requiredFeatures: string[]
+  writingProgram?: string
+  replicationTimestamp?: string  // ISO 8601
+}
+
+// Fonctionnalités requises que l'on sait lire
+const SUPPORTED_FEATURES = ['OsmSchema-V0.6', 'DenseNodes']
+
+// Taille maximale d'un BlobHeader et d'un Blob (spécification : 64 Kio et 32 Mio)
+export const MAX_BLOB_HEADER_SIZE = 64 * 1024
+export const MAX_BLOB_SIZE = 32 * 1024 * 1024
+
+// ---- Décodage protobuf minimal ----
+
+interface Cursor { buf: Buffer; pos: number }
+
+// Entier variable non signé (jusqu'à 2^53 sans perte)
+function varint(c: Cursor): number {
+  let result = 0, factor = 1, byte: number
+  do {
+    if (c.pos >= c.buf.length) throw new Error('PBF tronqué (varint)')
+    byte = c.buf[c.pos++]
+    result += (byte & 0x7f) * factor
+    factor *= 128
+  } while (byte & 0x80)
+  return result
+}
+
+// sint64 (zigzag)
+function zigzag(value: number): number {
+  return value % 2 === 0 ? value / 2 : -(value + 1) / 2
+}
+
+// int32 / int64 signés : négatifs codés sur 10 octets en complément à deux
+function signed(value: number): number {
+  return value >= 2 ** 63 ? value - 2 ** 64 : value
+}
+
+function lengthDelimited(c: Cursor): [number, number] {
+  const length = varint(c)
+  const start = c.pos
+  c.pos += length
+  if (c.pos > c.buf.length) throw new Error('PBF tronqué (champ)')
+  return [start, c.pos]
+}
+
+function skip(c: Cursor, wire: number): void {
+  if (wire === 0) varint(c)
+  else if (wire === 1) c.pos += 8
+  else if (wire === 2) lengthDelimited(c)
+  else if (wire === 5) c.pos += 4
+  else throw new Error(`PBF invalide (type de champ ${wire})`)
+}
+
+/**
+ * Parcourt les champs d'un message : `visit` lit la valeur (cursor positionné dessus)
+ * ou renvoie false pour qu'elle soit ignorée
+ */
+function eachField(buf: Buffer, start: number, end: number, visit: (field: number, wire: number, c: Cursor) => boolean | void): void {
+  const c: Cursor = { buf, pos: start }
+  while (c.pos < end) {
+    const key = varint(c)
+    const field = Math.floor(key / 8), wire = key & 7
+    const pos = c.pos
+    if (visit(field, wire, c) === false) {
+      c.pos = pos
+      skip(c, wire)
+    }
+  }
+}
+
+// Valeurs d'un champ répété : compacté (packed) ou non
+function packed(c: Cursor, wire: number, into: number[]): void {
+  if (wire !== 2) {
+    into.push(varint(c))
+    return
+  }
+  const [start, end] = lengthDelimited(c)
+  const inner: Cursor = { buf: c.buf, pos: start }
+  while (inner.pos < end) into.push(varint(inner))
+}
+
+// ---- Fichier : suite de [longueur u32 BE][BlobHeader][Blob] ----
+
+/**
+ * Lit l'en-tête du bloc suivant : type et taille du Blob
+ * @param header contenu du BlobHeader
+ */
+export function parseBlobHeader(header: Buffer): { type: string, dataSize: number } {
+  let type = '', dataSize = -1
+  eachField(header, 0, header.length, (field, wire, c) => {
+    if (field === 1 && wire === 2) {
+      const [s, e] = lengthDelimited(c)
+      type = header.toString('utf8', s, e)
+    } else if (field === 3 && wire === 0) {
+      dataSize = varint(c)
+    } else return false
+  })
+  if (!type || dataSize < 0) throw new Error('PBF invalide (BlobHeader)')
+  if (dataSize > MAX_BLOB_SIZE) throw new Error(`PBF invalide (bloc de ${dataSize} octets)`)
+  return { type, dataSize }
+}
+
+/**
+ * Contenu décompressé d'un Blob (brut ou zlib ; lzma, lz4 et zstd ne sont pas pris en charge)
+ */
+export function blobData(blob: Buffer): Buffer {
+  let data: Buffer | undefined
+  let unsupported = ''
+  eachField(blob, 0, blob.length, (field, wire, c) => {
+    if (wire !== 2) return false
+    const [s, e] = lengthDelimited(c)
+    if (field === 1) data = blob.subarray(s, e)
+    else if (field === 3) data = inflateSync(blob.subarray(s, e))
+    else if (field === 4) unsupported = 'lzma'
+    else if (field === 6) unsupported = 'lz4'
+    else if (field === 7) unsupported = 'zstd'
+  })
+  if (!data) throw new Error(unsupported ? `Compression PBF non prise en charge : ${unsupported}` : 'PBF invalide (Blob vide)')
+  return data
+}
+
+/**
+ * Décode un bloc OSMHeader et vérifie que ses fonctionnalités requises sont prises en charge
+ */
+export function parseHeaderBlock(data: Buffer): PbfHeader {
+  const header: PbfHeader = { requiredFeatures: [] }
+  eachField(data, 0, data.length, (field, wire, c) => {
+    if (wire === 2 && (field === 4 || field === 16)) {
+      const [s, e] = lengthDelimited(c)
+      const value = data.toString('utf8', s, e)
+      if (field === 4) header.requiredFeatures.push(value)
+      else header.writingProgram = value
+    } else if (field === 32 && wire === 0) {
+      header.replicationTimestamp = new Date(signed(varint(c)) * 1000).toISOString()
+    } else return false
+  })
+  const unsupported = header.requiredFeatures.filter(f => !SUPPORTED_FEATURES.includes(f))
+  if (unsupported.length > 0) throw new Error(`Fonctionnalités PBF non prises en charge : ${unsupported.join(', ')}`)
+  return header
+}
+
+interface BlockContext {
+  strings: string[]
+  granularity: number
+  latOffset: number
+  lonOffset: number
+}
+
+function tagsOf(ctx: BlockContext, keys: number[], values: number[]): Record<string, string> {
+  const tags: Record<string, string> = {}
+  for (let i = 0; i < keys.length; i++) tags[ctx.strings[keys[i]]] = ctx.strings[values[i]]
+  return tags
+}
+
+const coordinate = (offset: number, granularity: number, value: number) => (offset + granularity * value) * 1e-9
+
+function parseNode(ctx: BlockContext, buf: Buffer, start: number, end: number): OsmNodeRecord {
+  let id = 0, lat = 0, lon = 0
+  const keys: number[] = [], values: number[] = []
+  eachField(buf, start, end, (field, wire, c) => {
+    if (field === 1) id = zigzag(varint(c))
+    else if (field === 2) packed(c, wire, keys)
+    else if (field === 3) packed(c, wire, values)
+    else if (field === 8) lat = zigzag(varint(c))
+    else if (field === 9) lon = zigzag(varint(c))
+    else return false
+  })
+  const node: OsmNodeRecord = {
+    id,
+    lat: coordinate(ctx.latOffset, ctx.granularity, lat),
+    lon: coordinate(ctx.lonOffset, ctx.granularity, lon)
+  }
+  if (keys.length > 0) node.tags = tagsOf(ctx, keys, values)
+  return node
+}
+
+function parseDenseNodes(ctx: BlockContext, buf: Buffer, start: number, end: number, emit: (node: OsmNodeRecord) => void): void {
+  const ids: number[] = [], lats: number[] = [], lons: number[] = [], keysVals: number[] = []
+  eachField(buf, start, end, (field, wire, c) => {
+    if (field === 1) packed(c, wire, ids)
+    else if (field === 8) packed(c, wire, lats)
+    else if (field === 9) packed(c, wire, lons)
+    else if (field === 10) packed(c, wire, keysVals)
+    else return false
+  })
+  // Identifiants et coordonnées codés en différences successives ; tags : k1 v1 k2 v2 0 par nœud
+  let id = 0, lat = 0, lon = 0, kv = 0
+  for (let i = 0; i < ids.length; i++) {
+    id += zigzag(ids[i])
+    lat += zigzag(lats[i])
+    lon += zigzag(lons[i])
+    const node: OsmNodeRecord = {
+      id,
+      lat: coordinate(ctx.latOffset, ctx.granularity, lat),
+      lon: coordinate(ctx.lonOffset, ctx.granularity, lon)
+    }
+    if (kv < keysVals.length && keysVals[kv] !== 0) {
+      node.tags = {}
+      while (kv < keysVals.length && keysVals[kv] !== 0) {
+        node.tags[ctx.strings[keysVals[kv]]] = ctx.strings[keysVals[kv + 1]]
+        kv += 2
+      }
+    }
+    kv++
+    emit(node)
+  }
+}
+
+function parseWay(ctx: BlockContext, buf: Buffer, start: number, end: number): OsmWayRecord {
+  let id = 0
+  const keys: number[] = [], values: number[] = [], refs: number[] = []
+  eachField(buf, start, end, (field, wire, c) => {
+    if (field === 1) id = signed(varint(c))
+    else if (field === 2) packed(c, wire, keys)
+    else if (field === 3) packed(c, wire, values)
+    else if (field === 8) packed(c, wire, refs)
+    else return false
+  })
+  const nodes = new Array<number>(refs.length)
+  for (let i = 0, ref = 0; i < refs.length; i++) nodes[i] = ref += zigzag(refs[i])
+  return { id, nodes, tags: tagsOf(ctx, keys, values) }
+}
+
+/**
+ * Décode un bloc OSMData (PrimitiveBlock) ; les relations sont ignorées
+ */
+export function parsePrimitiveBlock(data: Buffer, sink: OsmRecordSink): void {
+  const ctx: BlockContext = { strings: [], granularity: 100, latOffset: 0, lonOffset: 0 }
+  const groups: Array<[number, number]> = []
+  // Table de chaînes et paramètres d'abord : les groupes sont décodés ensuite
+  eachField(data, 0, data.length, (field, wire, c) => {
+    if (field === 1 && wire === 2) {
+      const [s, e] = lengthDelimited(c)
+      eachField(data, s, e, (f, w, inner) => {
+        if (f !== 1 || w !== 2) return false
+        const [ss, se] = lengthDelimited(inner)
+        ctx.strings.push(data.toString('utf8', ss, se))
+      })
+    } else if (field === 2 && wire === 2) {
+      groups.push(lengthDelimited(c))
+    } else if (field === 17 && wire === 0) ctx.granularity = varint(c)
+    else if (field === 19 && wire === 0) ctx.latOffset = signed(varint(c))
+    else if (field === 20 && wire === 0) ctx.lonOffset = signed(varint(c))
+    else return false
+  })
+
+  for (const [start, end] of groups) {
+    eachField(data, start, end, (field, wire, c) => {
+      if (wire !== 2) return false
+      if (field === 1 && sink.node) {
+        const [s, e] = lengthDelimited(c)
+        sink.node(parseNode(ctx, data, s, e))
+      } else if (field === 2 && sink.node) {
+        const [s, e] = lengthDelimited(c)
+        parseDenseNodes(ctx, data, s, e, sink.node)
+      } else if (field === 3 && sink.way) {
+        const [s, e] = lengthDelimited(c)
+        sink.way(parseWay(ctx, data, s, e))
+      } else return false
+    })
+  }
+}
@@ -0,0 +1,108 @@
+// Lecture des extraits OpenStreetMap au format XML (.osm), par morceaux de texte
+import type { OsmNodeRecord, OsmWayRecord, OsmRecordSink } from './osm-pbf.js'
+
+export interface OsmXmlParser {
+  /** Ajoute un morceau du fichier (les balises coupées sont complétées au morceau suivant) */
+  write(chunk: string): void
+  /** Fin du fichier : vérifie qu'aucun élément n'est resté ouvert */
+  end(): void
+  /** Horodatage des données (attribut timestamp de <osm> ou osm_base de <meta>) */
+  timestamp?: string
+}
+
+const TAG_PATTERN = /<(\/?)([A-Za-z_][\w:.-]*)([^>]*?)(\/?)>/g
+const ATTRIBUTE_PATTERN = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }
+
+function decodeEntities(value: string): string {
+  if (!value.includes('&')) return value
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] !== '#') return ENTITIES[entity] ?? match
+    const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+    return Number.isFinite(code) ? String.fromCodePoint(code) : match
+  })
+}
+
+function attributes(source: string): Record<string, string> {
+  const result: Record<string, string> = {}
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    result[match[1]] = decodeEntities(match[2] ?? match[3])
+  }
+  return result
+}
+
+/**
+ * Analyseur XML OSM (API 0.6, Overpass, osmium) : nœuds et ways transmis au fil de la lecture,
+ * relations ignorées
+ */
+export function createOsmXmlParser(sink: OsmRecordSink): OsmXmlParser {
+  let pending = ''
+  let node: OsmNodeRecord | undefined
+  let way: OsmWayRecord | undefined
+  let skipped = 0  // profondeur dans un élément ignoré (relation, changeset...)
+
+  const open = (name: string, attrs: Record<string, string>, selfClosing: boolean) => {
+    if (skipped > 0) {
+      if (!selfClosing) skipped++
+      return
+    }
+    if (name === 'node') {
+      node = { id: Number(attrs.id), lat: Number(attrs.lat), lon: Number(attrs.lon) }
+      if (!Number.isFinite(node.id) || !Number.isFinite(node.lat) || !Number.isFinite(node.lon)) {
+        throw new Error(`XML OSM invalide : nœud ${attrs.id ?? '?'} sans identifiant ou coordonnées`)
+      }
+      if (selfClosing) close('node')
+    } else if (name === 'way') {
+      way = { id: Number(attrs.id), nodes: [], tags: {} }
+      if (selfClosing) close('way')
+    } else if (name === 'nd' && way) {
+      way.nodes.push(Number(attrs.ref))
+    } else if (name === 'tag') {
+      if (way) way.tags[attrs.k] = attrs.v
+      else if (node) (node.tags ??= {})[attrs.k] = attrs.v
+    } else if (name === 'osm') {
+      if (attrs.timestamp) parser.timestamp = attrs.timestamp
+    } else if (name === 'meta') {
+      if (attrs.osm_base) parser.timestamp = attrs.osm_base
+    } else if (name !== 'bounds' && name !== 'bound' && name !== 'note' && !selfClosing) {
+      skipped = 1
+    }
+  }
+
+  const close = (name: string) => {
+    if (skipped > 0) {
+      skipped--
+      return
+    }
+    if (name === 'node' && node) {
+      sink.node?.(node)
+      node = undefined
+    } else if (name === 'way' && way) {
+      sink.way?.(way)
+      way = undefined
+    }
+  }
+
+  const parser: OsmXmlParser = {
+    write(chunk: string) {
+      const text = pending + chunk
+      const last = text.lastIndexOf('>')
+      if (last < 0) {
+        pending = text
+        return
+      }
+      const complete = text.slice(0, last + 1)
+      for (const match of complete.matchAll(TAG_PATTERN)) {
+        const [, closing, name, attrs, selfClosing] = match
+        if (closing) close(name)
+        else open(name, attributes(attrs), selfClosing === '/')
+      }
+      pending = text.slice(last + 1)
+    },
+    end() {
+      if (node || way || pending.includes('<')) throw new Error('XML OSM tronqué')
+    }
+  }
+  return parser
+}
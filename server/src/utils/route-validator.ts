@@ -1,5 +1,6 @@
 import { Graph } from '../services/graph-builder.js'
 import { GeneratedLoop } from '../algorithms/loop-generator.js'
+import { matchTrack, TrackMatch, TrackMatchOptions } from '../algorithms/map-matching.js'
 export interface ValidationResult {
   valid: boolean
   errors: string[]
@@ -8,6 +9,7 @@ export interface ValidationResult {
     totalSegments: number
     validSegments: number
     invalidSegments: number
+    inferredSegments: number   // liaisons déduites, absentes d'OSM
   }
 }
 export function validateRouteAgainstOSM(
@@ -18,6 +20,7 @@ export function validateRouteAgainstOSM(
   const warnings: string[] = []
   let validSegments = 0
   let invalidSegments = 0
+  let inferredSegments = 0
   let totalSegments = 0
   // suppose que loop.pathEdges existe
   for(const edgeId of loop.pathEdges) {
@@ -32,12 +35,46 @@ export function validateRouteAgainstOSM(
       invalidSegments++; continue
     }
     if (!edge.osmWayId) warnings.push(`Edge ${edgeId} has no osmWayId`)
+    if (edge.inferred) {
+      warnings.push(`Edge ${edgeId} is an inferred connector (not in OSM)`)
+      inferredSegments++
+    }
     validSegments++
   }
   return {
     valid: errors.length === 0,
     errors,
     warnings,
-    stats: { totalSegments, validSegments, invalidSegments }
+    stats: { totalSegments, validSegments, invalidSegments, inferredSegments }
+  }
+}
+
+/**
+ * Valide une trace GPS quelconque ([lon, lat]) : elle est d'abord recalée sur le graphe,
+ * les sections hors réseau et les ruptures du recalage sont signalées en avertissement
+ */
+export function validateTraceAgainstOSM(
+  coordinates: number[][],
+  graph: Graph,
+  options: TrackMatchOptions = {}
+): ValidationResult & { match: TrackMatch } {
+  const match = matchTrack(graph, coordinates, options)
+  const loop: GeneratedLoop = {
+    loop: match.edges.flatMap((edgeId, i) => {
+      const edge = graph.edges.get(edgeId)!
+      return i === 0 ? [edge.from, edge.to] : [edge.to]
+    }),
+    pathEdges: match.edges,
+    distance: match.edges.reduce((sum, edgeId) => sum + (graph.edges.get(edgeId)?.distance || 0), 0),
+    qualityScore: 0
+  }
+  const result = validateRouteAgainstOSM(loop, graph)
+  if (match.edges.length === 0) result.errors.push('Trace entirely off the OSM network')
+  for (const section of match.offNetwork) {
+    result.warnings.push(`Off-network section: points ${section.startIndex}-${section.endIndex} (${Math.round(section.distance)} m)`)
+  }
+  for (const index of match.breaks) {
+    result.warnings.push(`No network path to point ${index} from the previous one`)
   }
+  return { ...result, valid: result.errors.length === 0, match }
 }
@@ -0,0 +1,59 @@
+// Lever et coucher du soleil (équation du lever du soleil, précision de l'ordre de la minute)
+
+export interface SunTimes {
+  sunrise: Date | null
+  sunset: Date | null
+  polar?: 'day' | 'night'   // soleil toujours levé / toujours couché ce jour-là
+}
+
+const RAD = Math.PI / 180
+const J1970 = 2440588
+const J2000 = 2451545
+const J0 = 0.0009
+const OBLIQUITY = 23.4397 * RAD
+// Réfraction atmosphérique et rayon apparent du disque solaire
+const SUNRISE_ALTITUDE = -0.833 * RAD
+
+const toDays = (date: Date) => date.valueOf() / 86400000 - 0.5 + J1970 - J2000
+const fromJulian = (j: number) => new Date((j + 0.5 - J1970) * 86400000)
+
+function approxTransit(hourAngle: number, lw: number, n: number): number {
+  return J0 + (hourAngle + lw) / (2 * Math.PI) + n
+}
+
+function solarTransitJ(ds: number, meanAnomaly: number, eclipticLongitude: number): number {
+  return J2000 + ds + 0.0053 * Math.sin(meanAnomaly) - 0.0069 * Math.sin(2 * eclipticLongitude)
+}
+
+/**
+ * Heures (UTC) de lever et de coucher du soleil du jour solaire le plus proche de `date`
+ */
+export function sunTimes(date: Date, lat: number, lon: number): SunTimes {
+  const lw = -lon * RAD
+  const phi = lat * RAD
+  const n = Math.round(toDays(date) - J0 - lw / (2 * Math.PI))
+  const ds = approxTransit(0, lw, n)
+
+  const M = RAD * (357.5291 + 0.98560028 * ds)
+  const center = RAD * (1.9148 * Math.sin(M) + 0.02 * Math.sin(2 * M) + 0.0003 * Math.sin(3 * M))
+  const L = M + center + RAD * 102.9372 + Math.PI
+  const declination = Math.asin(Math.sin(OBLIQUITY) * Math.sin(L))
+  const noon = solarTransitJ(ds, M, L)
+
+  const cosHourAngle = (Math.sin(SUNRISE_ALTITUDE) - Math.sin(phi) * Math.sin(declination)) / (Math.cos(phi) * Math.cos(declination))
+  if (cosHourAngle > 1) return { sunrise: null, sunset: null, polar: 'night' }
+  if (cosHourAngle < -1) return { sunrise: null, sunset: null, polar: 'day' }
+
+  const set = solarTransitJ(approxTransit(Math.acos(cosHourAngle), lw, n), M, L)
+  const rise = noon - (set - noon)
+  return { sunrise: fromJulian(rise), sunset: fromJulian(set) }
+}
+
+/**
+ * Fait-il nuit (soleil couché) à cet instant ?
+ */
+export function isDark(date: Date, lat: number, lon: number): boolean {
+  const { sunrise, sunset, polar } = sunTimes(date, lat, lon)
+  if (polar) return polar === 'night'
+  return date < sunrise! || date > sunset!
+}
@@ -0,0 +1,130 @@
+import { Graph, GraphEdge } from '../services/graph-builder.js'
+
+// Taille d'une cellule de la grille (degrés, ~200 m en latitude)
+const CELL_DEG = 0.002
+const M_PER_DEG = 111320
+
+export interface EdgeProjection {
+  edgeId: string
+  distance: number   // m, du point à l'arête
+  fraction: number   // 0-1, position du projeté le long de l'arête (from → to)
+  lat: number        // point projeté
+  lon: number
+}
+
+const cellKey = (x: number, y: number) => `${x}:${y}`
+
+/**
+ * Projection d'un point sur le segment [a, b] (plan local équirectangulaire)
+ */
+export function projectOnSegment(
+  lat: number, lon: number,
+  a: { lat: number, lon: number }, b: { lat: number, lon: number }
+): { distance: number, fraction: number, lat: number, lon: number } {
+  const kx = Math.cos(lat * Math.PI / 180) * M_PER_DEG
+  const ax = (a.lon - lon) * kx, ay = (a.lat - lat) * M_PER_DEG
+  const bx = (b.lon - lon) * kx, by = (b.lat - lat) * M_PER_DEG
+  const dx = bx - ax, dy = by - ay
+  const len2 = dx * dx + dy * dy
+  const t = len2 > 0 ? Math.min(1, Math.max(0, -(ax * dx + ay * dy) / len2)) : 0
+  const px = ax + t * dx, py = ay + t * dy
+  return {
+    distance: Math.hypot(px, py),
+    fraction: t,
+    lat: a.lat + t * (b.lat - a.lat),
+    lon: a.lon + t * (b.lon - a.lon)
+  }
+}
+
+// Points d'une arête : extrémités et, pour une arête composée, géométrie intermédiaire
+function edgePoints(graph: Graph, edge: GraphEdge): Array<{ lat: number, lon: number }> | null {
+  const a = graph.nodes.get(edge.from), b = graph.nodes.get(edge.to)
+  if (!a || !b) return null
+  return edge.geometry ? [a, ...edge.geometry.map(([lon, lat]) => ({ lat, lon })), b] : [a, b]
+}
+
+/**
+ * Projection d'un point sur une arête (sur sa géométrie complète pour une arête composée) ;
+ * fraction mesurée le long de la polyligne
+ */
+export function projectOnEdge(
+  graph: Graph, edge: GraphEdge, lat: number, lon: number
+): { distance: number, fraction: number, lat: number, lon: number } {
+  const points = edgePoints(graph, edge)!
+  if (points.length === 2) return projectOnSegment(lat, lon, points[0], points[1])
+  const kx = Math.cos(lat * Math.PI / 180) * M_PER_DEG
+  let best = projectOnSegment(lat, lon, points[0], points[1]), bestOffset = 0, bestLength = 0, total = 0
+  for (let i = 0; i < points.length - 1; i++) {
+    const a = points[i], b = points[i + 1]
+    const length = Math.hypot((b.lon - a.lon) * kx, (b.lat - a.lat) * M_PER_DEG)
+    const projection = projectOnSegment(lat, lon, a, b)
+    if (i === 0 || projection.distance < best.distance) {
+      best = projection
+      bestOffset = total
+      bestLength = length
+    }
+    total += length
+  }
+  return { ...best, fraction: total > 0 ? (bestOffset + best.fraction * bestLength) / total : 0 }
+}
+
+/**
+ * Index spatial (grille régulière) des arêtes d'un graphe, pour retrouver
+ * rapidement les arêtes proches d'un point GPS.
+ * Une seule arête par paire de nœuds est indexée (le sens n'importe pas ici).
+ */
+export class EdgeGridIndex {
+  private cells = new Map<string, string[]>()
+
+  constructor(private graph: Graph, filter?: (edge: GraphEdge) => boolean) {
+    const seen = new Set<string>()
+    for (const edge of graph.edges.values()) {
+      const pair = edge.from < edge.to ? `${edge.from}|${edge.to}` : `${edge.to}|${edge.from}`
+      if (seen.has(pair) || (filter && !filter(edge))) continue
+      seen.add(pair)
+      const points = edgePoints(graph, edge)
+      if (!points) continue
+      const lons = points.map(p => p.lon), lats = points.map(p => p.lat)
+      const x0 = Math.floor(Math.min(...lons) / CELL_DEG), x1 = Math.floor(Math.max(...lons) / CELL_DEG)
+      const y0 = Math.floor(Math.min(...lats) / CELL_DEG), y1 = Math.floor(Math.max(...lats) / CELL_DEG)
+      for (let x = x0; x <= x1; x++) {
+        for (let y = y0; y <= y1; y++) {
+          const key = cellKey(x, y)
+          const list = this.cells.get(key)
+          if (list) list.push(edge.id)
+          else this.cells.set(key, [edge.id])
+        }
+      }
+    }
+  }
+
+  /**
+   * Arêtes à moins de `radius` mètres du point, triées par distance
+   */
+  edgesNear(lat: number, lon: number, radius: number): EdgeProjection[] {
+    const rx = Math.ceil(radius / (M_PER_DEG * Math.cos(lat * Math.PI / 180)) / CELL_DEG)
+    const ry = Math.ceil(radius / M_PER_DEG / CELL_DEG)
+    const cx = Math.floor(lon / CELL_DEG), cy = Math.floor(lat / CELL_DEG)
+    const seen = new Set<string>()
+    const result: EdgeProjection[] = []
+    for (let x = cx - rx; x <= cx + rx; x++) {
+      for (let y = cy - ry; y <= cy + ry; y++) {
+        for (const edgeId of this.cells.get(cellKey(x, y)) || []) {
+          if (seen.has(edgeId)) continue
+          seen.add(edgeId)
+          const edge = this.graph.edges.get(edgeId)!
+          const projection = projectOnEdge(this.graph, edge, lat, lon)
+          if (projection.distance <= radius) result.push({ edgeId, ...projection })
+        }
+      }
+    }
+    return result.sort((a, b) => a.distance - b.distance)
+  }
+
+  /**
+   * Arête la plus proche du point (dans la limite de maxDistance mètres)
+   */
+  nearestEdge(lat: number, lon: number, maxDistance: number): EdgeProjection | null {
+    return this.edgesNear(lat, lon, maxDistance)[0] || null
+  }
+}
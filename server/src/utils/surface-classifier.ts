@@ -0,0 +1,250 @@
+// Classification des surfaces OSM : catégorie fine et revêtu / non revêtu / mixte
+import { Graph, GraphEdge } from '../services/graph-builder.js'
+import { SURFACE_TYPES } from '../config/osm-config.js'
+
+export type SurfaceClass = 'paved' | 'unpaved' | 'mixed'
+export type TerrainPreference = 'paved' | 'unpaved' | 'mixed'
+
+/**
+ * Catégories fines, regroupant les valeurs du tag `surface`
+ * (`paved` : revêtu sans précision, `unknown` : rien ne permet de conclure)
+ */
+export type SurfaceCategory =
+  | 'asphalt' | 'concrete' | 'paving' | 'boardwalk' | 'synthetic' | 'paved'
+  | 'compacted' | 'gravel' | 'dirt' | 'grass' | 'sand' | 'mud' | 'rock' | 'snow'
+  | 'unknown'
+
+/** Tag dont la classification a été déduite, du plus fiable au moins fiable */
+export type SurfaceSource = 'surface' | 'tracktype' | 'smoothness' | 'highway' | 'default'
+
+export interface SurfaceInfo {
+  category: SurfaceCategory
+  class: SurfaceClass
+  source: SurfaceSource
+}
+
+export interface SurfaceCategoryShare {
+  category: SurfaceCategory
+  distance: number    // m
+  percentage: number  // % de la distance totale
+}
+
+export interface SurfaceBreakdownEntry {
+  type: SurfaceClass
+  distance: number    // m
+  percentage: number
+  categories: SurfaceCategoryShare[]
+}
+
+const SURFACE_TAG_CATEGORIES: Record<string, SurfaceCategory> = {
+  asphalt: 'asphalt', chipseal: 'asphalt',
+  concrete: 'concrete', 'concrete:plates': 'concrete', 'concrete:lanes': 'concrete',
+  paving_stones: 'paving', sett: 'paving', cobblestone: 'paving', unhewn_cobblestone: 'paving',
+  brick: 'paving', bricks: 'paving', grass_paver: 'paving',
+  wood: 'boardwalk', metal: 'boardwalk',
+  tartan: 'synthetic', artificial_turf: 'synthetic', rubber: 'synthetic', acrylic: 'synthetic',
+  paved: 'paved',
+  compacted: 'compacted', fine_gravel: 'compacted',
+  gravel: 'gravel', pebblestone: 'gravel', gravel_turf: 'gravel',
+  unpaved: 'dirt', dirt: 'dirt', earth: 'dirt', ground: 'dirt', soil: 'dirt', clay: 'dirt', woodchips: 'dirt',
+  grass: 'grass',
+  sand: 'sand',
+  mud: 'mud',
+  rock: 'rock', stone: 'rock', stepping_stones: 'rock',
+  snow: 'snow', ice: 'snow'
+}
+
+// Revêtu / non revêtu d'une catégorie, pour les valeurs absentes de SURFACE_TYPES
+const CATEGORY_CLASS: Record<SurfaceCategory, SurfaceClass> = {
+  asphalt: 'paved', concrete: 'paved', paving: 'paved', boardwalk: 'paved', synthetic: 'paved', paved: 'paved',
+  compacted: 'mixed',
+  gravel: 'unpaved', dirt: 'unpaved', grass: 'unpaved', sand: 'unpaved', mud: 'unpaved', rock: 'unpaved', snow: 'unpaved',
+  unknown: 'mixed'
+}
+
+export const SURFACE_CATEGORIES = Object.keys(CATEGORY_CLASS) as SurfaceCategory[]
+export const SURFACE_CLASSES: readonly SurfaceClass[] = ['paved', 'unpaved', 'mixed']
+
+export function isSurfaceCategory(value: string): value is SurfaceCategory {
+  return (SURFACE_CATEGORIES as readonly string[]).includes(value)
+}
+
+export function isSurfaceClass(value: string): value is SurfaceClass {
+  return (SURFACE_CLASSES as readonly string[]).includes(value)
+}
+
+// tracktype : grade1 revêtu ou très compact ... grade5 sol meuble
+const TRACKTYPE_CATEGORIES: Record<string, SurfaceCategory> = {
+  grade1: 'paved',
+  grade2: 'compacted',
+  grade3: 'gravel',
+  grade4: 'dirt',
+  grade5: 'grass'
+}
+
+const SMOOTHNESS_CATEGORIES: Record<string, SurfaceCategory> = {
+  excellent: 'paved',
+  good: 'paved',
+  intermediate: 'compacted',
+  bad: 'gravel',
+  very_bad: 'dirt',
+  horrible: 'dirt',
+  very_horrible: 'rock',
+  impassable: 'rock'
+}
+
+// Sans autre indication : routes et voies urbaines revêtues, chemins et pistes en terre
+const PAVED_HIGHWAYS = [
+  'motorway', 'trunk', 'primary', 'secondary', 'tertiary', 'unclassified', 'residential',
+  'living_street', 'service', 'pedestrian', 'footway', 'cycleway', 'steps'
+]
+const HIGHWAY_CATEGORIES: Record<string, SurfaceCategory> = {
+  track: 'gravel',
+  path: 'dirt',
+  bridleway: 'dirt'
+}
+
+function classFromSurfaceTypes(surface: string): SurfaceClass | undefined {
+  if ((SURFACE_TYPES.artificial as readonly string[]).includes(surface)) return 'paved'
+  if ((SURFACE_TYPES.natural as readonly string[]).includes(surface)) return 'unpaved'
+  if ((SURFACE_TYPES.mixed as readonly string[]).includes(surface)) return 'mixed'
+  return undefined
+}
+
+const fromCategory = (category: SurfaceCategory, source: SurfaceSource): SurfaceInfo =>
+  ({ category, class: CATEGORY_CLASS[category], source })
+
+/**
+ * Classe une voie à partir de ses tags OSM : `surface`, puis `tracktype`, `smoothness`
+ * et enfin `highway`. Les valeurs multiples (`asphalt;gravel`) prennent la première.
+ */
+export function classifySurface(tags: Record<string, string> = {}): SurfaceInfo {
+  const surface = tags.surface?.toLowerCase().split(';')[0].trim()
+  if (surface) {
+    const category = SURFACE_TAG_CATEGORIES[surface]
+      ?? (surface.includes('unpaved') ? 'dirt' : surface.includes('paved') ? 'paved' : undefined)
+    if (category) {
+      return { category, class: classFromSurfaceTypes(surface) ?? CATEGORY_CLASS[category], source: 'surface' }
+    }
+  }
+
+  const tracktype = TRACKTYPE_CATEGORIES[tags.tracktype?.toLowerCase() ?? '']
+  if (tracktype) return fromCategory(tracktype, 'tracktype')
+
+  const smoothness = SMOOTHNESS_CATEGORIES[tags.smoothness?.toLowerCase() ?? '']
+  if (smoothness) return fromCategory(smoothness, 'smoothness')
+
+  const highway = tags.highway?.toLowerCase()
+  if (highway && PAVED_HIGHWAYS.includes(highway)) return fromCategory('paved', 'highway')
+  if (highway && HIGHWAY_CATEGORIES[highway]) return fromCategory(HIGHWAY_CATEGORIES[highway], 'highway')
+
+  return fromCategory('unknown', 'default')
+}
+
+type SurfaceEdge = Pick<GraphEdge, 'surface' | 'highway_type' | 'tags' | 'surfaceCategory' | 'surfaceClass'>
+
+/**
+ * Classification d'une arête : celle calculée à la construction du graphe si présente
+ * (les graphes en cache plus anciens ne l'ont pas), sinon à partir de ses tags
+ */
+export function edgeSurfaceInfo(edge: SurfaceEdge): Omit<SurfaceInfo, 'source'> {
+  if (edge.surfaceCategory && edge.surfaceClass) {
+    return { category: edge.surfaceCategory, class: edge.surfaceClass }
+  }
+  return classifySurface({
+    ...(edge.surface ? { surface: edge.surface } : {}),
+    ...(edge.highway_type ? { highway: edge.highway_type } : {}),
+    ...edge.tags
+  })
+}
+
+/**
+ * Classe une arête en revêtu / non revêtu / mixte
+ */
+export function classifyEdgeSurface(edge: SurfaceEdge): SurfaceClass {
+  return edgeSurfaceInfo(edge).class
+}
+
+/**
+ * Répartition des surfaces (en distance et en %) pour une liste d'arêtes,
+ * avec le détail par catégorie fine de chaque classe
+ */
+export function computeSurfaceBreakdown(graph: Graph, edgeIds: string[]): SurfaceBreakdownEntry[] {
+  const classStats = new Map<SurfaceClass, Map<SurfaceCategory, number>>()
+  let total = 0
+  for (const edgeId of edgeIds) {
+    const edge = graph.edges.get(edgeId)
+    if (!edge) continue
+    const info = edgeSurfaceInfo(edge)
+    const categories = classStats.get(info.class) ?? new Map<SurfaceCategory, number>()
+    categories.set(info.category, (categories.get(info.category) || 0) + edge.distance)
+    classStats.set(info.class, categories)
+    total += edge.distance
+  }
+  const percentage = (distance: number) => total > 0 ? (distance / total) * 100 : 0
+  return Array.from(classStats.entries())
+    .map(([type, categories]) => {
+      const distance = Array.from(categories.values()).reduce((sum, d) => sum + d, 0)
+      return {
+        type,
+        distance,
+        percentage: percentage(distance),
+        categories: Array.from(categories.entries())
+          .map(([category, d]) => ({ category, distance: d, percentage: percentage(d) }))
+          .sort((a, b) => b.distance - a.distance)
+      }
+    })
+    .sort((a, b) => b.percentage - a.percentage)
+}
+
+/**
+ * Part (0-1) de la distance parcourue sur des surfaces non revêtues (les surfaces mixtes comptent pour moitié)
+ */
+export function unpavedRatio(breakdown: SurfaceBreakdownEntry[]): number {
+  const share = (type: SurfaceClass) => (breakdown.find(b => b.type === type)?.percentage ?? 0) / 100
+  return share('unpaved') + share('mixed') / 2
+}
+
+/**
+ * Déduit le type de terrain global d'un parcours
+ */
+export function terrainTypeFromBreakdown(breakdown: SurfaceBreakdownEntry[]): TerrainPreference {
+  if (breakdown.length === 0) return 'mixed'
+  if (breakdown[0].type === 'paved' && breakdown[0].percentage >= 80) return 'paved'
+  if (breakdown[0].type === 'unpaved' && breakdown[0].percentage >= 80) return 'unpaved'
+  return 'mixed'
+}
+
+// Pénalité d'une arête mixte (ou inconnue) quand une préférence est donnée, et d'une arête opposée
+const MIXED_PENALTY = 1.25
+const MISMATCH_PENALTY = 1.6
+
+/**
+ * Multiplicateur de poids (>= 1) d'une arête selon la préférence de terrain.
+ * Toujours >= 1 pour garder l'heuristique A* admissible.
+ */
+export function terrainWeightMultiplier(edge: GraphEdge, preference?: TerrainPreference): number {
+  if (!preference || preference === 'mixed') return 1
+  const surfaceClass = classifyEdgeSurface(edge)
+  if (surfaceClass === preference) return 1
+  return surfaceClass === 'mixed' ? MIXED_PENALTY : MISMATCH_PENALTY
+}
+
+// Points de qualité (sur 10) par catégorie, pour calculateWayQualityScore
+const CATEGORY_QUALITY: Record<SurfaceCategory, number> = {
+  asphalt: 10, concrete: 10, paved: 10, synthetic: 10,
+  paving: 9, boardwalk: 9,
+  compacted: 8, gravel: 8,
+  dirt: 6, grass: 5, rock: 4,
+  sand: 3, mud: 3, snow: 3,
+  unknown: 7
+}
+
+/**
+ * Points de qualité de la surface d'une voie. Seules les surfaces décrites par `surface`
+ * ou `tracktype` sont notées : `smoothness` et le type de voie sont comptés à part.
+ */
+export function surfaceQualityPoints(tags: Record<string, string>): number {
+  const info = classifySurface(tags)
+  return info.source === 'surface' || info.source === 'tracktype' ? CATEGORY_QUALITY[info.category] : CATEGORY_QUALITY.unknown
+}
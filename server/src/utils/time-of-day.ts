@@ -0,0 +1,107 @@
+// Routage selon l'heure de départ : voies éclairées de nuit, horaires d'ouverture (opening_hours)
+import { GraphEdge } from '../services/graph-builder.js'
+import { isOpenAt, LocalDateTime, SunMinutes } from './opening-hours.js'
+import { isDark, sunTimes } from './solar.js'
+
+export interface StartTime {
+  instant: Date
+  local: LocalDateTime
+  utcOffset: number   // minutes
+}
+
+export interface TimeOfDayContext extends StartTime {
+  dark: boolean
+  sun?: SunMinutes    // absent en jour ou nuit polaire
+}
+
+// Valeurs de lit=* considérées comme éclairées la nuit
+const LIT_VALUES = ['yes', '24/7', 'automatic', 'sunset-sunrise', 'dusk-dawn', 'interval', 'limited']
+// Pénalité d'une voie non éclairée de nuit
+export const UNLIT_NIGHT_PENALTY = 2.5
+
+const OFFSET_PATTERN = /(Z|[+-]\d{2}:?\d{2})$/i
+
+function localFields(instant: Date, utcOffset: number): LocalDateTime {
+  const shifted = new Date(instant.getTime() + utcOffset * 60000)
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth(),
+    day: shifted.getUTCDate(),
+    weekday: shifted.getUTCDay(),
+    minutes: shifted.getUTCHours() * 60 + shifted.getUTCMinutes()
+  }
+}
+
+/**
+ * Interprète une heure de départ ISO 8601 avec son décalage UTC (Z ou ±hh:mm), qui donne l'heure
+ * locale du départ (horaires d'ouverture, lever et coucher du soleil)
+ * @returns null si la date est invalide ou sans décalage (le fuseau du départ n'est pas deviné)
+ */
+export function parseStartTime(value: string): StartTime | null {
+  const offset = value.match(OFFSET_PATTERN)
+  if (!offset) return null
+  const instant = new Date(value)
+  if (isNaN(instant.getTime())) return null
+  const sign = offset[1].startsWith('-') ? -1 : 1
+  const digits = offset[1].replace(/[^\d]/g, '')
+  const utcOffset = offset[1].toUpperCase() === 'Z' ? 0 : sign * (parseInt(digits.slice(0, 2), 10) * 60 + parseInt(digits.slice(2), 10))
+  return { instant, local: localFields(instant, utcOffset), utcOffset }
+}
+
+/**
+ * Conditions au départ : nuit ou jour, lever / coucher du soleil en heure locale
+ */
+export function timeOfDayContext(startTime: string, lat: number, lon: number): TimeOfDayContext | null {
+  const start = parseStartTime(startTime)
+  if (!start) return null
+  const times = sunTimes(start.instant, lat, lon)
+  const toLocalMinutes = (date: Date) => localFields(date, start.utcOffset).minutes
+  return {
+    ...start,
+    dark: isDark(start.instant, lat, lon),
+    ...(times.sunrise && times.sunset ? { sun: { sunrise: toLocalMinutes(times.sunrise), sunset: toLocalMinutes(times.sunset) } } : {})
+  }
+}
+
+export function isLit(tags: Record<string, string> = {}): boolean {
+  return LIT_VALUES.includes((tags.lit || '').toLowerCase())
+}
+
+/**
+ * Horaires applicables à une arête (voie, portails, zones traversées)
+ */
+export function edgeOpeningHours(edge: GraphEdge): string[] {
+  if (edge.openingHours) return edge.openingHours
+  return edge.tags?.opening_hours ? [edge.tags.opening_hours] : []
+}
+
+/**
+ * Une arête est-elle fermée au moment du départ ? Horaires non compris : considérée ouverte
+ */
+export function isEdgeClosed(edge: GraphEdge, ctx: TimeOfDayContext): boolean {
+  return edgeOpeningHours(edge).some(value => isOpenAt(value, ctx.local, ctx.sun) === false)
+}
+
+/**
+ * Multiplicateur de poids selon l'heure : Infinity si fermé, pénalité des voies non éclairées de nuit
+ */
+export function timeOfDayMultiplier(edge: GraphEdge, ctx: TimeOfDayContext): number {
+  if (isEdgeClosed(edge, ctx)) return Infinity
+  return ctx.dark && !isLit(edge.tags) ? UNLIT_NIGHT_PENALTY : 1
+}
+
+const formatMinutes = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+
+/**
+ * Résumé des conditions au départ pour la réponse API (heures locales HH:MM)
+ */
+export function conditionsSummary(ctx: TimeOfDayContext) {
+  return {
+    start_time: ctx.instant.toISOString(),
+    utc_offset: ctx.utcOffset,
+    dark: ctx.dark,
+    sunrise: ctx.sun ? formatMinutes(ctx.sun.sunrise) : null,
+    sunset: ctx.sun ? formatMinutes(ctx.sun.sunset) : null
+  }
+}
@@ -0,0 +1,179 @@
+// Lecture des traces GPS importées (GPX, KML, GeoJSON LineString)
+import { CustomError } from '../middleware/error-handler.js'
+
+export type TrackFormat = 'gpx' | 'kml' | 'geojson'
+
+export interface ParsedTrack {
+  format: TrackFormat
+  name?: string
+  description?: string
+  coordinates: number[][]      // [lon, lat] ou [lon, lat, ele]
+  times?: string[]             // horodatages des points (GPX) si présents
+  waypoints: Array<{ lat: number, lon: number, name?: string }>
+}
+
+const decodeXml = (value: string) => value
+  .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+  .replace(/&lt;/g, '<').replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+  .replace(/&amp;/g, '&')
+  .trim()
+
+// Contenu texte du premier élément `tag` (préfixe d'espace de noms ignoré)
+function tagText(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`))
+  return match ? decodeXml(match[1]) : undefined
+}
+
+// Tous les éléments `tag` : attributs + contenu
+function elements(xml: string, tag: string): Array<{ attrs: string, body: string }> {
+  const re = new RegExp(`<(?:\\w+:)?${tag}(\\s[^>]*?)?(?:/>|>([\\s\\S]*?)</(?:\\w+:)?${tag}>)`, 'g')
+  return [...xml.matchAll(re)].map(m => ({ attrs: m[1] || '', body: m[2] || '' }))
+}
+
+const attr = (attrs: string, name: string): number => {
+  const match = attrs.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']+)["']`))
+  return match ? parseFloat(match[1]) : NaN
+}
+
+const isValidPoint = (lon: number, lat: number) =>
+  Number.isFinite(lon) && Number.isFinite(lat) && lat >= -90 && lat <= 90 && lon >= -180 && lon <= 180
+
+/**
+ * Détecte le format d'un fichier de trace (extension, puis contenu)
+ */
+export function detectTrackFormat(content: string, filename?: string): TrackFormat {
+  const ext = filename?.toLowerCase().split('.').pop()
+  if (ext === 'gpx') return 'gpx'
+  if (ext === 'kml') return 'kml'
+  if (ext === 'geojson' || ext === 'json') return 'geojson'
+  const head = content.trimStart().slice(0, 500)
+  if (head.startsWith('{')) return 'geojson'
+  if (/<gpx[\s>]/.test(head)) return 'gpx'
+  if (/<kml[\s>]/.test(head)) return 'kml'
+  throw new CustomError('Format de fichier non reconnu (GPX, KML ou GeoJSON attendu)', 400)
+}
+
+function parseGpx(xml: string): ParsedTrack {
+  const coordinates: number[][] = []
+  const times: string[] = []
+  // Points de trace, à défaut points d'itinéraire
+  let points = elements(xml, 'trkpt')
+  if (points.length === 0) points = elements(xml, 'rtept')
+  for (const { attrs, body } of points) {
+    const lat = attr(attrs, 'lat'), lon = attr(attrs, 'lon')
+    if (!isValidPoint(lon, lat)) continue
+    const ele = parseFloat(tagText(body, 'ele') ?? '')
+    coordinates.push(Number.isFinite(ele) ? [lon, lat, ele] : [lon, lat])
+    const time = tagText(body, 'time')
+    if (time) times.push(time)
+  }
+  const waypoints = elements(xml, 'wpt')
+    .map(({ attrs, body }) => ({ lat: attr(attrs, 'lat'), lon: attr(attrs, 'lon'), name: tagText(body, 'name') }))
+    .filter(wp => isValidPoint(wp.lon, wp.lat))
+  const header = tagText(xml, 'metadata') ?? tagText(xml, 'trk') ?? ''
+  return {
+    format: 'gpx',
+    name: tagText(header, 'name'),
+    description: tagText(header, 'desc'),
+    coordinates,
+    times: times.length === coordinates.length ? times : undefined,
+    waypoints
+  }
+}
+
+// "lon,lat[,ele] lon,lat[,ele] ..." (balise <coordinates> KML)
+function parseKmlCoordinates(text: string): number[][] {
+  return text.trim().split(/\s+/)
+    .map(tuple => tuple.split(',').map(Number))
+    .filter(([lon, lat]) => isValidPoint(lon, lat))
+    .map(([lon, lat, ele]) => Number.isFinite(ele) ? [lon, lat, ele] : [lon, lat])
+}
+
+function parseKml(xml: string): ParsedTrack {
+  const coordinates: number[][] = []
+  const waypoints: ParsedTrack['waypoints'] = []
+  for (const { body } of elements(xml, 'Placemark')) {
+    const line = tagText(body, 'LineString')
+    if (line !== undefined) {
+      coordinates.push(...parseKmlCoordinates(tagText(line, 'coordinates') ?? ''))
+      continue
+    }
+    // gx:Track : une balise <gx:coord>lon lat ele</gx:coord> par point
+    const track = elements(body, 'coord').map(c => c.body.trim().split(/\s+/).map(Number))
+    if (track.length > 0) {
+      coordinates.push(...track.filter(([lon, lat]) => isValidPoint(lon, lat)))
+      continue
+    }
+    const point = tagText(body, 'Point')
+    if (point !== undefined) {
+      const [p] = parseKmlCoordinates(tagText(point, 'coordinates') ?? '')
+      if (p) waypoints.push({ lon: p[0], lat: p[1], name: tagText(body, 'name') })
+    }
+  }
+  const document = tagText(xml, 'Document') ?? xml
+  return {
+    format: 'kml',
+    name: tagText(document, 'name'),
+    description: tagText(document, 'description'),
+    coordinates,
+    waypoints
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Position GeoJSON [lon, lat] ou [lon, lat, ele] valide
+const isPosition = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'number') && isValidPoint(value[0], value[1])
+
+const text = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined)
+
+function parseGeoJson(content: string): ParsedTrack {
+  let data: unknown
+  try {
+    data = JSON.parse(content)
+  } catch {
+    throw new CustomError('GeoJSON invalide', 400)
+  }
+  if (!isRecord(data)) throw new CustomError('GeoJSON invalide', 400)
+  const features: unknown[] = data.type === 'FeatureCollection' ? (Array.isArray(data.features) ? data.features : [])
+    : data.type === 'Feature' ? [data]
+    : [{ type: 'Feature', geometry: data, properties: {} }]
+
+  const coordinates: number[][] = []
+  const waypoints: ParsedTrack['waypoints'] = []
+  let name: string | undefined, description: string | undefined
+  for (const feature of features) {
+    if (!isRecord(feature) || !isRecord(feature.geometry)) continue
+    const { type, coordinates: positions } = feature.geometry
+    const props = isRecord(feature.properties) ? feature.properties : {}
+    if ((type === 'LineString' || type === 'MultiLineString') && Array.isArray(positions)) {
+      const lines = type === 'LineString' ? [positions] : positions
+      for (const line of lines) {
+        if (Array.isArray(line)) coordinates.push(...line.filter(isPosition))
+      }
+      name = name ?? text(props.name)
+      description = description ?? text(props.description) ?? text(props.desc)
+    } else if (type === 'Point' && isPosition(positions)) {
+      waypoints.push({ lon: positions[0], lat: positions[1], name: text(props.name) })
+    }
+  }
+  return { format: 'geojson', name, description, coordinates, waypoints }
+}
+
+/**
+ * Lit une trace GPX, KML ou GeoJSON (LineString / MultiLineString)
+ * @throws CustomError (400) si le format est inconnu ou la trace inexploitable
+ */
+export function parseTrackFile(content: string, filename?: string): ParsedTrack {
+  const format = detectTrackFormat(content, filename)
+  const track = format === 'gpx' ? parseGpx(content)
+    : format === 'kml' ? parseKml(content)
+    : parseGeoJson(content)
+  if (track.coordinates.length < 2) {
+    throw new CustomError('Aucune trace (au moins 2 points) trouvée dans le fichier', 400)
+  }
+  return track
+}
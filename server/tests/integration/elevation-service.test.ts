@@ -0,0 +1,50 @@
+import { describe, it, expect, afterEach } from '@jest/globals'
+import { fillElevationGaps, getElevations, setElevationProvider } from '../../src/services/elevation-service.js'
+import { ElevationProvider, FallbackElevationProvider } from '../../src/services/elevation-providers.js'
+import { buildGraph } from '../../src/services/graph-builder.js'
+import { assembleRoute } from '../../src/services/route-assembler.js'
+
+const unknown = (name: string): ElevationProvider => ({ name, getElevations: async coordinates => coordinates.map(() => null) })
+const failing: ElevationProvider = { name: 'failing', getElevations: async () => { throw new Error('hors ligne') } }
+
+describe('Elevation service', () => {
+  afterEach(() => setElevationProvider(null))
+
+  it('should interpolate gaps between known elevations', () => {
+    expect(fillElevationGaps([null, 100, null, 120, null])).toEqual([100, 100, 110, 120, 120])
+    expect(fillElevationGaps([])).toEqual([])
+  })
+
+  it('should not invent an elevation when no source knows any point', async () => {
+    expect(fillElevationGaps([null, null, NaN])).toBeNull()
+
+    const coordinates: [number, number][] = [[1.44, 43.6], [1.45, 43.61]]
+    setElevationProvider(new FallbackElevationProvider([unknown('local'), unknown('open-elevation')]))
+    expect(await getElevations(coordinates)).toBeNull()
+    setElevationProvider(failing)
+    expect(await getElevations(coordinates)).toBeNull()
+  })
+
+  it('should drop the elevation profile and stats of a route without elevations', async () => {
+    const graph = buildGraph({
+      elements: [
+        { type: 'node', id: 1, lat: 43.6000, lon: 1.4400 },
+        { type: 'node', id: 2, lat: 43.6000, lon: 1.4420 },
+        { type: 'node', id: 3, lat: 43.6010, lon: 1.4420 },
+        { type: 'way', id: 10, nodes: [1, 2, 3], tags: { highway: 'path' } }
+      ]
+    })
+    setElevationProvider(failing)
+
+    const route = await assembleRoute(graph, {
+      loop: ['osm_node_1', 'osm_node_2', 'osm_node_3'],
+      pathEdges: ['osm_node_1-osm_node_2', 'osm_node_2-osm_node_3'],
+      distance: 270,
+      qualityScore: 0
+    })
+    expect(route.elevation_profile).toEqual([])
+    expect(route.elevation_stats).toBeNull()
+    expect(route.elevation).toBeUndefined()
+    expect(route.elevation_loss).toBeUndefined()
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, it, expect } from '@jest/globals'
+import { buildGraph, Graph } from '../../src/services/graph-builder.js'
+import { encodeGraph, decodeGraph, readGraphMeta, graphCacheVersion, GRAPH_CACHE_VERSION } from '../../src/services/graph-codec.js'
+
+// Réseau de 30 × 30 nœuds : voies nord-sud et est-ouest avec tags variés
+function osmGrid(size: number) {
+  const elements: any[] = []
+  const id = (x: number, y: number) => 1000000 + x * size + y
+  for (let x = 0; x < size; x++) {
+    for (let y = 0; y < size; y++) {
+      elements.push({ type: 'node', id: id(x, y), lat: 43.6 + y * 0.0007, lon: 1.44 + x * 0.0009, ...(x === 3 && y === 4 ? { tags: { barrier: 'gate', opening_hours: '07:00-21:00' } } : {}) })
+    }
+  }
+  for (let x = 0; x < size; x++) {
+    const nodes = Array.from({ length: size }, (_, y) => id(x, y))
+    elements.push({ type: 'way', id: 500 + x, nodes, tags: { highway: x % 3 ? 'residential' : 'path', surface: x % 2 ? 'asphalt' : 'gravel', name: `Rue ${x}`, lit: 'yes' } })
+  }
+  for (let y = 0; y < size; y++) {
+    const nodes = Array.from({ length: size }, (_, x) => id(x, y))
+    elements.push({ type: 'way', id: 900 + y, nodes, tags: { highway: 'footway', ...(y % 5 === 0 ? { oneway: 'yes', access: 'destination' } : {}) } })
+  }
+  return { elements }
+}
+
+const meta = { area: { lat: 43.6, lon: 1.44, radius: 2 }, osmDataVersion: 'unknown', createdAt: '2026-10-19T08:00:00.000Z', nodesCount: 0, edgesCount: 0 }
+
+describe('Binary graph cache format', () => {
+  const graph = buildGraph(osmGrid(30))
+  graph.nodes.get('osm_node_1000000')!.elevation = 152.4
+  const edge = graph.edges.values().next().value!
+  Object.assign(edge, { ascent: 1.5, descent: 0, grade: 2.25 })
+
+  it('should round-trip nodes, edges, tags and metadata', () => {
+    const decoded = decodeGraph<typeof meta>(encodeGraph(graph, meta))
+
+    expect(decoded.meta).toEqual(meta)
+    expect(decoded.graph.nodes).toEqual(graph.nodes)
+    expect(decoded.graph.edges).toEqual(graph.edges)
+    // Tags d'une même voie partagés entre ses arêtes
+    const [a, b] = Array.from(decoded.graph.edges.values()).filter(e => e.osmWayId === '500')
+    expect(a.tags).toBe(b.tags)
+  })
+
+  it('should keep custom ids and unknown fields', () => {
+    const custom: Graph = {
+      nodes: new Map([
+        ['A', { id: 'A', osmId: 'x1', lat: 1, lon: 2, connections: ['B', 'ghost'] }],
+        ['B', { id: 'B', osmId: '2', lat: 1.001, lon: 2, connections: ['A'], tags: {} }]
+      ]),
+      edges: new Map([['AB', { id: 'AB', osmWayId: 'w', from: 'A', to: 'B', distance: 111, weight: 111, oneway: false, qualityScore: 7 } as any]])
+    }
+    const decoded = decodeGraph(encodeGraph(custom, {}))
+
+    expect(decoded.graph.nodes).toEqual(custom.nodes)
+    expect(decoded.graph.edges).toEqual(custom.edges)
+  })
+
+  it('should drop surface categories and classes unknown to the classifier', () => {
+    const surfaces: Graph = {
+      nodes: new Map([
+        ['A', { id: 'A', osmId: '1', lat: 1, lon: 2, connections: ['B'] }],
+        ['B', { id: 'B', osmId: '2', lat: 1.001, lon: 2, connections: ['A'] }]
+      ]),
+      edges: new Map([
+        ['A-B', { id: 'A-B', osmWayId: 'w1', from: 'A', to: 'B', distance: 111, weight: 111, surface: 'lava', surfaceCategory: 'lava', surfaceClass: 'molten' } as any],
+        ['B-A', { id: 'B-A', osmWayId: 'w2', from: 'B', to: 'A', distance: 111, weight: 111, surface: 'gravel', surfaceCategory: 'gravel', surfaceClass: 'unpaved' }]
+      ])
+    }
+    const { edges } = decodeGraph(encodeGraph(surfaces, {})).graph
+
+    expect(edges.get('A-B')).toEqual({ id: 'A-B', osmWayId: 'w1', from: 'A', to: 'B', distance: 111, weight: 111, surface: 'lava' })
+    expect(edges.get('B-A')).toEqual(surfaces.edges.get('B-A'))
+  })
+
+  it('should be an order of magnitude smaller than the pretty-printed JSON cache', () => {
+    const json = JSON.stringify({ ...meta, graph: { nodes: Object.fromEntries(graph.nodes), edges: Object.fromEntries(graph.edges) } }, null, 2)
+    const binary = encodeGraph(graph, meta)
+
+    expect(binary.length * 10).toBeLessThan(Buffer.byteLength(json))
+  })
+
+  it('should reject corrupted, truncated and outdated files', () => {
+    const binary = encodeGraph(graph, meta)
+    const corrupted = Buffer.from(binary)
+    corrupted[corrupted.length - 20] ^= 0xff
+    const outdated = Buffer.from(binary)
+    outdated.writeUInt16LE(GRAPH_CACHE_VERSION + 1, 4)
+
+    expect(graphCacheVersion(binary)).toBe(GRAPH_CACHE_VERSION)
+    expect(readGraphMeta(binary)).toEqual(meta)
+    expect(() => decodeGraph(corrupted)).toThrow(/Invalid graph cache/)
+    expect(() => decodeGraph(binary.subarray(0, binary.length - 8))).toThrow(/truncated/)
+    expect(() => decodeGraph(outdated)).toThrow(/schema version/)
+    expect(() => decodeGraph(Buffer.from('{"graph":{}}'))).toThrow(/bad magic/)
+  })
+})
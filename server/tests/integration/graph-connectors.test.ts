@@ -0,0 +1,120 @@
+import { describe, it, expect } from '@jest/globals'
+import { buildGraph, validateGraph, connectedComponents, computeEdgeElevationDeltas } from '../../src/services/graph-builder.js'
+import { inferConnectors } from '../../src/services/graph-connectors.js'
+import { astar } from '../../src/algorithms/pathfinding.js'
+import { validateRouteAgainstOSM } from '../../src/utils/route-validator.js'
+
+// Une rue 1 - 2, un sentier 11 - 12 qui s'arrête à 11 m de la rue (traversée manquante),
+// un trottoir 21 - 22 qui s'arrête à 1 m du carrefour 2 et une antenne 2 - 41 de la rue elle-même
+function osmNetwork(extra: (node: (id: number, lat: number, lon: number, tags?: Record<string, string>) => void,
+                           way: (id: number, nodes: number[], tags: Record<string, string>) => void) => void = () => {}) {
+  const elements: any[] = []
+  const node = (id: number, lat: number, lon: number, tags?: Record<string, string>) =>
+    elements.push({ type: 'node', id, lat, lon, ...(tags ? { tags } : {}) })
+  const way = (id: number, nodes: number[], tags: Record<string, string>) => elements.push({ type: 'way', id, nodes, tags })
+
+  node(1, 43.6000, 1.4400)
+  node(2, 43.6000, 1.4420)
+  way(1, [1, 2], { highway: 'residential' })
+  node(11, 43.6010, 1.4410)
+  node(12, 43.6001, 1.4410)
+  way(10, [11, 12], { highway: 'path' })
+  node(21, 43.6010, 1.4425)
+  node(22, 43.60001, 1.44201)
+  way(20, [21, 22], { highway: 'footway' })
+  node(41, 43.6001, 1.4415)
+  way(40, [2, 41], { highway: 'service' })
+  extra(node, way)
+  return { elements }
+}
+
+describe('Connector inference between sub-networks', () => {
+  it('should link dangling paths to a nearby road, splitting it or reusing its junction', () => {
+    const graph = buildGraph(osmNetwork())
+    const edgeCount = graph.edges.size
+
+    expect(inferConnectors(graph, osmNetwork())).toBe(2)
+    expect(validateGraph(graph).valid).toBe(true)
+    expect(connectedComponents(graph).lengths).toHaveLength(1)
+
+    // Sentier : raccordé au milieu de la rue, coupée au point projeté
+    const joint = graph.nodes.get('connector_node_12')!
+    expect(joint.lat).toBeCloseTo(43.6000, 6)
+    expect(graph.edges.has('osm_node_1-osm_node_2')).toBe(false)
+    expect(graph.edges.get('osm_node_1-connector_node_12')!.distance + graph.edges.get('connector_node_12-osm_node_2')!.distance)
+      .toBeCloseTo(graph.edges.get('osm_node_2-connector_node_12')!.distance + graph.edges.get('connector_node_12-osm_node_1')!.distance, 6)
+    const connector = graph.edges.get('osm_node_12-connector_node_12')!
+    expect(connector.inferred).toBe(true)
+    expect(connector.distance).toBeCloseTo(11.1, 0)
+    expect(graph.edges.get('connector_node_12-osm_node_12')!.inferred).toBe(true)
+
+    // Trottoir : raccordé directement au carrefour ; l'antenne de la rue n'est pas touchée
+    expect(graph.edges.get('osm_node_22-osm_node_2')!.inferred).toBe(true)
+    expect(graph.nodes.get('osm_node_41')!.connections).toEqual(['osm_node_2'])
+    expect(graph.edges.size).toBe(edgeCount + 2 + 2 * 2)   // rue coupée (+2), deux liaisons à double sens
+  })
+
+  it('should split elevation deltas and grades between the two parts of a cut edge', () => {
+    const graph = buildGraph(osmNetwork())
+    graph.nodes.forEach((node, id) => { node.elevation = id === 'osm_node_2' ? 130 : 100 })
+    computeEdgeElevationDeltas(graph)
+    const road = graph.edges.get('osm_node_1-osm_node_2')!
+    road.maxGrade = 25
+    inferConnectors(graph, osmNetwork())
+
+    expect(graph.nodes.get('connector_node_12')!.elevation).toBeCloseTo(115, 6)
+    const [head, tail] = [graph.edges.get('osm_node_1-connector_node_12')!, graph.edges.get('connector_node_12-osm_node_2')!]
+    const back = graph.edges.get('osm_node_2-connector_node_12')!
+    expect(head.ascent).toBeCloseTo(15, 6)
+    expect(head.ascent! + tail.ascent!).toBeCloseTo(road.ascent!, 6)
+    expect(head.grade).toBeCloseTo(15 / head.distance * 100, 6)
+    expect(back.descent).toBeCloseTo(15, 6)
+    expect(back.grade).toBeCloseTo(-15 / back.distance * 100, 6)
+    expect(head.maxGrade).toBeUndefined()
+    expect(head.osmWayId).toBe(road.osmWayId)
+    expect(head.splitFrom).toBe('osm_node_1-osm_node_2')
+    expect(back.splitFrom).toBe('osm_node_2-osm_node_1')
+  })
+
+  it('should not cross major roads or linear barriers', () => {
+    const primary = osmNetwork((node, way) => {
+      node(51, 43.60005, 1.4405)
+      node(52, 43.60005, 1.4415)
+      way(50, [51, 52], { highway: 'primary' })
+    })
+    const fenced = osmNetwork((node, way) => {
+      node(61, 43.60005, 1.4405)
+      node(62, 43.60005, 1.4415)
+      way(60, [61, 62], { barrier: 'fence' })
+    })
+
+    for (const osmData of [primary, fenced]) {
+      const graph = buildGraph(osmData)
+      expect(inferConnectors(graph, osmData)).toBe(1)
+      expect(graph.nodes.has('connector_node_12')).toBe(false)
+      expect(graph.nodes.get('osm_node_12')!.connections).toEqual(['osm_node_11'])
+    }
+  })
+
+  it('should not start a connector from a barrier', () => {
+    const gated = osmNetwork((node) => node(12, 43.6001, 1.4410, { barrier: 'gate' }))
+    const graph = buildGraph(gated)
+
+    expect(inferConnectors(graph, gated)).toBe(1)
+    expect(graph.nodes.has('connector_node_12')).toBe(false)
+  })
+
+  it('should flag routes using inferred connectors', () => {
+    const graph = buildGraph(osmNetwork())
+    inferConnectors(graph, osmNetwork())
+
+    const path = astar(graph, 'osm_node_11', 'osm_node_1', 10000, 5000)!.path
+    const pathEdges = path.slice(1).map((to, i) => `${path[i]}-${to}`)
+    const validation = validateRouteAgainstOSM({ loop: path, pathEdges, distance: 0, qualityScore: 0 }, graph)
+
+    expect(path).toEqual(['osm_node_11', 'osm_node_12', 'connector_node_12', 'osm_node_1'])
+    expect(validation.valid).toBe(true)
+    expect(validation.stats.inferredSegments).toBe(1)
+    expect(validation.warnings).toContain('Edge osm_node_12-connector_node_12 is an inferred connector (not in OSM)')
+  })
+})
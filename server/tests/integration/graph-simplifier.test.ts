@@ -0,0 +1,100 @@
+import { describe, it, expect } from '@jest/globals'
+import { buildGraph, validateGraph, computeEdgeElevationDeltas } from '../../src/services/graph-builder.js'
+import { simplifyGraph, expandPath } from '../../src/services/graph-simplifier.js'
+import { astar } from '../../src/algorithms/pathfinding.js'
+
+// Deux carrefours A (1) et B (2) reliés par un sentier sinueux (40 points) et par une piste parallèle,
+// une antenne en sens unique, un changement de revêtement et un sentier en boucle sans carrefour
+function osmNetwork() {
+  const elements: any[] = []
+  const node = (id: number, lat: number, lon: number) => elements.push({ type: 'node', id, lat, lon })
+  const way = (id: number, nodes: number[], tags: Record<string, string>) => elements.push({ type: 'way', id, nodes, tags })
+
+  node(1, 43.6000, 1.4400)
+  node(2, 43.6000, 1.4600)
+  const curvy = Array.from({ length: 40 }, (_, i) => 100 + i)
+  curvy.forEach((id, i) => node(id, 43.6000 + 0.001 * Math.sin(i / 3), 1.4400 + 0.02 * (i + 1) / 41))
+  way(10, [1, ...curvy, 2], { highway: 'path' })
+  node(200, 43.5990, 1.4500)
+  way(11, [1, 200, 2], { highway: 'track' })
+  way(12, [201, 202, 203], { highway: 'footway' })
+  node(201, 43.5980, 1.4400)
+  node(202, 43.5970, 1.4420)
+  node(203, 43.5960, 1.4440)
+  way(13, [2, 301, 302], { highway: 'footway', oneway: 'yes' })
+  way(14, [302, 303, 304], { highway: 'footway', oneway: 'yes', surface: 'gravel' })
+  node(301, 43.6010, 1.4610)
+  node(302, 43.6020, 1.4620)
+  node(303, 43.6030, 1.4630)
+  node(304, 43.6040, 1.4640)
+  way(15, [1, 201], { highway: 'footway' })
+  const ring = [401, 402, 403, 404]
+  ring.forEach((id, i) => node(id, 43.61 + 0.001 * Math.cos(i * Math.PI / 2), 1.45 + 0.001 * Math.sin(i * Math.PI / 2)))
+  way(16, [...ring, 401], { highway: 'path' })
+  return { elements }
+}
+
+const totalDistance = (edges: Iterable<{ distance: number }>) => Array.from(edges).reduce((sum, e) => sum + e.distance, 0)
+
+describe('Graph simplification', () => {
+  const graph = buildGraph(osmNetwork())
+  const simplified = simplifyGraph(graph)
+
+  it('should merge degree-2 chains into compound edges keeping their geometry', () => {
+    expect(validateGraph(simplified).valid).toBe(true)
+    expect(simplified.nodes.size).toBeLessThan(graph.nodes.size / 4)
+    expect(simplified.nodes.has('osm_node_110')).toBe(false)
+
+    const compound = simplified.edges.get('osm_node_1-osm_node_120')!
+    const chain = ['osm_node_1', ...compound.via!, 'osm_node_120']
+    expect(compound.via).toHaveLength(20)
+    expect(compound.geometry![0]).toEqual([graph.nodes.get('osm_node_100')!.lon, graph.nodes.get('osm_node_100')!.lat])
+    expect(compound.distance).toBeCloseTo(totalDistance(chain.slice(1).map((to, i) => graph.edges.get(`${chain[i]}-${to}`)!)), 6)
+    expect(compound.tags).toEqual({ highway: 'path' })
+    expect(simplified.edges.get('osm_node_120-osm_node_1')!.via).toEqual([...compound.via!].reverse())
+
+    // Chaque tronçon d'origine est couvert une seule fois
+    expect(totalDistance(simplified.edges.values())).toBeCloseTo(totalDistance(graph.edges.values()), 6)
+    for (const node of simplified.nodes.values()) {
+      for (const neighbour of node.connections) expect(simplified.edges.has(`${node.id}-${neighbour}`)).toBe(true)
+    }
+  })
+
+  it('should keep attribute changes, one-way chains and closed rings', () => {
+    expect(simplified.nodes.has('osm_node_302')).toBe(true)
+    expect(simplified.edges.get('osm_node_2-osm_node_302')!.via).toEqual(['osm_node_301'])
+    expect(simplified.edges.has('osm_node_302-osm_node_2')).toBe(false)
+    expect(simplified.edges.get('osm_node_302-osm_node_304')!.surface).toBe('gravel')
+
+    // Sentier parallèle à la piste (arête 1-2) : coupé en son milieu
+    expect(simplified.edges.get('osm_node_1-osm_node_2')!.via).toEqual(['osm_node_200'])
+    expect(simplified.nodes.has('osm_node_120')).toBe(true)
+    expect(Array.from(simplified.nodes.keys()).filter(id => /osm_node_40\d/.test(id)).length).toBeGreaterThanOrEqual(2)
+  })
+
+  it('should aggregate elevation deltas and keep the steepest grade', () => {
+    const hilly = buildGraph(osmNetwork())
+    hilly.nodes.forEach((node, id) => { node.elevation = id === 'osm_node_110' ? 180 : 150 })
+    computeEdgeElevationDeltas(hilly)
+    const compound = simplifyGraph(hilly).edges.get('osm_node_1-osm_node_120')!
+
+    expect(compound.ascent).toBeCloseTo(30)
+    expect(compound.descent).toBeCloseTo(30)
+    expect(compound.grade).toBe(0)
+    expect(compound.maxGrade).toBeGreaterThan(5)
+  })
+
+  it('should expand paths found on the simplified graph back to the full graph', () => {
+    const full = astar(graph, 'osm_node_203', 'osm_node_304', 10000, 5000)!
+    const short = astar(simplified, 'osm_node_203', 'osm_node_304', 10000, 5000)!
+    expect(short.path.length).toBeLessThan(full.path.length)
+    expect(short.distance).toBeCloseTo(full.distance, 6)
+
+    const pathEdges = short.path.slice(1).map((to, i) => `${short.path[i]}-${to}`)
+    const expanded = expandPath(simplified, { loop: short.path, pathEdges, distance: short.distance })
+    expect(expanded.loop).toEqual(full.path)
+    expect(expanded.pathEdges).toEqual(full.path.slice(1).map((to, i) => `${full.path[i]}-${to}`))
+    expect(expanded.pathEdges.every(id => graph.edges.has(id))).toBe(true)
+    expect(expanded.distance).toBe(short.distance)
+  })
+})
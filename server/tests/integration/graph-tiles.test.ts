@@ -0,0 +1,71 @@
+import { describe, it, expect } from '@jest/globals'
+import { buildGraph, validateGraph } from '../../src/services/graph-builder.js'
+import { tileOf, tileBounds, tilesCovering, tilesBounds, tileName, groupTiles, splitGraph, stitchGraphs } from '../../src/services/graph-tiles.js'
+import { encodeGraph, decodeGraph } from '../../src/services/graph-codec.js'
+
+// Réseau de 25 × 25 nœuds espacés de ~200 m : plusieurs tuiles z14, quelques voies à sens unique
+function osmGrid(size: number) {
+  const elements: any[] = []
+  const id = (x: number, y: number) => 1000000 + x * size + y
+  for (let x = 0; x < size; x++) {
+    for (let y = 0; y < size; y++) elements.push({ type: 'node', id: id(x, y), lat: 43.58 + y * 0.0019, lon: 1.42 + x * 0.0023 })
+  }
+  for (let x = 0; x < size; x++) {
+    elements.push({ type: 'way', id: 500 + x, nodes: Array.from({ length: size }, (_, y) => id(x, y)), tags: { highway: 'path' } })
+  }
+  for (let y = 0; y < size; y++) {
+    const tags = { highway: 'footway', ...(y % 4 === 0 ? { oneway: 'yes' } : {}) }
+    elements.push({ type: 'way', id: 900 + y, nodes: Array.from({ length: size }, (_, x) => id(x, y)), tags })
+  }
+  return { elements }
+}
+
+const BOUNDS = { north: 43.6256, south: 43.58, east: 1.4752, west: 1.42 }
+
+describe('Tiled graph storage', () => {
+  const graph = buildGraph(osmGrid(25))
+  const tiles = tilesCovering(BOUNDS)
+
+  it('should map points to the z14 tiles containing them', () => {
+    const tile = tileOf(43.6045, 1.444)
+    const bounds = tileBounds(tile)
+
+    expect(tile).toEqual({ z: 14, x: 8257, y: 5982 })
+    expect(bounds.south).toBeLessThanOrEqual(43.6045)
+    expect(bounds.north).toBeGreaterThan(43.6045)
+    expect(bounds.west).toBeLessThanOrEqual(1.444)
+    expect(bounds.east).toBeGreaterThan(1.444)
+    expect(tiles.length).toBeGreaterThan(4)
+    expect(tilesBounds(tiles).north).toBeGreaterThanOrEqual(BOUNDS.north)
+    expect(groupTiles(tiles, 2).flat()).toHaveLength(tiles.length)
+  })
+
+  it('should stitch tiles back into the original graph', () => {
+    const split = splitGraph(graph, tiles)
+    const stitched = stitchGraphs(tiles.map(tile => split.get(tileName(tile))!))
+
+    expect(stitched.edges).toEqual(graph.edges)
+    expect(stitched.nodes).toEqual(graph.nodes)
+  })
+
+  it('should give a consistent graph for a subset of tiles, including after a cache round-trip', () => {
+    const split = splitGraph(graph, tiles)
+    const subset = tiles.slice(0, 3).map(tile => decodeGraph(encodeGraph(split.get(tileName(tile))!, {})).graph)
+    const stitched = stitchGraphs(subset)
+
+    expect(validateGraph(stitched).valid).toBe(true)
+    expect(stitched.edges.size).toBe(subset.reduce((sum, g) => sum + g.edges.size, 0))
+    for (const node of stitched.nodes.values()) {
+      for (const neighbour of node.connections) expect(stitched.edges.has(`${node.id}-${neighbour}`)).toBe(true)
+    }
+  })
+
+  it('should keep empty tiles so that they are cached too', () => {
+    const far = { z: 14, x: 100, y: 100 }
+    const split = splitGraph(graph, [far])
+    const empty = split.get(tileName(far))!
+
+    expect(empty.nodes.size).toBe(0)
+    expect(decodeGraph(encodeGraph(empty, { tile: tileName(far) })).meta).toEqual({ tile: '14/100/100' })
+  })
+})
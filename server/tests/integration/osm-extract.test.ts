@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { deflateSync } from 'zlib'
+import { importOsmExtract, extractFormat } from '../../src/services/osm-extract.js'
+import { createOsmXmlParser } from '../../src/utils/osm-xml.js'
+import { OsmNodeRecord, OsmWayRecord } from '../../src/utils/osm-pbf.js'
+import { buildGraph } from '../../src/services/graph-builder.js'
+
+// Petit extrait : deux chemins reliés, une autoroute, un parc avec horaires, un sentier sortant de la zone
+// et un sentier éloigné
+const NODES: OsmNodeRecord[] = [
+  { id: 3000000001, lat: 43.6001, lon: 1.4401 },
+  { id: 3000000002, lat: 43.6011, lon: 1.4412, tags: { barrier: 'gate', access: 'yes' } },
+  { id: 3000000003, lat: 43.6020, lon: 1.4425 },
+  { id: 3000000004, lat: 43.6031, lon: 1.4433 },
+  { id: 3000000005, lat: 43.6042, lon: 1.4447, tags: { highway: 'motorway_junction' } },
+  { id: 3000000006, lat: 43.6005, lon: 1.4430 },
+  { id: 3000000007, lat: 43.6015, lon: 1.4440 },
+  { id: 3000000008, lat: 43.9000, lon: 1.9000 },
+  { id: 3000000009, lat: 43.9010, lon: 1.9010 },
+  { id: 3000000010, lat: 43.6200, lon: 1.4440 }
+]
+const WAYS: OsmWayRecord[] = [
+  { id: 701, nodes: [3000000001, 3000000002, 3000000003], tags: { highway: 'footway', surface: 'gravel' } },
+  { id: 702, nodes: [3000000003, 3000000004], tags: { highway: 'path', name: "Chemin d'Aulne & Co" } },
+  { id: 703, nodes: [3000000004, 3000000005], tags: { highway: 'motorway' } },
+  { id: 704, nodes: [3000000006, 3000000007, 3000000003, 3000000006], tags: { leisure: 'park', opening_hours: '08:00-20:00' } },
+  { id: 705, nodes: [3000000008, 3000000009], tags: { highway: 'track' } },
+  { id: 706, nodes: [3000000004, 3000000010], tags: { highway: 'footway' } }
+]
+const AREA = { north: 43.61, south: 43.59, east: 1.45, west: 1.43 }
+
+const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/'/g, '&apos;').replace(/</g, '&lt;')
+const xmlTags = (tags: Record<string, string> = {}) =>
+  Object.entries(tags).map(([k, v]) => `    <tag k="${k}" v="${escape(v)}"/>\n`).join('')
+
+function osmXml(): string {
+  return '<?xml version="1.0" encoding="UTF-8"?>\n<osm version="0.6" generator="test" timestamp="2026-10-01T00:00:00Z">\n'
+    + '  <bounds minlat="43.5" minlon="1.4" maxlat="44" maxlon="2"/>\n'
+    + NODES.map(n => n.tags
+      ? `  <node id="${n.id}" lat="${n.lat}" lon="${n.lon}" version="1">\n${xmlTags(n.tags)}  </node>\n`
+      : `  <node id="${n.id}" lat="${n.lat}" lon="${n.lon}" version="1"/>\n`).join('')
+    + WAYS.map(w => `  <way id="${w.id}">\n${w.nodes.map(ref => `    <nd ref="${ref}"/>\n`).join('')}${xmlTags(w.tags)}  </way>\n`).join('')
+    + '  <relation id="9"><member type="way" ref="701" role=""/><tag k="type" v="route"/></relation>\n</osm>\n'
+}
+
+// ---- Écriture PBF minimale (protobuf) ----
+const varint = (n: number): number[] => {
+  const out: number[] = []
+  for (; n >= 128; n = Math.floor(n / 128)) out.push((n % 128) | 128)
+  out.push(n)
+  return out
+}
+const zigzag = (n: number) => (n >= 0 ? 2 * n : -2 * n - 1)
+const bytes = (field: number, data: number[] | Buffer) => [...varint(field * 8 + 2), ...varint(data.length), ...data]
+const uint = (field: number, value: number) => [...varint(field * 8), ...varint(value)]
+const packed = (field: number, values: number[]) => bytes(field, values.flatMap(varint))
+const deltas = (values: number[]) => values.map((v, i) => zigzag(v - (i > 0 ? values[i - 1] : 0)))
+
+function frame(type: string, raw: number[]): Buffer {
+  const blob = Buffer.from([...bytes(3, deflateSync(Buffer.from(raw))), ...uint(2, raw.length)])
+  const header = Buffer.from([...bytes(1, Buffer.from(type)), ...uint(3, blob.length)])
+  const size = Buffer.alloc(4)
+  size.writeUInt32BE(header.length)
+  return Buffer.concat([size, header, blob])
+}
+
+function osmPbf(features = ['OsmSchema-V0.6', 'DenseNodes']): Buffer {
+  const strings = ['']
+  const string = (s: string) => (strings.includes(s) ? strings.indexOf(s) : strings.push(s) - 1)
+  const dense = [
+    ...packed(1, deltas(NODES.map(n => n.id))),
+    ...packed(8, deltas(NODES.map(n => Math.round(n.lat * 1e7)))),
+    ...packed(9, deltas(NODES.map(n => Math.round(n.lon * 1e7)))),
+    ...packed(10, NODES.flatMap(n => [...Object.entries(n.tags || {}).flatMap(([k, v]) => [string(k), string(v)]), 0]))
+  ]
+  const ways = WAYS.flatMap(w => bytes(3, [
+    ...uint(1, w.id),
+    ...packed(2, Object.keys(w.tags).map(string)),
+    ...packed(3, Object.values(w.tags).map(string)),
+    ...packed(8, deltas(w.nodes))
+  ]))
+  const block = [
+    ...bytes(1, strings.flatMap(s => bytes(1, Buffer.from(s)))),
+    ...bytes(2, bytes(2, dense)),
+    ...bytes(2, ways)
+  ]
+  const header = [...features.flatMap(f => bytes(4, Buffer.from(f))), ...uint(32, Date.parse('2026-10-01T00:00:00Z') / 1000)]
+  return Buffer.concat([frame('OSMHeader', header), frame('OSMData', block)])
+}
+
+const byId = (a: { id: number }, b: { id: number }) => a.id - b.id
+
+describe('Offline OSM extract import', () => {
+  let dir: string
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'osm-extract-'))
+    fs.writeFileSync(path.join(dir, 'region.osm'), osmXml())
+    fs.writeFileSync(path.join(dir, 'region.osm.pbf'), osmPbf())
+    fs.writeFileSync(path.join(dir, 'history.osm.pbf'), osmPbf(['OsmSchema-V0.6', 'HistoricalInformation']))
+  })
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }))
+
+  it('should keep the ways of the Overpass query and only their nodes', async () => {
+    const data = await importOsmExtract(path.join(dir, 'region.osm'))
+    const ways = data.elements.filter(el => el.type === 'way')
+    const nodes = data.elements.filter(el => el.type === 'node')
+
+    expect(ways.map(w => w.id).sort()).toEqual([701, 702, 704, 705, 706])
+    expect(nodes.map(n => n.id)).not.toContain(3000000005)
+    expect(ways.find(w => w.id === 702)!.tags.name).toBe("Chemin d'Aulne & Co")
+    expect(nodes.find(n => n.id === 3000000002)).toEqual({ type: 'node', ...NODES[1] })
+    expect(data.osm3s.timestamp_osm_base).toBe('2026-10-01T00:00:00Z')
+
+    const graph = buildGraph(data)
+    expect(graph.edges.has('osm_node_3000000003-osm_node_3000000004')).toBe(true)
+  })
+
+  it('should read the same elements from .osm.pbf and .osm', async () => {
+    const xml = await importOsmExtract(path.join(dir, 'region.osm'))
+    const pbf = await importOsmExtract(path.join(dir, 'region.osm.pbf'))
+
+    const nodes = (data: typeof xml) => data.elements.filter(el => el.type === 'node').sort(byId)
+    expect(pbf.elements.filter(el => el.type === 'way').sort(byId)).toEqual(xml.elements.filter(el => el.type === 'way').sort(byId))
+    nodes(pbf).forEach((node, i) => {
+      const expected = nodes(xml)[i] as typeof node
+      expect({ ...node, lat: undefined, lon: undefined }).toEqual({ ...expected, lat: undefined, lon: undefined })
+      expect(node.lat).toBeCloseTo(expected.lat, 7)
+      expect(node.lon).toBeCloseTo(expected.lon, 7)
+    })
+    expect(pbf.osm3s.timestamp_osm_base).toBe('2026-10-01T00:00:00.000Z')
+  })
+
+  it('should keep only the ways crossing the requested area', async () => {
+    const data = await importOsmExtract(path.join(dir, 'region.osm.pbf'), { area: AREA, includeSecondary: false })
+
+    expect(data.elements.filter(el => el.type === 'way').map(w => w.id).sort()).toEqual([701, 702, 704, 706])
+    expect(data.elements.some(el => el.id === 3000000008)).toBe(false)
+    // Géométrie complète des ways retenues, nœuds hors zone compris ; pas de nœud de la zone inutilisé
+    expect((data.elements.find(el => el.id === 3000000010) as { lat: number }).lat).toBeCloseTo(43.62, 7)
+    expect(data.elements.some(el => el.id === 3000000005)).toBe(false)
+  })
+
+  it('should parse XML split at arbitrary chunk boundaries', () => {
+    const ways: OsmWayRecord[] = [], nodes: OsmNodeRecord[] = []
+    const parser = createOsmXmlParser({ way: w => ways.push(w), node: n => nodes.push(n) })
+    const xml = osmXml()
+    for (let i = 0; i < xml.length; i += 7) parser.write(xml.slice(i, i + 7))
+    parser.end()
+
+    expect(nodes).toEqual(NODES)
+    expect(ways).toEqual(WAYS)
+    expect(parser.timestamp).toBe('2026-10-01T00:00:00Z')
+  })
+
+  it('should reject unsupported files', async () => {
+    await expect(importOsmExtract(path.join(dir, 'history.osm.pbf'))).rejects.toThrow(/HistoricalInformation/)
+    expect(() => extractFormat('region.o5m')).toThrow(/Unsupported OSM extract format/)
+    const parser = createOsmXmlParser({})
+    parser.write('<osm><way id="1"><nd ref="2"/>')
+    expect(() => parser.end()).toThrow(/tronqué/)
+  })
+})
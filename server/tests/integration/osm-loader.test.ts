@@ -1,5 +1,5 @@
 import { describe, it, expect } from '@jest/globals'
-import { buildGraph, validateGraph } from '../../src/services/graph-builder.js'
+import { buildGraph, validateGraph, addNodeElevations } from '../../src/services/graph-builder.js'
 import { Graph } from '../../src/services/graph-builder.js'
 
 describe('OSM Loader Integration', () => {
@@ -123,5 +123,30 @@ describe('OSM Loader Integration', () => {
       expect(validation.errors.length).toBeGreaterThan(0)
     })
   })
-})
 
+  describe('addNodeElevations', () => {
+    it('should compute per-edge ascent, descent and grade', async () => {
+      const graph = buildGraph({
+        elements: [
+          { type: 'node', id: 1, lat: 43.578, lon: 1.450 },
+          { type: 'node', id: 2, lat: 43.579, lon: 1.450 },
+          { type: 'node', id: 3, lat: 43.580, lon: 1.450 },
+          { type: 'way', id: 10, nodes: [1, 2, 3], tags: { highway: 'path' } }
+        ]
+      })
+      const elevations: Record<string, number | null> = { '43.578': 100, '43.579': 111.12, '43.58': null }
+
+      const enriched = await addNodeElevations(graph, async coordinates => coordinates.map(([, lat]) => elevations[String(lat)]))
+
+      expect(enriched).toBe(2)
+      const up = graph.edges.get('osm_node_1-osm_node_2')!
+      const down = graph.edges.get('osm_node_2-osm_node_1')!
+      expect(up.ascent).toBeCloseTo(11.12)
+      expect(up.descent).toBe(0)
+      expect(up.grade).toBeCloseTo(10, 0)
+      expect(down.grade).toBeCloseTo(-(up.grade as number))
+      // Altitude inconnue : pas de pente inventée
+      expect(graph.edges.get('osm_node_2-osm_node_3')!.grade).toBeUndefined()
+    })
+  })
+})
@@ -1,8 +1,17 @@
-import { describe, it, expect, beforeAll, afterAll } from '@jest/globals'
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals'
 import request from 'supertest'
 import express from 'express'
 import cors from 'cors'
 import routesRouter from '../../src/routes/routes.js'
+import { AuthService } from '../../src/services/auth-service.js'
+import { rememberGeneratedRoute } from '../../src/services/generated-route-store.js'
+import { AssembledRoute } from '../../src/services/route-assembler.js'
+import { prismaMock } from '../mocks/prisma.js'
+
+// Le routeur et le middleware d'authentification créent leur propre PrismaClient
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn(() => require('../mocks/prisma.js').prismaMock)
+}))
 
 const app = express()
 app.use(cors())
@@ -170,5 +179,52 @@ describe('Routes API Integration', () => {
       })
     }, 30000)
   })
-})
 
+  describe('POST /api/routes/generate/:id/save', () => {
+    it('should require authentication', async () => {
+      const response = await request(app)
+        .post('/api/routes/generate/generated_unknown/save')
+        .send({ name: 'Ma boucle' })
+        .expect(401)
+
+      expect(response.body.success).toBe(false)
+    })
+
+    it('should save a generated route once per user', async () => {
+      const user = { id: 'user_save', email: 'save@example.com', name: 'Coureur' }
+      const token = new AuthService().generateToken({ userId: user.id, email: user.email, type: 'access' }, '1h')
+      const saved = { id: 'route_saved', userId: user.id, name: 'Ma boucle', path_edges: ['a-b', 'b-a'], waypoints: [] }
+      prismaMock.user.findUnique.mockResolvedValue(user as any)
+      prismaMock.route.create.mockResolvedValue(saved as any)
+      prismaMock.route.findUnique.mockResolvedValue(saved as any)
+      rememberGeneratedRoute({
+        id: 'generated_save',
+        name: 'Boucle de 2.0 km',
+        distance: 2,
+        duration: 12,
+        difficulty: 'easy',
+        terrain_type: 'mixed',
+        geometry: { type: 'LineString', coordinates: [[1.4516, 43.5781], [1.4526, 43.5791], [1.4516, 43.5781]] },
+        waypoints: [{ lat: 43.5781, lon: 1.4516, type: 'start', name: 'Départ' }],
+        pathEdges: ['a-b', 'b-a']
+      } as AssembledRoute)
+
+      const first = await request(app)
+        .post('/api/routes/generate/generated_save/save')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name: 'Ma boucle' })
+        .expect(201)
+      const second = await request(app)
+        .post('/api/routes/generate/generated_save/save')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name: 'Ma boucle' })
+        .expect(200)
+
+      expect(first.body.route).toMatchObject({ id: 'route_saved', user_id: user.id, pathEdges: ['a-b', 'b-a'] })
+      expect(prismaMock.route.create).toHaveBeenCalledTimes(1)
+      expect(prismaMock.route.create.mock.calls[0][0].data).toMatchObject({ userId: user.id, name: 'Ma boucle', path_edges: ['a-b', 'b-a'] })
+      expect(second.body.message).toBe('Itinéraire déjà sauvegardé')
+      expect(second.body.route.id).toBe('route_saved')
+    })
+  })
+})
@@ -0,0 +1,72 @@
+import { describe, it, expect } from '@jest/globals'
+import { buildGraph, GraphEdge } from '../../src/services/graph-builder.js'
+import {
+  getRoutingProfile,
+  listRoutingProfiles,
+  isWayAllowed,
+  profileWeightMultiplier,
+  requireRoutingProfile
+} from '../../src/services/routing-profiles.js'
+
+const osmData = {
+  elements: [
+    { type: 'node', id: 1, lat: 43.6, lon: 1.44 },
+    { type: 'node', id: 2, lat: 43.601, lon: 1.44 },
+    { type: 'node', id: 3, lat: 43.602, lon: 1.44 },
+    { type: 'node', id: 4, lat: 43.603, lon: 1.44 },
+    { type: 'way', id: 10, nodes: [1, 2], tags: { highway: 'footway', surface: 'asphalt', lit: 'yes' } },
+    { type: 'way', id: 11, nodes: [2, 3], tags: { highway: 'steps' } },
+    { type: 'way', id: 12, nodes: [3, 4], tags: { highway: 'path', surface: 'ground', sac_scale: 'alpine_hiking' } }
+  ]
+}
+
+const edge = (tags: Record<string, string>, grade?: number): GraphEdge => ({
+  id: 'a-b', osmWayId: '1', from: 'a', to: 'b', distance: 100, weight: 100,
+  surface: tags.surface, highway_type: tags.highway, tags, grade
+})
+
+describe('Routing profiles', () => {
+  it('should load the bundled JSON profiles', () => {
+    const ids = listRoutingProfiles().map(p => p.id)
+
+    expect(ids).toEqual(expect.arrayContaining(['trail-runner', 'road-runner', 'hiker', 'stroller', 'wheelchair']))
+    expect(getRoutingProfile('unknown')).toBeUndefined()
+    expect(() => requireRoutingProfile('unknown')).toThrow(/Unknown routing profile/)
+  })
+
+  it('should filter ways by highway type, steps and sac_scale when building the graph', () => {
+    const all = buildGraph(osmData)
+    const hiker = buildGraph(osmData, 'hiker')
+    const trail = buildGraph(osmData, 'trail-runner')
+    const wheelchair = buildGraph(osmData, 'wheelchair')
+
+    expect(all.edges.size).toBe(6)
+    expect(hiker.edges.size).toBe(6)
+    // alpine_hiking au-delà de la limite du coureur trail
+    expect(trail.edges.has('osm_node_3-osm_node_4')).toBe(false)
+    expect(trail.edges.has('osm_node_2-osm_node_3')).toBe(true)
+    // ni escaliers ni terre pour le fauteuil
+    expect(Array.from(wheelchair.edges.keys())).toEqual(['osm_node_1-osm_node_2', 'osm_node_2-osm_node_1'])
+  })
+
+  it('should exclude ways whose incline tag exceeds the profile limit', () => {
+    const stroller = requireRoutingProfile('stroller')
+
+    expect(isWayAllowed(stroller, { highway: 'footway', incline: '8%' })).toBe(true)
+    expect(isWayAllowed(stroller, { highway: 'footway', incline: '-15%' })).toBe(false)
+    expect(isWayAllowed(stroller, { highway: 'footway', incline: 'up' })).toBe(true)
+  })
+
+  it('should weight edges with multipliers >= 1 and forbid steep edges', () => {
+    const road = requireRoutingProfile('road-runner')
+    const wheelchair = requireRoutingProfile('wheelchair')
+    const litAsphalt = edge({ highway: 'residential', surface: 'asphalt', lit: 'yes' })
+    const dirtPath = edge({ highway: 'path', surface: 'dirt' })
+
+    expect(profileWeightMultiplier(road, litAsphalt)).toBe(1)
+    expect(profileWeightMultiplier(road, dirtPath)).toBeGreaterThan(2)
+    expect(profileWeightMultiplier(road, edge({ highway: 'steps' }))).toBeGreaterThan(profileWeightMultiplier(road, litAsphalt))
+    expect(profileWeightMultiplier(wheelchair, edge({ highway: 'footway', lit: 'yes' }, 4))).toBe(1)
+    expect(profileWeightMultiplier(wheelchair, edge({ highway: 'footway', lit: 'yes' }, -9))).toBe(Infinity)
+  })
+})
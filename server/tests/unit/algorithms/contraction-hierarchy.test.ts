@@ -0,0 +1,124 @@
+import { describe, it, expect } from '@jest/globals'
+import { buildContractionHierarchy, extendHierarchy, hierarchyPath, isHierarchyFor } from '../../../src/algorithms/contraction-hierarchy.js'
+import { dijkstra } from '../../../src/algorithms/pathfinding.js'
+import { generateLoops } from '../../../src/algorithms/loop-generator.js'
+import { Graph, GraphEdge, GraphNode } from '../../../src/services/graph-builder.js'
+import { simplifyGraph, exposeNode } from '../../../src/services/graph-simplifier.js'
+
+// Grille size × size, longueurs pseudo-aléatoires déterministes, quelques sens uniques et pénalités d'accès
+function gridGraph(size: number): Graph {
+  const nodes = new Map<string, GraphNode>()
+  const edges = new Map<string, GraphEdge>()
+  let seed = 42
+  const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647
+  const id = (x: number, y: number) => `n${x}_${y}`
+  for (let x = 0; x < size; x++) {
+    for (let y = 0; y < size; y++) {
+      nodes.set(id(x, y), { id: id(x, y), osmId: `${x * size + y}`, lat: 43.6 + y * 0.001, lon: 1.44 + x * 0.001, connections: [] })
+    }
+  }
+  const link = (a: string, b: string, oneway: boolean) => {
+    const distance = 80 + Math.round(random() * 120)
+    const accessPenalty = random() < 0.1 ? 3 : undefined
+    edges.set(`${a}-${b}`, { id: `${a}-${b}`, osmWayId: '1', from: a, to: b, distance, weight: distance, ...(accessPenalty ? { accessPenalty } : {}) })
+    nodes.get(a)!.connections.push(b)
+    if (!oneway) {
+      edges.set(`${b}-${a}`, { ...edges.get(`${a}-${b}`)!, id: `${b}-${a}`, from: b, to: a })
+      nodes.get(b)!.connections.push(a)
+    }
+  }
+  for (let x = 0; x < size; x++) {
+    for (let y = 0; y < size; y++) {
+      if (x + 1 < size) link(id(x, y), id(x + 1, y), random() < 0.15)
+      if (y + 1 < size) link(id(x, y), id(x, y + 1), random() < 0.15)
+    }
+  }
+  return { nodes, edges }
+}
+
+const pathCost = (graph: Graph, path: string[]) => path.slice(1).reduce((sum, to, i) => {
+  const edge = graph.edges.get(`${path[i]}-${to}`)!
+  return sum + edge.distance * (edge.accessPenalty ?? 1)
+}, 0)
+
+const pathLength = (graph: Graph, path: string[]) =>
+  path.slice(1).reduce((sum, to, i) => sum + graph.edges.get(`${path[i]}-${to}`)!.distance, 0)
+
+describe('Contraction hierarchy', () => {
+  const graph = gridGraph(12)
+  const hierarchy = buildContractionHierarchy(graph)
+  const ids = Array.from(graph.nodes.keys())
+
+  it('should find the same shortest path costs as Dijkstra', () => {
+    for (let i = 0; i < 40; i++) {
+      const start = ids[(i * 37) % ids.length], goal = ids[(i * 53 + 11) % ids.length]
+      const expected = dijkstra(graph, start, goal, Infinity, Infinity)
+      const result = hierarchyPath(hierarchy, start, goal, Infinity)
+
+      if (!expected) {
+        expect(result).toBeNull()
+        continue
+      }
+      expect(result).not.toBeNull()
+      expect(result!.path[0]).toBe(start)
+      expect(result!.path[result!.path.length - 1]).toBe(goal)
+      // Chemin d'arêtes existantes (sens uniques respectés), même coût que Dijkstra
+      expect(pathCost(graph, result!.path)).toBeCloseTo(pathCost(graph, expected.path), 6)
+      expect(result!.distance).toBeCloseTo(pathLength(graph, result!.path), 6)
+    }
+  })
+
+  it('should respect the cost limit and unknown nodes', () => {
+    const start = ids[0], goal = ids[ids.length - 1]
+    const full = hierarchyPath(hierarchy, start, goal, Infinity)!
+
+    expect(hierarchyPath(hierarchy, start, goal, pathCost(graph, full.path) - 1)).toBeNull()
+    expect(hierarchyPath(hierarchy, start, 'unknown', Infinity)).toBeUndefined()
+    expect(hierarchyPath(hierarchy, start, start, 0)).toEqual({ path: [start], distance: 0 })
+  })
+
+  it('should detect a hierarchy built on another graph', () => {
+    expect(isHierarchyFor(hierarchy, graph)).toBe(true)
+    expect(isHierarchyFor(hierarchy, gridGraph(5))).toBe(false)
+    // Sérialisable tel quel à côté du cache
+    expect(hierarchyPath(JSON.parse(JSON.stringify(hierarchy)), ids[3], ids[100], Infinity)?.path)
+      .toEqual(hierarchyPath(hierarchy, ids[3], ids[100], Infinity)?.path)
+  })
+
+  it('should extend the hierarchy of a simplified graph with a node exposed mid-chain', () => {
+    // Long sentier c1 … c9 entre deux coins opposés de la grille, fusionné en arêtes composées
+    const withChain = gridGraph(8)
+    const chain = ['n0_0', ...Array.from({ length: 9 }, (_, i) => `c${i + 1}`), 'n7_7']
+    chain.slice(1, -1).forEach((id, i) => withChain.nodes.set(id, { id, osmId: id, lat: 43.5995 - i * 0.0002, lon: 1.4395 + i * 0.0009, connections: [] }))
+    chain.slice(1).forEach((to, i) => {
+      for (const [a, b] of [[chain[i], to], [to, chain[i]]]) {
+        withChain.edges.set(`${a}-${b}`, { id: `${a}-${b}`, osmWayId: '2', from: a, to: b, distance: 90, weight: 90 })
+        withChain.nodes.get(a)!.connections.push(b)
+      }
+    })
+    const simplified = simplifyGraph(withChain)
+    const cached = buildContractionHierarchy(simplified)
+    expect(simplified.nodes.has('c5')).toBe(false)
+
+    expect(exposeNode(simplified, withChain, 'c5')).toBe(true)
+    const extended = extendHierarchy(cached, simplified, 'c5')
+
+    expect(isHierarchyFor(cached, simplified)).toBe(false)
+    expect(isHierarchyFor(extended, simplified)).toBe(true)
+    expect(cached.nodeIds).not.toContain('c5')
+    for (const other of ['n0_0', 'n7_7', 'n3_4', 'n6_1']) {
+      for (const [start, goal] of [['c5', other], [other, 'c5'], [other, 'n0_0']]) {
+        const expected = dijkstra(simplified, start, goal, Infinity, Infinity)!
+        const result = hierarchyPath(extended, start, goal, Infinity)!
+        // Chemin d'arêtes du graphe exposé (l'arête composée coupée n'apparaît plus)
+        expect(pathCost(simplified, result.path)).toBeCloseTo(pathCost(simplified, expected.path), 6)
+        expect(result.distance).toBeCloseTo(pathLength(simplified, result.path), 6)
+      }
+    }
+
+    // Boucle partant du nœud exposé : retours par la hiérarchie complétée, sans repli sur la recherche simple
+    const mismatch = 'Contraction hierarchy does not match the graph, using plain search'
+    expect(generateLoops(simplified, { startNodeId: 'c5', targetDistance: 2000, hierarchy: cached }).debug.warnings).toContain(mismatch)
+    expect(generateLoops(simplified, { startNodeId: 'c5', targetDistance: 2000, hierarchy: extended }).debug.warnings).not.toContain(mismatch)
+  })
+})
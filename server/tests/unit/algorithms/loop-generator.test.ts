@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach } from '@jest/globals'
-import { generateLoops, LoopGenerationOptions } from '../../../src/algorithms/loop-generator.js'
-import { Graph, GraphNode, GraphEdge } from '../../../src/services/graph-builder.js'
+import { generateLoops, jaccardDistance, LoopGenerationOptions } from '../../../src/algorithms/loop-generator.js'
+import { Graph, GraphNode, GraphEdge, computeEdgeElevationDeltas } from '../../../src/services/graph-builder.js'
 
 describe('Loop Generator Algorithm', () => {
   let mockGraph: Graph
@@ -198,6 +198,60 @@ describe('Loop Generator Algorithm', () => {
       })
     })
 
+    it('should report elevation gain when edges carry elevation deltas', () => {
+      const elevations: Record<string, number> = { node1: 100, node2: 140, node3: 110, node4: 160 }
+      mockGraph.nodes.forEach((node, id) => { node.elevation = elevations[id] })
+      computeEdgeElevationDeltas(mockGraph)
+
+      const result = generateLoops(mockGraph, {
+        startNodeId: 'node1',
+        targetDistance: 6000,
+        targetElevationGain: 60,
+      })
+
+      expect(result.loops.length).toBeGreaterThan(0)
+      result.loops.forEach(loop => {
+        // Tour du carré : 100 → 140 → 160 → 110 → 100 (ou l'inverse)
+        expect(loop.elevationGain).toBe(60)
+      })
+    })
+
+    it('should keep the profile limits when the return path falls back to the outbound edges', () => {
+      // Aller S → A → B ; le seul retour qui ne repasse pas par l'aller (B → C → S) finit
+      // par une rampe trop pentue pour le fauteuil : il faut revenir par l'aller
+      const positions: Record<string, [number, number]> = {
+        S: [43.6, 1.44], A: [43.609, 1.44], B: [43.614, 1.452], C: [43.6, 1.4462], D: [43.591, 1.44], E: [43.6, 1.4276]
+      }
+      const ways = [['S', 'A', 300, 1], ['A', 'B', 2000, 1], ['B', 'C', 1200, 1], ['C', 'S', 500, 12], ['S', 'D', 100, 1], ['S', 'E', 100, 1]] as const
+      const nodes = new Map<string, GraphNode>()
+      const edges = new Map<string, GraphEdge>()
+      for (const [id, [lat, lon]] of Object.entries(positions)) {
+        nodes.set(id, { id, osmId: id, lat, lon, connections: [] })
+      }
+      for (const [from, to, distance, grade] of ways) {
+        for (const [a, b, g] of [[from, to, grade], [to, from, -grade]] as const) {
+          nodes.get(a)!.connections.push(b)
+          edges.set(`${a}-${b}`, {
+            id: `${a}-${b}`, osmWayId: `${from}${to}`, from: a, to: b, distance, weight: distance,
+            highway_type: 'footway', tags: { highway: 'footway', lit: 'yes' }, grade: g
+          })
+        }
+      }
+
+      const result = generateLoops({ nodes, edges }, {
+        startNodeId: 'S',
+        targetDistance: 4000,
+        profile: 'wheelchair',
+        optimize: false,
+      })
+
+      expect(result.loops.length).toBeGreaterThan(0)
+      result.loops.forEach(loop => {
+        expect(loop.pathEdges).not.toContain('C-S')
+        expect(loop.pathEdges).not.toContain('S-C')
+      })
+    })
+
     it('should limit number of loops to numVariants', () => {
       const options: LoopGenerationOptions = {
         startNodeId: 'node1',
@@ -209,6 +263,33 @@ describe('Loop Generator Algorithm', () => {
 
       expect(result.loops.length).toBeLessThanOrEqual(2)
     })
+
+    it('should only return variants that differ by the minimum dissimilarity', () => {
+      const options: LoopGenerationOptions = {
+        startNodeId: 'node1',
+        targetDistance: 5000,
+        numVariants: 5,
+        minDissimilarity: 0.3,
+      }
+
+      const result = generateLoops(mockGraph, options)
+      const edgeSets = result.loops.map(loop =>
+        new Set(loop.pathEdges.map(id => id.split('-').sort().join('-')))
+      )
+
+      for (let i = 0; i < edgeSets.length; i++) {
+        for (let j = i + 1; j < edgeSets.length; j++) {
+          expect(jaccardDistance(edgeSets[i], edgeSets[j])).toBeGreaterThanOrEqual(0.3)
+        }
+      }
+    })
   })
-})
 
+  describe('jaccardDistance', () => {
+    it('should be 0 for identical edge sets and 1 for disjoint ones', () => {
+      expect(jaccardDistance(new Set(['a-b', 'b-c']), new Set(['a-b', 'b-c']))).toBe(0)
+      expect(jaccardDistance(new Set(['a-b']), new Set(['c-d']))).toBe(1)
+      expect(jaccardDistance(new Set(['a-b', 'b-c']), new Set(['a-b', 'c-d']))).toBeCloseTo(2 / 3)
+    })
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { optimizeLoop, removeBacktracks } from '../../../src/algorithms/loop-optimizer.js'
+import { GeneratedLoop } from '../../../src/algorithms/loop-generator.js'
+import { Graph, GraphNode, GraphEdge } from '../../../src/services/graph-builder.js'
+
+describe('Loop optimizer', () => {
+  let graph: Graph
+
+  const addEdge = (from: string, to: string, distance: number) => {
+    for (const [a, b] of [[from, to], [to, from]]) {
+      const edge: GraphEdge = { id: `${a}-${b}`, osmWayId: `${from}${to}`, from: a, to: b, distance, weight: distance }
+      graph.edges.set(edge.id, edge)
+      graph.nodes.get(a)!.connections.push(b)
+    }
+  }
+
+  const loopOf = (nodes: string[]): GeneratedLoop => {
+    const pathEdges = nodes.slice(0, -1).map((n, i) => `${n}-${nodes[i + 1]}`)
+    const distance = pathEdges.reduce((sum, id) => sum + graph.edges.get(id)!.distance, 0)
+    return { loop: nodes, pathEdges, distance, qualityScore: 0.5 }
+  }
+
+  beforeEach(() => {
+    graph = { nodes: new Map<string, GraphNode>(), edges: new Map<string, GraphEdge>() }
+    // Carré A-B-C-D, antenne B-E et détour B-F-C (quelques centaines de mètres autour de A)
+    const coords: Record<string, [number, number]> = {
+      A: [43.5780, 1.4500],
+      B: [43.5790, 1.4500],
+      C: [43.5790, 1.4510],
+      D: [43.5780, 1.4510],
+      E: [43.5800, 1.4495],
+      F: [43.5800, 1.4505]
+    }
+    for (const [id, [lat, lon]] of Object.entries(coords)) {
+      graph.nodes.set(id, { id, osmId: id, lat, lon, connections: [] })
+    }
+    addEdge('A', 'B', 1000)
+    addEdge('B', 'C', 1000)
+    addEdge('C', 'D', 1000)
+    addEdge('D', 'A', 1000)
+    addEdge('B', 'E', 300)
+    addEdge('B', 'F', 800)
+    addEdge('F', 'C', 800)
+  })
+
+  it('should remove immediate backtracks', () => {
+    expect(removeBacktracks(['A', 'B', 'E', 'B', 'C', 'D', 'A'])).toEqual(['A', 'B', 'C', 'D', 'A'])
+    expect(removeBacktracks(['A', 'B', 'E', 'F', 'E', 'B', 'C'])).toEqual(['A', 'B', 'C'])
+  })
+
+  it('should drop dead-end spurs from a loop', () => {
+    const { loop, stats } = optimizeLoop(graph, loopOf(['A', 'B', 'E', 'B', 'C', 'D', 'A']), { targetDistance: 4000 })
+
+    expect(loop.loop).toEqual(['A', 'B', 'C', 'D', 'A'])
+    expect(loop.distance).toBe(4000)
+    expect(stats.removedBacktracks).toBe(2)
+  })
+
+  it('should add a detour near the start when the loop is too short', () => {
+    const { loop } = optimizeLoop(graph, loopOf(['A', 'B', 'C', 'D', 'A']), { targetDistance: 4600 })
+
+    expect(loop.loop).toEqual(['A', 'B', 'F', 'C', 'D', 'A'])
+    expect(Math.abs(loop.distance - 4600)).toBeLessThanOrEqual(4600 * 0.05)
+  })
+
+  it('should take a shortcut near the start when the loop is too long', () => {
+    const { loop } = optimizeLoop(graph, loopOf(['A', 'B', 'F', 'C', 'D', 'A']), { targetDistance: 4000 })
+
+    expect(loop.distance).toBe(4000)
+    expect(loop.loop[0]).toBe('A')
+    expect(loop.loop[loop.loop.length - 1]).toBe('A')
+  })
+
+  it('should not splice edges forbidden by the weight multiplier into the loop', () => {
+    const forbid = (nodes: string[]) => (edgeId: string) => nodes.some(n => edgeId.split('-').includes(n)) ? Infinity : 1
+    const forbidBC = (edgeId: string) => ['B-C', 'C-B'].includes(edgeId) ? Infinity : 1
+
+    const detour = optimizeLoop(graph, loopOf(['A', 'B', 'C', 'D', 'A']), { targetDistance: 4600, weightMultiplier: forbid(['F']) })
+    const shortcut = optimizeLoop(graph, loopOf(['A', 'B', 'F', 'C', 'D', 'A']), { targetDistance: 4000, weightMultiplier: forbidBC })
+
+    expect(detour.loop.loop).toEqual(['A', 'B', 'C', 'D', 'A'])
+    expect(shortcut.loop.pathEdges).not.toContain('B-C')
+    expect(shortcut.loop.distance).toBe(4600)
+  })
+
+  it('should leave discontinuous loops untouched', () => {
+    const broken = { ...loopOf(['A', 'B', 'C', 'D', 'A']), loop: ['A', 'C', 'A'] }
+
+    expect(optimizeLoop(graph, broken, { targetDistance: 4000 }).loop).toBe(broken)
+  })
+})
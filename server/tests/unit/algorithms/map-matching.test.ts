@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { matchTrack } from '../../../src/algorithms/map-matching.js'
+import { validateTraceAgainstOSM } from '../../../src/utils/route-validator.js'
+import { Graph, GraphNode, GraphEdge } from '../../../src/services/graph-builder.js'
+
+describe('Map matching', () => {
+  let graph: Graph
+
+  const addEdge = (from: string, to: string, distance: number) => {
+    for (const [a, b] of [[from, to], [to, from]]) {
+      const edge: GraphEdge = { id: `${a}-${b}`, osmWayId: `${from}${to}`, from: a, to: b, distance, weight: distance, tags: { highway: 'path' } }
+      graph.edges.set(edge.id, edge)
+      graph.nodes.get(a)!.connections.push(b)
+    }
+  }
+
+  // Points régulièrement espacés entre deux positions [lat, lon]
+  const line = (from: [number, number], to: [number, number], count: number, offsetLat = 0) =>
+    Array.from({ length: count }, (_, i) => {
+      const t = i / (count - 1)
+      return [from[1] + t * (to[1] - from[1]), from[0] + t * (to[0] - from[0]) + offsetLat]
+    })
+
+  beforeEach(() => {
+    graph = { nodes: new Map<string, GraphNode>(), edges: new Map<string, GraphEdge>() }
+    // Rue A - B - C (est-ouest), antenne B - D vers le nord et rue parallèle E - F à ~35 m au nord
+    const coords: Record<string, [number, number]> = {
+      A: [43.5780, 1.450],
+      B: [43.5780, 1.455],
+      C: [43.5780, 1.460],
+      D: [43.5820, 1.455],
+      E: [43.5783, 1.4565],
+      F: [43.5783, 1.4600]
+    }
+    for (const [id, [lat, lon]] of Object.entries(coords)) {
+      graph.nodes.set(id, { id, osmId: id, lat, lon, connections: [] })
+    }
+    addEdge('A', 'B', 403)
+    addEdge('B', 'C', 403)
+    addEdge('B', 'D', 445)
+    addEdge('E', 'F', 282)
+  })
+
+  it('should follow the street through consecutive edges', () => {
+    const trace = line([43.5780, 1.4505], [43.5780, 1.4595], 20, 0.00005)
+    const match = matchTrack(graph, trace)
+
+    expect(match.matchedRatio).toBe(1)
+    expect(match.edges).toEqual(['A-B', 'B-C'])
+    expect(match.offNetwork).toHaveLength(0)
+    expect(match.breaks).toHaveLength(0)
+  })
+
+  it('should stay on the connected street when noise gets closer to a parallel one', () => {
+    // Points à l'est de B, décalés vers le nord : plus proches de E - F que de B - C par moments
+    const trace = [
+      ...line([43.5780, 1.4510], [43.5780, 1.4550], 6),
+      ...line([43.5782, 1.4560], [43.5782, 1.4590], 6)
+    ]
+    const match = matchTrack(graph, trace)
+
+    expect(match.edges).toEqual(['A-B', 'B-C'])
+    expect(match.pointEdges.every(edgeId => edgeId !== 'E-F' && edgeId !== 'F-E')).toBe(true)
+  })
+
+  it('should report off-network sections', () => {
+    const trace = [
+      ...line([43.5780, 1.4505], [43.5780, 1.4545], 5),
+      ...line([43.5760, 1.4550], [43.5760, 1.4570], 4),
+      ...line([43.5780, 1.4575], [43.5780, 1.4595], 4)
+    ]
+    const match = matchTrack(graph, trace)
+
+    expect(match.offNetwork).toHaveLength(1)
+    expect(match.offNetwork[0]).toMatchObject({ startIndex: 5, endIndex: 8 })
+    expect(match.offNetwork[0].distance).toBeGreaterThan(150)
+    expect(match.matchedRatio).toBeCloseTo(9 / 13)
+
+    const validation = validateTraceAgainstOSM(trace, graph)
+    expect(validation.valid).toBe(true)
+    expect(validation.stats.validSegments).toBe(match.edges.length)
+    expect(validation.warnings.some(w => w.startsWith('Off-network section'))).toBe(true)
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { snapToNetwork, snapToSimplifiedNetwork } from '../../../src/algorithms/network-snap.js'
+import { Graph, GraphNode, GraphEdge, connectedComponents } from '../../../src/services/graph-builder.js'
+import { simplifyGraph, expandPath } from '../../../src/services/graph-simplifier.js'
+
+describe('Snapping to the main network', () => {
+  let graph: Graph
+
+  const addEdge = (from: string, to: string, tags: Record<string, string> = { highway: 'path' }) => {
+    const a = graph.nodes.get(from)!, b = graph.nodes.get(to)!
+    const distance = Math.hypot((a.lat - b.lat) * 111320, (a.lon - b.lon) * 80600)
+    for (const [u, v] of [[from, to], [to, from]]) {
+      const edge: GraphEdge = { id: `${u}-${v}`, osmWayId: `${from}${to}`, from: u, to: v, distance, weight: distance, tags }
+      graph.edges.set(edge.id, edge)
+      graph.nodes.get(u)!.connections.push(v)
+    }
+  }
+
+  beforeEach(() => {
+    graph = { nodes: new Map<string, GraphNode>(), edges: new Map<string, GraphEdge>() }
+    // Réseau principal : une rue A - B - C et un chemin sinueux C - D - E - F ;
+    // îlot : une cour privée X - Y tout près du point demandé
+    const coords: Record<string, [number, number]> = {
+      A: [43.6000, 1.4400],
+      B: [43.6000, 1.4420],
+      C: [43.6000, 1.4440],
+      D: [43.6010, 1.4445],
+      E: [43.6020, 1.4440],
+      F: [43.6030, 1.4445],
+      X: [43.6008, 1.4410],
+      Y: [43.6008, 1.4412]
+    }
+    for (const [id, [lat, lon]] of Object.entries(coords)) {
+      graph.nodes.set(id, { id, osmId: id, lat, lon, connections: [] })
+    }
+    addEdge('A', 'B', { highway: 'residential' })
+    addEdge('B', 'C', { highway: 'residential' })
+    addEdge('C', 'D')
+    addEdge('D', 'E')
+    addEdge('E', 'F')
+    addEdge('X', 'Y', { highway: 'footway', access: 'private' })
+  })
+
+  it('should number connected components from the largest one', () => {
+    const { component, lengths } = connectedComponents(graph)
+
+    expect(lengths).toHaveLength(2)
+    expect(lengths[0]).toBeGreaterThan(lengths[1])
+    expect(component.get('A')).toBe(0)
+    expect(component.get('F')).toBe(0)
+    expect(component.get('X')).toBe(1)
+  })
+
+  it('should ignore a nearby island and report the distance to the actual start', () => {
+    const snap = snapToNetwork(graph, 43.6007, 1.4411)!
+
+    expect(snap.component).toBe(0)
+    expect(snap.edgeId).toMatch(/^(A-B|B-A)$/)
+    expect(snap.nodeId).toBe('B')
+    expect(snap.edgeDistance).toBeCloseTo(78, 0)
+    expect(snap.distance).toBeGreaterThan(snap.edgeDistance)
+  })
+
+  it('should project onto the geometry of compound edges', () => {
+    const simplified = simplifyGraph(graph)
+    expect(simplified.nodes.has('E')).toBe(false)
+
+    const snap = snapToNetwork(simplified, 43.6020, 1.4438)!
+    expect(snap.edgeId).toMatch(/^(C-F|F-C)$/)
+    expect(snap.edgeDistance).toBeLessThan(20)
+    expect(snap.nodeId).toBe('F')
+  })
+
+  it('should keep end points on the component of the start', () => {
+    const components = connectedComponents(graph)
+
+    expect(snapToNetwork(graph, 43.6008, 1.4411, { components, radius: 50 })!.component).toBe(1)
+    expect(snapToNetwork(graph, 43.6008, 1.4411, { components, radius: 50, component: 0 })!.nodeId).toBe('B')
+    expect(snapToNetwork(graph, 43.6008, 1.4411, { components, radius: 20, component: 0 })).toBeNull()
+    expect(snapToNetwork(graph, 43.7, 1.6)).toBeNull()
+  })
+
+  it('should start in the middle of a long chain instead of at its far ends', () => {
+    // Sentier de 20 tronçons (~40 m chacun) entre deux carrefours G et H, d'où partent des pistes
+    const ids = ['G', ...Array.from({ length: 19 }, (_, i) => `P${i + 1}`), 'H']
+    ids.forEach((id, i) => graph.nodes.set(id, { id, osmId: id, lat: 43.6100, lon: 1.4400 + 0.0005 * i, connections: [] }))
+    graph.nodes.set('G2', { id: 'G2', osmId: 'G2', lat: 43.6110, lon: 1.4400, connections: [] })
+    graph.nodes.set('H2', { id: 'H2', osmId: 'H2', lat: 43.6110, lon: 1.4500, connections: [] })
+    ids.slice(1).forEach((id, i) => addEdge(ids[i], id))
+    addEdge('G', 'G2', { highway: 'track' })
+    addEdge('H', 'H2', { highway: 'track' })
+    const simplified = simplifyGraph(graph)
+    const chainLength = simplified.edges.get('G-H')!.distance
+    expect(simplified.edges.get('G-H')!.via).toHaveLength(19)
+
+    // Sur le graphe simplifié seul, le départ part à ~400 m le long du sentier
+    expect(snapToNetwork(simplified, 43.6101, 1.4450)!.distance).toBeGreaterThan(300)
+
+    const snap = snapToSimplifiedNetwork(simplified, graph, 43.6101, 1.4450)!
+    expect(snap.nodeId).toBe('P10')
+    expect(snap.distance).toBeLessThan(15)
+    expect(simplified.edges.has('G-H')).toBe(false)
+    expect(simplified.edges.get('G-P10')!.via).toHaveLength(9)
+    expect(simplified.edges.get('P10-G')!.distance + simplified.edges.get('P10-H')!.distance).toBeCloseTo(chainLength, 6)
+    expect(simplified.nodes.get('G')!.connections).toContain('P10')
+    expect(simplified.nodes.get('P10')!.connections.sort()).toEqual(['G', 'H'])
+    const expanded = expandPath(simplified, { loop: ['P10', 'H', 'H2'], pathEdges: ['P10-H', 'H-H2'] })
+    expect(expanded.loop).toEqual([...ids.slice(10), 'H2'])
+
+    // Près d'un carrefour (P1 à ~40 m), le départ reste sur le carrefour sans modifier le graphe simplifié
+    const nearJunction = snapToSimplifiedNetwork(simplified, graph, 43.6101, 1.4405, { tolerance: 50 })!
+    expect(nearJunction.nodeId).toBe('G')
+    expect(nearJunction.distance).toBeGreaterThan(40)
+    expect(simplified.nodes.has('P1')).toBe(false)
+  })
+})
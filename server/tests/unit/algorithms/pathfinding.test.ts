@@ -120,6 +120,30 @@ describe('Pathfinding Algorithms', () => {
       expect(result).toBeNull()
     })
 
+    it('should prefer a shorter multi-edge path over a longer direct edge', () => {
+      mockGraph.nodes.get('A')!.connections.push('D')
+      mockGraph.nodes.get('D')!.connections.push('A')
+      mockGraph.edges.set('A-D', { id: 'A-D', osmWayId: 'way4', from: 'A', to: 'D', distance: 5000, weight: 5000 })
+      mockGraph.edges.set('D-A', { id: 'D-A', osmWayId: 'way4', from: 'D', to: 'A', distance: 5000, weight: 5000 })
+
+      const result = dijkstra(mockGraph, 'A', 'D', 10000, 1000)
+
+      expect(result!.path).toEqual(['A', 'B', 'C', 'D'])
+      expect(result!.distance).toBe(3000)
+    })
+
+    it('should apply edge weight multipliers but report real distance', () => {
+      mockGraph.nodes.get('A')!.connections.push('D')
+      mockGraph.nodes.get('D')!.connections.push('A')
+      mockGraph.edges.set('A-D', { id: 'A-D', osmWayId: 'way4', from: 'A', to: 'D', distance: 4000, weight: 4000 })
+      mockGraph.edges.set('D-A', { id: 'D-A', osmWayId: 'way4', from: 'D', to: 'A', distance: 4000, weight: 4000 })
+
+      const result = dijkstra(mockGraph, 'A', 'D', 100000, 1000, undefined, (edgeId) => edgeId === 'B-C' ? 10 : 1)
+
+      expect(result!.path).toEqual(['A', 'D'])
+      expect(result!.distance).toBe(4000)
+    })
+
     it('should return path with single node if start equals end', () => {
       const result = dijkstra(mockGraph, 'A', 'A', 10000, 1000)
 
@@ -158,6 +182,23 @@ describe('Pathfinding Algorithms', () => {
 
       expect(result).toBeNull()
     })
+
+    it('should match dijkstra on a graph with a longer shortcut', () => {
+      mockGraph.nodes.get('A')!.connections.push('D')
+      mockGraph.nodes.get('D')!.connections.push('A')
+      mockGraph.edges.set('A-D', { id: 'A-D', osmWayId: 'way4', from: 'A', to: 'D', distance: 5000, weight: 5000 })
+      mockGraph.edges.set('D-A', { id: 'D-A', osmWayId: 'way4', from: 'D', to: 'A', distance: 5000, weight: 5000 })
+
+      const result = astar(mockGraph, 'A', 'D', 10000, 1000)
+
+      expect(result).toEqual(dijkstra(mockGraph, 'A', 'D', 10000, 1000))
+    })
+
+    it('should respect forbidden edges', () => {
+      const result = astar(mockGraph, 'A', 'D', 10000, 1000, new Set(['C-D']))
+
+      expect(result).toBeNull()
+    })
   })
 })
 
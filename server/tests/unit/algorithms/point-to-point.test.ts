@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { generatePointToPoint } from '../../../src/algorithms/point-to-point.js'
+import { Graph, GraphNode, GraphEdge } from '../../../src/services/graph-builder.js'
+
+describe('Point to point routing', () => {
+  let graph: Graph
+
+  const addEdge = (from: string, to: string, distance: number, tags: Record<string, string> = { highway: 'path' }) => {
+    for (const [a, b] of [[from, to], [to, from]]) {
+      const edge: GraphEdge = { id: `${a}-${b}`, osmWayId: `${from}${to}`, from: a, to: b, distance, weight: distance, tags }
+      graph.edges.set(edge.id, edge)
+      graph.nodes.get(a)!.connections.push(b)
+    }
+  }
+
+  beforeEach(() => {
+    graph = { nodes: new Map<string, GraphNode>(), edges: new Map<string, GraphEdge>() }
+    // Ligne A - B - C avec un raccourci A - C de mauvaise qualité, et une antenne B - D
+    const coords: Record<string, [number, number]> = {
+      A: [43.578, 1.450],
+      B: [43.579, 1.455],
+      C: [43.578, 1.460],
+      D: [43.583, 1.455]
+    }
+    for (const [id, [lat, lon]] of Object.entries(coords)) {
+      graph.nodes.set(id, { id, osmId: id, lat, lon, connections: [] })
+    }
+    addEdge('A', 'B', 450)
+    addEdge('B', 'C', 450)
+    addEdge('A', 'C', 850, { highway: 'primary' })
+    addEdge('B', 'D', 450)
+  })
+
+  it('should route from start to end', () => {
+    const { route } = generatePointToPoint(graph, { startNodeId: 'A', endNodeId: 'C' })
+
+    expect(route).not.toBeNull()
+    expect(route!.loop[0]).toBe('A')
+    expect(route!.loop[route!.loop.length - 1]).toBe('C')
+    expect(route!.pathEdges.length).toBe(route!.loop.length - 1)
+  })
+
+  it('should pass through via points in order', () => {
+    const { route, debug } = generatePointToPoint(graph, { startNodeId: 'A', endNodeId: 'C', viaNodeIds: ['D'] })
+
+    expect(route!.loop).toEqual(['A', 'B', 'D', 'B', 'C'])
+    expect(route!.distance).toBe(1800)
+    expect(debug.legs).toHaveLength(2)
+  })
+
+  it('should return null when a stop is unknown', () => {
+    const { route, debug } = generatePointToPoint(graph, { startNodeId: 'A', endNodeId: 'Z' })
+
+    expect(route).toBeNull()
+    expect(debug.warnings.length).toBeGreaterThan(0)
+  })
+})
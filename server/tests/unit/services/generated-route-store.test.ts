@@ -0,0 +1,56 @@
+import { describe, it, expect, afterEach, jest } from '@jest/globals'
+import {
+  rememberGeneratedRoute,
+  getGeneratedRoute,
+  getSavedRouteId,
+  markGeneratedRouteSaved
+} from '../../../src/services/generated-route-store.js'
+import { AssembledRoute } from '../../../src/services/route-assembler.js'
+
+describe('Generated route store', () => {
+  const routeOf = (id: string) => ({ id, name: `Boucle ${id}` }) as AssembledRoute
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should return a remembered route until it expires after one hour', () => {
+    const now = Date.now()
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now)
+    rememberGeneratedRoute(routeOf('generated_ttl'))
+
+    clock.mockReturnValue(now + 59 * 60 * 1000)
+    expect(getGeneratedRoute('generated_ttl')?.name).toBe('Boucle generated_ttl')
+
+    clock.mockReturnValue(now + 61 * 60 * 1000)
+    expect(getGeneratedRoute('generated_ttl')).toBeNull()
+    expect(getGeneratedRoute('generated_unknown')).toBeNull()
+  })
+
+  it('should evict the oldest routes beyond 500 entries', () => {
+    rememberGeneratedRoute(routeOf('generated_oldest'))
+    for (let i = 0; i < 500; i++) rememberGeneratedRoute(routeOf(`generated_${i}`))
+
+    expect(getGeneratedRoute('generated_oldest')).toBeNull()
+    expect(getGeneratedRoute('generated_0')).not.toBeNull()
+    expect(getGeneratedRoute('generated_499')).not.toBeNull()
+  })
+
+  it('should remember the saved route id per user', () => {
+    rememberGeneratedRoute(routeOf('generated_saved'))
+    expect(getSavedRouteId('generated_saved', 'user_a')).toBeNull()
+
+    markGeneratedRouteSaved('generated_saved', 'user_a', 'route_a')
+    markGeneratedRouteSaved('generated_saved', 'user_b', 'route_b')
+
+    expect(getSavedRouteId('generated_saved', 'user_a')).toBe('route_a')
+    expect(getSavedRouteId('generated_saved', 'user_b')).toBe('route_b')
+    expect(getSavedRouteId('generated_saved', 'user_c')).toBeNull()
+  })
+
+  it('should ignore saves of routes no longer in memory', () => {
+    markGeneratedRouteSaved('generated_gone', 'user_a', 'route_a')
+
+    expect(getSavedRouteId('generated_gone', 'user_a')).toBeNull()
+  })
+})
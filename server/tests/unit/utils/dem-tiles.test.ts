@@ -0,0 +1,97 @@
+import { describe, it, expect } from '@jest/globals'
+import { deflateSync } from 'zlib'
+import { parseHgt, parseGeoTiff, hgtTileName, bilinearElevation } from '../../../src/utils/dem-tiles.js'
+
+// GeoTIFF minimal (little-endian, une bande int16, une seule bande de données)
+function buildGeoTiff(values: number[][], options: { deflate?: boolean, predictor?: boolean, pixelIsPoint?: boolean } = {}): Buffer {
+  const height = values.length, width = values[0].length
+  const raw = Buffer.alloc(width * height * 2)
+  values.flat().forEach((v, i) => raw.writeInt16LE(v, i * 2))
+  if (options.predictor) {
+    for (let r = 0; r < height; r++) {
+      for (let c = width - 1; c > 0; c--) {
+        raw.writeInt16LE((values[r][c] - values[r][c - 1]) << 16 >> 16, (r * width + c) * 2)
+      }
+    }
+  }
+  const pixels = options.deflate ? deflateSync(raw) : raw
+
+  const doubles = (list: number[]) => { const b = Buffer.alloc(list.length * 8); list.forEach((v, i) => b.writeDoubleLE(v, i * 8)); return b }
+  const shorts = (list: number[]) => { const b = Buffer.alloc(list.length * 2); list.forEach((v, i) => b.writeUInt16LE(v, i * 2)); return b }
+  const extra: Array<{ tag: number, type: number, count: number, data: Buffer }> = [
+    { tag: 33550, type: 12, count: 3, data: doubles([0.5, 0.5, 0]) },
+    { tag: 33922, type: 12, count: 6, data: doubles([0, 0, 0, 1, 44, 0]) },
+    { tag: 34735, type: 3, count: 8, data: shorts([1, 1, 0, 1, 1025, 0, 1, options.pixelIsPoint ? 2 : 1]) }
+  ]
+  const entries: Array<[number, number, number, number]> = [
+    [256, 3, 1, width], [257, 3, 1, height], [258, 3, 1, 16],
+    [259, 3, 1, options.deflate ? 8 : 1], [273, 4, 1, 0], [277, 3, 1, 1], [278, 3, 1, height],
+    [279, 4, 1, pixels.length], [317, 3, 1, options.predictor ? 2 : 1], [339, 3, 1, 2]
+  ]
+  const count = entries.length + extra.length
+  const ifdSize = 2 + count * 12 + 4
+  let offset = 8 + ifdSize
+  const blobs: Buffer[] = []
+  const all = [...entries.map(([tag, type, n, value]) => ({ tag, type, count: n, value } as any)), ...extra]
+  for (const entry of all) {
+    if (entry.data) { entry.value = offset; blobs.push(entry.data); offset += entry.data.length }
+  }
+  const pixelOffset = offset
+  all.find(e => e.tag === 273)!.value = pixelOffset
+
+  const header = Buffer.alloc(8 + ifdSize)
+  header.write('II', 0, 'latin1'); header.writeUInt16LE(42, 2); header.writeUInt32LE(8, 4)
+  header.writeUInt16LE(count, 8)
+  all.sort((a, b) => a.tag - b.tag).forEach((e, i) => {
+    const at = 10 + i * 12
+    header.writeUInt16LE(e.tag, at); header.writeUInt16LE(e.type, at + 2); header.writeUInt32LE(e.count, at + 4)
+    if (e.type === 3 && !e.data) header.writeUInt16LE(e.value, at + 8)
+    else header.writeUInt32LE(e.value, at + 8)
+  })
+  return Buffer.concat([header, ...blobs, pixels])
+}
+
+describe('DEM tiles', () => {
+  it('should name SRTM tiles after their south-west corner', () => {
+    expect(hgtTileName(43.6, 1.44)).toBe('N43E001')
+    expect(hgtTileName(-22.9, -43.2)).toBe('S23W044')
+  })
+
+  it('should read a .hgt tile and interpolate bilinearly', () => {
+    // Tuile 3 × 3 (pas de 0,5°), lignes du nord au sud
+    const values = [100, 200, 300, 400, 500, 600, 700, 800, -32768]
+    const buffer = Buffer.alloc(values.length * 2)
+    values.forEach((v, i) => buffer.writeInt16BE(v, i * 2))
+    const tile = parseHgt(buffer, 'N43E001.hgt')
+
+    expect(tile.north).toBe(44)
+    expect(bilinearElevation(tile, 44, 1)).toBe(100)
+    expect(bilinearElevation(tile, 43.75, 1.25)).toBeCloseTo(300)
+    expect(bilinearElevation(tile, 43.5, 1.5)).toBe(500)
+    // Vide SRTM ignoré : moyenne pondérée des trois voisins valides
+    expect(bilinearElevation(tile, 43.25, 1.75)).toBeCloseTo((500 + 600 + 800) / 3)
+    expect(bilinearElevation(tile, 42.9, 1.5)).toBeNull()
+  })
+
+  it('should read georeferenced GeoTIFF rasters', () => {
+    const grid = [[10, 20, 30], [40, 50, 60]]
+    const tile = parseGeoTiff(buildGeoTiff(grid))
+
+    // Pixel-is-area : le centre du premier pixel est à un demi-pas du coin
+    expect(tile.west).toBeCloseTo(1.25)
+    expect(tile.north).toBeCloseTo(43.75)
+    expect(bilinearElevation(tile, 43.75, 1.25)).toBe(10)
+    expect(bilinearElevation(tile, 43.5, 1.5)).toBeCloseTo(30)
+
+    const point = parseGeoTiff(buildGeoTiff(grid, { pixelIsPoint: true }))
+    expect(point.west).toBe(1)
+    expect(point.north).toBe(44)
+  })
+
+  it('should decode Deflate-compressed GeoTIFF with horizontal predictor', () => {
+    const grid = [[-5, 120, 80], [300, 290, 1000]]
+    const tile = parseGeoTiff(buildGeoTiff(grid, { deflate: true, predictor: true }))
+
+    expect(Array.from(tile.data)).toEqual(grid.flat())
+  })
+})
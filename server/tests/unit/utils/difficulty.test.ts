@@ -0,0 +1,56 @@
+import { describe, it, expect } from '@jest/globals'
+import { estimateDifficulty, difficultyGap } from '../../../src/utils/difficulty.js'
+import { classifyEdgeSurface, terrainWeightMultiplier } from '../../../src/utils/surface-classifier.js'
+import { GraphEdge } from '../../../src/services/graph-builder.js'
+
+const edge = (tags: Record<string, string>): GraphEdge => ({
+  id: 'a-b',
+  osmWayId: '1',
+  from: 'a',
+  to: 'b',
+  distance: 100,
+  weight: 100,
+  surface: tags.surface,
+  highway_type: tags.highway,
+  tags
+})
+
+describe('Difficulty', () => {
+  it('should rate a short flat paved loop as easy', () => {
+    expect(estimateDifficulty({ distanceKm: 5, elevationGain: 20, unpavedRatio: 0 })).toBe('easy')
+  })
+
+  it('should make elevation gain increase difficulty', () => {
+    const flat = estimateDifficulty({ distanceKm: 10, elevationGain: 0, unpavedRatio: 0 })
+    const hilly = estimateDifficulty({ distanceKm: 10, elevationGain: 800, unpavedRatio: 0 })
+
+    expect(flat).toBe('medium')
+    expect(hilly).toBe('hard')
+  })
+
+  it('should rate long mountain loops as expert', () => {
+    expect(estimateDifficulty({ distanceKm: 25, elevationGain: 1200, unpavedRatio: 1 })).toBe('expert')
+  })
+
+  it('should compute the gap between levels', () => {
+    expect(difficultyGap('easy', 'expert')).toBe(3)
+    expect(difficultyGap('hard', 'hard')).toBe(0)
+  })
+})
+
+describe('Surface classifier', () => {
+  it('should not treat "unpaved" as paved', () => {
+    expect(classifyEdgeSurface(edge({ highway: 'track', surface: 'unpaved' }))).toBe('unpaved')
+    expect(classifyEdgeSurface(edge({ highway: 'path', surface: 'asphalt' }))).toBe('paved')
+  })
+
+  it('should penalise edges that do not match the terrain preference', () => {
+    const paved = edge({ highway: 'residential', surface: 'asphalt' })
+    const dirt = edge({ highway: 'path', surface: 'dirt' })
+
+    expect(terrainWeightMultiplier(paved, 'paved')).toBe(1)
+    expect(terrainWeightMultiplier(dirt, 'paved')).toBeGreaterThan(1)
+    expect(terrainWeightMultiplier(dirt, 'unpaved')).toBe(1)
+    expect(terrainWeightMultiplier(dirt, 'mixed')).toBe(1)
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, it, expect } from '@jest/globals'
+import { estimateDuration, segmentMinutes, surfaceFactor, defaultDurationModel } from '../../../src/utils/duration-model.js'
+
+describe('Duration model', () => {
+  const flat = { distance: 1000, elevationDelta: 0, surface: 'asphalt' }
+
+  it('should apply Naismith: 5 km/h plus 1 h per 600 m of ascent', () => {
+    expect(segmentMinutes({ distance: 5000, elevationDelta: 0, surface: 'asphalt' }, 'naismith', 12)).toBeCloseTo(60)
+    expect(segmentMinutes({ distance: 5000, elevationDelta: 600, surface: 'asphalt' }, 'naismith', 12)).toBeCloseTo(120)
+  })
+
+  it('should apply Langmuir corrections on descents', () => {
+    // Descente douce (~6°) : -10 min par 300 m ; raide (~17°) : +10 min par 300 m
+    expect(segmentMinutes({ distance: 3000, elevationDelta: -300, surface: 'asphalt' }, 'naismith', 12)).toBeCloseTo(36 - 10)
+    expect(segmentMinutes({ distance: 1000, elevationDelta: -300, surface: 'asphalt' }, 'naismith', 12)).toBeCloseTo(12 + 10)
+  })
+
+  it('should be fastest on a slight descent with Tobler and the running cost model', () => {
+    for (const model of ['tobler', 'running'] as const) {
+      const down = segmentMinutes({ ...flat, elevationDelta: -50 }, model, 6)
+      const level = segmentMinutes(flat, model, 6)
+      const up = segmentMinutes({ ...flat, elevationDelta: 100 }, model, 6)
+      expect(down).toBeLessThan(level)
+      expect(up).toBeGreaterThan(level * 1.3)
+    }
+    expect(segmentMinutes(flat, 'tobler', 6)).toBeCloseTo(6)
+  })
+
+  it('should slow down on natural surfaces', () => {
+    expect(surfaceFactor('asphalt')).toBe(1)
+    expect(surfaceFactor('dirt')).toBeGreaterThan(1)
+    expect(surfaceFactor('mud')).toBeGreaterThan(surfaceFactor('dirt'))
+    expect(segmentMinutes({ ...flat, surface: 'mud' }, 'running', 5)).toBeGreaterThan(segmentMinutes(flat, 'running', 5))
+  })
+
+  it('should split the estimate per kilometre', () => {
+    const estimate = estimateDuration([
+      { distance: 1500, elevationDelta: 0, surface: 'asphalt' },
+      { distance: 1000, elevationDelta: 100, surface: 'asphalt' }
+    ], { model: 'naismith', pace: 12 })
+
+    expect(estimate.splits.map(s => s.distance)).toEqual([1000, 1000, 500])
+    expect(estimate.splits[0].duration).toBeCloseTo(12)
+    expect(estimate.splits[1].ascent).toBe(50)
+    expect(estimate.splits.reduce((sum, s) => sum + s.duration, 0)).toBeCloseTo(30 + 100 * 60 / 600, 0)
+    expect(estimate.duration).toBe(40)
+  })
+
+  it('should pick the running model for running paces', () => {
+    expect(defaultDurationModel()).toBe('running')
+    expect(defaultDurationModel(5)).toBe('running')
+    expect(defaultDurationModel(12)).toBe('naismith')
+  })
+})
@@ -0,0 +1,56 @@
+import { describe, it, expect } from '@jest/globals'
+import { resampleLine, smoothElevations, analyseElevationProfile } from '../../../src/utils/elevation-analysis.js'
+
+describe('Elevation analysis', () => {
+  // ~1 km vers le nord (1° de latitude ≈ 111,2 km)
+  const northKm = (km: number) => km / 111.195
+
+  it('should resample the geometry at fixed distance intervals', () => {
+    const samples = resampleLine([[1.45, 43.5], [1.45, 43.5 + northKm(0.25)], [1.45, 43.5 + northKm(1.01)]], 100)
+
+    expect(samples.map(s => Math.round(s.distance))).toEqual([0, 100, 200, 300, 400, 500, 600, 700, 800, 900, 1000, 1010])
+    expect(samples[5].coordinate[1]).toBeCloseTo(43.5 + northKm(0.5), 6)
+  })
+
+  it('should interpolate elevations of 3D tracks', () => {
+    const samples = resampleLine([[1.45, 43.5, 100], [1.45, 43.5 + northKm(0.2), 140]], 50)
+
+    expect(samples.map(s => Math.round(s.elevation!))).toEqual([100, 110, 120, 130, 140])
+  })
+
+  it('should ignore noise below the hysteresis threshold', () => {
+    const noisy = [100, 102, 99, 101, 100, 103, 98, 100]
+    expect(analyseElevationProfile(noisy.map((_, i) => i * 25), noisy).gain).toBe(0)
+
+    const climb = [100, 103, 101, 106, 104, 110, 108, 115]
+    expect(smoothElevations(climb)).toEqual([100, 100, 100, 106, 106, 106, 106, 115])
+    expect(analyseElevationProfile(climb.map((_, i) => i * 25), climb).gain).toBe(15)
+  })
+
+  it('should smooth with a centred moving average', () => {
+    expect(smoothElevations([0, 0, 30, 0, 0], { method: 'moving-average', window: 3 })).toEqual([0, 10, 10, 10, 0])
+  })
+
+  it('should find the steepest sections and grades', () => {
+    // 2 km : plat 500 m, montée de 60 m sur 300 m (20 %), puis pente douce
+    const distances = Array.from({ length: 81 }, (_, i) => i * 25)
+    const elevations = distances.map(d => d <= 500 ? 200 : d <= 800 ? 200 + (d - 500) * 0.2 : 260 + (d - 800) * 0.02)
+    const analysis = analyseElevationProfile(distances, elevations, { method: 'none' })
+
+    expect(analysis.gain).toBe(84)
+    expect(analysis.loss).toBe(0)
+    expect(analysis.maxGrade).toBe(20)
+    expect(analysis.averageGrade).toBeCloseTo(4.2)
+    expect(analysis.steepest100m!.grade).toBe(20)
+    expect(analysis.steepest100m!.start).toBeGreaterThanOrEqual(500)
+    expect(analysis.steepest100m!.end).toBeLessThanOrEqual(800)
+    expect(analysis.steepest1km!.grade).toBeCloseTo(7.4, 1)
+  })
+
+  it('should not report sections longer than the profile', () => {
+    const analysis = analyseElevationProfile([0, 50], [100, 105])
+
+    expect(analysis.steepest100m).toBeNull()
+    expect(analysis.steepest1km).toBeNull()
+  })
+})
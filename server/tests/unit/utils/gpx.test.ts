@@ -0,0 +1,46 @@
+import { describe, it, expect } from '@jest/globals'
+import { buildGpx, gpxFileName, trackElevations } from '../../../src/utils/gpx.js'
+
+describe('GPX export', () => {
+  const coordinates = [[1.45, 43.578], [1.451, 43.578], [1.452, 43.578]]
+
+  it('should write a GPX 1.1 track with every coordinate', () => {
+    const gpx = buildGpx({
+      name: 'Boucle <test> & co',
+      description: 'Sortie du dimanche',
+      coordinates,
+      waypoints: [
+        { lat: 43.578, lon: 1.45, name: 'Départ', type: 'start' },
+        { lat: 43.578, lon: 1.452, name: 'Arrivée', type: 'end' }
+      ]
+    })
+
+    expect(gpx).toContain('<gpx version="1.1"')
+    expect(gpx).toContain('<name>Boucle &lt;test&gt; &amp; co</name>')
+    expect(gpx).toContain('<desc>Sortie du dimanche</desc>')
+    expect(gpx.match(/<trkpt /g)).toHaveLength(3)
+    expect(gpx.match(/<wpt /g)).toHaveLength(2)
+  })
+
+  it('should interpolate elevations from the sampled profile', () => {
+    const elevations = trackElevations(coordinates, [
+      { distance: 0, elevation: 100 },
+      { distance: 0.16, elevation: 120 }
+    ])
+
+    expect(elevations[0]).toBe(100)
+    expect(elevations[1]).toBeCloseTo(110, 0)
+    expect(elevations[2]).toBe(120)
+  })
+
+  it('should prefer elevations carried by the coordinates', () => {
+    const gpx = buildGpx({ name: 'x', coordinates: [[1.45, 43.578, 210], [1.451, 43.578, 215]] })
+
+    expect(gpx).toContain('<ele>210.0</ele>')
+    expect(gpx).toContain('<ele>215.0</ele>')
+  })
+
+  it('should derive a safe file name', () => {
+    expect(gpxFileName('Boucle de 10.2 km à Toulouse')).toBe('boucle-de-10-2-km-a-toulouse.gpx')
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, it, expect } from '@jest/globals'
+import { isOpenAt, parseOpeningHours, LocalDateTime } from '../../../src/utils/opening-hours.js'
+
+// Mercredi 15 juillet 2026 à l'heure donnée
+const at = (time: string, overrides: Partial<LocalDateTime> = {}): LocalDateTime => {
+  const [h, m] = time.split(':').map(Number)
+  return { year: 2026, month: 6, day: 15, weekday: 3, minutes: h * 60 + m, ...overrides }
+}
+
+describe('opening_hours', () => {
+  it('should evaluate simple time ranges and 24/7', () => {
+    expect(isOpenAt('24/7', at('03:00'))).toBe(true)
+    expect(isOpenAt('08:00-20:00', at('07:59'))).toBe(false)
+    expect(isOpenAt('08:00-20:00', at('08:00'))).toBe(true)
+    expect(isOpenAt('08:00-20:00', at('20:00'))).toBe(false)
+  })
+
+  it('should apply weekday and month selectors, later rules overriding earlier ones', () => {
+    const hours = 'Mo-Fr 07:00-21:00; Sa,Su 09:00-19:00; We off'
+    expect(isOpenAt(hours, at('10:00'))).toBe(false)
+    expect(isOpenAt(hours, at('08:00', { weekday: 1 }))).toBe(true)
+    expect(isOpenAt(hours, at('08:00', { weekday: 0 }))).toBe(false)
+
+    const seasonal = 'Apr-Sep 07:00-22:00; Oct-Mar 08:00-18:00'
+    expect(isOpenAt(seasonal, at('21:00'))).toBe(true)
+    expect(isOpenAt(seasonal, at('21:00', { month: 11 }))).toBe(false)
+  })
+
+  it('should handle ranges past midnight from the previous day', () => {
+    expect(isOpenAt('Tu 20:00-02:00', at('01:30'))).toBe(true)
+    expect(isOpenAt('Tu 20:00-02:00', at('02:30'))).toBe(false)
+    expect(isOpenAt('Mo-Su 06:00-24:00', at('23:59'))).toBe(true)
+  })
+
+  it('should resolve sunrise and sunset when sun times are known', () => {
+    const sun = { sunrise: 6 * 60, sunset: 21 * 60 }
+    expect(isOpenAt('sunrise-sunset', at('05:00'), sun)).toBe(false)
+    expect(isOpenAt('sunrise-sunset', at('12:00'), sun)).toBe(true)
+    expect(isOpenAt('sunrise-sunset', at('12:00'))).toBeUndefined()
+  })
+
+  it('should leave unsupported values undetermined', () => {
+    expect(parseOpeningHours('PH off')).toBeNull()
+    expect(isOpenAt('Mo-Fr 08:00-18:00 "sur rendez-vous"', at('10:00'))).toBeUndefined()
+    expect(isOpenAt('', at('10:00'))).toBeUndefined()
+  })
+})
@@ -0,0 +1,83 @@
+import { describe, it, expect } from '@jest/globals'
+import { footAccess, footOneway, isImpassableNode } from '../../../src/utils/osm-access.js'
+import { buildGraph } from '../../../src/services/graph-builder.js'
+import { astar } from '../../../src/algorithms/pathfinding.js'
+import { convertGeoJSONToOSM } from '../../../src/utils/format-adapter.js'
+
+// Chaîne 1 - 2 - 3 - 4 en ligne droite (~111 m par tronçon)
+const chain = (ways: Array<{ nodes: number[], tags: Record<string, string> }>, nodeTags: Record<number, Record<string, string>> = {}) => ({
+  elements: [
+    ...[1, 2, 3, 4].map(id => ({ type: 'node', id, lat: 43.6 + id * 0.001, lon: 1.44, ...(nodeTags[id] ? { tags: nodeTags[id] } : {}) })),
+    ...ways.map((way, i) => ({ type: 'way', id: 10 + i, ...way }))
+  ]
+})
+
+describe('OSM access tags', () => {
+  it('should let foot override access', () => {
+    expect(footAccess({ access: 'private' })).toBe('no')
+    expect(footAccess({ access: 'no', foot: 'yes' })).toBe('yes')
+    expect(footAccess({ access: 'yes', foot: 'no' })).toBe('no')
+    expect(footAccess({ access: 'destination' })).toBe('discouraged')
+    expect(footAccess({})).toBe('yes')
+  })
+
+  it('should read oneway:foot, and oneway on pedestrian ways only', () => {
+    expect(footOneway({ highway: 'residential', oneway: 'yes' })).toBe(0)
+    expect(footOneway({ highway: 'residential', oneway: 'yes', 'oneway:foot': 'yes' })).toBe(1)
+    expect(footOneway({ highway: 'footway', oneway: '-1' })).toBe(-1)
+    expect(footOneway({ highway: 'path', oneway: 'yes', 'oneway:foot': 'no' })).toBe(0)
+  })
+
+  it('should only block locked or forbidden barriers', () => {
+    expect(isImpassableNode({ barrier: 'gate' })).toBe(false)
+    expect(isImpassableNode({ barrier: 'gate', locked: 'yes' })).toBe(true)
+    expect(isImpassableNode({ barrier: 'gate', access: 'private' })).toBe(true)
+    expect(isImpassableNode({ barrier: 'gate', access: 'private', foot: 'yes' })).toBe(false)
+    expect(isImpassableNode({ barrier: 'fence' })).toBe(true)
+    expect(isImpassableNode({ barrier: 'stile' })).toBe(false)
+  })
+})
+
+describe('Graph restrictions', () => {
+  it('should skip ways forbidden to pedestrians and penalise discouraged ones', () => {
+    const graph = buildGraph(chain([
+      { nodes: [1, 2], tags: { highway: 'service', access: 'private' } },
+      { nodes: [2, 3], tags: { highway: 'track', access: 'agricultural' } },
+      { nodes: [3, 4], tags: { highway: 'service', access: 'private', foot: 'yes' } }
+    ]))
+
+    expect(graph.edges.has('osm_node_1-osm_node_2')).toBe(false)
+    expect(graph.edges.get('osm_node_2-osm_node_3')?.accessPenalty).toBeGreaterThan(1)
+    expect(graph.edges.get('osm_node_3-osm_node_4')?.accessPenalty).toBeUndefined()
+  })
+
+  it('should create a single directed edge for oneway:foot ways', () => {
+    const graph = buildGraph(chain([{ nodes: [1, 2, 3, 4], tags: { highway: 'footway', 'oneway:foot': 'yes' } }]))
+
+    expect(graph.edges.has('osm_node_1-osm_node_2')).toBe(true)
+    expect(graph.edges.has('osm_node_2-osm_node_1')).toBe(false)
+    expect(astar(graph, 'osm_node_1', 'osm_node_4', 10000, 100)).not.toBeNull()
+    expect(astar(graph, 'osm_node_4', 'osm_node_1', 10000, 100)).toBeNull()
+  })
+
+  it('should not route through a locked gate', () => {
+    const graph = buildGraph(chain([{ nodes: [1, 2, 3, 4], tags: { highway: 'path' } }], { 3: { barrier: 'gate', locked: 'yes' } }))
+
+    expect(graph.nodes.get('osm_node_3')?.connections).toEqual([])
+    expect(astar(graph, 'osm_node_1', 'osm_node_4', 10000, 100)).toBeNull()
+  })
+
+  it('should keep barrier tags through the GeoJSON conversion', () => {
+    const osm = convertGeoJSONToOSM({
+      features: [{
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: [[1.44, 43.6], [1.44, 43.601], [1.44, 43.602]] },
+        properties: { id: 1, highway: 'path', barriers: { 1: { barrier: 'gate', access: 'no' } }, osm_id: 1 }
+      }]
+    })
+    const graph = buildGraph(osm)
+
+    expect(graph.edges.size).toBe(0)
+    expect((osm.elements.find(e => e.type === 'way') as any).tags.barriers).toBeUndefined()
+  })
+})
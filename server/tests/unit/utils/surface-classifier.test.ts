@@ -0,0 +1,93 @@
+import { describe, it, expect } from '@jest/globals'
+import {
+  classifySurface,
+  computeSurfaceBreakdown,
+  terrainTypeFromBreakdown,
+  terrainWeightMultiplier,
+  unpavedRatio
+} from '../../../src/utils/surface-classifier.js'
+import { buildGraph, Graph, GraphEdge } from '../../../src/services/graph-builder.js'
+
+const edge = (id: string, distance: number, tags: Record<string, string>): GraphEdge => ({
+  id,
+  osmWayId: id,
+  from: 'a',
+  to: 'b',
+  distance,
+  weight: distance,
+  surface: tags.surface,
+  highway_type: tags.highway,
+  tags
+})
+
+describe('Surface classification', () => {
+  it('should map OSM surfaces to fine categories and their class', () => {
+    expect(classifySurface({ surface: 'asphalt' })).toEqual({ category: 'asphalt', class: 'paved', source: 'surface' })
+    expect(classifySurface({ surface: 'paving_stones' })).toMatchObject({ category: 'paving', class: 'paved' })
+    expect(classifySurface({ surface: 'fine_gravel' })).toMatchObject({ category: 'compacted', class: 'mixed' })
+    expect(classifySurface({ surface: 'ground' })).toMatchObject({ category: 'dirt', class: 'unpaved' })
+    expect(classifySurface({ surface: 'unpaved' })).toMatchObject({ category: 'dirt', class: 'unpaved' })
+  })
+
+  it('should take the first value of multi-valued surfaces', () => {
+    expect(classifySurface({ surface: 'Sett;asphalt' })).toMatchObject({ category: 'paving', class: 'paved' })
+  })
+
+  it('should fall back on tracktype, smoothness then highway', () => {
+    expect(classifySurface({ highway: 'track', tracktype: 'grade1' })).toMatchObject({ class: 'paved', source: 'tracktype' })
+    expect(classifySurface({ highway: 'track', tracktype: 'grade4' })).toMatchObject({ category: 'dirt', source: 'tracktype' })
+    expect(classifySurface({ highway: 'path', smoothness: 'intermediate' })).toMatchObject({ class: 'mixed', source: 'smoothness' })
+    expect(classifySurface({ highway: 'residential' })).toMatchObject({ category: 'paved', source: 'highway' })
+    expect(classifySurface({ highway: 'path' })).toMatchObject({ class: 'unpaved', source: 'highway' })
+    expect(classifySurface({})).toMatchObject({ category: 'unknown', class: 'mixed', source: 'default' })
+  })
+
+  it('should let an unknown surface value fall back on the other tags', () => {
+    expect(classifySurface({ surface: 'whatever', highway: 'footway' })).toMatchObject({ class: 'paved', source: 'highway' })
+  })
+
+  it('should store the classification on edges when building the graph', () => {
+    const graph = buildGraph({
+      elements: [
+        { type: 'node', id: 1, lat: 43.6, lon: 1.44 },
+        { type: 'node', id: 2, lat: 43.601, lon: 1.44 },
+        { type: 'way', id: 10, nodes: [1, 2], tags: { highway: 'track', tracktype: 'grade2' } }
+      ]
+    })
+    const built = graph.edges.get('osm_node_2-osm_node_1')!
+    expect(built.surfaceCategory).toBe('compacted')
+    expect(built.surfaceClass).toBe('mixed')
+  })
+})
+
+describe('Surface breakdown', () => {
+  const graph: Graph = {
+    nodes: new Map(),
+    edges: new Map([
+      ['e1', edge('e1', 600, { highway: 'residential', surface: 'asphalt' })],
+      ['e2', edge('e2', 200, { highway: 'footway', surface: 'paving_stones' })],
+      ['e3', edge('e3', 100, { highway: 'track', surface: 'gravel' })],
+      ['e4', edge('e4', 100, { highway: 'path', surface: 'compacted' })]
+    ])
+  }
+
+  it('should group fine categories under paved / unpaved / mixed', () => {
+    const breakdown = computeSurfaceBreakdown(graph, ['e1', 'e2', 'e3', 'e4'])
+    const paved = breakdown[0]
+
+    expect(breakdown.map(b => b.type)).toEqual(['paved', 'unpaved', 'mixed'])
+    expect(paved.percentage).toBeCloseTo(80)
+    expect(paved.categories.map(c => c.category)).toEqual(['asphalt', 'paving'])
+    expect(paved.categories[1].percentage).toBeCloseTo(20)
+    expect(terrainTypeFromBreakdown(breakdown)).toBe('paved')
+    expect(unpavedRatio(breakdown)).toBeCloseTo(0.15)
+  })
+
+  it('should penalise mixed edges less than opposite ones', () => {
+    const mixed = graph.edges.get('e4')!
+    const gravel = graph.edges.get('e3')!
+
+    expect(terrainWeightMultiplier(mixed, 'paved')).toBeGreaterThan(1)
+    expect(terrainWeightMultiplier(mixed, 'paved')).toBeLessThan(terrainWeightMultiplier(gravel, 'paved'))
+  })
+})
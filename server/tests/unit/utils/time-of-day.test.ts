@@ -0,0 +1,70 @@
+import { describe, it, expect } from '@jest/globals'
+import { sunTimes, isDark } from '../../../src/utils/solar.js'
+import { parseStartTime, timeOfDayContext, timeOfDayMultiplier, UNLIT_NIGHT_PENALTY } from '../../../src/utils/time-of-day.js'
+import { buildGraph, GraphEdge } from '../../../src/services/graph-builder.js'
+
+const PARIS = { lat: 48.8566, lon: 2.3522 }
+
+const edge = (tags: Record<string, string>, openingHours?: string[]): GraphEdge => ({
+  id: 'a-b', osmWayId: '1', from: 'a', to: 'b', distance: 100, weight: 100,
+  highway_type: tags.highway, tags, ...(openingHours ? { openingHours } : {})
+})
+
+describe('Sun times', () => {
+  it('should compute sunrise and sunset within a few minutes', () => {
+    const { sunrise, sunset } = sunTimes(new Date('2026-06-21T12:00:00Z'), PARIS.lat, PARIS.lon)
+
+    // Paris au solstice d'été : lever ~03:47 UTC, coucher ~19:58 UTC
+    expect(Math.abs(sunrise!.getTime() - Date.parse('2026-06-21T03:47:00Z'))).toBeLessThan(5 * 60000)
+    expect(Math.abs(sunset!.getTime() - Date.parse('2026-06-21T19:58:00Z'))).toBeLessThan(5 * 60000)
+    expect(isDark(new Date('2026-06-21T02:30:00Z'), PARIS.lat, PARIS.lon)).toBe(true)
+    expect(isDark(new Date('2026-06-21T10:00:00Z'), PARIS.lat, PARIS.lon)).toBe(false)
+  })
+
+  it('should report polar day and night', () => {
+    expect(sunTimes(new Date('2026-06-21T12:00:00Z'), 78, 15).polar).toBe('day')
+    expect(isDark(new Date('2026-12-21T12:00:00Z'), 78, 15)).toBe(true)
+  })
+})
+
+describe('Time of day routing', () => {
+  it('should read the local time from the offset and require one', () => {
+    const start = parseStartTime('2026-06-21T05:30:00+02:00')!
+    expect(start.utcOffset).toBe(120)
+    expect(start.local).toMatchObject({ year: 2026, month: 5, day: 21, weekday: 0, minutes: 330 })
+    expect(parseStartTime('2026-06-21T03:30:00Z')?.local.minutes).toBe(210)
+    // Sans décalage, le fuseau du départ n'est pas deviné
+    expect(parseStartTime('2026-06-21T05:30')).toBeNull()
+    expect(timeOfDayContext('2026-06-21T05:30', PARIS.lat, PARIS.lon)).toBeNull()
+    expect(parseStartTime('not a date')).toBeNull()
+  })
+
+  it('should penalise unlit edges after dark and forbid closed ones', () => {
+    const night = timeOfDayContext('2026-06-21T04:00:00+02:00', PARIS.lat, PARIS.lon)!
+    const day = timeOfDayContext('2026-06-21T12:00:00+02:00', PARIS.lat, PARIS.lon)!
+
+    expect(night.dark).toBe(true)
+    expect(timeOfDayMultiplier(edge({ highway: 'path' }), night)).toBe(UNLIT_NIGHT_PENALTY)
+    expect(timeOfDayMultiplier(edge({ highway: 'path', lit: 'yes' }), night)).toBe(1)
+    expect(timeOfDayMultiplier(edge({ highway: 'path' }), day)).toBe(1)
+    expect(timeOfDayMultiplier(edge({ highway: 'path', lit: 'yes' }, ['07:00-21:30']), night)).toBe(Infinity)
+    expect(timeOfDayMultiplier(edge({ highway: 'path', opening_hours: 'sunrise-sunset' }), day)).toBe(1)
+  })
+
+  it('should attach the opening hours of enclosing parks and gates to edges', () => {
+    const graph = buildGraph({
+      elements: [
+        { type: 'node', id: 1, lat: 48.85, lon: 2.35, tags: { barrier: 'gate', opening_hours: '08:00-20:00' } },
+        { type: 'node', id: 2, lat: 48.851, lon: 2.35 },
+        { type: 'node', id: 3, lat: 48.852, lon: 2.35 },
+        ...[[11, 48.8508, 2.349], [12, 48.8508, 2.351], [13, 48.853, 2.351], [14, 48.853, 2.349]]
+          .map(([id, lat, lon]) => ({ type: 'node', id, lat, lon })),
+        { type: 'way', id: 20, nodes: [1, 2, 3], tags: { highway: 'footway' } },
+        { type: 'way', id: 21, nodes: [11, 12, 13, 14, 11], tags: { leisure: 'park', opening_hours: 'Mo-Su 07:00-21:00' } }
+      ]
+    })
+
+    expect(graph.edges.get('osm_node_1-osm_node_2')?.openingHours).toEqual(['08:00-20:00'])
+    expect(graph.edges.get('osm_node_2-osm_node_3')?.openingHours).toEqual(['Mo-Su 07:00-21:00'])
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, it, expect } from '@jest/globals'
+import { parseTrackFile, detectTrackFormat } from '../../../src/utils/track-import.js'
+
+const gpx = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test" xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata><name>Sortie &amp; côte</name><desc>Le matin</desc></metadata>
+  <wpt lat="43.578" lon="1.45"><name>Départ</name></wpt>
+  <trk><name>Trace</name><trkseg>
+    <trkpt lat="43.578" lon="1.45"><ele>150</ele><time>2024-05-01T08:00:00Z</time></trkpt>
+    <trkpt lat="43.579" lon="1.451"><ele>160</ele><time>2024-05-01T08:05:00Z</time></trkpt>
+    <trkpt lat="43.580" lon="1.452"><ele>155</ele><time>2024-05-01T08:10:00Z</time></trkpt>
+  </trkseg></trk>
+</gpx>`
+
+const kml = `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2"><Document><name>Boucle KML</name>
+  <Placemark><name>Parking</name><Point><coordinates>1.45,43.578,0</coordinates></Point></Placemark>
+  <Placemark><LineString><coordinates>
+    1.45,43.578,150 1.451,43.579,160
+    1.452,43.580,155
+  </coordinates></LineString></Placemark>
+</Document></kml>`
+
+describe('Track import', () => {
+  it('should parse GPX tracks with elevations, times and waypoints', () => {
+    const track = parseTrackFile(gpx, 'sortie.gpx')
+
+    expect(track.format).toBe('gpx')
+    expect(track.name).toBe('Sortie & côte')
+    expect(track.description).toBe('Le matin')
+    expect(track.coordinates).toEqual([[1.45, 43.578, 150], [1.451, 43.579, 160], [1.452, 43.58, 155]])
+    expect(track.times).toHaveLength(3)
+    expect(track.waypoints).toEqual([{ lat: 43.578, lon: 1.45, name: 'Départ' }])
+  })
+
+  it('should parse KML LineStrings and points', () => {
+    const track = parseTrackFile(kml)
+
+    expect(track.format).toBe('kml')
+    expect(track.name).toBe('Boucle KML')
+    expect(track.coordinates).toHaveLength(3)
+    expect(track.waypoints[0].name).toBe('Parking')
+  })
+
+  it('should parse GeoJSON LineStrings', () => {
+    const geojson = JSON.stringify({
+      type: 'FeatureCollection',
+      features: [{
+        type: 'Feature',
+        properties: { name: 'GeoJSON' },
+        geometry: { type: 'LineString', coordinates: [[1.45, 43.578], [1.451, 43.579]] }
+      }]
+    })
+    const track = parseTrackFile(geojson, 'trace.geojson')
+
+    expect(track.format).toBe('geojson')
+    expect(track.name).toBe('GeoJSON')
+    expect(track.coordinates).toHaveLength(2)
+  })
+
+  it('should skip malformed GeoJSON positions and report unusable files as bad requests', () => {
+    const lineOf = (coordinates: unknown) => JSON.stringify({ type: 'Feature', geometry: { type: 'LineString', coordinates } })
+    const multi = JSON.stringify({
+      type: 'MultiLineString',
+      coordinates: [null, 3, [[1.45, 43.578], null, 'x', [1.451], [1.451, 43.579]]]
+    })
+
+    expect(parseTrackFile(multi, 'trace.geojson').coordinates).toEqual([[1.45, 43.578], [1.451, 43.579]])
+    for (const content of [lineOf(null), lineOf(42), lineOf([null, 7]), '42', 'null', '{"type":"FeatureCollection","features":{}}']) {
+      expect(() => parseTrackFile(content, 'trace.geojson')).toThrow(expect.objectContaining({ statusCode: 400 }))
+    }
+  })
+
+  it('should reject unknown formats and empty tracks', () => {
+    expect(() => detectTrackFormat('hello')).toThrow()
+    expect(() => parseTrackFile('<gpx version="1.1"></gpx>')).toThrow()
+  })
+})